@@ -30,6 +30,7 @@ import CreateResource from "@/pages/create-resource";
 import CareerRecommendations from "@/pages/career-recommendations";
 import ResourceDetail from "@/pages/resource-detail";
 import Forum from "@/pages/forum";
+import ForumThread from "@/pages/forum-thread";
 import Messages from "@/pages/messages";
 import Checkout from "@/pages/checkout";
 import Subscribe from "@/pages/subscribe";
@@ -42,6 +43,10 @@ import PageView from "@/pages/page";
 import About from "@/pages/about";
 import NotFound from "@/pages/not-found";
 import JobApplications from "@/pages/job-applications";
+import TeamInvitation from "@/pages/team-invitation";
+import Unsubscribe from "@/pages/unsubscribe";
+import JobAlerts from "@/pages/job-alerts";
+import AdminConsole from "@/pages/admin";
 import { AuthProvider } from "@/lib/auth";
 
 
@@ -72,8 +77,10 @@ function Router() {
       <Route path="/resources" component={Resources} />
       <Route path="/resource/:id" component={ResourceDetail} />
       <Route path="/forum" component={Forum} />
+      <Route path="/forum/:id" component={ForumThread} />
       <Route path="/about" component={About} />
       <Route path="/pages/:slug" component={PageView} />
+      <Route path="/unsubscribe" component={Unsubscribe} />
       
       {/* Job Applications Route */}
       <ProtectedRoute 
@@ -93,6 +100,11 @@ function Router() {
         component={CompanyDashboard} 
         userTypes={["company"]} 
       />
+      <ProtectedRoute 
+        path="/job-alerts" 
+        component={JobAlerts} 
+        userTypes={["professional"]} 
+      />
 
       <ProtectedRoute 
         path="/edit-profile" 
@@ -160,6 +172,17 @@ function Router() {
         path="/book-consultation/:id" 
         component={BookConsultation} 
       />
+      <ProtectedRoute 
+        path="/team-invitations/:token" 
+        component={TeamInvitation} 
+      />
+
+      {/* Admin console */}
+      <ProtectedRoute 
+        path="/admin-dashboard" 
+        component={AdminConsole} 
+        adminOnly 
+      />
 
       {/* 404 route */}
       <Route component={NotFound} />
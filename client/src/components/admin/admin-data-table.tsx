@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { ADMIN_BULK_ACTIONS, type AdminBulkActionResult, type AdminEntity } from "@shared/admin";
+import { bulkActionPermission, hasPermission } from "@shared/permissions";
+
+export interface AdminColumn<T> {
+  header: string;
+  cell: (row: T) => React.ReactNode;
+  className?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  suspend: "Suspend",
+  reactivate: "Reactivate",
+  verify: "Verify",
+  unverify: "Unverify",
+  feature: "Feature",
+  unfeature: "Unfeature",
+  close: "Close",
+  pin: "Pin",
+  unpin: "Unpin",
+  lock: "Lock",
+  unlock: "Unlock",
+  delete: "Delete",
+};
+
+// Actions that need confirming first
+const DESTRUCTIVE_ACTIONS = ["suspend", "delete"];
+
+interface AdminDataTableProps<T extends { id: number }> {
+  entity: AdminEntity;
+  // Singular and plural name of the records, e.g. ["user", "users"]
+  noun: [string, string];
+  rows: T[];
+  columns: AdminColumn<T>[];
+  // The text the search box matches against
+  searchText: (row: T) => string;
+  isLoading: boolean;
+  // The list's query key, refetched after a bulk action
+  queryKey: string;
+  // Shown under the table, e.g. to load more rows
+  footer?: React.ReactNode;
+}
+
+// A searchable table whose rows can be selected and acted on together
+export default function AdminDataTable<T extends { id: number }>({
+  entity, noun, rows, columns, searchText, isLoading, queryKey, footer,
+}: AdminDataTableProps<T>) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const visibleRows = useMemo(() => {
+    const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return rows;
+    return rows.filter((row) => {
+      const text = searchText(row).toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+  }, [rows, search, searchText]);
+
+  // Only the actions the admin's roles allow
+  const actions = ADMIN_BULK_ACTIONS[entity].filter((action) => hasPermission(user, bulkActionPermission(entity, action)));
+
+  // Rows hidden by the search stay selected but are not acted on
+  const selectedIds = visibleRows.filter((row) => selected.has(row.id)).map((row) => row.id);
+  const allSelected = visibleRows.length > 0 && selectedIds.length === visibleRows.length;
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: string): Promise<AdminBulkActionResult> =>
+      (await apiRequest("POST", "/api/admin/bulk-actions", { entity, action, ids: selectedIds })).json(),
+    onSuccess: (result, action) => {
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/metrics"] });
+      setSelected(new Set(result.failed.map((failure) => failure.id)));
+
+      const label = ACTION_LABELS[action].toLowerCase();
+      const count = (n: number) => `${n} ${n === 1 ? noun[0] : noun[1]}`;
+      if (result.failed.length === 0) {
+        toast({ title: `${ACTION_LABELS[action]} complete`, description: `Applied to ${count(result.succeeded.length)}.` });
+      } else {
+        toast({
+          title: `Could not ${label} ${count(result.failed.length)}`,
+          description: result.failed.slice(0, 3).map((failure) => `#${failure.id}: ${failure.message}`).join(" "),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bulk action failed", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const runAction = (action: string) => {
+    if (DESTRUCTIVE_ACTIONS.includes(action)) {
+      setConfirming(action);
+    } else {
+      actionMutation.mutate(action);
+    }
+  };
+
+  const toggleRow = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id); else next.delete(id);
+    setSelected(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    const next = new Set(selected);
+    visibleRows.forEach((row) => (checked ? next.add(row.id) : next.delete(row.id)));
+    setSelected(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="relative md:w-80">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder={`Search ${noun[1]}`}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">{selectedIds.length} selected</span>
+          {actions.map((action) => (
+            <Button
+              key={action}
+              size="sm"
+              variant={action === "delete" ? "destructive" : "outline"}
+              disabled={selectedIds.length === 0 || actionMutation.isPending}
+              onClick={() => runAction(action)}
+            >
+              {actionMutation.isPending && actionMutation.variables === action && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {ACTION_LABELS[action]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  aria-label={`Select all ${noun[1]}`}
+                />
+              </TableHead>
+              {columns.map((column) => (
+                <TableHead key={column.header} className={column.className}>{column.header}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1} className="h-24 text-center">
+                  <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+                </TableCell>
+              </TableRow>
+            ) : visibleRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1} className="h-24 text-center text-muted-foreground">
+                  No {noun[1]} found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleRows.map((row) => (
+                <TableRow key={row.id} data-state={selected.has(row.id) ? "selected" : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(row.id)}
+                      onCheckedChange={(checked) => toggleRow(row.id, checked === true)}
+                      aria-label={`Select ${noun[0]} ${row.id}`}
+                    />
+                  </TableCell>
+                  {columns.map((column) => (
+                    <TableCell key={column.header} className={column.className}>{column.cell(row)}</TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {footer}
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming && ACTION_LABELS[confirming]} {selectedIds.length} {selectedIds.length === 1 ? noun[0] : noun[1]}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "delete"
+                ? "This permanently deletes them and the records that depend on them. It cannot be undone."
+                : "Suspended users are signed out and cannot sign in until they are reactivated."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirming) actionMutation.mutate(confirming);
+                setConfirming(null);
+              }}
+            >
+              {confirming && ACTION_LABELS[confirming]}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
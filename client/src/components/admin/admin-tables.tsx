@@ -0,0 +1,270 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useInfiniteList, useLoadMoreRef } from "@/lib/queryClient";
+import AdminDataTable, { type AdminColumn } from "./admin-data-table";
+import UserRolesEditor from "./user-roles-editor";
+import type {
+  CompanyProfile, ForumPost, JobPosting, ProfessionalProfile, Resource, SubscriptionPlan, User, UserSubscription
+} from "@shared/schema";
+
+// Dates arrive as ISO strings
+const formatDate = (value: Date | string | null | undefined) => (value ? format(new Date(value), "MMM d, yyyy") : "—");
+
+const flags = (entries: Array<[boolean | null | undefined, string]>) => (
+  <div className="flex flex-wrap gap-1">
+    {entries.filter(([on]) => on).map(([, label]) => (
+      <Badge key={label} variant="secondary">{label}</Badge>
+    ))}
+  </div>
+);
+
+type AdminUser = Omit<User, "password" | "resetToken" | "resetTokenExpiry" | "emailVerificationToken">;
+
+const userColumns: AdminColumn<AdminUser>[] = [
+  { header: "Name", cell: (user) => `${user.firstName} ${user.lastName}` },
+  { header: "Username", cell: (user) => user.username },
+  { header: "Email", cell: (user) => user.email },
+  { header: "Type", cell: (user) => <span className="capitalize">{user.userType}</span> },
+  {
+    header: "Status",
+    cell: (user) => (
+      <Badge variant={user.status === "suspended" ? "destructive" : "outline"} className="capitalize">{user.status}</Badge>
+    ),
+  },
+  { header: "Roles", cell: (user) => <UserRolesEditor user={user} /> },
+  { header: "Joined", cell: (user) => formatDate(user.createdAt) },
+];
+
+// Users are paginated; more load as the admin scrolls
+export function UsersTable() {
+  const usersQuery = useInfiniteList<AdminUser>("/api/admin/users", { limit: 50 });
+  const loadMoreRef = useLoadMoreRef(usersQuery);
+
+  return (
+    <AdminDataTable
+      entity="users"
+      noun={["user", "users"]}
+      rows={usersQuery.items}
+      columns={userColumns}
+      searchText={(user) => `${user.firstName} ${user.lastName} ${user.username} ${user.email} ${user.userType} ${user.status}`}
+      isLoading={usersQuery.isLoading}
+      queryKey="/api/admin/users"
+      footer={
+        <div ref={loadMoreRef} className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>Showing {usersQuery.items.length} of {usersQuery.total} users. Search covers the loaded users.</span>
+          {usersQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+        </div>
+      }
+    />
+  );
+}
+
+const professionalColumns: AdminColumn<ProfessionalProfile>[] = [
+  {
+    header: "Name",
+    cell: (profile) => (
+      <Link href={`/professional-profile/${profile.id}`} className="font-medium hover:underline">
+        {[profile.firstName, profile.lastName].filter(Boolean).join(" ") || `Profile #${profile.id}`}
+      </Link>
+    ),
+  },
+  { header: "Title", cell: (profile) => profile.title || "—" },
+  { header: "Location", cell: (profile) => profile.location || "—" },
+  { header: "Flags", cell: (profile) => flags([[profile.verified, "Verified"], [profile.featured, "Featured"]]) },
+];
+
+export function ProfessionalProfilesTable() {
+  const { data = [], isLoading } = useQuery<ProfessionalProfile[]>({ queryKey: ["/api/admin/professional-profiles"] });
+
+  return (
+    <AdminDataTable
+      entity="professionalProfiles"
+      noun={["profile", "profiles"]}
+      rows={data}
+      columns={professionalColumns}
+      searchText={(profile) => [profile.firstName, profile.lastName, profile.title, profile.location].filter(Boolean).join(" ")}
+      isLoading={isLoading}
+      queryKey="/api/admin/professional-profiles"
+    />
+  );
+}
+
+const companyColumns: AdminColumn<CompanyProfile>[] = [
+  { header: "Company", cell: (company) => <span className="font-medium">{company.companyName}</span> },
+  { header: "Industry", cell: (company) => company.industry },
+  { header: "Size", cell: (company) => <span className="capitalize">{company.size}</span> },
+  { header: "Location", cell: (company) => company.location },
+  { header: "Flags", cell: (company) => flags([[company.verified, "Verified"], [company.featured, "Featured"]]) },
+];
+
+export function CompanyProfilesTable() {
+  const { data = [], isLoading } = useQuery<CompanyProfile[]>({ queryKey: ["/api/admin/company-profiles"] });
+
+  return (
+    <AdminDataTable
+      entity="companyProfiles"
+      noun={["company", "companies"]}
+      rows={data}
+      columns={companyColumns}
+      searchText={(company) => `${company.companyName} ${company.industry} ${company.location}`}
+      isLoading={isLoading}
+      queryKey="/api/admin/company-profiles"
+    />
+  );
+}
+
+const jobColumns: AdminColumn<JobPosting>[] = [
+  {
+    header: "Title",
+    cell: (job) => <Link href={`/job/${job.id}`} className="font-medium hover:underline">{job.title}</Link>,
+  },
+  { header: "Type", cell: (job) => <span className="capitalize">{job.jobType}</span> },
+  { header: "Location", cell: (job) => (job.remote ? `${job.location} (remote)` : job.location) },
+  {
+    header: "Status",
+    cell: (job) => (
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="outline" className="capitalize">{job.archived ? "archived" : job.status}</Badge>
+        {job.featured && <Badge variant="secondary">Featured</Badge>}
+      </div>
+    ),
+  },
+  { header: "Posted", cell: (job) => formatDate(job.createdAt) },
+];
+
+export function JobPostingsTable() {
+  const { data = [], isLoading } = useQuery<JobPosting[]>({ queryKey: ["/api/admin/job-postings"] });
+
+  return (
+    <AdminDataTable
+      entity="jobPostings"
+      noun={["job", "jobs"]}
+      rows={data}
+      columns={jobColumns}
+      searchText={(job) => `${job.title} ${job.location} ${job.jobType} ${job.status}`}
+      isLoading={isLoading}
+      queryKey="/api/admin/job-postings"
+    />
+  );
+}
+
+const resourceColumns: AdminColumn<Resource>[] = [
+  {
+    header: "Title",
+    cell: (resource) => <Link href={`/resource/${resource.id}`} className="font-medium hover:underline">{resource.title}</Link>,
+  },
+  { header: "Type", cell: (resource) => <span className="capitalize">{resource.resourceType}</span> },
+  { header: "Flags", cell: (resource) => flags([[resource.featured, "Featured"]]) },
+  { header: "Created", cell: (resource) => formatDate(resource.createdAt) },
+];
+
+export function ResourcesTable() {
+  const { data = [], isLoading } = useQuery<Resource[]>({ queryKey: ["/api/admin/resources"] });
+
+  return (
+    <AdminDataTable
+      entity="resources"
+      noun={["resource", "resources"]}
+      rows={data}
+      columns={resourceColumns}
+      searchText={(resource) => `${resource.title} ${resource.description} ${resource.resourceType}`}
+      isLoading={isLoading}
+      queryKey="/api/admin/resources"
+    />
+  );
+}
+
+const forumPostColumns: AdminColumn<ForumPost>[] = [
+  { header: "Title", cell: (post) => <span className="font-medium">{post.title}</span> },
+  { header: "Author", cell: (post) => `User #${post.authorId}` },
+  { header: "Activity", cell: (post) => `${post.voteCount} votes · ${post.replyCount} replies · ${post.viewCount} views` },
+  { header: "Flags", cell: (post) => flags([[post.pinned, "Pinned"], [post.locked, "Locked"], [post.hidden, "Hidden"]]) },
+  { header: "Posted", cell: (post) => formatDate(post.createdAt) },
+];
+
+export function ForumPostsTable() {
+  const { data = [], isLoading } = useQuery<ForumPost[]>({ queryKey: ["/api/admin/forum-posts"] });
+
+  return (
+    <AdminDataTable
+      entity="forumPosts"
+      noun={["post", "posts"]}
+      rows={data}
+      columns={forumPostColumns}
+      searchText={(post) => post.title}
+      isLoading={isLoading}
+      queryKey="/api/admin/forum-posts"
+    />
+  );
+}
+
+interface AdminSubscriptionRow {
+  subscription: UserSubscription;
+  user: Pick<User, "id" | "username" | "email" | "firstName" | "lastName"> | null;
+  plan: SubscriptionPlan | null;
+}
+
+const subscriptionStatusVariant = (status: UserSubscription["status"]) =>
+  status === "active" || status === "trialing" ? "default" : status === "past_due" || status === "unpaid" ? "destructive" : "outline";
+
+// Subscriptions are managed in the payment provider, so this table is read-only
+export function SubscriptionsTable() {
+  const { data = [], isLoading } = useQuery<AdminSubscriptionRow[]>({ queryKey: ["/api/admin/subscriptions"] });
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead>Plan</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Billing</TableHead>
+            <TableHead>Current period ends</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">
+                <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+              </TableCell>
+            </TableRow>
+          ) : data.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">No subscriptions found.</TableCell>
+            </TableRow>
+          ) : (
+            data.map(({ subscription, user, plan }) => (
+              <TableRow key={subscription.id}>
+                <TableCell>
+                  {user ? (
+                    <>
+                      <div className="font-medium">{user.firstName} {user.lastName}</div>
+                      <div className="text-xs text-muted-foreground">{user.email}</div>
+                    </>
+                  ) : `User #${subscription.userId}`}
+                </TableCell>
+                <TableCell>{plan?.name ?? "—"}</TableCell>
+                <TableCell>
+                  <Badge variant={subscriptionStatusVariant(subscription.status)} className="capitalize">
+                    {subscription.status.replace("_", " ")}
+                  </Badge>
+                  {subscription.cancelAtPeriodEnd && (
+                    <span className="ml-2 text-xs text-muted-foreground">Cancels at period end</span>
+                  )}
+                </TableCell>
+                <TableCell className="capitalize">{subscription.billingCycle}, {subscription.currency}</TableCell>
+                <TableCell>{formatDate(subscription.currentPeriodEnd)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { Fragment, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, Download, Loader2 } from "lucide-react";
+import { listUrl, useInfiniteList, useLoadMoreRef } from "@/lib/queryClient";
+import { AUDIT_TARGET_TYPES, MAX_AUDIT_EXPORT_ROWS, type AuditChanges } from "@shared/audit-log";
+import type { AdminAuditLog } from "@shared/schema";
+
+interface Filters {
+  actorId: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: Filters = { actorId: "", action: "", targetType: "", targetId: "", from: "", to: "" };
+
+const ALL_TARGETS = "all";
+
+// Dates are picked as days in the admin's time zone; `to` includes the whole day
+const toParams = (filters: Filters) => ({
+  actorId: filters.actorId.trim(),
+  action: filters.action.trim(),
+  targetType: filters.targetType,
+  targetId: filters.targetId.trim(),
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+});
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+function ChangesTable({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return <p className="text-sm text-muted-foreground">Nothing changed.</p>;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map((field) => (
+          <TableRow key={field}>
+            <TableCell className="font-mono text-xs">{field}</TableCell>
+            <TableCell className="max-w-xs break-all text-xs">{formatValue(changes[field].before)}</TableCell>
+            <TableCell className="max-w-xs break-all text-xs">{formatValue(changes[field].after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function EntryDetails({ entry }: { entry: AdminAuditLog }) {
+  return (
+    <div className="space-y-3 py-2">
+      {entry.changes ? <ChangesTable changes={entry.changes} /> : (
+        <p className="text-sm text-muted-foreground">No record changes were captured for this request.</p>
+      )}
+      {entry.requestBody != null && (
+        <div>
+          <p className="text-xs font-medium">Request</p>
+          <pre className="mt-1 max-h-48 overflow-auto rounded bg-muted p-2 text-xs">{JSON.stringify(entry.requestBody, null, 2)}</pre>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {entry.ipAddress ?? "Unknown IP"} · {entry.userAgent ?? "Unknown user agent"}
+      </p>
+    </div>
+  );
+}
+
+// Entries are written by the server for every admin action and cannot be edited here
+export default function AuditLogViewer() {
+  const [draft, setDraft] = useState<Filters>(NO_FILTERS);
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const params = toParams(filters);
+  const logQuery = useInfiniteList<AdminAuditLog>("/api/admin/audit-logs", { ...params, limit: 50 });
+  const loadMoreRef = useLoadMoreRef(logQuery);
+
+  const setField = (field: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [field]: e.target.value });
+
+  return (
+    <div className="space-y-4">
+      <form
+        className="grid gap-3 md:grid-cols-3 lg:grid-cols-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setFilters(draft);
+        }}
+      >
+        <div className="space-y-1">
+          <Label htmlFor="audit-actor">Admin ID</Label>
+          <Input id="audit-actor" inputMode="numeric" value={draft.actorId} onChange={setField("actorId")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-action">Action</Label>
+          <Input id="audit-action" placeholder="e.g. DELETE" value={draft.action} onChange={setField("action")} />
+        </div>
+        <div className="space-y-1">
+          <Label>Target</Label>
+          <Select
+            value={draft.targetType || ALL_TARGETS}
+            onValueChange={(value) => setDraft({ ...draft, targetType: value === ALL_TARGETS ? "" : value })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TARGETS}>All targets</SelectItem>
+              {AUDIT_TARGET_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-target-id">Target ID</Label>
+          <Input id="audit-target-id" inputMode="numeric" value={draft.targetId} onChange={setField("targetId")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-from">From</Label>
+          <Input id="audit-from" type="date" value={draft.from} onChange={setField("from")} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="audit-to">To</Label>
+          <Input id="audit-to" type="date" value={draft.to} onChange={setField("to")} />
+        </div>
+        <div className="flex flex-wrap gap-2 md:col-span-3 lg:col-span-6">
+          <Button type="submit" size="sm">Apply filters</Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setDraft(NO_FILTERS);
+              setFilters(NO_FILTERS);
+            }}
+          >
+            Clear
+          </Button>
+          <div className="ml-auto flex gap-2">
+            {(["csv", "json"] as const).map((exportFormat) => (
+              <Button key={exportFormat} asChild size="sm" variant="outline">
+                <a href={listUrl("/api/admin/audit-logs/export", { ...params, format: exportFormat })} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export {exportFormat.toUpperCase()}
+                </a>
+              </Button>
+            ))}
+          </div>
+        </div>
+      </form>
+
+      {logQuery.error && (
+        <p className="text-sm text-destructive">
+          Could not load the audit log. {logQuery.error instanceof Error ? logQuery.error.message : ""}
+        </p>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>When</TableHead>
+              <TableHead>Admin</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {logQuery.isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+                </TableCell>
+              </TableRow>
+            ) : logQuery.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">No audit entries found.</TableCell>
+              </TableRow>
+            ) : (
+              logQuery.items.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        aria-label={expanded === entry.id ? "Hide details" : "Show details"}
+                        onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      >
+                        {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}</TableCell>
+                    <TableCell>{entry.actorUsername} <span className="text-muted-foreground">#{entry.actorId}</span></TableCell>
+                    <TableCell className="font-mono text-xs">{entry.action}</TableCell>
+                    <TableCell>
+                      {entry.targetType ? `${entry.targetType}${entry.targetId ? ` #${entry.targetId}` : ""}` : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.statusCode < 400 ? "outline" : "destructive"}>{entry.statusCode}</Badge>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === entry.id && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={5}><EntryDetails entry={entry} /></TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div ref={loadMoreRef} className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          Showing {logQuery.items.length} of {logQuery.total} entries. Exports include up to {MAX_AUDIT_EXPORT_ROWS.toLocaleString()}.
+        </span>
+        {logQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Briefcase, Building2, CreditCard, FileText, MessageCircle, UserCheck, Users } from "lucide-react";
+import type { AdminMetrics } from "@shared/admin";
+
+// Amounts are in cents and fils
+const formatMoney = (amount: number, currency: "USD" | "AED") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(amount / 100);
+
+interface StatCardProps {
+  title: string;
+  value: number | string;
+  icon: React.ComponentType<{ className?: string }>;
+  details: string[];
+}
+
+function StatCard({ title, value, icon: Icon, details }: StatCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        {details.map((detail) => (
+          <p key={detail} className="text-xs text-muted-foreground">{detail}</p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SignupChart({ signups }: { signups: AdminMetrics["signups"] }) {
+  const max = Math.max(1, ...signups.map((day) => day.count));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Sign-ups</CardTitle>
+        <CardDescription>New accounts per day over the last 30 days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex h-32 items-end gap-1">
+          {signups.map((day) => (
+            <div
+              key={day.date}
+              className="flex-1 rounded-t bg-primary/70"
+              style={{ height: `${Math.max(2, (day.count / max) * 100)}%` }}
+              title={`${day.date}: ${day.count}`}
+            />
+          ))}
+        </div>
+        <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+          <span>{signups[0]?.date}</span>
+          <span>{signups[signups.length - 1]?.date}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MetricsOverview() {
+  const { data: metrics, isLoading, error } = useQuery<AdminMetrics>({ queryKey: ["/api/admin/metrics"] });
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {Array.from({ length: 8 }, (_, i) => <Skeleton key={i} className="h-32" />)}
+      </div>
+    );
+  }
+
+  if (error || !metrics) {
+    return <p className="text-sm text-destructive">Could not load metrics. {error instanceof Error ? error.message : ""}</p>;
+  }
+
+  const { users, professionalProfiles, companyProfiles, jobPostings, resources, subscriptions } = metrics;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Users"
+          value={users.total}
+          icon={Users}
+          details={[
+            `${users.professionals} professionals, ${users.companies} companies`,
+            `${users.newLast30Days} new in the last 30 days`,
+            `${users.suspended} suspended, ${users.admins} admins`,
+          ]}
+        />
+        <StatCard
+          title="Professional profiles"
+          value={professionalProfiles.total}
+          icon={UserCheck}
+          details={[`${professionalProfiles.verified} verified`, `${professionalProfiles.featured} featured`]}
+        />
+        <StatCard
+          title="Company profiles"
+          value={companyProfiles.total}
+          icon={Building2}
+          details={[`${companyProfiles.verified} verified`, `${companyProfiles.featured} featured`]}
+        />
+        <StatCard
+          title="Job postings"
+          value={jobPostings.total}
+          icon={Briefcase}
+          details={[`${jobPostings.open} open, ${jobPostings.featured} featured`, `${metrics.jobApplications} applications`]}
+        />
+        <StatCard
+          title="Resources"
+          value={resources.total}
+          icon={FileText}
+          details={[`${resources.featured} featured`]}
+        />
+        <StatCard
+          title="Forum posts"
+          value={metrics.forumPosts}
+          icon={MessageCircle}
+          details={[]}
+        />
+        <StatCard
+          title="Subscriptions"
+          value={subscriptions.active}
+          icon={CreditCard}
+          details={[`${subscriptions.trialing} trialing`, `${subscriptions.pastDue} past due`]}
+        />
+        <StatCard
+          title="Monthly recurring revenue"
+          value={formatMoney(subscriptions.monthlyRecurringRevenue.USD, "USD")}
+          icon={CreditCard}
+          details={[`plus ${formatMoney(subscriptions.monthlyRecurringRevenue.AED, "AED")}`, "Active and past due subscriptions"]}
+        />
+      </div>
+      <SignupChart signups={metrics.signups} />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Link } from "wouter";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, listUrl, queryClient } from "@/lib/queryClient";
+import {
+  MODERATION_ACTION_LABELS, REPORT_REASON_LABELS, REPORT_TARGET_LABELS, REPORT_TARGET_TYPES, type ModerationAction,
+  type ModerationQueueItem, type ModerationQueueQuery
+} from "@shared/moderation";
+
+const QUEUE_URL = "/api/admin/moderation/queue";
+
+const ALL_TYPES = "all";
+
+const ACTION_BUTTONS: Array<{ action: ModerationAction; label: string; variant: "default" | "outline" | "destructive" }> = [
+  { action: "restore", label: "Keep up", variant: "outline" },
+  { action: "hide", label: "Hide", variant: "default" },
+  { action: "warn", label: "Hide and warn", variant: "default" },
+  { action: "ban", label: "Hide and suspend", variant: "destructive" },
+];
+
+function QueueItem({ item }: { item: ModerationQueueItem }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [confirmingBan, setConfirmingBan] = useState(false);
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: ModerationAction) =>
+      (await apiRequest("POST", `/api/admin/moderation/${item.targetType}/${item.targetId}/actions`, {
+        action, note: note.trim() || undefined,
+      })).json(),
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: [QUEUE_URL] });
+      setNote("");
+      toast({ title: MODERATION_ACTION_LABELS[action], description: "Reporters have been told the outcome." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <CardTitle className="text-base">{REPORT_TARGET_LABELS[item.targetType]} #{item.targetId}</CardTitle>
+          {item.hidden && <Badge variant="secondary">Hidden</Badge>}
+          {item.openReports > 0 && <Badge variant="destructive">{item.openReports} open reports</Badge>}
+          {item.link && (
+            <Link href={item.link} className="ml-auto inline-flex items-center text-sm text-primary hover:underline">
+              View <ExternalLink className="ml-1 h-3 w-3" />
+            </Link>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {item.ownerUsername ? `By ${item.ownerUsername} (#${item.ownerId})` : "Author unknown"}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <blockquote className="border-l-2 pl-3 text-sm">
+          {item.summary ?? <span className="text-muted-foreground">This content has been deleted.</span>}
+        </blockquote>
+
+        <ul className="space-y-2">
+          {item.reports.map((report) => (
+            <li key={report.id} className="text-sm">
+              <span className="font-medium">{REPORT_REASON_LABELS[report.reason]}</span>
+              <span className="text-muted-foreground">
+                {" "}· {report.reporterUsername} · {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+              </span>
+              {report.details && <p className="text-muted-foreground">{report.details}</p>}
+            </li>
+          ))}
+        </ul>
+
+        {item.lastAction && (
+          <p className="text-xs text-muted-foreground">
+            {MODERATION_ACTION_LABELS[item.lastAction.action]}{" "}
+            {formatDistanceToNow(new Date(item.lastAction.createdAt), { addSuffix: true })}
+            {item.lastAction.moderatorId ? ` by admin #${item.lastAction.moderatorId}` : ""}
+            {item.lastAction.note ? `: ${item.lastAction.note}` : ""}
+          </p>
+        )}
+
+        {item.summary !== null && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Note for the history; sent to the author with a warning (optional)"
+              value={note}
+              maxLength={1000}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {ACTION_BUTTONS.map(({ action, label, variant }) => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={variant}
+                  disabled={actionMutation.isPending}
+                  onClick={() => (action === "ban" ? setConfirmingBan(true) : actionMutation.mutate(action))}
+                >
+                  {actionMutation.isPending && actionMutation.variables === action && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmingBan} onOpenChange={setConfirmingBan}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Suspend {item.ownerUsername ?? "the author"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The content is hidden and the author's account is suspended, which signs them out. A support agent can
+              reactivate the account later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => actionMutation.mutate("ban")}>Suspend</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+// Reported content, one card per reported item with all of its reports
+export default function ModerationQueue() {
+  const [status, setStatus] = useState<ModerationQueueQuery["status"]>("open");
+  const [targetType, setTargetType] = useState<string>(ALL_TYPES);
+  const params = { status, targetType: targetType === ALL_TYPES ? undefined : targetType };
+
+  const { data: items = [], isLoading, error } = useQuery<ModerationQueueItem[]>({
+    queryKey: [QUEUE_URL, params],
+    queryFn: async () => (await apiRequest("GET", listUrl(QUEUE_URL, params))).json(),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <Select value={status} onValueChange={(value) => setStatus(value as ModerationQueueQuery["status"])}>
+          <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Waiting for review</SelectItem>
+            <SelectItem value="closed">Resolved</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={targetType} onValueChange={setTargetType}>
+          <SelectTrigger className="w-52"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>All content</SelectItem>
+            {REPORT_TARGET_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{REPORT_TARGET_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">
+          Could not load the moderation queue. {error instanceof Error ? error.message : ""}
+        </p>
+      )}
+
+      {isLoading ? (
+        <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+      ) : items.length === 0 ? (
+        <p className="py-12 text-center text-muted-foreground">
+          {status === "open" ? "No reports are waiting for review." : "Nothing has been resolved yet."}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => <QueueItem key={`${item.targetType}-${item.targetId}`} item={item} />)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getRoles, hasPermission, ROLE_LABELS, ROLE_PERMISSIONS, ROLES, type Role } from "@shared/permissions";
+
+interface RoleUser {
+  id: number;
+  username: string;
+  isAdmin: boolean;
+  roles?: Role[] | null;
+}
+
+// The user's roles as badges, with an editor for admins who can assign roles
+export default function UserRolesEditor({ user }: { user: RoleUser }) {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Role[]>([]);
+  const roles = getRoles(user);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => (await apiRequest("PUT", `/api/admin/users/${user.id}/roles`, { roles: selected })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/metrics"] });
+      setOpen(false);
+      toast({ title: "Roles updated", description: `${user.username} now has ${selected.length || "no"} staff roles.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update roles", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const canAssign = hasPermission(currentUser, "roles.assign") && currentUser?.id !== user.id;
+
+  const toggleRole = (role: Role, checked: boolean) =>
+    setSelected(checked ? [...selected, role] : selected.filter((r) => r !== role));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {roles.map((role) => <Badge key={role}>{ROLE_LABELS[role]}</Badge>)}
+      {canAssign && (
+        <Dialog
+          open={open}
+          onOpenChange={(next) => {
+            if (next) setSelected(roles);
+            setOpen(next);
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button size="icon" variant="ghost" className="h-7 w-7" aria-label={`Edit roles of ${user.username}`}>
+              <ShieldCheck className="h-4 w-4" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Roles for {user.username}</DialogTitle>
+              <DialogDescription>Staff with any role can open the admin console. Without roles this is a regular account.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              {ROLES.map((role) => (
+                <div key={role} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`role-${role}`}
+                    checked={selected.includes(role)}
+                    onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                  />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`role-${role}`}>{ROLE_LABELS[role]}</Label>
+                    <p className="text-xs text-muted-foreground">{ROLE_PERMISSIONS[role].join(", ")}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save roles
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
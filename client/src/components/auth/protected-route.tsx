@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Route, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
+import { hasPermission } from "@shared/permissions";
 
 interface ProtectedRouteProps {
   path: string;
@@ -34,7 +35,7 @@ function AuthenticationCheck({
         if (currentPath !== '/login') {
           setLocation(`/login?redirect=${encodeURIComponent(currentPath)}`);
         }
-      } else if (adminOnly && !user.isAdmin) {
+      } else if (adminOnly && !hasPermission(user, "admin.access")) {
         setLocation("/");
       } else if (userTypes.length > 0 && !userTypes.includes(user.userType)) {
         setLocation("/");
@@ -54,7 +55,7 @@ function AuthenticationCheck({
     return null; // Will redirect in useEffect
   }
 
-  if (adminOnly && !user.isAdmin) {
+  if (adminOnly && !hasPermission(user, "admin.access")) {
     return null; // Will redirect in useEffect
   }
 
@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format, parseISO } from "date-fns";
+import { CalendarOff, Clock, Plus, Trash2 } from "lucide-react";
+import type { AvailabilityBlackout, AvailabilityRule } from "@shared/schema";
+
+type AvailabilityResponse = {
+  timezone: string;
+  minNoticeHours: number;
+  rules: AvailabilityRule[];
+  blackouts: AvailabilityBlackout[];
+};
+
+type RuleDraft = {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+};
+
+const AVAILABILITY_URL = "/api/professionals/me/availability";
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export default function AvailabilitySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<AvailabilityResponse>({
+    queryKey: [AVAILABILITY_URL],
+  });
+
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  const [minNoticeHours, setMinNoticeHours] = useState(24);
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+  const [blackout, setBlackout] = useState({ startDate: "", endDate: "", reason: "" });
+
+  // Seed the editable copy once the saved schedule arrives
+  useEffect(() => {
+    if (!data) return;
+    if (data.rules.length > 0) {
+      setTimezone(data.timezone);
+    }
+    setMinNoticeHours(data.minNoticeHours);
+    setRules(data.rules.map(({ dayOfWeek, startTime, endTime }) => ({ dayOfWeek, startTime, endTime })));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", AVAILABILITY_URL, { timezone, minNoticeHours, rules });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Availability saved", description: "Clients can now book the times you published." });
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_URL] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save availability", variant: "destructive" });
+    }
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${AVAILABILITY_URL}/blackouts`, {
+        startDate: blackout.startDate,
+        endDate: blackout.endDate || blackout.startDate,
+        reason: blackout.reason || undefined
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      setBlackout({ startDate: "", endDate: "", reason: "" });
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_URL] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add blackout dates", variant: "destructive" });
+    }
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `${AVAILABILITY_URL}/blackouts/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [AVAILABILITY_URL] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to remove blackout dates", variant: "destructive" });
+    }
+  });
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules(current => current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Availability
+        </CardTitle>
+        <CardDescription>
+          Publish the weekly hours when clients can book consultations with you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="availability-timezone">Timezone</Label>
+            <Input
+              id="availability-timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g. Asia/Dubai"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="availability-notice">Minimum notice (hours)</Label>
+            <Input
+              id="availability-notice"
+              type="number"
+              min={0}
+              value={minNoticeHours}
+              onChange={(e) => setMinNoticeHours(parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {DAYS.map((day, dayOfWeek) => (
+            <div key={day} className="flex flex-col sm:flex-row sm:items-start gap-2 border-b pb-3 last:border-0">
+              <div className="w-28 pt-2 font-medium text-sm">{day}</div>
+              <div className="flex-1 space-y-2">
+                {rules.map((rule, index) => rule.dayOfWeek === dayOfWeek && (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={rule.startTime}
+                      onChange={(e) => updateRule(index, { startTime: e.target.value })}
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={rule.endTime}
+                      onChange={(e) => updateRule(index, { endTime: e.target.value })}
+                      className="w-32"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRules(current => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {!rules.some(rule => rule.dayOfWeek === dayOfWeek) && (
+                  <p className="pt-2 text-sm text-muted-foreground">Unavailable</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setRules(current => [...current, { dayOfWeek, startTime: "09:00", endTime: "17:00" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" /> Add hours
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="flex items-center gap-2 font-medium">
+            <CalendarOff className="h-4 w-4" />
+            Blackout dates
+          </h4>
+          {data?.blackouts.length ? (
+            <div className="divide-y rounded-md border">
+              {data.blackouts.map((item) => (
+                <div key={item.id} className="flex items-center justify-between p-3 text-sm">
+                  <div>
+                    <span className="font-medium">
+                      {format(parseISO(item.startDate), "MMM d, yyyy")}
+                      {item.endDate !== item.startDate && ` – ${format(parseISO(item.endDate), "MMM d, yyyy")}`}
+                    </span>
+                    {item.reason && <span className="ml-2 text-muted-foreground">{item.reason}</span>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteBlackoutMutation.mutate(item.id)}
+                    disabled={deleteBlackoutMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No blackout dates</p>
+          )}
+          <div className="grid gap-2 sm:grid-cols-[auto_auto_1fr_auto] sm:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="blackout-start">From</Label>
+              <Input
+                id="blackout-start"
+                type="date"
+                value={blackout.startDate}
+                onChange={(e) => setBlackout({ ...blackout, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blackout-end">To</Label>
+              <Input
+                id="blackout-end"
+                type="date"
+                value={blackout.endDate}
+                min={blackout.startDate}
+                onChange={(e) => setBlackout({ ...blackout, endDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="blackout-reason">Reason (optional)</Label>
+              <Input
+                id="blackout-reason"
+                value={blackout.reason}
+                onChange={(e) => setBlackout({ ...blackout, reason: e.target.value })}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => addBlackoutMutation.mutate()}
+              disabled={!blackout.startDate || addBlackoutMutation.isPending}
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="justify-end">
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save availability"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
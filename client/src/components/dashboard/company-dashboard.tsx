@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,6 +25,7 @@ import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
 import SubscriptionStatus from "@/components/dashboard/subscription-status";
 import JobProfessionalMatches from "@/components/dashboard/job-professional-matches";
+import CompanyTeam from "@/components/dashboard/company-team";
 import { JobActionButtons } from "@/components/job/JobActionButtons";
 import type { 
   CompanyProfile, 
@@ -32,20 +33,23 @@ import type {
   JobApplication, 
   Message,
   Consultation,
-  ProfessionalProfile
+  ProfessionalProfile,
+  CompanyTeamRole
 } from "@shared/schema";
 
 export default function CompanyDashboard() {
   const { user } = useAuth();
   
-  // Fetch company profile
+  // Fetch the user's company profile, which for teammates is their team's company
   const { 
     data: profile, 
     isLoading: isLoadingProfile 
-  } = useQuery<CompanyProfile>({
-    queryKey: ["/api/company-profiles/by-user"],
+  } = useQuery<CompanyProfile & { teamRole: CompanyTeamRole }>({
+    queryKey: ["/api/companies/me"],
     enabled: !!user,
   });
+  const isOwner = profile?.teamRole === "owner";
+  const canPostJobs = !!profile && profile.teamRole !== "viewer";
   
   // Fetch company job postings - using "me" endpoint that doesn't require profile ID
   const { 
@@ -83,17 +87,19 @@ export default function CompanyDashboard() {
     enabled: !!user,
   });
   
-  // Fetch professional profiles for applications
-  const { 
-    data: professionals 
-  } = useQuery<ProfessionalProfile[]>({
-    queryKey: ["/api/professional-profiles"],
-    enabled: !!allApplications && allApplications.length > 0,
-  });
+  // Fetch the profiles of the professionals who applied
+  const applicantIds = Array.from(new Set(
+    (allApplications || []).flatMap(item => item.applications.map(application => application.professionalId))
+  ));
+  const professionals = useQueries({
+    queries: applicantIds.map(id => ({
+      queryKey: [`/api/professional-profiles/${id}`],
+    })),
+  }).map(result => result.data as ProfessionalProfile | undefined);
   
   // Helper to get professional details
   const getProfessionalDetails = (id: number) => {
-    return professionals?.find(p => p.id === id);
+    return professionals.find(p => p?.id === id);
   };
   
   // Helper to get all applications
@@ -118,16 +124,20 @@ export default function CompanyDashboard() {
         <div className="flex flex-col sm:flex-row gap-3 mt-4 md:mt-0">
           {profile ? (
             <>
-              <Link href="/post-job">
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" /> Post a Job
-                </Button>
-              </Link>
-              <Link href="/edit-profile">
-                <Button variant="outline">
-                  <PencilIcon className="mr-2 h-4 w-4" /> Edit Profile
-                </Button>
-              </Link>
+              {canPostJobs && (
+                <Link href="/post-job">
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" /> Post a Job
+                  </Button>
+                </Link>
+              )}
+              {isOwner && (
+                <Link href="/edit-profile">
+                  <Button variant="outline">
+                    <PencilIcon className="mr-2 h-4 w-4" /> Edit Profile
+                  </Button>
+                </Link>
+              )}
             </>
           ) : (
             <Link href="/edit-profile">
@@ -228,7 +238,7 @@ export default function CompanyDashboard() {
       )}
       
       <Tabs defaultValue="jobs">
-        <TabsList className="grid grid-cols-3 w-full mb-8 h-auto gap-1 p-1">
+        <TabsList className="grid grid-cols-4 w-full mb-8 h-auto gap-1 p-1">
           <TabsTrigger value="jobs" className="flex items-center text-xs sm:text-sm px-2 py-2">
             <Briefcase className="h-4 w-4 mr-1 sm:mr-2" />
             <span className="hidden sm:inline">Job Postings</span>
@@ -244,6 +254,10 @@ export default function CompanyDashboard() {
             <span className="hidden sm:inline">Messages</span>
             <span className="sm:hidden">Msgs</span>
           </TabsTrigger>
+          <TabsTrigger value="team" className="flex items-center text-xs sm:text-sm px-2 py-2">
+            <Users className="h-4 w-4 mr-1 sm:mr-2" />
+            <span>Team</span>
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="jobs">
@@ -255,11 +269,13 @@ export default function CompanyDashboard() {
                   Manage your current job listings
                 </CardDescription>
               </div>
-              <Link href="/post-job">
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" /> Post a Job
-                </Button>
-              </Link>
+              {canPostJobs && (
+                <Link href="/post-job">
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" /> Post a Job
+                  </Button>
+                </Link>
+              )}
             </CardHeader>
             <CardContent>
               {!profile ? (
@@ -498,6 +514,10 @@ export default function CompanyDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="team">
+          <CompanyTeam />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Mail, Trash2, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CompanyInvitation, CompanyTeamRole } from "@shared/schema";
+
+type MemberRole = Exclude<CompanyTeamRole, "owner">;
+
+interface CompanyTeam {
+  company: { id: number; companyName: string };
+  role: CompanyTeamRole;
+  members: {
+    userId: number;
+    username: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    role: CompanyTeamRole;
+    joinedAt: string | null;
+  }[];
+  invitations: Omit<CompanyInvitation, "token">[];
+  seats: { used: number; limit: number | null };
+}
+
+const MEMBER_ROLES: MemberRole[] = ["admin", "recruiter", "viewer"];
+
+export default function CompanyTeam() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("recruiter");
+
+  const { data: team, isLoading } = useQuery<CompanyTeam>({
+    queryKey: ["/api/company-team"],
+    enabled: !!user,
+  });
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/company-team/invitations", { email, role: inviteRole });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/company-team"] });
+      toast({ title: "Invitation sent", description: `We emailed an invitation to ${email}.` });
+    },
+    onError: onError("Could not send invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: number) => apiRequest("DELETE", `/api/company-team/invitations/${invitationId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/company-team"] }),
+    onError: onError("Could not revoke invitation"),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: MemberRole }) =>
+      apiRequest("PATCH", `/api/company-team/members/${userId}`, { role }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/company-team"] }),
+    onError: onError("Could not change role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest("DELETE", `/api/company-team/members/${userId}`),
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        // Leaving the team: the dashboard no longer belongs to this company
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/company-team"] });
+      }
+    },
+    onError: onError("Could not remove team member"),
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-12 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!team) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-gray-500">
+          Create your company profile to build a team.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isOwner = team.role === "owner";
+  const canManage = isOwner || team.role === "admin";
+  const seatsFull = team.seats.limit !== null && team.seats.used >= team.seats.limit;
+  // Admins manage recruiters and viewers; admin roles are the owner's call
+  const canManageMember = (role: CompanyTeamRole) => canManage && role !== "owner" && (isOwner || role !== "admin");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <CardTitle>Team</CardTitle>
+            <CardDescription>People who can work on {team.company.companyName}'s hiring</CardDescription>
+          </div>
+          <Badge variant="outline">
+            {team.seats.used} / {team.seats.limit ?? "∞"} seats used
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <form
+            className="flex flex-col sm:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email.trim()) inviteMutation.mutate();
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="teammate@company.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="flex-1"
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as MemberRole)}>
+              <SelectTrigger className="sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMBER_ROLES.filter(role => isOwner || role !== "admin").map(role => (
+                  <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={seatsFull || !email.trim() || inviteMutation.isPending}>
+              {inviteMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              Invite
+            </Button>
+          </form>
+        )}
+        {canManage && seatsFull && (
+          <p className="text-sm text-muted-foreground">
+            All seats on your plan are in use. Upgrade your plan to invite more teammates.
+          </p>
+        )}
+
+        <div className="divide-y">
+          {team.members.map(member => (
+            <div key={member.userId} className="flex items-center justify-between py-3 gap-4">
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {`${member.firstName} ${member.lastName}`.trim() || member.username}
+                  {member.userId === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {canManageMember(member.role) && member.userId !== user?.id ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as MemberRole })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MEMBER_ROLES.filter(role => isOwner || role !== "admin").map(role => (
+                        <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={member.role === "owner" ? "default" : "secondary"} className="capitalize">
+                    {member.role}
+                  </Badge>
+                )}
+                {member.role !== "owner" && (canManageMember(member.role) || member.userId === user?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(member.userId)}
+                    disabled={removeMutation.isPending}
+                  >
+                    {member.userId === user?.id ? "Leave" : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canManage && team.invitations.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Pending invitations</h4>
+            <div className="divide-y">
+              {team.invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between py-3 gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="truncate">{invitation.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        <span className="capitalize">{invitation.role}</span> · expires {format(new Date(invitation.expiresAt), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(invitation.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { useEffect } from "react";
 import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -18,13 +18,15 @@ import {
   CheckCircle,
   XCircle,
   CreditCard,
-  Zap
+  Zap,
+  CalendarPlus
 } from "lucide-react";
 import { format } from "date-fns";
 import { useTranslation } from "@/lib/i18n";
 import { useAuth } from "@/hooks/use-auth";
 import SubscriptionStatus from "@/components/dashboard/subscription-status";
 import ProfessionalJobMatches from "@/components/matching/professional-job-matches";
+import AvailabilitySettings from "@/components/dashboard/availability-settings";
 import type { 
   ProfessionalProfile, 
   JobApplication, 
@@ -77,17 +79,17 @@ export default function ProfessionalDashboard() {
     staleTime: 5 * 60 * 1000,
   });
   
-  // Additional query for job details
-  const { 
-    data: jobPostings 
-  } = useQuery<JobPosting[]>({
-    queryKey: ["/api/job-postings"],
-    enabled: !!applications && applications.length > 0,
-  });
+  // Additional queries for the details of the jobs applied to
+  const appliedJobIds = Array.from(new Set((applications || []).map(application => application.jobId)));
+  const jobPostings = useQueries({
+    queries: appliedJobIds.map(id => ({
+      queryKey: [`/api/job-postings/${id}`],
+    })),
+  }).map(result => result.data as JobPosting | undefined);
   
   // Helper to get job details
   const getJobDetails = (jobId: number) => {
-    return jobPostings?.find(job => job.id === jobId);
+    return jobPostings.find(job => job?.id === jobId);
   };
 
 
@@ -436,6 +438,11 @@ export default function ProfessionalDashboard() {
                             <span className="font-medium">Rate:</span> ${consultation.rate}/hour
                           </p>
                           <div className="flex space-x-2">
+                            <Button size="sm" variant="outline" asChild>
+                              <a href={`/api/consultations/${consultation.id}/ics`} download>
+                                <CalendarPlus className="mr-1 h-4 w-4" /> Add to calendar
+                              </a>
+                            </Button>
                             {consultation.status === 'scheduled' && (
                               <>
                                 <Button size="sm" variant="outline" className="text-green-600 border-green-200 hover:bg-green-50 hover:text-green-700">
@@ -461,6 +468,12 @@ export default function ProfessionalDashboard() {
               )}
             </CardContent>
           </Card>
+
+          {profile && (
+            <div className="mt-6">
+              <AvailabilitySettings />
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -5,7 +5,7 @@ import { useForm } from "react-hook-form";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 import {
   Form,
@@ -20,34 +20,52 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
+import { Markdown } from "@/components/forum/markdown";
+import { forumPostInputSchema, MAX_FORUM_TAGS, type ForumCategoryWithCount } from "@shared/forum";
+import type { ForumPost } from "@shared/schema";
 
-// Define schema for form validation
-const postSchema = z.object({
-  title: z.string()
-    .min(5, { message: "Title must be at least 5 characters" })
-    .max(100, { message: "Title must not exceed 100 characters" }),
-  contentUrl: z.string()
-    .min(10, { message: "Content must be at least 10 characters" })
-    .max(5000, { message: "Content must not exceed 5000 characters" }),
+// Tags are typed as one comma separated list
+const splitTags = (value: string) => value.split(",").map(tag => tag.trim()).filter(Boolean);
+
+// The shared post rules, with the category and tags as the form's strings
+const postSchema = forumPostInputSchema.pick({ title: true, body: true }).extend({
+  categoryId: z.string().min(1, { message: "Choose a category" }),
+  tags: z.string().superRefine((value, ctx) => {
+    const result = forumPostInputSchema.shape.tags.safeParse(splitTags(value));
+    if (!result.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.error.errors[0].message });
+    }
+  }),
 });
 
 interface CreatePostFormProps {
-  onSuccess?: () => void;
+  // The post being edited; a new post is created without one
+  post?: ForumPost;
+  onSuccess?: (post: ForumPost) => void;
   onCancel?: () => void;
 }
 
-export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormProps) {
+export default function CreatePostForm({ post, onSuccess, onCancel }: CreatePostFormProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [mode, setMode] = useState<"write" | "preview">("write");
+
+  const { data: categories = [] } = useQuery<ForumCategoryWithCount[]>({
+    queryKey: ["/api/forum-categories"],
+  });
 
   const form = useForm<z.infer<typeof postSchema>>({
     resolver: zodResolver(postSchema),
     defaultValues: {
-      title: "",
-      contentUrl: "",
+      title: post?.title ?? "",
+      body: post?.body ?? "",
+      categoryId: post?.categoryId ? String(post.categoryId) : "",
+      tags: post?.tags.join(", ") ?? "",
     },
   });
 
@@ -63,31 +81,34 @@ export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormPr
 
     try {
       setIsSubmitting(true);
-      
-      await apiRequest("POST", "/api/forum-posts", {
-        ...data,
-        authorId: user.id
-      });
-      
+
+      const input = { ...data, categoryId: Number(data.categoryId), tags: splitTags(data.tags) };
+      const response = post
+        ? await apiRequest("PATCH", `/api/forum-posts/${post.id}`, input)
+        : await apiRequest("POST", "/api/forum-posts", input);
+      const saved: ForumPost = await response.json();
+
       toast({
-        title: "Post created",
-        description: "Your post has been published successfully",
+        title: post ? "Post updated" : "Post created",
+        description: post ? "Your changes have been saved" : "Your post has been published successfully",
       });
-      
-      // Invalidate query to update forum posts
+
+      // Invalidate queries to update the thread list, the thread and the category counts
       queryClient.invalidateQueries({ queryKey: ["/api/forum-posts"] });
-      
-      // Reset form
-      form.reset();
-      
-      // Call success callback if provided
+      queryClient.invalidateQueries({ queryKey: [`/api/forum-posts/${saved.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-tags"] });
+
+      if (!post) form.reset();
+      setMode("write");
+
       if (onSuccess) {
-        onSuccess();
+        onSuccess(saved);
       }
     } catch (error) {
-      console.error("Post creation error:", error);
+      console.error("Post save error:", error);
       toast({
-        title: "Failed to create post",
+        title: post ? "Failed to update post" : "Failed to create post",
         description: error instanceof Error ? error.message : "Please try again later",
         variant: "destructive",
       });
@@ -117,7 +138,7 @@ export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormPr
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Create a New Discussion</CardTitle>
+        <CardTitle>{post ? "Edit Post" : "Create a New Discussion"}</CardTitle>
       </CardHeader>
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)}>
@@ -129,7 +150,7 @@ export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormPr
                 <FormItem>
                   <FormLabel>Title</FormLabel>
                   <FormControl>
-                    <Input 
+                    <Input
                       placeholder="Enter a descriptive title for your discussion"
                       {...field}
                     />
@@ -141,22 +162,80 @@ export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormPr
                 </FormItem>
               )}
             />
-            
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. onboarding, elearning" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Up to {MAX_FORUM_TAGS}, separated by commas
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <FormField
               control={form.control}
-              name="contentUrl"
+              name="body"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Content</FormLabel>
-                  <FormControl>
-                    <Textarea 
-                      placeholder="Share your thoughts, questions, or insights with the community..."
-                      className="min-h-32"
-                      {...field}
-                    />
-                  </FormControl>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Content</FormLabel>
+                    <Tabs value={mode} onValueChange={(value) => setMode(value as "write" | "preview")}>
+                      <TabsList className="h-8">
+                        <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+                        <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                  {mode === "write" ? (
+                    <FormControl>
+                      <Textarea
+                        placeholder="Share your thoughts, questions, or insights with the community..."
+                        className="min-h-48 font-mono text-sm"
+                        {...field}
+                      />
+                    </FormControl>
+                  ) : (
+                    <div className="min-h-48 rounded-md border p-3">
+                      {field.value.trim()
+                        ? <Markdown source={field.value} />
+                        : <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>}
+                    </div>
+                  )}
                   <FormDescription>
-                    Provide details to encourage meaningful responses
+                    Markdown is supported: **bold**, *italics*, `code`, lists, &gt; quotes and [links](https://example.com)
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -172,10 +251,10 @@ export default function CreatePostForm({ onSuccess, onCancel }: CreatePostFormPr
             <Button type="submit" disabled={isSubmitting}>
               {isSubmitting ? (
                 <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Posting...
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> {post ? "Saving..." : "Posting..."}
                 </>
               ) : (
-                "Post Discussion"
+                post ? "Save Changes" : "Post Discussion"
               )}
             </Button>
           </CardFooter>
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+
+// The forum's authors by ID, looked up in one request
+export function useForumAuthors(authorIds: number[]) {
+  const ids = Array.from(new Set(authorIds)).sort((a, b) => a - b);
+
+  const { data: authors = {} } = useQuery<Record<number, User>>({
+    queryKey: ["/api/users/batch", ids],
+    enabled: ids.length > 0,
+    queryFn: async () => {
+      const response = await fetch(`/api/users/batch?userIds=${JSON.stringify(ids)}`, { credentials: "include" });
+      if (!response.ok) {
+        console.error("Error fetching forum authors:", await response.text());
+        return {};
+      }
+      const users: User[] = await response.json();
+      return Object.fromEntries(users.map(user => [user.id, user]));
+    },
+  });
+
+  return authors;
+}
+
+export const authorName = (author?: User) =>
+  author ? [author.firstName, author.lastName].filter(Boolean).join(" ") || author.username : "Unknown";
@@ -1,200 +1,126 @@
-import { useState } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { formatDistanceToNow } from "date-fns";
-import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/hooks/use-auth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useInfiniteList, useLoadMoreRef } from "@/lib/queryClient";
 
 import {
   Card,
   CardContent,
-  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { 
-  MessageSquare, 
-  ThumbsUp, 
-  User, 
-  ChevronDown, 
-  ChevronUp,
-  Building,
-  Send,
+import { ReportButton } from "@/components/report-button";
+import { VoteButton } from "@/components/forum/vote-button";
+import { markdownToPlainText } from "@/components/forum/markdown";
+import { authorName, useForumAuthors } from "@/components/forum/forum-authors";
+import {
+  CheckCircle,
+  Eye,
+  Lock,
+  MessageSquare,
+  Pin,
   Loader2
 } from "lucide-react";
-import type { ForumPost, ForumComment, User as UserType } from "@shared/schema";
-
-export default function ForumPosts() {
-  const { user } = useAuth();
-  const { toast } = useToast();
-  const [expandedPosts, setExpandedPosts] = useState<number[]>([]);
-  const [commentInputs, setCommentInputs] = useState<Record<number, string>>({});
-  const [submittingComment, setSubmittingComment] = useState<number | null>(null);
-
-  // Fetch forum posts
-  const { 
-    data: posts, 
-    isLoading: isLoadingPosts 
-  } = useQuery<ForumPost[]>({
-    queryKey: ["/api/forum-posts"],
-  });
+import type { ForumCategoryWithCount, ForumPostForViewer } from "@shared/forum";
+import type { ForumPostPageQuery } from "@shared/pagination";
 
-  // Fetch comments for expanded posts
-  const { 
-    data: commentsMap, 
-    isLoading: isLoadingComments 
-  } = useQuery<Record<number, ForumComment[]>>({
-    queryKey: ["/api/forum-comments", expandedPosts],
-    enabled: expandedPosts.length > 0,
-    queryFn: async () => {
-      const results: Record<number, ForumComment[]> = {};
-      
-      for (const postId of expandedPosts) {
-        try {
-          const response = await fetch(`/api/forum-posts/${postId}/comments`, {
-            credentials: "include",
-          });
-          
-          if (!response.ok) {
-            throw new Error(`Failed to fetch comments for post ${postId}`);
-          }
-          
-          results[postId] = await response.json();
-        } catch (error) {
-          console.error(`Error fetching comments for post ${postId}:`, error);
-          results[postId] = [];
-        }
-      }
-      
-      return results;
-    }
-  });
+const EXCERPT_LENGTH = 240;
 
-  // Fetch user details for posts and comments
-  const { data: userMap } = useQuery<Record<number, UserType>>({
-    queryKey: ["/api/users/batch", posts],
-    enabled: !!posts && posts.length > 0,
-    queryFn: async () => {
-      const results: Record<number, UserType> = {};
-      
-      if (!posts) return results;
-      
-      const userIds = new Set<number>();
-      posts.forEach(post => userIds.add(post.authorId));
-      
-      if (commentsMap) {
-        Object.values(commentsMap).flat().forEach(comment => {
-          userIds.add(comment.authorId);
-        });
-      }
-      
-      // Use the batch endpoint to get all users at once
-      try {
-        const userIdsArray = Array.from(userIds);
-        const response = await fetch(`/api/users/batch?userIds=${JSON.stringify(userIdsArray)}`, {
-          credentials: "include"
-        });
-        
-        if (!response.ok) {
-          console.error("Error fetching forum users:", await response.text());
-          return results;
-        }
-        
-        const users = await response.json();
-        
-        // Index users by ID for easy lookup
-        users.forEach((user: UserType) => {
-          results[user.id] = user;
-        });
-      } catch (error) {
-        console.error("Error fetching forum users:", error);
-      }
-      
-      return results;
-    }
-  });
+interface ForumPostsProps {
+  sort: ForumPostPageQuery["sort"];
+  categoryId?: number;
+  tag?: string;
+  query?: string;
+  categories: ForumCategoryWithCount[];
+  onTagSelect: (tag: string) => void;
+}
 
-  const toggleExpandPost = (postId: number) => {
-    if (expandedPosts.includes(postId)) {
-      setExpandedPosts(expandedPosts.filter(id => id !== postId));
-    } else {
-      setExpandedPosts([...expandedPosts, postId]);
-    }
-  };
+function PostCard({ post, categories, authorLabel, onTagSelect }: {
+  post: ForumPostForViewer;
+  categories: ForumCategoryWithCount[];
+  authorLabel: string;
+  onTagSelect: (tag: string) => void;
+}) {
+  const category = categories.find(c => c.id === post.categoryId);
+  const excerpt = markdownToPlainText(post.body);
 
-  const handleCommentInputChange = (postId: number, value: string) => {
-    setCommentInputs({
-      ...commentInputs,
-      [postId]: value
-    });
-  };
+  return (
+    <Card className={post.pinned ? "border-primary/40" : undefined}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start gap-3">
+          <VoteButton
+            url={`/api/forum-posts/${post.id}/votes`}
+            voteCount={post.voteCount}
+            voted={post.viewerHasVoted}
+            authorId={post.authorId}
+            queryKey="/api/forum-posts"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              {post.pinned && <Badge variant="secondary"><Pin className="h-3 w-3 mr-1" />Pinned</Badge>}
+              {post.locked && <Badge variant="outline"><Lock className="h-3 w-3 mr-1" />Locked</Badge>}
+              {post.acceptedReplyId && (
+                <Badge variant="outline" className="text-green-700 border-green-300">
+                  <CheckCircle className="h-3 w-3 mr-1" />Answered
+                </Badge>
+              )}
+              {category && <Badge variant="outline">{category.name}</Badge>}
+            </div>
+            <CardTitle className="text-lg">
+              <Link href={`/forum/${post.id}`} className="hover:underline">{post.title}</Link>
+            </CardTitle>
+            <div className="text-sm text-gray-500 mt-1">
+              Posted by {authorLabel} • {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+            </div>
+          </div>
+          <ReportButton targetType="forumPost" targetId={post.id} ownerId={post.authorId} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-700">
+          {excerpt.length > EXCERPT_LENGTH ? `${excerpt.slice(0, EXCERPT_LENGTH)}…` : excerpt}
+        </p>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-500">
+          <span className="flex items-center gap-1">
+            <MessageSquare className="h-4 w-4" />
+            {post.replyCount} {post.replyCount === 1 ? "reply" : "replies"}
+          </span>
+          <span className="flex items-center gap-1">
+            <Eye className="h-4 w-4" />
+            {post.viewCount} {post.viewCount === 1 ? "view" : "views"}
+          </span>
+          {post.tags.map((tag) => (
+            <button key={tag} type="button" onClick={() => onTagSelect(tag)}>
+              <Badge variant="secondary" className="font-normal">#{tag}</Badge>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
-  const handleSubmitComment = async (postId: number) => {
-    if (!user) {
-      toast({
-        title: "Authentication required",
-        description: "You need to sign in to post comments",
-        variant: "destructive"
-      });
-      return;
-    }
+// Threads in the chosen category, tag and order; pinned threads are listed first
+export default function ForumPosts({ sort, categoryId, tag, query, categories, onTagSelect }: ForumPostsProps) {
+  const filters = { categoryId, tag, query };
 
-    const comment = commentInputs[postId];
-    if (!comment || comment.trim() === "") {
-      toast({
-        title: "Empty comment",
-        description: "Please enter a comment",
-        variant: "destructive"
-      });
-      return;
-    }
+  const pinnedQuery = useInfiniteList<ForumPostForViewer>("/api/forum-posts", { ...filters, sort: "new", pinned: true });
+  const postsQuery = useInfiniteList<ForumPostForViewer>("/api/forum-posts", { ...filters, sort, pinned: false });
+  const { items: posts, isLoading: isLoadingPosts, isFetchingNextPage } = postsQuery;
+  const pinned = pinnedQuery.items;
+  const loadMoreRef = useLoadMoreRef(postsQuery);
 
-    try {
-      setSubmittingComment(postId);
-      
-      await apiRequest("POST", `/api/forum-posts/${postId}/comments`, {
-        content: comment,
-        postId,
-        authorId: user.id
-      });
-      
-      // Clear input
-      setCommentInputs({
-        ...commentInputs,
-        [postId]: ""
-      });
-      
-      // Invalidate queries to update UI
-      queryClient.invalidateQueries({ queryKey: ["/api/forum-comments", expandedPosts] });
-      
-      toast({
-        title: "Comment added",
-        description: "Your comment was posted successfully"
-      });
-    } catch (error) {
-      console.error("Failed to submit comment:", error);
-      toast({
-        title: "Failed to submit comment",
-        description: "Please try again later",
-        variant: "destructive"
-      });
-    } finally {
-      setSubmittingComment(null);
-    }
-  };
+  const authors = useForumAuthors([...pinned, ...posts].map(post => post.authorId));
 
-  if (isLoadingPosts) {
+  if (isLoadingPosts || pinnedQuery.isLoading) {
     return (
       <div className="space-y-6">
         {[...Array(3)].map((_, i) => (
           <Card key={i}>
             <CardHeader>
               <div className="flex items-start gap-4">
-                <Skeleton className="h-10 w-10 rounded-full" />
+                <Skeleton className="h-8 w-12" />
                 <div className="space-y-2 flex-1">
                   <Skeleton className="h-5 w-40" />
                   <Skeleton className="h-4 w-24" />
@@ -202,190 +128,42 @@ export default function ForumPosts() {
               </div>
             </CardHeader>
             <CardContent>
-              <Skeleton className="h-4 w-full mb-2" />
               <Skeleton className="h-4 w-full mb-2" />
               <Skeleton className="h-4 w-3/4" />
             </CardContent>
-            <CardFooter>
-              <Skeleton className="h-9 w-28" />
-            </CardFooter>
           </Card>
         ))}
       </div>
     );
   }
 
-  if (!posts || posts.length === 0) {
+  if (posts.length === 0 && pinned.length === 0) {
+    const filtered = categoryId !== undefined || !!tag || !!query;
     return (
       <div className="text-center py-12">
         <MessageSquare className="mx-auto h-12 w-12 text-gray-300 mb-4" />
-        <h3 className="text-lg font-medium mb-2">No discussions yet</h3>
-        <p className="text-gray-500 mb-6">Be the first to start a discussion in the community</p>
+        <h3 className="text-lg font-medium mb-2">{filtered ? "No matching discussions" : "No discussions yet"}</h3>
+        <p className="text-gray-500 mb-6">
+          {filtered ? "Try another category, tag or search" : "Be the first to start a discussion in the community"}
+        </p>
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
-      {posts.map((post) => {
-        const isExpanded = expandedPosts.includes(post.id);
-        const postComments = commentsMap?.[post.id] || [];
-        const author = userMap?.[post.authorId];
-        
-        return (
-          <Card key={post.id}>
-            <CardHeader>
-              <div className="flex items-start gap-4">
-                <div className="w-10 h-10 rounded-full bg-gray-100 flex items-center justify-center">
-                  {author?.userType === "company" ? (
-                    <Building className="h-5 w-5 text-gray-500" />
-                  ) : (
-                    <User className="h-5 w-5 text-gray-500" />
-                  )}
-                </div>
-                <div>
-                  <CardTitle className="text-lg">
-                    {post.title}
-                  </CardTitle>
-                  <div className="text-sm text-gray-500 mt-1">
-                    Posted by {author ? `${author.firstName} ${author.lastName}` : "Unknown"} • {
-                      formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })
-                    }
-                  </div>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="prose max-w-none">
-                <p className="whitespace-pre-line">{post.content}</p>
-              </div>
-            </CardContent>
-            <CardFooter className="flex justify-between border-t pt-4">
-              <div className="flex space-x-4">
-                <Button variant="ghost" size="sm" className="text-gray-500">
-                  <ThumbsUp className="h-4 w-4 mr-1" />
-                  Like
-                </Button>
-                <Button 
-                  variant="ghost" 
-                  size="sm"
-                  className="text-gray-500" 
-                  onClick={() => toggleExpandPost(post.id)}
-                >
-                  <MessageSquare className="h-4 w-4 mr-1" />
-                  {isExpanded ? "Hide Comments" : "Comments"}
-                  {isExpanded ? (
-                    <ChevronUp className="h-4 w-4 ml-1" />
-                  ) : (
-                    <ChevronDown className="h-4 w-4 ml-1" />
-                  )}
-                </Button>
-              </div>
-              <div className="text-sm text-gray-500">
-                {postComments.length} {postComments.length === 1 ? "comment" : "comments"}
-              </div>
-            </CardFooter>
-            
-            {isExpanded && (
-              <div className="px-6 pb-6 space-y-4">
-                <div className="border-t pt-4">
-                  {isLoadingComments ? (
-                    <div className="space-y-4">
-                      {[...Array(2)].map((_, i) => (
-                        <div key={i} className="flex items-start gap-3">
-                          <Skeleton className="h-8 w-8 rounded-full" />
-                          <div className="space-y-2 flex-1">
-                            <Skeleton className="h-4 w-36" />
-                            <Skeleton className="h-4 w-full" />
-                            <Skeleton className="h-4 w-20" />
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  ) : postComments.length > 0 ? (
-                    <div className="space-y-4">
-                      {postComments.map((comment) => {
-                        const commentAuthor = userMap?.[comment.authorId];
-                        
-                        return (
-                          <div key={comment.id} className="flex items-start gap-3">
-                            <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
-                              {commentAuthor?.userType === "company" ? (
-                                <Building className="h-4 w-4 text-gray-500" />
-                              ) : (
-                                <User className="h-4 w-4 text-gray-500" />
-                              )}
-                            </div>
-                            <div>
-                              <div className="bg-muted p-3 rounded-lg">
-                                <p className="font-medium text-sm">
-                                  {commentAuthor ? `${commentAuthor.firstName} ${commentAuthor.lastName}` : "Unknown"}
-                                </p>
-                                <p className="text-gray-700 mt-1 text-sm whitespace-pre-line">
-                                  {comment.content}
-                                </p>
-                              </div>
-                              <div className="text-xs text-gray-500 mt-1">
-                                {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                              </div>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  ) : (
-                    <p className="text-sm text-gray-500 text-center py-2">
-                      No comments yet. Be the first to comment!
-                    </p>
-                  )}
-                </div>
-                
-                {user ? (
-                  <div className="flex items-start gap-3 mt-4">
-                    <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
-                      {user.userType === "company" ? (
-                        <Building className="h-4 w-4 text-gray-500" />
-                      ) : (
-                        <User className="h-4 w-4 text-gray-500" />
-                      )}
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex gap-2">
-                        <Textarea
-                          placeholder="Write a comment..."
-                          className="min-h-0 h-10 py-2 resize-none flex-1"
-                          value={commentInputs[post.id] || ""}
-                          onChange={(e) => handleCommentInputChange(post.id, e.target.value)}
-                        />
-                        <Button 
-                          size="icon"
-                          onClick={() => handleSubmitComment(post.id)}
-                          disabled={submittingComment === post.id || !commentInputs[post.id]?.trim()}
-                        >
-                          {submittingComment === post.id ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <Send className="h-4 w-4" />
-                          )}
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-center mt-4">
-                    <p className="text-sm text-gray-500 mb-2">
-                      Sign in to join the discussion
-                    </p>
-                    <Button size="sm" asChild>
-                      <a href="/login">Sign In</a>
-                    </Button>
-                  </div>
-                )}
-              </div>
-            )}
-          </Card>
-        );
-      })}
+      {[...pinned, ...posts].map((post) => (
+        <PostCard
+          key={post.id}
+          post={post}
+          categories={categories}
+          authorLabel={authorName(authors[post.authorId])}
+          onTagSelect={onTagSelect}
+        />
+      ))}
+      <div ref={loadMoreRef} className="flex justify-center py-2">
+        {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,196 @@
+import { Fragment, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+// Renders the subset of markdown forum posts use: headings, paragraphs, lists, quotes, code,
+// links, bold and italics. Everything becomes React elements, never HTML, so text the author
+// typed is always escaped; links are only kept for http(s) and mailto addresses.
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; lines: string[] }
+  | { type: "code"; text: string }
+  | { type: "quote"; lines: string[] }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "rule" };
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// Code spans, links, bold, italics and bare web addresses, whichever comes first
+const INLINE = /`([^`]+)`|\[([^\]]+)\]\(([^()\s]+)\)|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|(https?:\/\/[^\s<]*[^\s<.,:;"'!?)\]])/g;
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+function startsBlock(line: string) {
+  return FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || RULE.test(line)
+    || UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line);
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    // Checked before lists, so "---" and "* * *" are rules
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(QUOTE.exec(lines[i++])![1]);
+      blocks.push({ type: "quote", lines: quoted });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: string[] = [];
+      while (i < lines.length && pattern.test(lines[i])) items.push(pattern.exec(lines[i++])![1]);
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    blocks.push({ type: "paragraph", lines: paragraph });
+  }
+  return blocks;
+}
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  INLINE.lastIndex = 0;
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = INLINE.exec(text)) !== null) matches.push(match);
+
+  matches.forEach((m, index) => {
+    if (m.index > last) nodes.push(text.slice(last, m.index));
+    last = m.index + m[0].length;
+    const [, code, linkText, linkUrl, bold, italic, bareUrl] = m;
+
+    if (code !== undefined) {
+      nodes.push(<code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">{code}</code>);
+    } else if (linkText !== undefined) {
+      nodes.push(SAFE_URL.test(linkUrl)
+        ? <ExternalLink key={index} href={linkUrl}>{renderInline(linkText)}</ExternalLink>
+        : <Fragment key={index}>{renderInline(linkText)}</Fragment>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={index}>{renderInline(bold)}</strong>);
+    } else if (italic !== undefined) {
+      nodes.push(<em key={index}>{renderInline(italic)}</em>);
+    } else {
+      nodes.push(<ExternalLink key={index} href={bareUrl}>{bareUrl}</ExternalLink>);
+    }
+  });
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+function ExternalLink({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <a href={href} target="_blank" rel="nofollow ugc noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  );
+}
+
+// Single line breaks inside a paragraph are kept, as people type them in a textarea
+function renderLines(lines: string[]) {
+  return lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+}
+
+// Post headings sit below the page's own, so "#" is a section title rather than a page title
+const HEADING_CLASSES = ["text-xl", "text-lg", "text-base", "text-base", "text-sm", "text-sm"];
+
+function renderBlock(block: Block, index: number): ReactNode {
+  switch (block.type) {
+    case "heading":
+      return (
+        <p key={index} role="heading" aria-level={Math.min(block.level + 2, 6)} className={cn("font-semibold", HEADING_CLASSES[block.level - 1])}>
+          {renderInline(block.text)}
+        </p>
+      );
+    case "paragraph":
+      return <p key={index}>{renderLines(block.lines)}</p>;
+    case "code":
+      return (
+        <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-sm">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote key={index} className="border-l-2 pl-3 text-muted-foreground">
+          {parseBlocks(block.lines.join("\n")).map(renderBlock)}
+        </blockquote>
+      );
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={index} className={cn("space-y-1 pl-6", block.ordered ? "list-decimal" : "list-disc")}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case "rule":
+      return <hr key={index} className="border-border" />;
+  }
+}
+
+export function Markdown({ source, className }: { source: string; className?: string }) {
+  return (
+    <div className={cn("space-y-3 break-words text-sm leading-relaxed", className)}>
+      {parseBlocks(source).map(renderBlock)}
+    </div>
+  );
+}
+
+// The text without markdown syntax, for previews in the thread list
+export function markdownToPlainText(source: string): string {
+  return source
+    .replace(/```[\s\S]*?(```|$)/g, " ")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/\*\*|\*/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
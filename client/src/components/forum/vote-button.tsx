@@ -0,0 +1,49 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ArrowBigUp } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { ForumVoteResult } from "@shared/forum";
+
+interface VoteButtonProps {
+  // The votes endpoint of the post or reply
+  url: string;
+  voteCount: number;
+  voted: boolean;
+  authorId: number;
+  // Refetched once the vote is counted
+  queryKey: string;
+}
+
+// Upvotes a post or reply, or takes the upvote back; people cannot vote for themselves
+export function VoteButton({ url, voteCount, voted, authorId, queryKey }: VoteButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const voteMutation = useMutation({
+    mutationFn: async (): Promise<ForumVoteResult> => (await apiRequest("POST", url)).json(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [queryKey] }),
+    onError: (error: Error) => {
+      toast({ title: "Could not vote", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const ownContent = user?.id === authorId;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn("gap-1 px-2", voted ? "text-primary" : "text-muted-foreground")}
+      disabled={!user || ownContent || voteMutation.isPending}
+      title={!user ? "Sign in to vote" : ownContent ? "You cannot vote for your own content" : voted ? "Remove your upvote" : "Upvote"}
+      aria-pressed={voted}
+      onClick={() => voteMutation.mutate()}
+    >
+      <ArrowBigUp className={cn("h-4 w-4", voted && "fill-current")} />
+      {voteCount}
+    </Button>
+  );
+}
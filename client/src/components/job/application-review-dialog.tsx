@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, FileText, Loader2, Mail, MapPin, Phone, Star } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ApplicationNote, ApplicationScorecard, JobApplication, PipelineStage } from "@shared/schema";
+
+// An application as the pipeline board returns it
+export type PipelineApplication = Omit<JobApplication, "createdAt" | "stageId"> & {
+  createdAt: string;
+  stageId: number;
+  averageRating: number | null;
+  scorecardCount: number;
+  noteCount: number;
+  professional: {
+    id: number;
+    userId: number;
+    firstName: string | null;
+    lastName: string | null;
+    title: string | null;
+    location: string | null;
+    email: string | null;
+    phone: string | null;
+    profileImageUrl: string | null;
+    bio: string | null;
+  };
+};
+
+interface TeamMemberName {
+  id: number;
+  username: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface StageHistoryEntry {
+  id: number;
+  fromStageName: string | null;
+  toStageName: string;
+  movedAt: string;
+  movedBy: TeamMemberName;
+}
+
+const SCORECARD_CRITERIA = ["Expertise", "Communication", "Facilitation", "Culture fit"];
+
+const displayName = (person: TeamMemberName) => `${person.firstName} ${person.lastName}`.trim() || person.username;
+
+function RatingInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map(rating => (
+        <button
+          key={rating}
+          type="button"
+          aria-label={`${rating} of 5`}
+          onClick={() => onChange(rating === value ? 0 : rating)}
+        >
+          <Star className={`h-5 w-5 ${rating <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface ApplicationReviewDialogProps {
+  application: PipelineApplication | null;
+  stages: PipelineStage[];
+  canEdit: boolean;
+  onMove: (applicationId: number, stageId: number) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ApplicationReviewDialog({ application, stages, canEdit, onMove, onOpenChange }: ApplicationReviewDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [overallRating, setOverallRating] = useState(0);
+  const [criteria, setCriteria] = useState<Record<string, number>>({});
+  const [comment, setComment] = useState("");
+
+  const applicationId = application?.id;
+  const pipelineKey = application ? [`/api/job-postings/${application.jobId}/pipeline`] : [];
+
+  const { data: history } = useQuery<StageHistoryEntry[]>({
+    queryKey: [`/api/applications/${applicationId}/history`],
+    enabled: !!applicationId,
+  });
+
+  const { data: notes } = useQuery<{ note: ApplicationNote; author: TeamMemberName }[]>({
+    queryKey: [`/api/applications/${applicationId}/notes`],
+    enabled: !!applicationId,
+  });
+
+  const { data: scorecards } = useQuery<{ scorecard: ApplicationScorecard; reviewer: TeamMemberName }[]>({
+    queryKey: [`/api/applications/${applicationId}/scorecards`],
+    enabled: !!applicationId,
+  });
+
+  const myScorecard = scorecards?.find(entry => entry.reviewer.id === user?.id)?.scorecard;
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again", variant: "destructive" });
+  };
+
+  const addNoteMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/applications/${applicationId}/notes`, { content: note }),
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}/notes`] });
+      queryClient.invalidateQueries({ queryKey: pipelineKey });
+    },
+    onError: onError("Could not add note"),
+  });
+
+  const scorecardMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/applications/${applicationId}/scorecard`, {
+      overallRating,
+      // Criteria left unrated are not part of the scorecard
+      criteria: Object.fromEntries(Object.entries(criteria).filter(([, rating]) => rating > 0)),
+      comment: comment.trim() || undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}/scorecards`] });
+      queryClient.invalidateQueries({ queryKey: pipelineKey });
+      toast({ title: "Scorecard saved" });
+    },
+    onError: onError("Could not save scorecard"),
+  });
+
+  // Start the form from the reviewer's saved scorecard
+  const editMyScorecard = () => {
+    setOverallRating(myScorecard?.overallRating ?? 0);
+    setCriteria(myScorecard?.criteria ?? {});
+    setComment(myScorecard?.comment ?? "");
+  };
+
+  if (!application) return null;
+
+  const { professional } = application;
+  const name = `${professional.firstName ?? ""} ${professional.lastName ?? ""}`.trim() || "Candidate";
+
+  return (
+    <Dialog
+      open={!!application}
+      onOpenChange={(open) => {
+        if (open) return;
+        setNote("");
+        setOverallRating(0);
+        setCriteria({});
+        setComment("");
+        onOpenChange(false);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{name}</DialogTitle>
+          <DialogDescription>
+            {professional.title || "Professional"} · Applied {format(new Date(application.createdAt), "MMM d, yyyy")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <span className="text-sm font-medium">Stage</span>
+          <Select
+            value={String(application.stageId)}
+            onValueChange={(value) => onMove(application.id, parseInt(value))}
+            disabled={!canEdit}
+          >
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map(stage => (
+                <SelectItem key={stage.id} value={String(stage.id)}>{stage.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {application.averageRating !== null && (
+            <span className="flex items-center gap-1 text-sm text-gray-600">
+              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+              {application.averageRating} from {application.scorecardCount} scorecard{application.scorecardCount !== 1 ? "s" : ""}
+            </span>
+          )}
+        </div>
+
+        <Tabs defaultValue="profile" onValueChange={(tab) => tab === "scorecards" && editMyScorecard()}>
+          <TabsList className="grid grid-cols-4 w-full">
+            <TabsTrigger value="profile">Profile</TabsTrigger>
+            <TabsTrigger value="notes">Notes{notes?.length ? ` (${notes.length})` : ""}</TabsTrigger>
+            <TabsTrigger value="scorecards">Scorecards</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="profile" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              {professional.email && (
+                <a href={`mailto:${professional.email}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Mail className="w-4 h-4 text-gray-500" /> {professional.email}
+                </a>
+              )}
+              {professional.phone && (
+                <a href={`tel:${professional.phone}`} className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Phone className="w-4 h-4 text-gray-500" /> {professional.phone}
+                </a>
+              )}
+              {professional.location && (
+                <span className="flex items-center gap-2 text-gray-600">
+                  <MapPin className="w-4 h-4 text-gray-500" /> {professional.location}
+                </span>
+              )}
+            </div>
+            {professional.bio && (
+              <div>
+                <h4 className="font-medium mb-1">About</h4>
+                <p className="text-gray-700 text-sm break-words">{professional.bio}</p>
+              </div>
+            )}
+            {application.coverLetter && (
+              <div>
+                <h4 className="font-medium mb-1 flex items-center gap-2">
+                  <FileText className="w-4 h-4" /> Cover Letter
+                </h4>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-gray-700 text-sm whitespace-pre-wrap break-words">{application.coverLetter}</p>
+                </div>
+              </div>
+            )}
+            <Link href={`/professional-profile/${application.professionalId}`}>
+              <Button variant="outline" size="sm">View Full Profile</Button>
+            </Link>
+          </TabsContent>
+
+          <TabsContent value="notes" className="space-y-4">
+            <p className="text-xs text-muted-foreground">Notes are only visible to your team.</p>
+            {canEdit && (
+              <form
+                className="space-y-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (note.trim()) addNoteMutation.mutate();
+                }}
+              >
+                <Textarea
+                  placeholder="Add a note about this candidate..."
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                />
+                <Button type="submit" size="sm" disabled={!note.trim() || addNoteMutation.isPending}>
+                  {addNoteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Add Note
+                </Button>
+              </form>
+            )}
+            {notes && notes.length > 0 ? (
+              <div className="space-y-3">
+                {notes.map(({ note: entry, author }) => (
+                  <div key={entry.id} className="rounded-md border p-3">
+                    <p className="text-sm whitespace-pre-wrap break-words">{entry.content}</p>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {displayName(author)} · {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No notes yet.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="scorecards" className="space-y-4">
+            {canEdit && (
+              <form
+                className="space-y-3 rounded-md border p-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (overallRating > 0) scorecardMutation.mutate();
+                }}
+              >
+                <h4 className="font-medium">{myScorecard ? "Your scorecard" : "Add your scorecard"}</h4>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Overall</span>
+                  <RatingInput value={overallRating} onChange={setOverallRating} />
+                </div>
+                <Separator />
+                {SCORECARD_CRITERIA.map(criterion => (
+                  <div key={criterion} className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">{criterion}</span>
+                    <RatingInput
+                      value={criteria[criterion] ?? 0}
+                      onChange={(rating) => setCriteria({ ...criteria, [criterion]: rating })}
+                    />
+                  </div>
+                ))}
+                <Textarea
+                  placeholder="Comment (optional)"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  rows={2}
+                />
+                <Button type="submit" size="sm" disabled={overallRating === 0 || scorecardMutation.isPending}>
+                  {scorecardMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Scorecard
+                </Button>
+              </form>
+            )}
+            {scorecards && scorecards.length > 0 ? (
+              <div className="space-y-3">
+                {scorecards.map(({ scorecard, reviewer }) => (
+                  <div key={scorecard.id} className="rounded-md border p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-sm">{displayName(reviewer)}</span>
+                      <span className="flex items-center gap-1 text-sm">
+                        <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" /> {scorecard.overallRating}/5
+                      </span>
+                    </div>
+                    {Object.keys(scorecard.criteria).length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {Object.entries(scorecard.criteria).map(([criterion, rating]) => (
+                          <Badge key={criterion} variant="secondary">{criterion}: {rating}/5</Badge>
+                        ))}
+                      </div>
+                    )}
+                    {scorecard.comment && <p className="text-sm text-gray-700">{scorecard.comment}</p>}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No scorecards yet.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-3">
+            <div className="text-sm text-gray-600">
+              Applied {format(new Date(application.createdAt), "MMM d, yyyy h:mm a")}
+            </div>
+            {history && history.length > 0 ? (
+              history.map(entry => (
+                <div key={entry.id} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span>{entry.fromStageName ?? "—"}</span>
+                    <ArrowRight className="h-3 w-3 text-gray-400" />
+                    <span className="font-medium">{entry.toStageName}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {displayName(entry.movedBy)} · {format(new Date(entry.movedAt), "MMM d, yyyy h:mm a")}
+                  </p>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500">This application has not moved yet.</p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -32,10 +32,12 @@ import { Switch } from "@/components/ui/switch";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
+import { JobDraftAssistant, LanguageCheckPanel } from "@/components/job/job-writing-assistant";
 import { 
   insertJobPostingSchema,
   type CompanyProfile
 } from "@shared/schema";
+import type { JobDraft, LanguageIssue } from "@shared/job-writing";
 
 // Extended schema for form validation with proper field requirements
 const jobPostingFormSchema = insertJobPostingSchema.extend({
@@ -67,7 +69,7 @@ export default function JobPostForm() {
 
   // Fetch user's company profile
   const { data: companyProfile, isLoading: isLoadingProfile } = useQuery<CompanyProfile>({
-    queryKey: ["/api/company-profiles/by-user"],
+    queryKey: ["/api/companies/me"],
     enabled: user?.userType === "company",
   });
 
@@ -98,6 +100,30 @@ export default function JobPostForm() {
     }
   }, [companyProfile, form]);
 
+  const applyDraft = (draft: JobDraft) => {
+    form.setValue("title", draft.title, { shouldDirty: true });
+    form.setValue("description", draft.description, { shouldDirty: true });
+    form.setValue("requirements", draft.requirements, { shouldDirty: true });
+  };
+
+  // Suggested expertise goes into the comma-separated requirements, once
+  const addExpertiseRequirement = (name: string) => {
+    const requirements = form.getValues("requirements") || "";
+    const existing = requirements.split(",").map((item) => item.trim().toLowerCase());
+    if (existing.includes(name.toLowerCase())) return;
+    form.setValue("requirements", requirements.trim() ? `${requirements.trim()}, ${name}` : name, { shouldDirty: true });
+  };
+
+  // The field may have been edited since the check, so fall back to the phrase's first occurrence
+  const replacePhrase = (issue: LanguageIssue, replacement: string) => {
+    const text = form.getValues(issue.field) || "";
+    const start = text.slice(issue.start, issue.start + issue.phrase.length) === issue.phrase
+      ? issue.start
+      : text.indexOf(issue.phrase);
+    if (start === -1) return;
+    form.setValue(issue.field, text.slice(0, start) + replacement + text.slice(start + issue.phrase.length), { shouldDirty: true });
+  };
+
   const onSubmit = async (data: z.infer<typeof jobPostingFormSchema>) => {
     console.log("Job posting form submitted with data:", data);
     console.log("Company profile:", companyProfile);
@@ -247,6 +273,8 @@ export default function JobPostForm() {
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
         <div className="space-y-6">
+          <JobDraftAssistant onDraft={applyDraft} onAddExpertise={addExpertiseRequirement} />
+
           <div className="border p-6 rounded-md shadow-sm">
             <h2 className="text-xl font-semibold mb-4">Basic Job Information</h2>
             
@@ -393,6 +421,14 @@ export default function JobPostForm() {
               )}
             />
           </div>
+
+          <LanguageCheckPanel
+            getDraft={() => {
+              const { title, description, requirements } = form.getValues();
+              return { title: title || "", description: description || "", requirements: requirements || "" };
+            }}
+            onReplace={replacePhrase}
+          />
           
           <div className="border p-6 rounded-md shadow-sm">
             <h2 className="text-xl font-semibold mb-4">Compensation</h2>
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, Loader2, Plus, Sparkles, SpellCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobBrief, JobDraft, JobDraftCheckInput, JobDraftField, LanguageCheckResult, LanguageIssue } from "@shared/job-writing";
+
+const FIELD_LABELS: Record<JobDraftField, string> = {
+  title: "Title",
+  description: "Description",
+  requirements: "Requirements",
+};
+
+// How much of the surrounding text to show around a flagged phrase
+const CONTEXT_CHARS = 40;
+
+// The feature gate answers 403 when the company's plan has no AI features
+const isUpgradeError = (error: Error) => error.message.startsWith("403");
+
+function UpgradeNotice() {
+  return (
+    <Alert>
+      <AlertDescription>
+        The AI writing assistant is part of plans with AI features.{" "}
+        <Link href="/subscription-plans" className="underline">Upgrade your plan</Link> to use it.
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+interface JobDraftAssistantProps {
+  onDraft: (draft: JobDraft) => void;
+  onAddExpertise: (name: string) => void;
+}
+
+// Drafts the title, description and requirements from a short brief
+export function JobDraftAssistant({ onDraft, onAddExpertise }: JobDraftAssistantProps) {
+  const { toast } = useToast();
+  const [brief, setBrief] = useState<JobBrief>({ role: "", audience: "", duration: "", budget: "", remote: false });
+  const [draft, setDraft] = useState<JobDraft | null>(null);
+
+  const draftMutation = useMutation({
+    mutationFn: async (): Promise<JobDraft> => (await apiRequest("POST", "/api/job-writing/draft", brief)).json(),
+    onSuccess: (result) => {
+      setDraft(result);
+      onDraft(result);
+      toast({ title: "Draft ready", description: "Review and edit the draft before posting." });
+    },
+    onError: (error: Error) => {
+      if (isUpgradeError(error)) return;
+      toast({ title: "Could not draft the job", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  const update = (field: keyof JobBrief) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setBrief({ ...brief, [field]: e.target.value });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Sparkles className="h-5 w-5 text-primary" /> Draft with AI
+        </CardTitle>
+        <CardDescription>
+          Describe the role in a few words and we'll draft the posting. Drafting replaces the title, description and requirements below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draftMutation.error && isUpgradeError(draftMutation.error) && <UpgradeNotice />}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="brief-role">Role</Label>
+            <Input id="brief-role" placeholder="e.g. Instructional designer for sales onboarding" value={brief.role} maxLength={200} onChange={update("role")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brief-audience">Learners</Label>
+            <Input id="brief-audience" placeholder="e.g. 200 new sales hires a year" value={brief.audience} maxLength={200} onChange={update("audience")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brief-duration">Duration</Label>
+            <Input id="brief-duration" placeholder="e.g. 6 months" value={brief.duration} maxLength={100} onChange={update("duration")} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brief-budget">Budget</Label>
+            <Input id="brief-budget" placeholder="e.g. $20,000" value={brief.budget} maxLength={100} onChange={update("budget")} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Switch id="brief-remote" checked={brief.remote} onCheckedChange={(remote) => setBrief({ ...brief, remote })} />
+            <Label htmlFor="brief-remote">Remote</Label>
+          </div>
+          <Button type="button" onClick={() => draftMutation.mutate()} disabled={brief.role.trim().length < 2 || draftMutation.isPending}>
+            {draftMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            Draft posting
+          </Button>
+        </div>
+
+        {draft && draft.suggestedExpertise.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Suggested expertise. Click a tag to add it to the requirements.</p>
+            <div className="flex flex-wrap gap-2">
+              {draft.suggestedExpertise.map((item) => (
+                <Badge key={item.id} variant="secondary" className="cursor-pointer" onClick={() => onAddExpertise(item.name)}>
+                  <Plus className="mr-1 h-3 w-3" /> {item.name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IssueContext({ text, issue }: { text: string; issue: LanguageIssue }) {
+  const end = issue.start + issue.phrase.length;
+  const before = text.slice(Math.max(0, issue.start - CONTEXT_CHARS), issue.start);
+  const after = text.slice(end, end + CONTEXT_CHARS);
+
+  return (
+    <p className="text-sm">
+      {issue.start > CONTEXT_CHARS && "…"}
+      {before}
+      <mark className={issue.category === "inclusive" ? "bg-amber-200 rounded px-0.5" : "bg-sky-200 rounded px-0.5"}>
+        {issue.phrase}
+      </mark>
+      {after}
+      {end + CONTEXT_CHARS < text.length && "…"}
+    </p>
+  );
+}
+
+interface LanguageCheckPanelProps {
+  getDraft: () => JobDraftCheckInput;
+  onReplace: (issue: LanguageIssue, replacement: string) => void;
+}
+
+// Highlights exclusionary and unclear phrases in the current draft
+export function LanguageCheckPanel({ getDraft, onReplace }: LanguageCheckPanelProps) {
+  const { toast } = useToast();
+  const [checked, setChecked] = useState<{ draft: JobDraftCheckInput; result: LanguageCheckResult } | null>(null);
+
+  const checkMutation = useMutation({
+    mutationFn: async (draft: JobDraftCheckInput) => {
+      const result: LanguageCheckResult = await (await apiRequest("POST", "/api/job-writing/check", draft)).json();
+      return { draft, result };
+    },
+    onSuccess: setChecked,
+    onError: (error: Error) => {
+      if (isUpgradeError(error)) return;
+      toast({ title: "Could not check the posting", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  // Offsets are only valid for the text that was checked, so a replacement re-runs the check
+  const replace = (issue: LanguageIssue, replacement: string) => {
+    onReplace(issue, replacement);
+    checkMutation.mutate(getDraft());
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <SpellCheck className="h-5 w-5 text-primary" /> Inclusive language check
+          </CardTitle>
+          <CardDescription>
+            Find wording that could discourage qualified people from applying, or that is unclear.
+          </CardDescription>
+        </div>
+        <Button type="button" variant="outline" onClick={() => checkMutation.mutate(getDraft())} disabled={checkMutation.isPending}>
+          {checkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Check posting
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {checkMutation.error && isUpgradeError(checkMutation.error) && <UpgradeNotice />}
+
+        {checked && checked.result.issues.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" /> No problems found.
+          </p>
+        )}
+
+        {checked?.result.issues.map((issue) => (
+          <div key={`${issue.field}-${issue.start}-${issue.phrase}`} className="border rounded-md p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant={issue.category === "inclusive" ? "default" : "secondary"}>
+                {issue.category === "inclusive" ? "Inclusive language" : "Clarity"}
+              </Badge>
+              <span className="text-xs text-muted-foreground">{FIELD_LABELS[issue.field]}</span>
+            </div>
+            <IssueContext text={checked.draft[issue.field]} issue={issue} />
+            <p className="text-sm text-muted-foreground">{issue.explanation}</p>
+            {issue.suggestion && (
+              <Button type="button" size="sm" variant="outline" onClick={() => replace(issue, issue.suggestion!)}>
+                Replace with "{issue.suggestion}"
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {checked && !checked.result.aiReviewed && (
+          <p className="text-xs text-muted-foreground">
+            The AI review is unavailable right now, so only common problem phrases were checked.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
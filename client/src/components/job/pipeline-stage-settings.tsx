@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, Settings2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PipelineStage } from "@shared/schema";
+
+// What the candidate sees while their application sits in a stage
+const STATUS_LABELS: Record<PipelineStage["status"], string> = {
+  pending: "Pending",
+  reviewed: "Under review",
+  accepted: "Accepted",
+  rejected: "Rejected"
+};
+
+interface PipelineStageSettingsProps {
+  stages: PipelineStage[];
+  jobId: number;
+}
+
+export default function PipelineStageSettings({ stages, jobId }: PipelineStageSettingsProps) {
+  const { toast } = useToast();
+  const [newStageName, setNewStageName] = useState("");
+  const [names, setNames] = useState<Record<number, string>>({});
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/company/pipeline-stages"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/job-postings/${jobId}/pipeline`] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again", variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/company/pipeline-stages", { name: newStageName }),
+    onSuccess: () => {
+      setNewStageName("");
+      refresh();
+    },
+    onError: onError("Could not add stage"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; name?: string; status?: PipelineStage["status"] }) =>
+      apiRequest("PATCH", `/api/company/pipeline-stages/${id}`, data),
+    onSuccess: (_, { id }) => {
+      setNames(({ [id]: _saved, ...rest }) => rest);
+      refresh();
+    },
+    onError: onError("Could not update stage"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (stageIds: number[]) => apiRequest("PUT", "/api/company/pipeline-stages/order", { stageIds }),
+    onSuccess: refresh,
+    onError: onError("Could not reorder stages"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/company/pipeline-stages/${id}`),
+    onSuccess: refresh,
+    onError: onError("Could not delete stage"),
+  });
+
+  const moveStage = (index: number, offset: number) => {
+    const stageIds = stages.map(stage => stage.id);
+    [stageIds[index], stageIds[index + offset]] = [stageIds[index + offset], stageIds[index]];
+    reorderMutation.mutate(stageIds);
+  };
+
+  const saveName = (stage: PipelineStage) => {
+    const name = names[stage.id]?.trim();
+    if (name && name !== stage.name) {
+      updateMutation.mutate({ id: stage.id, name });
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="w-4 h-4 mr-2" />
+          Stages
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Pipeline Stages</DialogTitle>
+          <DialogDescription>
+            Stages are shared by all of your company's job postings. Candidates only see the status of their stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {stages.map((stage, index) => (
+            <div key={stage.id} className="flex items-center gap-2">
+              <div className="flex flex-col">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  disabled={index === 0 || reorderMutation.isPending}
+                  onClick={() => moveStage(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  disabled={index === stages.length - 1 || reorderMutation.isPending}
+                  onClick={() => moveStage(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+              <Input
+                value={names[stage.id] ?? stage.name}
+                maxLength={50}
+                onChange={(e) => setNames({ ...names, [stage.id]: e.target.value })}
+                onBlur={() => saveName(stage)}
+                onKeyDown={(e) => e.key === "Enter" && saveName(stage)}
+              />
+              <Select
+                value={stage.status}
+                onValueChange={(status) => updateMutation.mutate({ id: stage.id, status: status as PipelineStage["status"] })}
+              >
+                <SelectTrigger className="w-36 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                    <SelectItem key={status} value={status}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-red-500 hover:text-red-700"
+                disabled={stages.length === 1 || deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(stage.id)}
+                aria-label={`Delete ${stage.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="flex gap-2 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newStageName.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            placeholder="New stage name"
+            value={newStageName}
+            maxLength={50}
+            onChange={(e) => setNewStageName(e.target.value)}
+          />
+          <Button type="submit" disabled={!newStageName.trim() || createMutation.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { BellPlus, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeJobSearch } from "@/lib/job-search-params";
+import { isEmptyJobSearch } from "@shared/job-search";
+import type { JobSearchCriteria } from "@shared/schema";
+
+interface SaveSearchDialogProps {
+  criteria: JobSearchCriteria;
+  expertiseNames: Map<number, string>;
+}
+
+export default function SaveSearchDialog({ criteria, expertiseNames }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const labels = describeJobSearch(criteria, expertiseNames);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/saved-searches", { name, criteria, alertsEnabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      setOpen(false);
+      toast({
+        title: "Search saved",
+        description: alertsEnabled
+          ? "We'll let you know when new jobs match this search."
+          : "You can turn on alerts for it from your job alerts.",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not save search", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setName(labels.slice(0, 3).join(", "));
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto" disabled={isEmptyJobSearch(criteria)}>
+          <BellPlus className="mr-2 h-4 w-4" /> Save search
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>
+            Get notified when a new job matches. You decide between instant emails and digests in{" "}
+            <Link href="/settings" className="underline">your settings</Link>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {labels.map((label) => (
+              <Badge key={label} variant="secondary">{label}</Badge>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-alerts">Alert me about new matching jobs</Label>
+            <Switch id="saved-search-alerts" checked={alertsEnabled} onCheckedChange={setAlertsEnabled} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={!name.trim() || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
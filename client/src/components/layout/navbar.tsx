@@ -22,9 +22,12 @@ import {
   BookOpen,
   MessageCircle,
   Menu,
-  X
+  X,
+  Bell,
+  Shield
 } from "lucide-react";
 import { useState } from "react";
+import { hasPermission } from "@shared/permissions";
 
 function Navbar() {
   // Simple text instead of translation for now
@@ -167,6 +170,15 @@ function Navbar() {
                     </Link>
                   </DropdownMenuItem>
 
+                  {user.userType === "professional" && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/job-alerts" className="cursor-pointer">
+                        <Bell className="me-2 h-4 w-4" />
+                        <span>Job alerts</span>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+
                   {user.userType === "company" && (
                     <DropdownMenuItem asChild>
                       <Link href="/post-job" className="cursor-pointer">
@@ -176,6 +188,15 @@ function Navbar() {
                     </DropdownMenuItem>
                   )}
 
+                  {hasPermission(user, "admin.access") && (
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin-dashboard" className="cursor-pointer">
+                        <Shield className="me-2 h-4 w-4" />
+                        <span>Admin console</span>
+                      </Link>
+                    </DropdownMenuItem>
+                  )}
+
                   <DropdownMenuSeparator />
 
                   <DropdownMenuItem 
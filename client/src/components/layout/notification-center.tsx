@@ -7,7 +7,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 
 import { useAuth } from "@/hooks/use-auth";
+import { listUrl } from "@/lib/queryClient";
 import { format } from "date-fns";
+import type { Page } from "@shared/pagination";
 
 interface Notification {
   id: number;
@@ -38,13 +40,16 @@ export default function NotificationCenter() {
 
   const fetchNotifications = async () => {
     try {
-      const response = await fetch(`/api/notifications/${user?.id}`, {
-        credentials: 'include'
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setNotifications(data);
-        setUnreadCount(data.filter((n: Notification) => !n.read).length);
+      // The latest ten, and the unread total from a one-row page
+      const [response, unreadResponse] = await Promise.all([
+        fetch(listUrl(`/api/notifications/${user?.id}`, { limit: 10 }), { credentials: 'include' }),
+        fetch(listUrl(`/api/notifications/${user?.id}`, { unread: true, limit: 1 }), { credentials: 'include' })
+      ]);
+      if (response.ok && unreadResponse.ok) {
+        const page: Page<Notification> = await response.json();
+        const unread: Page<Notification> = await unreadResponse.json();
+        setNotifications(page.items);
+        setUnreadCount(unread.total);
       }
     } catch (error) {
       console.error('Error fetching notifications:', error);
@@ -133,7 +138,7 @@ export default function NotificationCenter() {
                   No notifications yet
                 </div>
               ) : (
-                notifications.slice(0, 10).map((notification) => (
+                notifications.map((notification) => (
                   <div
                     key={notification.id}
                     className={`p-4 border-b hover:bg-gray-50 cursor-pointer ${
@@ -6,7 +6,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ExternalLink, Users, MapPin, Star, Award, Lightbulb, ChevronRight, Mail } from "lucide-react";
+import MatchBreakdown from "@/components/matching/match-breakdown";
 import type { ProfessionalProfile, JobPosting } from "@shared/schema";
+import type { MatchFactorScore } from "@shared/match-score";
 
 // Define an extended professional profile type for the match results
 // to account for additional properties used in the component
@@ -22,6 +24,7 @@ type MatchResult = {
   matchScore: number; // This will be the formatted percentage from AI matching controller
   matchStrength?: string;
   matchReasons?: string[];
+  breakdown?: MatchFactorScore[];
 };
 
 export default function CompanyProfessionalMatches({ jobId }: { jobId: number }) {
@@ -59,7 +62,7 @@ export default function CompanyProfessionalMatches({ jobId }: { jobId: number })
     data: job,
     isLoading: isLoadingJob
   } = useQuery<JobPosting>({
-    queryKey: ["/api/job-postings", jobId],
+    queryKey: [`/api/job-postings/${jobId}`],
     enabled: !!jobId,
   });
   
@@ -218,6 +221,8 @@ export default function CompanyProfessionalMatches({ jobId }: { jobId: number })
                     </div>
                   </div>
                 )}
+
+                <MatchBreakdown breakdown={match.breakdown} reasons={match.matchReasons} />
               </div>
             ))}
           </div>
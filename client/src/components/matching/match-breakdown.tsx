@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { MATCH_FACTOR_LABELS } from "@shared/match-score";
+import type { MatchFactorScore } from "@shared/match-score";
+
+interface MatchBreakdownProps {
+  breakdown: MatchFactorScore[] | undefined;
+  reasons?: string[];
+}
+
+// The reasons behind a match score and, on request, how much each factor added to it. Factors
+// that do not apply to the match are listed last, without a score.
+export default function MatchBreakdown({ breakdown = [], reasons = [] }: MatchBreakdownProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (breakdown.length === 0 && reasons.length === 0) return null;
+
+  const factors = [...breakdown].sort((a, b) =>
+    (b.score === null ? -1 : b.contribution) - (a.score === null ? -1 : a.contribution));
+
+  return (
+    <div className="mt-3 rounded-md bg-gray-50 p-3">
+      {reasons.length > 0 && (
+        <ul className="list-disc pl-5 space-y-0.5 text-sm text-gray-700">
+          {reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+
+      {breakdown.length > 0 && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-1 h-7 px-2 text-xs text-gray-600"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+            {expanded ? "Hide score breakdown" : "Show score breakdown"}
+          </Button>
+
+          {expanded && (
+            <ul className="mt-2 space-y-2">
+              {factors.map((factor) => (
+                <li key={factor.factor} className={factor.score === null ? "text-gray-400" : "text-gray-700"}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{MATCH_FACTOR_LABELS[factor.factor]}</span>
+                    <span className="text-xs">
+                      {factor.score === null
+                        ? "Not applicable"
+                        : `+${Math.round(factor.contribution * 100)} of ${Math.round(factor.weight * 100)} pts`}
+                    </span>
+                  </div>
+                  {factor.score !== null && (
+                    <Progress value={Math.round(factor.score * 100)} className="mt-1 h-1.5" />
+                  )}
+                  <p className="mt-0.5 text-xs">{factor.detail}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ExternalLink, Briefcase, MapPin, Clock, Building, CalendarClock, ChevronRight } from "lucide-react";
 import { format } from "date-fns";
+import MatchBreakdown from "@/components/matching/match-breakdown";
 import type { JobPosting, CompanyProfile } from "@shared/schema";
+import type { MatchFactorScore } from "@shared/match-score";
 
 // Extended JobPosting type with additional properties for display
 interface EnhancedJobPosting extends JobPosting {
@@ -22,6 +24,7 @@ type MatchResult = {
   matchScore: number; // This will be the formatted percentage from AI matching controller
   matchStrength?: string;
   matchReasons?: string[];
+  breakdown?: MatchFactorScore[];
 };
 
 export default function ProfessionalJobMatches() {
@@ -206,6 +209,8 @@ export default function ProfessionalJobMatches() {
                     </div>
                   </div>
                 )}
+
+                <MatchBreakdown breakdown={match.breakdown} reasons={match.matchReasons} />
               </div>
             ))}
           </div>
@@ -5,35 +5,126 @@ import { format } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useRealtime, type RealtimeEvent } from "@/hooks/use-realtime";
 
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Loader2, Send, User, Building } from "lucide-react";
-import type { Message, User as UserType, ProfessionalProfile, CompanyProfile } from "@shared/schema";
+import { ReportButton } from "@/components/report-button";
+import { Loader2, Send, User, Building, Paperclip, FileText, X } from "lucide-react";
+import type {
+  MessageWithAttachments,
+  Conversation,
+  User as UserType,
+  ProfessionalProfile,
+  CompanyProfile
+} from "@shared/schema";
 
 interface MessageThreadProps {
+  conversationId: number;
   otherUserId: number;
 }
 
-export default function MessageThread({ otherUserId }: MessageThreadProps) {
+// inboxUserId is the participant the user reads as: themselves, or their company's owner when
+// they open the shared company inbox as a teammate
+type ConversationDetails = Conversation & {
+  participantIds: number[];
+  inboxUserId: number;
+  canReply: boolean;
+  messages: MessageWithAttachments[];
+};
+
+const MAX_ATTACHMENTS = 5;
+
+function formatFileSize(bytes: number | null) {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function MessageThread({ conversationId, otherUserId }: MessageThreadProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [newMessage, setNewMessage] = useState("");
+  const [isOtherUserTyping, setIsOtherUserTyping] = useState(false);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
+
+  const conversationKey = [`/api/conversations/${conversationId}`];
+
+  // Live updates for this conversation: new messages, read receipts and typing
+  const { connected, send } = useRealtime((event: RealtimeEvent) => {
+    if (!user) return;
+
+    if (event.type === "new_message") {
+      const message = event.data as MessageWithAttachments;
+      if (message.conversationId !== conversationId) return;
+
+      queryClient.setQueryData<ConversationDetails>(conversationKey, (current) =>
+        current && !current.messages.some(existing => existing.id === message.id)
+          ? { ...current, messages: [...current.messages, { ...message, attachments: message.attachments || [] }] }
+          : current
+      );
+      if (message.senderId === otherUserId) setIsOtherUserTyping(false);
+    } else if (event.type === "message_read") {
+      const { id } = event.data as { id: number };
+      queryClient.setQueryData<ConversationDetails>(conversationKey, (current) =>
+        current && {
+          ...current,
+          messages: current.messages.map(message => (message.id === id ? { ...message, read: true } : message))
+        }
+      );
+    } else if (
+      event.type === "typing" &&
+      event.data?.userId === otherUserId &&
+      (!event.data.conversationId || event.data.conversationId === conversationId)
+    ) {
+      setIsOtherUserTyping(!!event.data.isTyping);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      if (event.data.isTyping) {
+        // Clear the indicator if the stop event never arrives
+        typingTimeoutRef.current = setTimeout(() => setIsOtherUserTyping(false), 5000);
+      }
+    }
+  });
+
+  useEffect(() => {
+    setIsOtherUserTyping(false);
+    setAttachments([]);
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    };
+  }, [conversationId]);
+
+  const notifyTyping = (isTyping: boolean) => {
+    const now = Date.now();
+    // Throttle "typing" pings, but always send the stop event
+    if (isTyping && now - lastTypingSentRef.current < 2000) return;
+    lastTypingSentRef.current = isTyping ? now : 0;
+    send({ type: "typing", receiverId: otherUserId, conversationId, isTyping });
+  };
 
 
-  // Fetch messages between current user and the selected user
+  // Fetch the conversation and its messages
   const { 
-    data: messages, 
+    data: conversation, 
     isLoading: isLoadingMessages 
-  } = useQuery<Message[]>({
-    queryKey: [`/api/messages/${otherUserId}`],
-    enabled: !!user && !!otherUserId,
-    refetchInterval: 10000 // Refresh every 10 seconds
+  } = useQuery<ConversationDetails>({
+    queryKey: conversationKey,
+    enabled: !!user && !!conversationId,
+    // Pushed over the socket; poll only while it is disconnected
+    refetchInterval: connected ? false : 10000
   });
+  const messages = conversation?.messages;
+  // Messages sent from our side of the conversation, which includes teammates sharing the inbox.
+  // The other side may be a teammate too, so this goes by who received the message.
+  const isOwnMessage = (message: MessageWithAttachments) => message.receiverId === otherUserId;
+  const canReply = conversation?.canReply ?? true;
 
   // Fetch other user's details
   const { 
@@ -62,20 +153,21 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
 
   // Message sending mutation with enhanced error handling
   const sendMessageMutation = useMutation({
-    mutationFn: async (messageData: { content: string; receiverId: number }) => {
-      const response = await apiRequest("POST", "/api/messages", messageData);
+    mutationFn: async (messageData: { content: string; files: File[] }) => {
+      const formData = new FormData();
+      formData.append("content", messageData.content);
+      messageData.files.forEach(file => formData.append("attachments", file));
+
+      const response = await apiRequest("POST", `/api/conversations/${conversationId}/messages`, formData, true);
       return response;
     },
     onSuccess: () => {
       setNewMessage("");
+      setAttachments([]);
+      notifyTyping(false);
       // Invalidate queries to update UI
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
-      queryClient.invalidateQueries({ queryKey: [`/api/messages/${otherUserId}`] });
-      
-      toast({
-        title: "Message sent",
-        description: "Your message has been delivered",
-      });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: conversationKey });
     },
     onError: (error: any) => {
       console.error("Failed to send message:", error);
@@ -90,7 +182,7 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newMessage.trim()) return;
+    if (!newMessage.trim() && attachments.length === 0) return;
     
     if (!user) {
       toast({
@@ -105,10 +197,25 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
     
     sendMessageMutation.mutate({
       content: newMessage.trim(),
-      receiverId: otherUserId
+      files: attachments
     });
   };
 
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const combined = [...attachments, ...selected];
+    if (combined.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Too many attachments",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per message`,
+        variant: "destructive",
+      });
+    }
+    setAttachments(combined.slice(0, MAX_ATTACHMENTS));
+  };
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -118,25 +225,19 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
   useEffect(() => {
     if (messages && user) {
       const unreadMessages = messages.filter(
-        msg => !msg.read && msg.receiverId === user.id
+        msg => !msg.read && msg.receiverId === (conversation?.inboxUserId ?? user.id)
       );
 
       if (unreadMessages.length > 0) {
-        // Mark each unread message as read
-        unreadMessages.forEach(async (message) => {
-          try {
-            await apiRequest("PUT", `/api/messages/${message.id}/read`, {});
-          } catch (error) {
-            console.error("Failed to mark message as read:", error);
-          }
-        });
-
-        // Invalidate queries to update UI
-        queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
-        queryClient.invalidateQueries({ queryKey: [`/api/messages/${otherUserId}`] });
+        apiRequest("PUT", `/api/conversations/${conversationId}/read`, {})
+          .then(() => {
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+            queryClient.invalidateQueries({ queryKey: conversationKey });
+          })
+          .catch(error => console.error("Failed to mark conversation as read:", error));
       }
     }
-  }, [messages, user, otherUserId, queryClient]);
+  }, [messages, user, conversation?.inboxUserId, conversationId, queryClient]);
 
   if (isLoadingUser || isLoadingMessages) {
     return (
@@ -196,7 +297,9 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
         </div>
         <div>
           <h3 className="font-semibold">{getDisplayName()}</h3>
-          <p className="text-sm text-muted-foreground capitalize">{otherUser.userType}</p>
+          <p className="text-sm text-muted-foreground capitalize">
+            {conversation?.subject || otherUser.userType}
+          </p>
         </div>
 
       </div>
@@ -207,9 +310,9 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
           messages.map((message) => (
             <div
               key={message.id}
-              className={`flex ${message.senderId === user?.id ? "justify-end" : "justify-start"}`}
+              className={`flex ${isOwnMessage(message) ? "justify-end" : "justify-start"}`}
             >
-              {message.senderId !== user?.id && (
+              {!isOwnMessage(message) && (
                 <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center mr-2 mt-1">
                   {otherUser.userType === "company" ? (
                     companyProfile?.logoUrl ? (
@@ -236,22 +339,46 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
               )}
               <div 
                 className={`max-w-[75%] px-4 py-2 rounded-lg ${
-                  message.senderId === user?.id 
+                  isOwnMessage(message)
                     ? "bg-primary text-primary-foreground" 
                     : "bg-muted"
                 }`}
               >
-                <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                {message.content && (
+                  <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                )}
+                {message.attachments?.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {message.attachments.map(attachment => (
+                      <a
+                        key={attachment.id}
+                        href={`/api/messages/attachments/${attachment.id}`}
+                        className="flex items-center gap-2 text-sm underline underline-offset-2"
+                      >
+                        <FileText className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{attachment.fileName}</span>
+                        <span className="text-xs opacity-70">{formatFileSize(attachment.fileSize)}</span>
+                      </a>
+                    ))}
+                  </div>
+                )}
                 <p 
                   className={`text-xs mt-1 ${
-                    message.senderId === user?.id 
+                    isOwnMessage(message)
                       ? "text-primary-foreground text-opacity-80" 
                       : "text-gray-500"
                   }`}
                 >
                   {format(new Date(message.createdAt), "h:mm a")}
+                  {isOwnMessage(message) && (message.read ? " · Read" : " · Sent")}
                 </p>
               </div>
+              {/* Only the recipient can report a message */}
+              {message.receiverId === user?.id && (
+                <div className="ml-1 self-center">
+                  <ReportButton targetType="message" targetId={message.id} ownerId={message.senderId} />
+                </div>
+              )}
             </div>
           ))
         ) : (
@@ -259,31 +386,83 @@ export default function MessageThread({ otherUserId }: MessageThreadProps) {
             <p className="text-gray-500">No messages yet. Start the conversation!</p>
           </div>
         )}
+        {isOtherUserTyping && (
+          <p className="text-xs text-muted-foreground italic">
+            {otherUser.firstName || otherUser.username} is typing...
+          </p>
+        )}
         <div ref={messagesEndRef} />
       </div>
       
       {/* Message Input */}
       <div className="p-4 border-t">
-        <form onSubmit={handleSendMessage} className="flex gap-2">
-          <Input
-            placeholder="Type your message..."
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            disabled={sendMessageMutation.isPending}
-            className="flex-1"
-          />
-          <Button 
-            type="submit" 
-            disabled={sendMessageMutation.isPending || !newMessage.trim()}
-            className="min-w-[44px]"
-          >
-            {sendMessageMutation.isPending ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
+        {!canReply ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Your team role lets you read this conversation but not reply.
+          </p>
+        ) : (
+          <>
+            {attachments.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {attachments.map((file, index) => (
+                  <span key={`${file.name}-${index}`} className="flex items-center gap-1 rounded bg-muted px-2 py-1 text-xs">
+                    <FileText className="h-3 w-3" />
+                    <span className="max-w-[160px] truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      aria-label={`Remove ${file.name}`}
+                      onClick={() => setAttachments(attachments.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
             )}
-          </Button>
-        </form>
+            <form onSubmit={handleSendMessage} className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.zip,.jpg,.jpeg,.png,.gif,.webp"
+                onChange={handleFilesSelected}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={sendMessageMutation.isPending || attachments.length >= MAX_ATTACHMENTS}
+                className="min-w-[44px]"
+                aria-label="Attach files"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+              <Input
+                placeholder="Type your message..."
+                value={newMessage}
+                onChange={(e) => {
+                  setNewMessage(e.target.value);
+                  notifyTyping(e.target.value.length > 0);
+                }}
+                onBlur={() => notifyTyping(false)}
+                disabled={sendMessageMutation.isPending}
+                className="flex-1"
+              />
+              <Button 
+                type="submit" 
+                disabled={sendMessageMutation.isPending || (!newMessage.trim() && attachments.length === 0)}
+                className="min-w-[44px]"
+              >
+                {sendMessageMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </>
+        )}
       </div>
     </div>
   );
@@ -7,10 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { formatCurrency } from "@/lib/i18n";
-import { Shield, Clock, DollarSign } from "lucide-react";
+import { formatCurrency, formatDate } from "@/lib/i18n";
+import { Input } from "@/components/ui/input";
+import { Shield, Clock, DollarSign, CheckCircle, Send, RotateCcw, AlertTriangle, Paperclip, Upload } from "lucide-react";
+import type { EscrowDispute, EscrowDisputeEvidence, EscrowMilestone } from "@shared/schema";
 
 let stripePromise: Promise<any> | null = null;
 
@@ -29,9 +32,18 @@ try {
   stripePromise = null;
 }
 
+// A milestone as entered before the contract exists; amount is in cents
+export interface EscrowMilestoneDraft {
+  title: string;
+  deliverable: string;
+  amount: number;
+  dueDate?: string;
+}
+
 interface EscrowPaymentProps {
   trainerId: number;
   amount: number;
+  milestones?: EscrowMilestoneDraft[];
   currency?: string;
   jobPostingId?: number;
   bookingId?: number;
@@ -42,7 +54,8 @@ interface EscrowPaymentProps {
 
 export function EscrowPayment({
   trainerId,
-  amount,
+  amount: fixedAmount,
+  milestones,
   currency = 'USD',
   jobPostingId,
   bookingId,
@@ -56,20 +69,36 @@ export function EscrowPayment({
   const [showPaymentForm, setShowPaymentForm] = useState(false);
 
   const platformCommissionRate = 800; // 8%
-  const platformCommission = Math.round((amount * platformCommissionRate) / 10000);
+  const isMilestoneContract = !!milestones && milestones.length > 0;
+  const amount = isMilestoneContract
+    ? milestones.reduce((sum, milestone) => sum + milestone.amount, 0)
+    : fixedAmount;
+  // Commission is rounded per milestone on the server, so mirror that here
+  const platformCommission = isMilestoneContract
+    ? milestones.reduce((sum, milestone) => sum + Math.round((milestone.amount * platformCommissionRate) / 10000), 0)
+    : Math.round((amount * platformCommissionRate) / 10000);
   const trainerPayout = amount - platformCommission;
 
   const createEscrowPayment = async () => {
     setIsCreating(true);
     try {
-      const response = await apiRequest("POST", "/api/payments/create-escrow", {
-        trainerId,
-        amount,
-        currency,
-        jobPostingId,
-        bookingId,
-        description
-      });
+      const response = isMilestoneContract
+        ? await apiRequest("POST", "/api/payments/create-milestone-escrow", {
+            trainerId,
+            currency,
+            jobPostingId,
+            bookingId,
+            description,
+            milestones
+          })
+        : await apiRequest("POST", "/api/payments/create-escrow", {
+            trainerId,
+            amount,
+            currency,
+            jobPostingId,
+            bookingId,
+            description
+          });
 
       if (response.ok) {
         const data = await response.json();
@@ -107,6 +136,24 @@ export function EscrowPayment({
 
           <Separator />
 
+          {isMilestoneContract && (
+            <div className="space-y-2">
+              <h4 className="font-medium">{t("payment.milestones")}</h4>
+              {milestones.map((milestone, index) => (
+                <div key={index} className="flex justify-between text-sm">
+                  <span>
+                    {index + 1}. {milestone.title}
+                    {milestone.dueDate && (
+                      <span className="text-gray-500"> · {t("payment.milestoneDue")} {formatDate(milestone.dueDate)}</span>
+                    )}
+                  </span>
+                  <span>{formatCurrency(milestone.amount / 100, currency)}</span>
+                </div>
+              ))}
+              <Separator />
+            </div>
+          )}
+
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span>{t("payment.serviceAmount")}:</span>
@@ -357,4 +404,381 @@ export function EscrowStatus({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+interface EscrowMilestonesProps {
+  milestones: EscrowMilestone[];
+  currency: string;
+  // Which side of the contract the viewer is on; decides which actions are offered
+  role: 'company' | 'trainer' | 'viewer';
+  onChange?: () => void;
+}
+
+const milestoneStatusColor: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  released: 'bg-green-100 text-green-800',
+  refunded: 'bg-red-100 text-red-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function EscrowMilestones({ milestones, currency, role, onChange }: EscrowMilestonesProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const released = milestones.filter((milestone) => milestone.status === 'released').length;
+
+  const runAction = async (milestone: EscrowMilestone, action: 'submit' | 'approve' | 'request-changes') => {
+    setActiveId(milestone.id);
+    try {
+      const text = notes[milestone.id]?.trim();
+      const body = action === 'submit' ? { note: text } : action === 'request-changes' ? { feedback: text } : {};
+      await apiRequest("POST", `/api/payments/milestones/${milestone.id}/${action}`, body);
+
+      setNotes((current) => ({ ...current, [milestone.id]: "" }));
+      toast({ title: t("payment.success"), description: milestone.title });
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: t("payment.error"),
+        description: error instanceof Error ? error.message.replace(/^\d{3}: /, "") : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setActiveId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">{t("payment.milestones")}</h4>
+        <span className="text-sm text-gray-600">
+          {t("payment.milestoneReleased", { released, total: milestones.length })}
+        </span>
+      </div>
+
+      {milestones.map((milestone) => {
+        const busy = activeId === milestone.id;
+        const canSubmit = role === 'trainer' && milestone.status === 'pending';
+        const canReview = role === 'company' && (milestone.status === 'submitted' || milestone.status === 'approved');
+
+        return (
+          <div key={milestone.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium">{milestone.position}. {milestone.title}</p>
+                {milestone.dueDate && (
+                  <p className="text-xs text-gray-500">
+                    {t("payment.milestoneDue")}: {formatDate(milestone.dueDate)}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="font-medium">{formatCurrency(milestone.amount / 100, currency)}</p>
+                <Badge className={milestoneStatusColor[milestone.status] || milestoneStatusColor.pending}>
+                  {t(`payment.milestoneStatus.${milestone.status}`)}
+                </Badge>
+              </div>
+            </div>
+
+            <p className="text-sm">
+              <span className="text-gray-600">{t("payment.milestoneDeliverable")}:</span> {milestone.deliverable}
+            </p>
+            {milestone.submissionNote && (
+              <p className="text-sm">
+                <span className="text-gray-600">{t("payment.milestoneSubmission")}:</span> {milestone.submissionNote}
+              </p>
+            )}
+            {milestone.feedback && milestone.status === 'pending' && (
+              <p className="text-sm text-orange-700">
+                <span className="font-medium">{t("payment.milestoneFeedback")}:</span> {milestone.feedback}
+              </p>
+            )}
+
+            {(canSubmit || (canReview && milestone.status === 'submitted')) && (
+              <Textarea
+                value={notes[milestone.id] || ""}
+                onChange={(e) => setNotes((current) => ({ ...current, [milestone.id]: e.target.value }))}
+                placeholder={canSubmit ? t("payment.milestoneNotePlaceholder") : t("payment.milestoneFeedbackPlaceholder")}
+                className="min-h-16 text-sm"
+              />
+            )}
+
+            {canSubmit && (
+              <Button size="sm" onClick={() => runAction(milestone, 'submit')} disabled={busy}>
+                <Send className="h-4 w-4 mr-1" />
+                {t("payment.submitMilestone")}
+              </Button>
+            )}
+
+            {canReview && (
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => runAction(milestone, 'approve')} disabled={busy}>
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  {t("payment.approveMilestone")}
+                </Button>
+                {milestone.status === 'submitted' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runAction(milestone, 'request-changes')}
+                    disabled={busy || !notes[milestone.id]?.trim()}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {t("payment.requestChanges")}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// A dispute as returned by the payments API, with its evidence files
+export type EscrowDisputeView = EscrowDispute & {
+  evidence: Omit<EscrowDisputeEvidence, 'filePath'>[];
+};
+
+interface EscrowDisputePanelProps {
+  transactionId: number;
+  transactionStatus: string;
+  currency: string;
+  disputes: EscrowDisputeView[];
+  userId?: number;
+  role: 'company' | 'trainer' | 'viewer';
+  onChange?: () => void;
+}
+
+const disputeStatusColor: Record<string, string> = {
+  opened: 'bg-orange-100 text-orange-800',
+  awaiting_response: 'bg-orange-100 text-orange-800',
+  under_review: 'bg-yellow-100 text-yellow-800',
+  resolved_release: 'bg-green-100 text-green-800',
+  resolved_refund: 'bg-red-100 text-red-800',
+  resolved_split: 'bg-blue-100 text-blue-800',
+};
+
+const errorDescription = (error: unknown) =>
+  error instanceof Error ? error.message.replace(/^\d{3}: /, "") : undefined;
+
+export function EscrowDisputePanel({
+  transactionId,
+  transactionStatus,
+  currency,
+  disputes,
+  userId,
+  role,
+  onChange
+}: EscrowDisputePanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [reason, setReason] = useState("");
+  const [details, setDetails] = useState("");
+  const [response, setResponse] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [evidenceNote, setEvidenceNote] = useState("");
+
+  // Disputes come newest first; only the latest one can still be acted on
+  const dispute = disputes[0];
+  const isOpen = !!dispute && !dispute.status.startsWith('resolved_');
+  const canOpen = role !== 'viewer' && transactionStatus === 'in_escrow' && !isOpen;
+
+  const run = async (action: () => Promise<unknown>, onDone: () => void) => {
+    setBusy(true);
+    try {
+      await action();
+      onDone();
+      toast({ title: t("payment.success") });
+      onChange?.();
+    } catch (error) {
+      toast({ title: t("payment.error"), description: errorDescription(error), variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openDispute = () => run(
+    () => apiRequest("POST", `/api/payments/transactions/${transactionId}/dispute`, { reason, details }),
+    () => {
+      setShowOpenForm(false);
+      setReason("");
+      setDetails("");
+    }
+  );
+
+  const respond = () => run(
+    () => apiRequest("POST", `/api/payments/disputes/${dispute.id}/respond`, { response }),
+    () => setResponse("")
+  );
+
+  const uploadEvidence = () => run(
+    () => {
+      const formData = new FormData();
+      files.forEach(file => formData.append("files", file));
+      if (evidenceNote.trim()) formData.append("description", evidenceNote.trim());
+      return apiRequest("POST", `/api/payments/disputes/${dispute.id}/evidence`, formData, true);
+    },
+    () => {
+      setFiles([]);
+      setEvidenceNote("");
+    }
+  );
+
+  if (!dispute && !canOpen) return null;
+
+  const isParty = !!dispute && (dispute.openedBy === userId || dispute.respondentId === userId);
+  const canRespond = !!dispute && dispute.status === 'awaiting_response' && dispute.respondentId === userId &&
+    new Date(dispute.responseDeadline) > new Date();
+  const canAddEvidence = isOpen && isParty && new Date(dispute.evidenceDeadline) > new Date();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          {t("payment.dispute")}
+        </h4>
+        {dispute && (
+          <Badge className={disputeStatusColor[dispute.status] || disputeStatusColor.opened}>
+            {t(`payment.disputeStatus.${dispute.status}`)}
+          </Badge>
+        )}
+      </div>
+
+      {canOpen && !showOpenForm && (
+        <div className="space-y-1">
+          {dispute && <p className="text-sm text-gray-600">{t("payment.disputePreviousResolved")}</p>}
+          <Button size="sm" variant="outline" onClick={() => setShowOpenForm(true)}>
+            {t("payment.openDispute")}
+          </Button>
+        </div>
+      )}
+
+      {canOpen && showOpenForm && (
+        <div className="rounded-lg border p-3 space-y-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t("payment.disputeReasonPlaceholder")}
+          />
+          <Textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder={t("payment.disputeDetailsPlaceholder")}
+            className="min-h-20 text-sm"
+          />
+          <p className="text-xs text-gray-500">{t("payment.disputeFreezeNotice")}</p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={openDispute}
+              disabled={busy || reason.trim().length < 3 || details.trim().length < 10}
+            >
+              {t("payment.openDispute")}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowOpenForm(false)} disabled={busy}>
+              {t("common.cancel")}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {dispute && (isOpen || !canOpen) && (
+        <div className="rounded-lg border p-3 space-y-2 text-sm">
+          <p className="font-medium">{dispute.reason}</p>
+          <p className="whitespace-pre-wrap">{dispute.details}</p>
+
+          {isOpen && (
+            <div className="text-xs text-gray-500 space-y-0.5">
+              {dispute.status === 'awaiting_response' && (
+                <p>{t("payment.disputeResponseDue")}: {formatDate(dispute.responseDeadline)}</p>
+              )}
+              <p>{t("payment.disputeEvidenceDue")}: {formatDate(dispute.evidenceDeadline)}</p>
+            </div>
+          )}
+
+          {dispute.response && (
+            <div className="border-l-2 border-gray-200 pl-3">
+              <p className="text-gray-600">{t("payment.disputeResponse")}</p>
+              <p className="whitespace-pre-wrap">{dispute.response}</p>
+            </div>
+          )}
+
+          {dispute.resolvedAt && (
+            <div className="border-l-2 border-gray-200 pl-3">
+              <p className="text-gray-600">{t("payment.disputeResolution")}</p>
+              {dispute.resolutionNote && <p className="whitespace-pre-wrap">{dispute.resolutionNote}</p>}
+              {!!dispute.refundAmount && (
+                <p>{t("payment.disputeRefunded")}: {formatCurrency(dispute.refundAmount / 100, currency)}</p>
+              )}
+              {!!dispute.releaseAmount && (
+                <p>{t("payment.disputeReleased")}: {formatCurrency(dispute.releaseAmount / 100, currency)}</p>
+              )}
+            </div>
+          )}
+
+          {dispute.evidence.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-gray-600">{t("payment.disputeEvidence")}</p>
+              {dispute.evidence.map((item) => (
+                <a
+                  key={item.id}
+                  href={`/api/payments/disputes/evidence/${item.id}`}
+                  className="flex items-center gap-1 text-primary hover:underline"
+                >
+                  <Paperclip className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{item.fileName}</span>
+                  {item.description && <span className="text-gray-500 truncate">— {item.description}</span>}
+                </a>
+              ))}
+            </div>
+          )}
+
+          {canRespond && (
+            <div className="space-y-2 pt-2">
+              <Textarea
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                placeholder={t("payment.disputeResponsePlaceholder")}
+                className="min-h-20 text-sm"
+              />
+              <Button size="sm" onClick={respond} disabled={busy || response.trim().length < 10}>
+                <Send className="h-4 w-4 mr-1" />
+                {t("payment.respondToDispute")}
+              </Button>
+            </div>
+          )}
+
+          {canAddEvidence && (
+            <div className="space-y-2 pt-2">
+              <Input
+                type="file"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 5))}
+              />
+              <Input
+                value={evidenceNote}
+                onChange={(e) => setEvidenceNote(e.target.value)}
+                placeholder={t("payment.disputeEvidencePlaceholder")}
+              />
+              <Button size="sm" variant="outline" onClick={uploadEvidence} disabled={busy || files.length === 0}>
+                <Upload className="h-4 w-4 mr-1" />
+                {t("payment.addEvidence")}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
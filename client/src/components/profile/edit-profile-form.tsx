@@ -854,6 +854,9 @@ console.log("testimonialsJSON", testimonialsJSON);
       queryClient.invalidateQueries({
         queryKey: ["/api/company-profiles/by-user"]
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/companies/me"]
+      });
 
       console.log("Company profile save completed successfully");
 
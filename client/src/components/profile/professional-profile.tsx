@@ -106,6 +106,7 @@ import {
 import { useAuth } from "@/hooks/use-auth";
 import SkillRecommendations from "@/components/profile/skill-recommendations";
 import ImageGallery from "@/components/profile/image-gallery";
+import { ReportButton } from "@/components/report-button";
 import type {
   ProfessionalProfile,
   Expertise,
@@ -294,7 +295,10 @@ export default function ProfessionalProfileComponent({ professionalId }: Profess
               </div>
 
               <div className="flex-1 min-w-0">
-                <h1 className="text-xl sm:text-2xl font-bold mb-1 truncate" title={profile.title}>{profile.title}</h1>
+                <div className="flex items-start gap-2">
+                  <h1 className="text-xl sm:text-2xl font-bold mb-1 truncate" title={profile.title}>{profile.title}</h1>
+                  <ReportButton targetType="professionalProfile" targetId={profile.id} ownerId={profile.userId} />
+                </div>
                 <div className="flex items-center text-gray-600 mb-1">
                   <MapPin className="w-4 h-4 mr-1 flex-shrink-0" />
                   <span className="truncate">{profile.location}</span>
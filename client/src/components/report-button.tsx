@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { Flag, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  REPORT_REASON_LABELS, REPORT_REASONS, REPORT_TARGET_LABELS, type ReportReason, type ReportTargetType
+} from "@shared/moderation";
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: number;
+  // The content's author; nobody can report their own content
+  ownerId?: number | null;
+  // Show the label next to the flag, for places with room for it
+  showLabel?: boolean;
+}
+
+// Lets signed-in users flag content for the moderators
+export function ReportButton({ targetType, targetId, ownerId, showLabel = false }: ReportButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const noun = REPORT_TARGET_LABELS[targetType].toLowerCase();
+
+  const reportMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/reports", {
+      targetType, targetId, reason, details: details.trim() || undefined,
+    })).json(),
+    onSuccess: () => {
+      setOpen(false);
+      setReason("");
+      setDetails("");
+      toast({ title: "Report sent", description: "Thank you. Our moderators will review it and let you know the outcome." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not send report", description: error.message || "Please try again", variant: "destructive" });
+    },
+  });
+
+  if (!user || (ownerId != null && ownerId === user.id)) return null;
+
+  const needsDetails = reason === "other" && !details.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size={showLabel ? "sm" : "icon"}
+          className={showLabel ? "text-muted-foreground" : "h-7 w-7 text-muted-foreground"}
+          aria-label={`Report this ${noun}`}
+        >
+          <Flag className={showLabel ? "mr-2 h-4 w-4" : "h-4 w-4"} />
+          {showLabel && "Report"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report this {noun}</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous to the author. Content reported by several people is hidden until a moderator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="space-y-1">
+          {REPORT_REASONS.map((option) => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem id={`report-${targetType}-${targetId}-${option}`} value={option} />
+              <Label htmlFor={`report-${targetType}-${targetId}-${option}`}>{REPORT_REASON_LABELS[option]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <Textarea
+          placeholder={reason === "other" ? "What is wrong with this content?" : "Anything else moderators should know (optional)"}
+          value={details}
+          maxLength={1000}
+          onChange={(e) => setDetails(e.target.value)}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || needsDetails || reportMutation.isPending}
+          >
+            {reportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
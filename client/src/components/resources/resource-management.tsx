@@ -14,10 +14,10 @@ export default function ResourceManagement() {
   const [resources, setResources] = useState<Resource[]>([]);
   const [loading, setLoading] = useState(true);
 
-  // Fetch all resources
+  // Fetch the user's resources
   useEffect(() => {
     setLoading(true);
-    apiRequest('GET', '/api/resources')
+    apiRequest('GET', '/api/me/resources')
       .then(res => res.json())
       .then(data => {
         setResources(data);
@@ -109,7 +109,7 @@ export default function ResourceManagement() {
         });
         
         // Refresh resources list
-        const resourcesResponse = await apiRequest('GET', '/api/resources');
+        const resourcesResponse = await apiRequest('GET', '/api/me/resources');
         const resourcesData = await resourcesResponse.json();
         setResources(resourcesData);
       }
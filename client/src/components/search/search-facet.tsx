@@ -0,0 +1,54 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import type { SearchFacetBucket } from "@shared/search";
+
+interface SearchFacetProps {
+  title: string;
+  buckets: SearchFacetBucket[] | undefined;
+  selected: string[];
+  onToggle: (value: string) => void;
+  formatLabel?: (label: string) => string;
+  // Label for a selected value the result did not return a bucket for
+  labelFor?: (value: string) => string | undefined;
+}
+
+// One facet of a search result: its values with result counts, selected ones checked. Selected
+// values stay listed even when the other filters leave them with no results.
+export default function SearchFacet({
+  title,
+  buckets = [],
+  selected,
+  onToggle,
+  formatLabel = (label) => label,
+  labelFor = () => undefined,
+}: SearchFacetProps) {
+  const missing = selected
+    .filter((value) => !buckets.some((bucket) => bucket.value === value))
+    .map((value) => ({ value, label: labelFor(value) ?? value, count: 0 }));
+  const rows = [...buckets, ...missing];
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-slate-700">{title}</h3>
+      <ul className="space-y-1.5">
+        {rows.map((bucket) => {
+          const id = `facet-${title}-${bucket.value}`.replace(/\s+/g, "-");
+          return (
+            <li key={bucket.value} className="flex items-center gap-2">
+              <Checkbox
+                id={id}
+                checked={selected.includes(bucket.value)}
+                onCheckedChange={() => onToggle(bucket.value)}
+              />
+              <label htmlFor={id} className="flex-1 text-sm text-slate-600 cursor-pointer truncate">
+                {formatLabel(bucket.label)}
+              </label>
+              <span className="text-xs text-slate-400">{bucket.count}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
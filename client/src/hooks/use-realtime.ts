@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState, useCallback } from "react";
+import { useAuth } from "@/hooks/use-auth";
+
+export type RealtimeEvent = {
+  type: string;
+  data?: any;
+  message?: string;
+};
+
+type Listener = (event: RealtimeEvent) => void;
+
+const MAX_RECONNECT_DELAY = 30000;
+
+// A single socket is shared by every component that subscribes
+let socket: WebSocket | null = null;
+let connected = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let subscriberCount = 0;
+const listeners = new Set<Listener>();
+const statusListeners = new Set<(connected: boolean) => void>();
+
+function setConnected(value: boolean) {
+  connected = value;
+  statusListeners.forEach(listener => listener(value));
+}
+
+function connect() {
+  if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+    return;
+  }
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  // The session cookie is sent with the handshake and authenticates the socket
+  const thisSocket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = thisSocket;
+
+  thisSocket.onopen = () => {
+    reconnectAttempts = 0;
+    setConnected(true);
+  };
+
+  thisSocket.onmessage = (message) => {
+    try {
+      const event = JSON.parse(message.data) as RealtimeEvent;
+      listeners.forEach(listener => listener(event));
+    } catch (error) {
+      console.error("Invalid realtime payload:", error);
+    }
+  };
+
+  thisSocket.onclose = () => {
+    // A socket closed by disconnect() may finish closing after a newer one was opened
+    if (socket !== thisSocket) return;
+    socket = null;
+    setConnected(false);
+    scheduleReconnect();
+  };
+
+  thisSocket.onerror = () => {
+    thisSocket.close();
+  };
+}
+
+function scheduleReconnect() {
+  if (subscriberCount === 0 || reconnectTimer) return;
+
+  const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (subscriberCount > 0) connect();
+  }, delay);
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  socket?.close();
+  socket = null;
+  setConnected(false);
+}
+
+/**
+ * Subscribes to the real-time messaging channel.
+ * `connected` is false while the socket is down so callers can fall back to polling.
+ */
+export function useRealtime(onEvent?: Listener) {
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(connected);
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+
+  useEffect(() => {
+    if (!user) return;
+
+    const listener: Listener = (event) => handlerRef.current?.(event);
+    listeners.add(listener);
+    statusListeners.add(setIsConnected);
+    subscriberCount++;
+    connect();
+    setIsConnected(connected);
+
+    return () => {
+      listeners.delete(listener);
+      statusListeners.delete(setIsConnected);
+      subscriberCount--;
+      if (subscriberCount === 0) disconnect();
+    };
+  }, [user?.id]);
+
+  const send = useCallback((payload: Record<string, unknown>) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+      return true;
+    }
+    return false;
+  }, []);
+
+  return { connected: isConnected, send };
+}
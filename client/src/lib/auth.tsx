@@ -1,11 +1,13 @@
 import { createContext, useState, useEffect, ReactNode } from "react";
 import { apiRequest } from "./queryClient";
+import type { Role } from "@shared/permissions";
 
 export interface AuthUser {
   id: number;
   username: string;
   userType: "professional" | "company" | "admin";
   isAdmin: boolean;
+  roles?: Role[];
   firstName?: string;
   lastName?: string;
   email?: string;
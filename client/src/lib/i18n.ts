@@ -134,6 +134,60 @@ export const translations = {
   "payment.action.funds_captured": "Funds Captured",
   "payment.action.released": "Funds Released",
   "payment.action.refunded": "Refund Processed",
+  "payment.action.milestone_created": "Milestone Created",
+  "payment.action.milestone_submitted": "Milestone Submitted",
+  "payment.action.milestone_changes_requested": "Milestone Changes Requested",
+  "payment.action.milestone_approved": "Milestone Approved",
+  "payment.action.milestone_released": "Milestone Funds Released",
+  "payment.action.milestone_refunded": "Milestone Refunded",
+  "payment.action.milestone_cancelled": "Milestone Settled by Dispute",
+  "payment.action.auto_release_warning_sent": "Auto-Release Reminder Sent",
+  "payment.action.dispute_opened": "Dispute Opened",
+  "payment.action.dispute_response_requested": "Response Requested",
+  "payment.action.dispute_responded": "Dispute Response Received",
+  "payment.action.dispute_response_overdue": "Response Deadline Passed",
+  "payment.action.dispute_evidence_added": "Evidence Added",
+  "payment.action.dispute_resolved": "Dispute Resolved",
+  "payment.milestones": "Milestones",
+  "payment.milestoneDue": "Due",
+  "payment.milestoneDeliverable": "Deliverable",
+  "payment.milestoneSubmission": "Submission",
+  "payment.milestoneFeedback": "Requested changes",
+  "payment.milestoneNotePlaceholder": "Describe what you delivered",
+  "payment.milestoneFeedbackPlaceholder": "Explain what needs to change",
+  "payment.submitMilestone": "Submit for Approval",
+  "payment.approveMilestone": "Approve & Release",
+  "payment.requestChanges": "Request Changes",
+  "payment.milestoneReleased": "{{released}} of {{total}} released",
+  "payment.milestoneStatus.pending": "In Progress",
+  "payment.milestoneStatus.submitted": "Awaiting Approval",
+  "payment.milestoneStatus.approved": "Approved",
+  "payment.milestoneStatus.released": "Released",
+  "payment.milestoneStatus.refunded": "Refunded",
+  "payment.milestoneStatus.cancelled": "Cancelled",
+  "payment.dispute": "Dispute",
+  "payment.openDispute": "Open Dispute",
+  "payment.disputeReasonPlaceholder": "Short reason, e.g. Work not delivered",
+  "payment.disputeDetailsPlaceholder": "Explain what went wrong and what outcome you expect",
+  "payment.disputeFreezeNotice": "Opening a dispute stops the funds from being released until an admin resolves it.",
+  "payment.disputePreviousResolved": "A previous dispute on this payment was resolved.",
+  "payment.disputeResponseDue": "Response due",
+  "payment.disputeEvidenceDue": "Evidence accepted until",
+  "payment.disputeResponse": "Response",
+  "payment.disputeResponsePlaceholder": "Give your side of the dispute",
+  "payment.respondToDispute": "Send Response",
+  "payment.disputeEvidence": "Evidence",
+  "payment.disputeEvidencePlaceholder": "What do these files show? (optional)",
+  "payment.addEvidence": "Upload Evidence",
+  "payment.disputeResolution": "Resolution",
+  "payment.disputeRefunded": "Refunded",
+  "payment.disputeReleased": "Released",
+  "payment.disputeStatus.opened": "Opened",
+  "payment.disputeStatus.awaiting_response": "Awaiting Response",
+  "payment.disputeStatus.under_review": "Under Review",
+  "payment.disputeStatus.resolved_release": "Resolved: Released",
+  "payment.disputeStatus.resolved_refund": "Resolved: Refunded",
+  "payment.disputeStatus.resolved_split": "Resolved: Split",
 
   // Common
   "common.loading": "Loading...",
@@ -0,0 +1,58 @@
+import { JOB_TYPES, type JobSearchCriteria } from "@shared/schema";
+import { compactJobSearchCriteria } from "@shared/job-search";
+
+// Job search criteria as /jobs query parameters, so saved searches and alerts can link to their results
+
+export function criteriaFromSearchParams(params: URLSearchParams): JobSearchCriteria {
+  const number = (name: string) => {
+    const value = parseInt(params.get(name) ?? "");
+    return isNaN(value) || value < 0 ? undefined : value;
+  };
+  const jobType = params.get("jobType");
+
+  return compactJobSearchCriteria({
+    keywords: params.get("keywords") ?? undefined,
+    location: params.get("location") ?? undefined,
+    remote: params.get("remote") === "true",
+    jobType: (JOB_TYPES as readonly string[]).includes(jobType ?? "") ? jobType as JobSearchCriteria["jobType"] : undefined,
+    minCompensation: number("minCompensation"),
+    maxCompensation: number("maxCompensation"),
+    expertiseIds: params.getAll("expertise").map(id => parseInt(id)).filter(id => id > 0),
+  });
+}
+
+export function criteriaToSearchParams(criteria: JobSearchCriteria): URLSearchParams {
+  const compact = compactJobSearchCriteria(criteria);
+  const params = new URLSearchParams();
+  if (compact.keywords) params.set("keywords", compact.keywords);
+  if (compact.location) params.set("location", compact.location);
+  if (compact.remote) params.set("remote", "true");
+  if (compact.jobType) params.set("jobType", compact.jobType);
+  if (compact.minCompensation !== undefined) params.set("minCompensation", String(compact.minCompensation));
+  if (compact.maxCompensation !== undefined) params.set("maxCompensation", String(compact.maxCompensation));
+  compact.expertiseIds?.forEach(id => params.append("expertise", String(id)));
+  return params;
+}
+
+export function jobSearchUrl(criteria: JobSearchCriteria): string {
+  const query = criteriaToSearchParams(criteria).toString();
+  return query ? `/jobs?${query}` : "/jobs";
+}
+
+// Short human-readable labels for each filter, e.g. for badges
+export function describeJobSearch(criteria: JobSearchCriteria, expertiseNames: Map<number, string>): string[] {
+  const labels: string[] = [];
+  if (criteria.keywords) labels.push(`"${criteria.keywords}"`);
+  if (criteria.location) labels.push(criteria.location);
+  if (criteria.remote) labels.push("Remote");
+  if (criteria.jobType) labels.push(criteria.jobType.charAt(0).toUpperCase() + criteria.jobType.slice(1));
+  if (criteria.minCompensation !== undefined && criteria.maxCompensation !== undefined) {
+    labels.push(`$${criteria.minCompensation.toLocaleString()} - $${criteria.maxCompensation.toLocaleString()}`);
+  } else if (criteria.minCompensation !== undefined) {
+    labels.push(`From $${criteria.minCompensation.toLocaleString()}`);
+  } else if (criteria.maxCompensation !== undefined) {
+    labels.push(`Up to $${criteria.maxCompensation.toLocaleString()}`);
+  }
+  criteria.expertiseIds?.forEach(id => labels.push(expertiseNames.get(id) ?? `Expertise #${id}`));
+  return labels;
+}
@@ -1,4 +1,6 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryClient, QueryFunction, useInfiniteQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { Page } from "@shared/pagination";
 import { authStore } from './authStore';
 
 const API_BASE = "";
@@ -531,6 +533,71 @@ export const getQueryFn: <T>(options: {
       }
     };
 
+type ListParams = Record<string, string | number | boolean | undefined>;
+
+// A list URL with its query string; empty params are left out
+export function listUrl(url: string, params: ListParams = {}): string {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([name, value]) => {
+    if (value !== undefined && value !== "") search.set(name, String(value));
+  });
+  const query = search.toString();
+  return query ? `${url}?${query}` : url;
+}
+
+/**
+ * Pages through a cursor-paginated list endpoint (see shared/pagination.ts), keyed by
+ * [url, params] so invalidating the url refetches every loaded page.
+ * `items` are the rows of all pages loaded so far.
+ */
+export function useInfiniteList<T>(url: string, params: ListParams = {}, options: { enabled?: boolean } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: [url, params],
+    queryFn: async ({ pageParam }): Promise<Page<T>> => {
+      const res = await fetch(listUrl(url, { ...params, cursor: pageParam ?? undefined }), {
+        credentials: "include",
+      });
+      await throwIfResNotOk(res);
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled,
+  });
+
+  const items = useMemo(() => query.data?.pages.flatMap(page => page.items) ?? [], [query.data]);
+  return { ...query, items, total: query.data?.pages[0]?.total ?? 0 };
+}
+
+/**
+ * Infinite scrolling for useInfiniteList: attach the returned ref to an element after the
+ * list, and the next page loads when it scrolls into view.
+ */
+export function useLoadMoreRef(
+  { hasNextPage, isFetchingNextPage, fetchNextPage }: {
+    hasNextPage: boolean;
+    isFetchingNextPage: boolean;
+    fetchNextPage: () => unknown;
+  },
+  rootMargin = "200px"
+) {
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  return useCallback((node: Element | null) => {
+    observer.current?.disconnect();
+    if (!node || !hasNextPage) return;
+
+    observer.current = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin });
+    observer.current.observe(node);
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, rootMargin]);
+}
+
 // Setup global unhandled rejection handler for React Query
 window.addEventListener('unhandledrejection', event => {
   // Handle authentication errors specifically
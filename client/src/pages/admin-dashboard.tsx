@@ -1,2 +0,0 @@
-
-// This file has been removed as part of admin section cleanup
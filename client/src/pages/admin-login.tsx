@@ -1,2 +0,0 @@
-<replit_final_file>
-</replit_final_file>
\ No newline at end of file
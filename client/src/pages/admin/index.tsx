@@ -1,2 +1,57 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
+import MetricsOverview from "@/components/admin/metrics-overview";
+import AuditLogViewer from "@/components/admin/audit-log-viewer";
+import ModerationQueue from "@/components/admin/moderation-queue";
+import {
+  CompanyProfilesTable,
+  ForumPostsTable,
+  JobPostingsTable,
+  ProfessionalProfilesTable,
+  ResourcesTable,
+  SubscriptionsTable,
+  UsersTable,
+} from "@/components/admin/admin-tables";
 
-// This file has been removed as part of admin section cleanup
+// Each tab shows for staff whose roles grant its permission
+const TABS: Array<{ value: string; label: string; permission: Permission; component: React.ComponentType }> = [
+  { value: "overview", label: "Overview", permission: "admin.access", component: MetricsOverview },
+  { value: "users", label: "Users", permission: "users.view", component: UsersTable },
+  { value: "professionals", label: "Professionals", permission: "users.view", component: ProfessionalProfilesTable },
+  { value: "companies", label: "Companies", permission: "users.view", component: CompanyProfilesTable },
+  { value: "jobs", label: "Jobs", permission: "content.moderate", component: JobPostingsTable },
+  { value: "resources", label: "Resources", permission: "content.moderate", component: ResourcesTable },
+  { value: "forum", label: "Forum", permission: "content.moderate", component: ForumPostsTable },
+  { value: "moderation", label: "Moderation", permission: "content.moderate", component: ModerationQueue },
+  { value: "subscriptions", label: "Subscriptions", permission: "subscriptions.view", component: SubscriptionsTable },
+  { value: "audit-log", label: "Audit log", permission: "audit.view", component: AuditLogViewer },
+];
+
+// Routed for admins only; the /api/admin routes check again on the server
+export default function AdminConsole() {
+  const { user } = useAuth();
+  const tabs = TABS.filter((tab) => hasPermission(user, tab.permission));
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Admin console</h1>
+        <p className="text-muted-foreground">Manage users and content, and keep an eye on how the platform is doing.</p>
+      </div>
+
+      <Tabs defaultValue="overview">
+        <TabsList className="flex h-auto flex-wrap justify-start">
+          {tabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+          ))}
+        </TabsList>
+        {tabs.map(({ value, component: Component }) => (
+          <TabsContent key={value} value={value} className="mt-6">
+            <Component />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { Calendar } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 import {
   Form,
@@ -24,7 +24,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { format } from "date-fns";
+import { addDays, format, startOfDay } from "date-fns";
 import {
   Select,
   SelectContent,
@@ -32,14 +32,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { ProfessionalProfile } from "@shared/schema";
+import type { AvailabilitySlot, ProfessionalProfile } from "@shared/schema";
+
+type SlotsResponse = {
+  timezone: string;
+  duration: number;
+  slots: AvailabilitySlot[];
+};
 
 // Schema for consultation booking form
 const consultationSchema = z.object({
   date: z.date({
     required_error: "Please select a date for the consultation",
   }),
-  time: z.string({
+  slot: z.string({
     required_error: "Please select a time for the consultation",
   }),
   duration: z.string({
@@ -70,11 +76,24 @@ export default function BookConsultation() {
     },
   });
 
-  // Array of available time slots
-  const timeSlots = [
-    "9:00 AM", "10:00 AM", "11:00 AM", "12:00 PM", 
-    "1:00 PM", "2:00 PM", "3:00 PM", "4:00 PM", "5:00 PM"
-  ];
+  const selectedDate = form.watch("date");
+  const selectedDuration = form.watch("duration");
+
+  // Bookable slots for the selected day, expanded server-side from the professional's availability
+  const slotsUrl = selectedDate && selectedDuration
+    ? `/api/professionals/${professionalId}/availability/slots?` + new URLSearchParams({
+        from: startOfDay(selectedDate).toISOString(),
+        to: addDays(startOfDay(selectedDate), 1).toISOString(),
+        duration: selectedDuration,
+      }).toString()
+    : null;
+
+  const { data: slotsData, isLoading: isLoadingSlots } = useQuery<SlotsResponse>({
+    queryKey: [slotsUrl],
+    enabled: !!slotsUrl,
+  });
+
+  const timeSlots = slotsData?.slots || [];
 
   // Available durations
   const durations = [
@@ -100,23 +119,19 @@ export default function BookConsultation() {
     try {
       setIsSubmitting(true);
       
-      // Format the date and time for API submission
-      const formattedDate = format(data.date, "yyyy-MM-dd");
-      
-      // Create the consultation request
-      const consultationData = {
+      const slot = timeSlots.find((s) => s.startTime === data.slot);
+      if (!slot) {
+        form.setError("slot", { message: "Please select an available time slot" });
+        return;
+      }
+
+      // Submit the consultation request for the chosen slot
+      await apiRequest("POST", "/api/consultations", {
         professionalId: profile.id,
-        companyId: user.userType === "company" ? profile.userId : null,
-        date: formattedDate,
-        time: data.time,
-        duration: parseInt(data.duration),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
         notes: data.message,
-        status: "requested",
-      };
-      
-      // Submit the consultation request
-      const response = await apiRequest("POST", "/api/consultations", consultationData);
-      const result = await response.json();
+      });
       
       toast({
         title: "Consultation Requested",
@@ -131,9 +146,17 @@ export default function BookConsultation() {
       }
     } catch (error) {
       console.error("Consultation booking error:", error);
+      const message = error instanceof Error ? error.message : "";
+
+      // The slot was taken or is no longer available; refresh the list so the user can pick again
+      if (message.startsWith("409") || message.startsWith("400")) {
+        form.resetField("slot");
+        queryClient.invalidateQueries({ queryKey: [slotsUrl] });
+      }
+
       toast({
         title: "Failed to book consultation",
-        description: "There was an error processing your request. Please try again.",
+        description: message.replace(/^\d{3}: /, "") || "There was an error processing your request. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -247,7 +270,10 @@ export default function BookConsultation() {
                           <CalendarComponent
                             mode="single"
                             selected={field.value}
-                            onSelect={field.onChange}
+                            onSelect={(date) => {
+                              field.onChange(date);
+                              form.resetField("slot");
+                            }}
                             disabled={(date) => date < new Date() || date > new Date(new Date().setMonth(new Date().getMonth() + 3))}
                             initialFocus
                           />
@@ -263,26 +289,32 @@ export default function BookConsultation() {
 
                 <FormField
                   control={form.control}
-                  name="time"
+                  name="duration"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Time Slot</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormLabel>Duration</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.resetField("slot");
+                        }}
+                        defaultValue={field.value}
+                      >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select a time slot" />
+                            <SelectValue placeholder="Select duration" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {timeSlots.map((time) => (
-                            <SelectItem key={time} value={time}>
-                              {time}
+                          {durations.map((duration) => (
+                            <SelectItem key={duration.value} value={duration.value}>
+                              {duration.label}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                       <FormDescription>
-                        Select your preferred time slot
+                        How long do you need for the consultation?
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -291,26 +323,41 @@ export default function BookConsultation() {
 
                 <FormField
                   control={form.control}
-                  name="duration"
+                  name="slot"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Duration</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormLabel>Time Slot</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value || ""}
+                        disabled={!slotsUrl || isLoadingSlots || timeSlots.length === 0}
+                      >
                         <FormControl>
                           <SelectTrigger>
-                            <SelectValue placeholder="Select duration" />
+                            <SelectValue
+                              placeholder={
+                                !slotsUrl
+                                  ? "Select a date and duration first"
+                                  : isLoadingSlots
+                                    ? "Loading available times..."
+                                    : timeSlots.length === 0
+                                      ? "No available times on this date"
+                                      : "Select a time slot"
+                              }
+                            />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {durations.map((duration) => (
-                            <SelectItem key={duration.value} value={duration.value}>
-                              {duration.label}
+                          {timeSlots.map((slot) => (
+                            <SelectItem key={slot.startTime} value={slot.startTime}>
+                              {format(new Date(slot.startTime), "h:mm a")} - {format(new Date(slot.endTime), "h:mm a")}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
                       <FormDescription>
-                        How long do you need for the consultation?
+                        Times are shown in your local timezone
+                        {slotsData?.timezone ? ` (the professional works in ${slotsData.timezone})` : ""}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
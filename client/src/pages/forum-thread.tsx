@@ -0,0 +1,442 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { ReportButton } from "@/components/report-button";
+import { Markdown } from "@/components/forum/markdown";
+import { VoteButton } from "@/components/forum/vote-button";
+import CreatePostForm from "@/components/forum/create-post-form";
+import { authorName, useForumAuthors } from "@/components/forum/forum-authors";
+import {
+  ArrowLeft, CheckCircle, Eye, Loader2, Lock, MessageSquare, Pencil, Pin, Reply, Trash2, Unlock
+} from "lucide-react";
+import { hasPermission } from "@shared/permissions";
+import {
+  MAX_REPLY_DEPTH, type ForumCategoryWithCount, type ForumPostForViewer, type ForumReplyNode
+} from "@shared/forum";
+import type { User } from "@shared/schema";
+
+// Every author in the reply tree
+const replyAuthorIds = (replies: ForumReplyNode[]): number[] =>
+  replies.flatMap(reply => [reply.authorId, ...replyAuthorIds(reply.replies)]);
+
+// Writes a new reply, or edits one when `reply` is given
+function ReplyForm({ postId, parentId, reply, onDone, onCancel }: {
+  postId: number;
+  parentId?: number;
+  reply?: ForumReplyNode;
+  onDone: () => void;
+  onCancel?: () => void;
+}) {
+  const { toast } = useToast();
+  const [body, setBody] = useState(reply?.body ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: async () => (reply
+      ? await apiRequest("PATCH", `/api/forum-comments/${reply.id}`, { body })
+      : await apiRequest("POST", `/api/forum-posts/${postId}/comments`, { body, parentId })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/forum-posts/${postId}/comments`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/forum-posts/${postId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-posts"] });
+      setBody("");
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: reply ? "Failed to update reply" : "Failed to post reply",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder={parentId ? "Write a reply..." : "Share your answer or thoughts... Markdown is supported."}
+        className="min-h-24 text-sm"
+        value={body}
+        maxLength={10000}
+        autoFocus={!!(parentId || reply)}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>}
+        <Button size="sm" disabled={!body.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {reply ? "Save" : "Reply"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ReplyItemProps {
+  reply: ForumReplyNode;
+  post: ForumPostForViewer;
+  depth: number;
+  authors: Record<number, User>;
+  canReply: boolean;
+}
+
+function ReplyItem({ reply, post, depth, authors, canReply }: ReplyItemProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"view" | "reply" | "edit">("view");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const repliesKey = `/api/forum-posts/${post.id}/comments`;
+
+  const canManage = !!user && (user.id === reply.authorId || hasPermission(user, "content.moderate"));
+  const isPostAuthor = user?.id === post.authorId;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [repliesKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/forum-posts/${post.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/forum-posts"] });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => (await apiRequest("DELETE", `/api/forum-comments/${reply.id}`)).json(),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete reply", description: error.message || "Please try again later", variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (accept: boolean) =>
+      (await apiRequest("PUT", `/api/forum-posts/${post.id}/accepted-answer`, { replyId: accept ? reply.id : null })).json(),
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Could not update the answer", description: error.message || "Please try again later", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className={cn(depth > 0 && depth <= MAX_REPLY_DEPTH && "ml-4 sm:ml-6 border-l pl-4")}>
+      <div className={cn("rounded-lg p-3", reply.accepted ? "bg-green-50 border border-green-200" : "bg-muted/50")}>
+        {reply.deleted ? (
+          <p className="text-sm italic text-muted-foreground">This reply has been removed.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{authorName(authors[reply.authorId])}</span>
+              {reply.authorId === post.authorId && <Badge variant="outline" className="text-xs">Author</Badge>}
+              {reply.accepted && (
+                <Badge variant="outline" className="text-xs text-green-700 border-green-300">
+                  <CheckCircle className="h-3 w-3 mr-1" />Accepted answer
+                </Badge>
+              )}
+              {reply.hidden && <Badge variant="secondary" className="text-xs">Hidden by moderators</Badge>}
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(reply.createdAt), { addSuffix: true })}
+                {reply.updatedAt && " · edited"}
+              </span>
+            </div>
+            {mode === "edit" ? (
+              <div className="mt-2">
+                <ReplyForm postId={post.id} reply={reply} onDone={() => setMode("view")} onCancel={() => setMode("view")} />
+              </div>
+            ) : (
+              <Markdown source={reply.body} className="mt-2" />
+            )}
+          </>
+        )}
+      </div>
+
+      {!reply.deleted && (
+        <div className="flex flex-wrap items-center gap-1 mt-1">
+          <VoteButton
+            url={`/api/forum-comments/${reply.id}/votes`}
+            voteCount={reply.voteCount}
+            voted={reply.viewerHasVoted}
+            authorId={reply.authorId}
+            queryKey={repliesKey}
+          />
+          {canReply && (
+            <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setMode(mode === "reply" ? "view" : "reply")}>
+              <Reply className="h-4 w-4 mr-1" />Reply
+            </Button>
+          )}
+          {isPostAuthor && !reply.hidden && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={reply.accepted ? "text-green-700" : "text-muted-foreground"}
+              disabled={acceptMutation.isPending}
+              onClick={() => acceptMutation.mutate(!reply.accepted)}
+            >
+              <CheckCircle className="h-4 w-4 mr-1" />{reply.accepted ? "Unaccept" : "Accept answer"}
+            </Button>
+          )}
+          {canManage && (
+            <>
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setMode("edit")}>
+                <Pencil className="h-4 w-4 mr-1" />Edit
+              </Button>
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setConfirmingDelete(true)}>
+                <Trash2 className="h-4 w-4 mr-1" />Delete
+              </Button>
+            </>
+          )}
+          <ReportButton targetType="forumComment" targetId={reply.id} ownerId={reply.authorId} />
+        </div>
+      )}
+
+      {mode === "reply" && (
+        <div className="mt-2 ml-4">
+          <ReplyForm postId={post.id} parentId={reply.id} onDone={() => setMode("view")} onCancel={() => setMode("view")} />
+        </div>
+      )}
+
+      {reply.replies.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {reply.replies.map((child) => (
+            <ReplyItem key={child.id} reply={child} post={post} depth={depth + 1} authors={authors} canReply={canReply} />
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this reply?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The reply is removed from the thread. Replies to it stay, so the conversation still makes sense.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// A forum thread: the post and its replies, nested under the reply they answer
+export default function ForumThread() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const postKey = `/api/forum-posts/${id}`;
+  const repliesKey = `/api/forum-posts/${id}/comments`;
+
+  const { data: post, isLoading, error } = useQuery<ForumPostForViewer>({ queryKey: [postKey] });
+  const { data: replies = [], isLoading: isLoadingReplies } = useQuery<ForumReplyNode[]>({
+    queryKey: [repliesKey],
+    enabled: !!post,
+  });
+  const { data: categories = [] } = useQuery<ForumCategoryWithCount[]>({ queryKey: ["/api/forum-categories"] });
+  const authors = useForumAuthors(post ? [post.authorId, ...replyAuthorIds(replies)] : []);
+
+  // Count the view once the thread is opened
+  useEffect(() => {
+    apiRequest("POST", `/api/forum-posts/${id}/views`)
+      .then(res => res.json())
+      .then(({ viewCount }: { viewCount: number }) => {
+        queryClient.setQueryData<ForumPostForViewer>([postKey], old => old && { ...old, viewCount });
+      })
+      .catch(() => undefined);
+  }, [id, postKey]);
+
+  const isModerator = hasPermission(user, "content.moderate");
+  const canManage = !!user && !!post && (user.id === post.authorId || isModerator);
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => (await apiRequest("DELETE", postKey)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-categories"] });
+      toast({ title: "Post deleted" });
+      navigate("/forum");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete post", description: error.message || "Please try again later", variant: "destructive" });
+    },
+  });
+
+  // Pinning and locking are admin bulk actions on a single post
+  const moderateMutation = useMutation({
+    mutationFn: async (action: "pin" | "unpin" | "lock" | "unlock") =>
+      (await apiRequest("POST", "/api/admin/bulk-actions", { entity: "forumPosts", action, ids: [Number(id)] })).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [postKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/forum-posts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message || "Please try again later", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        <Skeleton className="h-8 w-2/3" />
+        <Skeleton className="h-4 w-40" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !post) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center">
+        <MessageSquare className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Discussion not found</h1>
+        <p className="text-gray-500 mb-6">It may have been deleted or removed by moderators.</p>
+        <Button asChild><Link href="/forum">Back to the forum</Link></Button>
+      </div>
+    );
+  }
+
+  const category = categories.find(c => c.id === post.categoryId);
+  const canReply = !!user && (!post.locked || isModerator);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <Link href="/forum" className="inline-flex items-center text-sm text-muted-foreground hover:underline mb-4">
+        <ArrowLeft className="h-4 w-4 mr-1" /> Community Forum
+      </Link>
+
+      {editing ? (
+        <CreatePostForm post={post} onSuccess={() => setEditing(false)} onCancel={() => setEditing(false)} />
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              {post.pinned && <Badge variant="secondary"><Pin className="h-3 w-3 mr-1" />Pinned</Badge>}
+              {post.locked && <Badge variant="outline"><Lock className="h-3 w-3 mr-1" />Locked</Badge>}
+              {post.hidden && <Badge variant="secondary">Hidden by moderators</Badge>}
+              {category && <Badge variant="outline">{category.name}</Badge>}
+            </div>
+            <CardTitle className="text-2xl">{post.title}</CardTitle>
+            <p className="text-sm text-gray-500">
+              Posted by {authorName(authors[post.authorId])} • {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+              {post.updatedAt && ` • edited ${formatDistanceToNow(new Date(post.updatedAt), { addSuffix: true })}`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Markdown source={post.body} className="text-base" />
+            {post.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {post.tags.map((tag) => <Badge key={tag} variant="secondary" className="font-normal">#{tag}</Badge>)}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-wrap items-center gap-2 border-t pt-4">
+            <VoteButton
+              url={`/api/forum-posts/${post.id}/votes`}
+              voteCount={post.voteCount}
+              voted={post.viewerHasVoted}
+              authorId={post.authorId}
+              queryKey={postKey}
+            />
+            <span className="flex items-center gap-1 text-sm text-gray-500 mr-auto">
+              <MessageSquare className="h-4 w-4" /> {post.replyCount}
+              <Eye className="h-4 w-4 ml-3" /> {post.viewCount}
+            </span>
+            {isModerator && (
+              <>
+                <Button variant="ghost" size="sm" disabled={moderateMutation.isPending} onClick={() => moderateMutation.mutate(post.pinned ? "unpin" : "pin")}>
+                  <Pin className="h-4 w-4 mr-1" />{post.pinned ? "Unpin" : "Pin"}
+                </Button>
+                <Button variant="ghost" size="sm" disabled={moderateMutation.isPending} onClick={() => moderateMutation.mutate(post.locked ? "unlock" : "lock")}>
+                  {post.locked ? <Unlock className="h-4 w-4 mr-1" /> : <Lock className="h-4 w-4 mr-1" />}
+                  {post.locked ? "Unlock" : "Lock"}
+                </Button>
+              </>
+            )}
+            {canManage && (
+              <>
+                <Button variant="ghost" size="sm" onClick={() => setEditing(true)}>
+                  <Pencil className="h-4 w-4 mr-1" />Edit
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setConfirmingDelete(true)}>
+                  <Trash2 className="h-4 w-4 mr-1" />Delete
+                </Button>
+              </>
+            )}
+            <ReportButton targetType="forumPost" targetId={post.id} ownerId={post.authorId} showLabel />
+          </CardFooter>
+        </Card>
+      )}
+
+      <section className="mt-8 space-y-4">
+        <h2 className="text-lg font-semibold">
+          {post.replyCount} {post.replyCount === 1 ? "Reply" : "Replies"}
+        </h2>
+
+        {post.locked && (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              This thread is locked. {isModerator ? "Only moderators can reply." : "New replies are closed."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!user ? (
+          <div className="text-center py-4">
+            <p className="text-sm text-gray-500 mb-2">Sign in to join the discussion</p>
+            <Button size="sm" asChild><a href="/login">Sign In</a></Button>
+          </div>
+        ) : canReply && (
+          <ReplyForm postId={post.id} onDone={() => undefined} />
+        )}
+
+        {isLoadingReplies ? (
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-primary" />
+        ) : replies.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No replies yet. Be the first to reply!</p>
+        ) : (
+          <div className="space-y-4">
+            {replies.map((reply) => (
+              <ReplyItem key={reply.id} reply={reply} post={post} depth={0} authors={authors} canReply={canReply} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this discussion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post and all of its replies are deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,36 +1,57 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Card, CardContent } from "@/components/ui/card";
-import { Search, Plus } from "lucide-react";
+import { Search, Plus, X, Flame, Clock, TrendingUp } from "lucide-react";
 import ForumPosts from "@/components/forum/forum-posts";
 import CreatePostForm from "@/components/forum/create-post-form";
+import type { ForumCategoryWithCount, ForumTagCount } from "@shared/forum";
+import type { ForumPostPageQuery } from "@shared/pagination";
+
+const ALL_CATEGORIES = "all";
+
+const SORT_TABS: Array<{ value: ForumPostPageQuery["sort"]; label: string; icon: typeof Flame }> = [
+  { value: "hot", label: "Hot", icon: Flame },
+  { value: "new", label: "New", icon: Clock },
+  { value: "top", label: "Top", icon: TrendingUp },
+];
 
 export default function Forum() {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("all");
+  const [selectedCategory, setSelectedCategory] = useState(ALL_CATEGORIES);
+  const [selectedTag, setSelectedTag] = useState<string | undefined>();
+  const [sort, setSort] = useState<ForumPostPageQuery["sort"]>("hot");
   const [showCreateForm, setShowCreateForm] = useState(false);
-  
-  // Handle category selection
-  const handleCategoryChange = (value: string) => {
-    setSelectedCategory(value);
-  };
-  
+  const query = useDebounce(searchTerm.trim(), 300);
+
+  const { data: categories = [] } = useQuery<ForumCategoryWithCount[]>({
+    queryKey: ["/api/forum-categories"],
+  });
+  const { data: tags = [] } = useQuery<ForumTagCount[]>({
+    queryKey: ["/api/forum-tags"],
+  });
+  const category = categories.find(c => c.slug === selectedCategory);
+  // A tag picked from a post may not be among the popular ones
+  const shownTags = selectedTag && !tags.some(t => t.tag === selectedTag) ? [{ tag: selectedTag, count: 0 }, ...tags] : tags;
+
   // Handle create post toggle
   const handleCreatePostClick = () => {
     setShowCreateForm(true);
   };
-  
+
   // Handle post creation success
   const handlePostSuccess = () => {
     setShowCreateForm(false);
-    // Scroll to top after creating post
+    // Newly created posts are at the top of the newest first list
+    setSort("new");
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
-  
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
@@ -38,9 +59,9 @@ export default function Forum() {
           <h1 className="text-3xl font-bold mb-2">Community Forum</h1>
           <p className="text-gray-500">Connect with the L&D community</p>
         </div>
-        
+
         {user && !showCreateForm && (
-          <Button 
+          <Button
             onClick={handleCreatePostClick}
             className="mt-4 md:mt-0"
           >
@@ -48,50 +69,84 @@ export default function Forum() {
           </Button>
         )}
       </div>
-      
+
       {showCreateForm ? (
         <div className="mb-8">
-          <CreatePostForm 
-            onSuccess={handlePostSuccess} 
-            onCancel={() => setShowCreateForm(false)} 
+          <CreatePostForm
+            onSuccess={handlePostSuccess}
+            onCancel={() => setShowCreateForm(false)}
           />
         </div>
       ) : (
         <>
           {/* Categories */}
-          <Tabs 
-            defaultValue={selectedCategory} 
-            onValueChange={handleCategoryChange}
+          <Tabs
+            value={selectedCategory}
+            onValueChange={setSelectedCategory}
             className="mb-6"
           >
             <TabsList className="w-full grid grid-cols-2 sm:grid-cols-4 h-auto gap-1 p-1">
-              <TabsTrigger value="all" className="text-xs sm:text-sm px-2 py-2">All Topics</TabsTrigger>
-              <TabsTrigger value="discussion" className="text-xs sm:text-sm px-2 py-2">Discussions</TabsTrigger>
-              <TabsTrigger value="question" className="text-xs sm:text-sm px-2 py-2">Questions</TabsTrigger>
-              <TabsTrigger value="resource" className="text-xs sm:text-sm px-2 py-2">Resources</TabsTrigger>
+              <TabsTrigger value={ALL_CATEGORIES} className="text-xs sm:text-sm px-2 py-2">All Topics</TabsTrigger>
+              {categories.map((c) => (
+                <TabsTrigger key={c.slug} value={c.slug} className="text-xs sm:text-sm px-2 py-2" title={c.description ?? undefined}>
+                  {c.name} ({c.postCount})
+                </TabsTrigger>
+              ))}
             </TabsList>
           </Tabs>
-          
-          {/* Search */}
-          <div className="relative mb-8">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-            <Input
-              placeholder="Search discussions..."
-              className="pl-10"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
+
+          {/* Search and order */}
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <Input
+                placeholder="Search discussions..."
+                className="pl-10"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+            <Tabs value={sort} onValueChange={(value) => setSort(value as ForumPostPageQuery["sort"])}>
+              <TabsList>
+                {SORT_TABS.map(({ value, label, icon: Icon }) => (
+                  <TabsTrigger key={value} value={value} className="gap-1">
+                    <Icon className="h-4 w-4" /> {label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
           </div>
+
+          {/* Popular tags */}
+          {shownTags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-8">
+              {shownTags.map(({ tag, count }) => (
+                <button key={tag} type="button" onClick={() => setSelectedTag(tag === selectedTag ? undefined : tag)}>
+                  <Badge variant={tag === selectedTag ? "default" : "secondary"} className="font-normal">
+                    #{tag}{count > 0 && <span className="ml-1 opacity-70">{count}</span>}
+                    {tag === selectedTag && <X className="ml-1 h-3 w-3" />}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          )}
         </>
       )}
-      
+
       {/* Forum posts */}
-      <ForumPosts />
-      
+      <ForumPosts
+        sort={sort}
+        categoryId={category?.id}
+        tag={selectedTag}
+        query={query || undefined}
+        categories={categories}
+        onTagSelect={setSelectedTag}
+      />
+
       {/* Mobile create button (fixed at bottom) */}
       {user && !showCreateForm && (
         <div className="md:hidden fixed bottom-6 right-6">
-          <Button 
+          <Button
             onClick={handleCreatePostClick}
             size="lg"
             className="rounded-full h-14 w-14 p-0 shadow-lg"
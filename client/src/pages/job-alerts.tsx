@@ -0,0 +1,220 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bell, ChevronDown, ChevronUp, Pencil, Search, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeJobSearch, jobSearchUrl } from "@/lib/job-search-params";
+import type { Expertise, JobPosting, SavedSearch } from "@shared/schema";
+
+type SavedSearchWithCount = SavedSearch & { matchCount: number };
+type MatchedJob = JobPosting & { matchedAt: string };
+
+function RecentMatches({ searchId }: { searchId: number }) {
+  const { data: matches, isLoading } = useQuery<MatchedJob[]>({
+    queryKey: [`/api/saved-searches/${searchId}/matches`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+  if (!matches || matches.length === 0) {
+    return <p className="text-sm text-slate-500">No alerts yet. New jobs that match will show up here.</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {matches.map((job) => (
+        <li key={job.id} className="flex items-center justify-between py-2 gap-4">
+          <div className="min-w-0">
+            <Link href={`/job/${job.id}`} className="font-medium hover:underline">{job.title}</Link>
+            <p className="text-xs text-slate-500">{job.location}{job.remote ? " · Remote" : ""}</p>
+          </div>
+          <span className="text-xs text-slate-400 whitespace-nowrap">
+            {formatDistanceToNow(new Date(job.matchedAt), { addSuffix: true })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function JobAlertsPage() {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+
+  const { data: searches, isLoading } = useQuery<SavedSearchWithCount[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const { data: expertiseList } = useQuery<Expertise[]>({
+    queryKey: ["/api/expertise"],
+  });
+  const expertiseNames = useMemo(
+    () => new Map((expertiseList || []).map(item => [item.id, item.name])),
+    [expertiseList]
+  );
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || "Please try again", variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; name?: string; alertsEnabled?: boolean }) =>
+      apiRequest("PATCH", `/api/saved-searches/${id}`, data),
+    onSuccess: () => {
+      setRenaming(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: onError("Could not update saved search"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/saved-searches/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({ title: "Saved search deleted" });
+    },
+    onError: onError("Could not delete saved search"),
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Job Alerts</h1>
+          <p className="text-slate-600">
+            Saved searches notify you when new jobs match. Choose instant emails or digests in{" "}
+            <Link href="/settings" className="underline">settings</Link>.
+          </p>
+        </div>
+        <Link href="/jobs">
+          <Button variant="outline">
+            <Search className="mr-2 h-4 w-4" /> Find jobs
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, index) => <Skeleton key={index} className="h-32 w-full" />)}
+        </div>
+      ) : !searches || searches.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <Bell className="h-10 w-10 text-slate-300 mb-4" />
+            <p className="text-slate-600 mb-4">
+              You have no saved searches yet. Filter the jobs list and choose "Save search" to get alerts.
+            </p>
+            <Link href="/jobs">
+              <Button>Browse jobs</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {searches.map((search) => (
+            <Card key={search.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    {renaming?.id === search.id ? (
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          updateMutation.mutate({ id: search.id, name: renaming.name });
+                        }}
+                      >
+                        <Input
+                          autoFocus
+                          value={renaming.name}
+                          maxLength={100}
+                          onChange={(e) => setRenaming({ id: search.id, name: e.target.value })}
+                        />
+                        <Button type="submit" size="sm" disabled={!renaming.name.trim()}>Save</Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+                      </form>
+                    ) : (
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        {search.name}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          aria-label="Rename saved search"
+                          onClick={() => setRenaming({ id: search.id, name: search.name })}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      </CardTitle>
+                    )}
+                    <CardDescription>
+                      {search.matchCount === 0
+                        ? "No matching jobs yet"
+                        : `${search.matchCount} matching ${search.matchCount === 1 ? "job" : "jobs"}`}
+                      {search.lastAlertedAt &&
+                        ` · last alert ${formatDistanceToNow(new Date(search.lastAlertedAt), { addSuffix: true })}`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`alerts-${search.id}`} className="text-sm">Alerts</Label>
+                    <Switch
+                      id={`alerts-${search.id}`}
+                      checked={search.alertsEnabled}
+                      onCheckedChange={(checked) => updateMutation.mutate({ id: search.id, alertsEnabled: checked })}
+                    />
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {describeJobSearch(search.criteria, expertiseNames).map((label) => (
+                    <Badge key={label} variant="secondary">{label}</Badge>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Link href={jobSearchUrl(search.criteria)}>
+                    <Button size="sm">View results</Button>
+                  </Link>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setExpandedId(expandedId === search.id ? null : search.id)}
+                  >
+                    {expandedId === search.id
+                      ? <ChevronUp className="mr-1 h-4 w-4" />
+                      : <ChevronDown className="mr-1 h-4 w-4" />}
+                    Recent alerts
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-red-600 hover:text-red-700 ml-auto"
+                    onClick={() => {
+                      if (confirm(`Delete the saved search "${search.name}"?`)) {
+                        deleteMutation.mutate(search.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="mr-1 h-4 w-4" /> Delete
+                  </Button>
+                </div>
+                {expandedId === search.id && <RecentMatches searchId={search.id} />}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
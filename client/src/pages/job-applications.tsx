@@ -1,38 +1,17 @@
-import { useParams } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient"; 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, User, Mail, Phone, MapPin, Calendar, FileText, ExternalLink } from "lucide-react";
-import { Link } from "wouter";
+import { ArrowLeft, User, MapPin, Calendar, ExternalLink, MessageSquare, Star } from "lucide-react";
 import { format } from "date-fns";
-import { useEffect } from "react";
-
-interface JobApplication {
-  id: number;
-  jobId: number;
-  professionalId: number;
-  coverLetter?: string;
-  appliedAt: string;
-  createdAt:string;
-  status: string;
-  professional?: {
-    id: number;
-    userId: number;
-    firstName: string;
-    lastName: string;
-    title: string;
-    location: string;
-    email: string;
-    phone?: string;
-    profileImageUrl?: string;
-    bio?: string;
-  };
-}
+import { useToast } from "@/hooks/use-toast";
+import ApplicationReviewDialog, { type PipelineApplication } from "@/components/job/application-review-dialog";
+import PipelineStageSettings from "@/components/job/pipeline-stage-settings";
+import type { CompanyTeamRole, PipelineStage } from "@shared/schema";
 
 interface JobPosting {
   id: number;
@@ -43,31 +22,34 @@ interface JobPosting {
   status: string;
 }
 
+interface PipelineBoard {
+  stages: PipelineStage[];
+  applications: PipelineApplication[];
+}
+
+const getStatusColor = (status: string) => {
+  switch (status.toLowerCase()) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'reviewed':
+      return 'bg-blue-100 text-blue-800';
+    case 'accepted':
+      return 'bg-green-100 text-green-800';
+    case 'rejected':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
 export default function JobApplications() {
   const { id } = useParams<{ id: string }>();
   const jobId = parseInt(id || "0");
-  const queryClient = useQueryClient();
-
-const updateStatusMutation = useMutation({
-  mutationFn: async ({
-    applicationId,
-    status,
-  }: {
-    applicationId: number;
-    status: string;
-  }) => {
-    const response = await apiRequest(
-      "PUT",
-      `/api/applications/${applicationId}/status`,
-      { status }
-    );
-    return response;
-  },
-  onSuccess: () => {
-    queryClient.invalidateQueries(); // Cache-i yenilə ki, UI-də status dəyişsin
-  },
-});
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [dropStageId, setDropStageId] = useState<number | null>(null);
 
+  const pipelineKey = [`/api/job-postings/${jobId}/pipeline`];
 
   // Fetch job details
   const { data: job, isLoading: jobLoading } = useQuery<JobPosting>({
@@ -75,22 +57,68 @@ const updateStatusMutation = useMutation({
     enabled: !!jobId,
   });
 
-  // Fetch applications for this job
-  const { data: applications, isLoading: applicationsLoading } = useQuery<JobApplication[]>({
-    queryKey: [`/api/job-postings/${jobId}/applications`],
+  // Fetch the pipeline stages with this job's applications
+  const { data: board, isLoading: boardLoading } = useQuery<PipelineBoard>({
+    queryKey: pipelineKey,
     enabled: !!jobId,
   });
-  console.log("Applications data:", applications);
 
-  if (jobLoading || applicationsLoading) {
+  const { data: company } = useQuery<{ teamRole: CompanyTeamRole }>({
+    queryKey: ["/api/companies/me"],
+  });
+
+  const canMove = company?.teamRole !== undefined && company.teamRole !== "viewer";
+  const canManageStages = company?.teamRole === "owner" || company?.teamRole === "admin";
+
+  const moveMutation = useMutation({
+    mutationFn: ({ applicationId, stageId }: { applicationId: number; stageId: number }) =>
+      apiRequest("PUT", `/api/applications/${applicationId}/stage`, { stageId }),
+    // Move the card right away; the refetch afterwards brings in the stage's status
+    onMutate: async ({ applicationId, stageId }) => {
+      await queryClient.cancelQueries({ queryKey: pipelineKey });
+      const previous = queryClient.getQueryData<PipelineBoard>(pipelineKey);
+      if (previous) {
+        queryClient.setQueryData<PipelineBoard>(pipelineKey, {
+          ...previous,
+          applications: previous.applications.map(application =>
+            application.id === applicationId ? { ...application, stageId } : application
+          ),
+        });
+      }
+      return { previous };
+    },
+    onError: (error: any, _, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(pipelineKey, context.previous);
+      }
+      toast({
+        title: "Could not move application",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, { applicationId }) => {
+      queryClient.invalidateQueries({ queryKey: pipelineKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/applications/${applicationId}/history`] });
+    },
+  });
+
+  const moveApplication = (applicationId: number, stageId: number) => {
+    const application = board?.applications.find(candidate => candidate.id === applicationId);
+    if (application && application.stageId !== stageId) {
+      moveMutation.mutate({ applicationId, stageId });
+    }
+  };
+
+  if (jobLoading || boardLoading) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="animate-pulse">
           <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
           <div className="h-6 bg-gray-200 rounded w-1/2 mb-8"></div>
-          <div className="space-y-4">
-            {[1, 2, 3].map((i) => (
-              <div key={i} className="h-32 bg-gray-200 rounded"></div>
+          <div className="flex gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <div key={i} className="h-64 w-72 bg-gray-200 rounded"></div>
             ))}
           </div>
         </div>
@@ -114,20 +142,9 @@ const updateStatusMutation = useMutation({
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'reviewed':
-        return 'bg-blue-100 text-blue-800';
-      case 'accepted':
-        return 'bg-green-100 text-green-800';
-      case 'rejected':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+  const stages = board?.stages ?? [];
+  const applications = board?.applications ?? [];
+  const selected = applications.find(application => application.id === selectedId) ?? null;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -156,21 +173,23 @@ const updateStatusMutation = useMutation({
 
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <p className="text-gray-600 text-sm sm:text-base">
-            {applications?.length || 0} application{applications?.length !== 1 ? 's' : ''} received
+            {applications.length} application{applications.length !== 1 ? 's' : ''} received
           </p>
 
-          <Link href={`/job/${jobId}`}>
-            <Button variant="outline" size="sm" className="w-full sm:w-auto">
-              <ExternalLink className="w-4 h-4 mr-2" />
-              <span className="hidden sm:inline">View Job Posting</span>
-              <span className="sm:hidden">View Job</span>
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            {canManageStages && <PipelineStageSettings stages={stages} jobId={jobId} />}
+            <Link href={`/job/${jobId}`}>
+              <Button variant="outline" size="sm" className="w-full sm:w-auto">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                <span className="hidden sm:inline">View Job Posting</span>
+                <span className="sm:hidden">View Job</span>
+              </Button>
+            </Link>
+          </div>
         </div>
       </div>
 
-      {/* Applications List */}
-      {!applications || applications.length === 0 ? (
+      {applications.length === 0 ? (
         <Card>
           <CardContent className="p-8 text-center">
             <User className="w-12 h-12 text-gray-300 mx-auto mb-4" />
@@ -181,152 +200,99 @@ const updateStatusMutation = useMutation({
           </CardContent>
         </Card>
       ) : (
-        <div className="space-y-6">
-          {applications.map((application) => (
-            <Card key={application.id} className="hover:shadow-md transition-shadow">
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="flex items-center gap-4">
-                    <Avatar className="w-12 h-12">
-                      <AvatarImage src={application.professional?.profileImageUrl} />
-                      <AvatarFallback>
-                        {application.professional?.firstName?.[0]}
-                        {application.professional?.lastName?.[0]}
-                      </AvatarFallback>
-                    </Avatar>
-
-                    <div>
-                      <h3 className="text-lg font-semibold">
-                        {application.professional?.firstName} {application.professional?.lastName}
-                      </h3>
-                      {application.professional?.title && (
-                        <p className="text-gray-600">{application.professional.title}</p>
-                      )}
-                      <div className="flex items-center gap-4 text-sm text-gray-500 mt-1">
-                        <span className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          {application.createdAt && !isNaN(new Date(application.createdAt).getTime())
-                            ? `Applied ${format(new Date(application.createdAt), 'MMM d, yyyy')}`
-                            : 'Date unavailable'}
+        /* Pipeline board: drag a card onto another stage to move it */
+        <div className="flex gap-4 overflow-x-auto pb-4">
+          {stages.map((stage) => {
+            const stageApplications = applications.filter(application => application.stageId === stage.id);
+            return (
+              <div
+                key={stage.id}
+                className={`w-72 shrink-0 rounded-lg bg-gray-50 p-3 ${dropStageId === stage.id ? 'ring-2 ring-primary' : ''}`}
+                onDragOver={(e) => {
+                  if (!canMove) return;
+                  e.preventDefault();
+                  setDropStageId(stage.id);
+                }}
+                onDragLeave={() => setDropStageId(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDropStageId(null);
+                  const applicationId = parseInt(e.dataTransfer.getData("text/plain"));
+                  if (!isNaN(applicationId)) moveApplication(applicationId, stage.id);
+                }}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-sm">{stage.name}</h3>
+                  <Badge variant="secondary">{stageApplications.length}</Badge>
+                </div>
 
-                        </span>
-                        {application.professional?.location && (
+                <div className="space-y-2 min-h-[4rem]">
+                  {stageApplications.map((application) => (
+                    <Card
+                      key={application.id}
+                      draggable={canMove}
+                      onDragStart={(e) => e.dataTransfer.setData("text/plain", String(application.id))}
+                      onClick={() => setSelectedId(application.id)}
+                      className={`cursor-pointer hover:shadow-md transition-shadow ${canMove ? 'active:cursor-grabbing' : ''}`}
+                    >
+                      <CardContent className="p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Avatar className="w-8 h-8">
+                            <AvatarImage src={application.professional.profileImageUrl ?? undefined} />
+                            <AvatarFallback>
+                              {application.professional.firstName?.[0]}
+                              {application.professional.lastName?.[0]}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="min-w-0">
+                            <p className="font-medium text-sm truncate">
+                              {application.professional.firstName} {application.professional.lastName}
+                            </p>
+                            {application.professional.title && (
+                              <p className="text-xs text-gray-600 truncate">{application.professional.title}</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-gray-500">
                           <span className="flex items-center gap-1">
-                            <MapPin className="w-3 h-3" />
-                            {application.professional.location}
+                            <Calendar className="w-3 h-3" />
+                            {format(new Date(application.createdAt), 'MMM d')}
                           </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-
-                  <Badge className={getStatusColor(application.status)}>
-                    {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
-                  </Badge>
-                </div>
-              </CardHeader>
-
-              <CardContent>
-                {/* Contact Information */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                  {application.professional?.email && (
-                    <div className="flex items-center gap-2">
-                      <Mail className="w-4 h-4 text-gray-500" />
-                      <a
-                        href={`mailto:${application.professional.email}`}
-                        className="text-blue-600 hover:underline"
-                      >
-                        {application.professional.email}
-                      </a>
-                    </div>
-                  )}
-
-                  {application.professional?.phone && (
-                    <div className="flex items-center gap-2">
-                      <Phone className="w-4 h-4 text-gray-500" />
-                      <a
-                        href={`tel:${application.professional.phone}`}
-                        className="text-blue-600 hover:underline"
-                      >
-                        {application.professional.phone}
-                      </a>
-                    </div>
-                  )}
-                </div>
-
-                {/* Professional Bio */}
-                {application.professional?.bio && (
-                  <div className="mb-4">
-                    <h4 className="font-medium mb-2">About</h4>
-                    <p className="text-gray-700 text-sm break-words">
-                      {application.professional.bio}
-                    </p>
-
-                  </div>
-                )}
-
-                {/* Cover Letter */}
-                {application.coverLetter && (
-                  <div className="mb-4">
-                    <h4 className="font-medium mb-2 flex items-center gap-2">
-                      <FileText className="w-4 h-4" />
-                      Cover Letter
-                    </h4>
-                    <div className="bg-gray-50 p-4 rounded-lg">
-                      <p className="text-gray-700 text-sm whitespace-pre-wrap break-words">
-                        {application.coverLetter}
-                      </p>
-
-                    </div>
-                  </div>
-                )}
-
-                <Separator className="my-4" />
-                {/* Actions */}
-                <div className="flex items-center justify-between">
-                  <Link href={`/professional-profile/${application.professionalId}`}>
-                    <Button variant="outline" size="sm">
-                      View Full Profile
-                    </Button>
-                  </Link>
-
-                 {application.status === 'pending' && (
-  <div className="flex gap-2">
-    <Button
-      variant="outline"
-      size="sm"
-      onClick={() =>
-        updateStatusMutation.mutate({
-          applicationId: application.id,
-          status: "rejected",
-        })
-      }
-      disabled={updateStatusMutation.isLoading}
-    >
-      Reject
-    </Button>
-
-    <Button
-      size="sm"
-      onClick={() =>
-        updateStatusMutation.mutate({
-          applicationId: application.id,
-          status: "accepted",
-        })
-      }
-      disabled={updateStatusMutation.isLoading}
-    >
-      Accept
-    </Button>
-  </div>
-)}
-
+                          <span className="flex items-center gap-2">
+                            {application.averageRating !== null && (
+                              <span className="flex items-center gap-0.5">
+                                <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                                {application.averageRating}
+                              </span>
+                            )}
+                            {application.noteCount > 0 && (
+                              <span className="flex items-center gap-0.5">
+                                <MessageSquare className="w-3 h-3" />
+                                {application.noteCount}
+                              </span>
+                            )}
+                            <Badge className={`${getStatusColor(application.status)} text-[10px] px-1.5 py-0`}>
+                              {application.status}
+                            </Badge>
+                          </span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
                 </div>
-              </CardContent>
-            </Card>
-          ))}
+              </div>
+            );
+          })}
         </div>
       )}
+
+      <ApplicationReviewDialog
+        application={selected}
+        stages={stages}
+        canEdit={canMove}
+        onMove={moveApplication}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
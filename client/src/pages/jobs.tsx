@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 
 import { 
@@ -25,52 +25,119 @@ import {
   PlusCircle, 
   Filter, 
   CalendarDays,
-  MapPin
+  MapPin,
+  Bell,
+  X,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useDebounce } from "@/hooks/use-debounce";
 import JobCard from "@/components/home/job-card";
-import type { JobPosting } from "@shared/schema";
+import SaveSearchDialog from "@/components/job/save-search-dialog";
+import SearchFacet from "@/components/search/search-facet";
+import { criteriaFromSearchParams } from "@/lib/job-search-params";
+import { compactJobSearchCriteria } from "@shared/job-search";
+import { RATE_RANGES, toSearchParams, type JobSearchResult } from "@shared/search";
+import type { Expertise, JobSearchCriteria } from "@shared/schema";
+
+const PAGE_SIZE = 12;
+
+const parseAmount = (value: string) => {
+  const amount = parseInt(value);
+  return isNaN(amount) || amount < 0 ? undefined : amount;
+};
 
 export default function Jobs() {
   const { user } = useAuth();
-  const [searchTerm, setSearchTerm] = useState("");
-  const [jobType, setJobType] = useState<string>("all");
-  const [remoteOnly, setRemoteOnly] = useState(false);
+  // Filters start from the URL, so saved searches and job alerts can link to their results
+  const [initial] = useState(() => criteriaFromSearchParams(new URLSearchParams(window.location.search)));
+  const [searchTerm, setSearchTerm] = useState(initial.keywords ?? "");
+  const [jobType, setJobType] = useState<string>(initial.jobType ?? "all");
+  const [remoteOnly, setRemoteOnly] = useState(initial.remote ?? false);
+  const [location, setLocation] = useState(initial.location ?? "");
+  const [minCompensation, setMinCompensation] = useState(initial.minCompensation?.toString() ?? "");
+  const [maxCompensation, setMaxCompensation] = useState(initial.maxCompensation?.toString() ?? "");
+  const [expertiseIds, setExpertiseIds] = useState<number[]>(initial.expertiseIds ?? []);
+  const [sort, setSort] = useState<"relevance" | "newest">("relevance");
+  const [page, setPage] = useState(1);
   
-  // Fetch all job postings
-  const { 
-    data: jobs, 
+  const { data: expertiseList } = useQuery<Expertise[]>({
+    queryKey: ["/api/expertise"],
+  });
+  const expertiseNames = useMemo(
+    () => new Map((expertiseList || []).map(item => [item.id, item.name])),
+    [expertiseList]
+  );
+
+  const criteria: JobSearchCriteria = compactJobSearchCriteria({
+    keywords: searchTerm,
+    location,
+    remote: remoteOnly,
+    jobType: jobType === "all" ? undefined : jobType as JobSearchCriteria["jobType"],
+    minCompensation: parseAmount(minCompensation),
+    maxCompensation: parseAmount(maxCompensation),
+    expertiseIds,
+  });
+
+  // Typed filters wait for the user to stop typing before searching
+  const keywords = useDebounce(criteria.keywords, 300);
+  const debouncedLocation = useDebounce(criteria.location, 300);
+  const minAmount = useDebounce(criteria.minCompensation, 300);
+  const maxAmount = useDebounce(criteria.maxCompensation, 300);
+  const filterParams = toSearchParams({
+    q: keywords,
+    location: debouncedLocation,
+    jobType: criteria.jobType,
+    remote: criteria.remote,
+    expertise: criteria.expertiseIds,
+    minCompensation: minAmount,
+    maxCompensation: maxAmount,
+    sort,
+  }).toString();
+
+  // A new search starts again from its first page
+  useEffect(() => setPage(1), [filterParams]);
+
+  const {
+    data: result,
     isLoading: isLoadingJobs,
     error: jobsError
-  } = useQuery<JobPosting[]>({
-    queryKey: ["/api/job-postings"],
+  } = useQuery<JobSearchResult>({
+    queryKey: [`/api/search/jobs?${filterParams}&page=${page}&pageSize=${PAGE_SIZE}`],
+    placeholderData: keepPreviousData,
   });
-  
-  // Filter jobs based on search and filters
-  const filteredJobs = (jobs || []).filter(job => {
-    // Filter by search term
-    const matchesSearch = !searchTerm || 
-      job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.requirements.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    // Filter by job type
-    const matchesType = jobType === "all" || job.jobType === jobType;
-    
-    // Filter by remote option
-    const matchesRemote = !remoteOnly || job.remote;
-    
-    // Only show open jobs
-    const isOpen = job.status === "open";
-    
-    return matchesSearch && matchesType && matchesRemote && isOpen;
-  });
-  
-  // Sort jobs by created date (newest first)
-  const sortedJobs = [...filteredJobs].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  const jobs = result?.items ?? [];
+  const total = result?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const selectedRateRange = RATE_RANGES.find(range =>
+    range.min === criteria.minCompensation && range.max === criteria.maxCompensation
   );
+  const toggleRateRange = (value: string) => {
+    const range = RATE_RANGES.find(range => range.value === value);
+    if (!range || range === selectedRateRange) {
+      setMinCompensation("");
+      setMaxCompensation("");
+    } else {
+      setMinCompensation(String(range.min));
+      setMaxCompensation(range.max === undefined ? "" : String(range.max));
+    }
+  };
+  const toggleExpertise = (value: string) => {
+    const id = parseInt(value);
+    setExpertiseIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+  };
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setJobType("all");
+    setRemoteOnly(false);
+    setLocation("");
+    setMinCompensation("");
+    setMaxCompensation("");
+    setExpertiseIds([]);
+  };
   
   return (
     <div className="container mx-auto px-3 sm:px-4 lg:px-6 py-6 sm:py-8">
@@ -87,6 +154,16 @@ export default function Jobs() {
             </Button>
           </Link>
         )}
+        {user?.userType === "professional" && (
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <SaveSearchDialog criteria={criteria} expertiseNames={expertiseNames} />
+            <Link href="/job-alerts" className="w-full sm:w-auto">
+              <Button variant="ghost" className="w-full sm:w-auto">
+                <Bell className="mr-2 h-4 w-4" /> Job alerts
+              </Button>
+            </Link>
+          </div>
+        )}
       </div>
       
       {/* Search and filter section */}
@@ -142,102 +219,218 @@ export default function Jobs() {
             </div>
           </div>
         </div>
+
+        {/* Location, compensation and expertise */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mt-4">
+          <div className="relative">
+            <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Location"
+              className="pl-10 h-10"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+            />
+          </div>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min compensation"
+            className="h-10"
+            value={minCompensation}
+            onChange={(e) => setMinCompensation(e.target.value)}
+          />
+          <Input
+            type="number"
+            min={0}
+            placeholder="Max compensation"
+            className="h-10"
+            value={maxCompensation}
+            onChange={(e) => setMaxCompensation(e.target.value)}
+          />
+          <Select
+            value=""
+            onValueChange={(value) => setExpertiseIds(ids => ids.includes(parseInt(value)) ? ids : [...ids, parseInt(value)])}
+          >
+            <SelectTrigger className="h-10">
+              <SelectValue placeholder="Add expertise" />
+            </SelectTrigger>
+            <SelectContent>
+              {(expertiseList || [])
+                .filter(item => !expertiseIds.includes(item.id))
+                .map(item => (
+                  <SelectItem key={item.id} value={item.id.toString()}>{item.name}</SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {expertiseIds.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {expertiseIds.map(id => (
+              <Badge key={id} variant="secondary" className="gap-1">
+                {expertiseNames.get(id) ?? "Unknown expertise"}
+                <button
+                  type="button"
+                  aria-label="Remove expertise filter"
+                  onClick={() => setExpertiseIds(ids => ids.filter(other => other !== id))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
       
       {/* Results count */}
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-4 sm:mb-6 gap-2">
         <p className="text-gray-500 text-sm sm:text-base">
-          {sortedJobs.length} jobs found
+          {total} {total === 1 ? "job" : "jobs"} found
         </p>
-        {sortedJobs.length > 0 && (
-          <p className="text-xs sm:text-sm text-gray-400">
-            Updated {new Date().toLocaleDateString()}
-          </p>
-        )}
+        <Select value={sort} onValueChange={(value) => setSort(value as typeof sort)}>
+          <SelectTrigger className="w-full sm:w-[180px] h-9">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="relevance">Best match</SelectItem>
+            <SelectItem value="newest">Newest</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
       
-      {/* Job listings */}
-      <div className="space-y-4 sm:space-y-6">
-        {isLoadingJobs ? (
-          // Loading skeletons
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-            {[...Array(6)].map((_, index) => (
-              <div key={index} className="bg-white rounded-xl shadow-lg p-4 sm:p-6 border border-gray-200">
-                <div className="flex justify-between items-start mb-3 sm:mb-4">
-                  <div className="flex items-start flex-1 min-w-0">
-                    <Skeleton className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg flex-shrink-0" />
-                    <div className="ml-3 sm:ml-4 space-y-2 flex-1 min-w-0">
-                      <Skeleton className="h-5 sm:h-6 w-full max-w-[200px]" />
-                      <Skeleton className="h-4 w-full max-w-[150px]" />
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Facets */}
+        <aside className="space-y-6 bg-white p-4 rounded-lg shadow-sm h-fit">
+          <SearchFacet
+            title="Job type"
+            buckets={result?.facets.jobType}
+            selected={criteria.jobType ? [criteria.jobType] : []}
+            onToggle={(value) => setJobType(value === jobType ? "all" : value)}
+            formatLabel={(label) => label.charAt(0).toUpperCase() + label.slice(1)}
+          />
+          <SearchFacet
+            title="Work mode"
+            buckets={result?.facets.remote.filter(bucket => bucket.value === "true")}
+            selected={remoteOnly ? ["true"] : []}
+            onToggle={() => setRemoteOnly(!remoteOnly)}
+            labelFor={() => "Remote"}
+          />
+          <SearchFacet
+            title="Location"
+            buckets={result?.facets.location}
+            selected={criteria.location ? [criteria.location] : []}
+            onToggle={(value) => setLocation(value === location ? "" : value)}
+          />
+          <SearchFacet
+            title="Compensation"
+            buckets={result?.facets.rateRange}
+            selected={selectedRateRange ? [selectedRateRange.value] : []}
+            onToggle={toggleRateRange}
+          />
+          <SearchFacet
+            title="Expertise"
+            buckets={result?.facets.expertise}
+            selected={expertiseIds.map(String)}
+            onToggle={toggleExpertise}
+            labelFor={(value) => expertiseNames.get(parseInt(value))}
+          />
+        </aside>
+
+        {/* Job listings */}
+        <div className="lg:col-span-3 space-y-4 sm:space-y-6">
+          {isLoadingJobs ? (
+            // Loading skeletons
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+              {[...Array(6)].map((_, index) => (
+                <div key={index} className="bg-white rounded-xl shadow-lg p-4 sm:p-6 border border-gray-200">
+                  <div className="flex justify-between items-start mb-3 sm:mb-4">
+                    <div className="flex items-start flex-1 min-w-0">
+                      <Skeleton className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg flex-shrink-0" />
+                      <div className="ml-3 sm:ml-4 space-y-2 flex-1 min-w-0">
+                        <Skeleton className="h-5 sm:h-6 w-full max-w-[200px]" />
+                        <Skeleton className="h-4 w-full max-w-[150px]" />
+                      </div>
                     </div>
+                    <Skeleton className="h-6 w-16 sm:w-20 ml-2 flex-shrink-0" />
                   </div>
-                  <Skeleton className="h-6 w-16 sm:w-20 ml-2 flex-shrink-0" />
-                </div>
-                <div className="space-y-3 sm:space-y-4">
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
-                    <Skeleton className="h-12 w-full" />
-                    <Skeleton className="h-12 w-full" />
-                  </div>
-                  <Skeleton className="h-16 w-full" />
-                  <div className="flex flex-wrap gap-1.5 sm:gap-2">
-                    <Skeleton className="h-6 w-16 rounded-full" />
-                    <Skeleton className="h-6 w-20 rounded-full" />
-                    <Skeleton className="h-6 w-14 rounded-full" />
-                  </div>
-                  <div className="flex gap-2 sm:gap-3">
-                    <Skeleton className="h-9 sm:h-10 flex-1" />
-                    <Skeleton className="h-9 sm:h-10 w-9 sm:w-10" />
+                  <div className="space-y-3 sm:space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+                      <Skeleton className="h-12 w-full" />
+                      <Skeleton className="h-12 w-full" />
+                    </div>
+                    <Skeleton className="h-16 w-full" />
+                    <div className="flex flex-wrap gap-1.5 sm:gap-2">
+                      <Skeleton className="h-6 w-16 rounded-full" />
+                      <Skeleton className="h-6 w-20 rounded-full" />
+                      <Skeleton className="h-6 w-14 rounded-full" />
+                    </div>
+                    <div className="flex gap-2 sm:gap-3">
+                      <Skeleton className="h-9 sm:h-10 flex-1" />
+                      <Skeleton className="h-9 sm:h-10 w-9 sm:w-10" />
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        ) : jobsError ? (
-          // Error state
-          <Card>
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <p className="text-red-500 mb-4">Failed to load job listings. Please try again later.</p>
-              <Button onClick={() => window.location.reload()}>Retry</Button>
-            </CardContent>
-          </Card>
-        ) : sortedJobs.length > 0 ? (
-          // Job cards
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-            {sortedJobs.map((job) => (
-              <JobCard key={job.id} job={job} />
-            ))}
+              ))}
+            </div>
+          ) : jobsError ? (
+            // Error state
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <p className="text-red-500 mb-4">Failed to load job listings. Please try again later.</p>
+                <Button onClick={() => window.location.reload()}>Retry</Button>
+              </CardContent>
+            </Card>
+          ) : jobs.length > 0 ? (
+            // Job cards
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+              {jobs.map((job) => (
+                <JobCard key={job.id} job={job} />
+              ))}
+            </div>
+          ) : (
+            // Empty state
+            <Card className="mx-auto max-w-md">
+              <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12 text-center">
+                <p className="text-gray-500 mb-4 text-sm sm:text-base">
+                  No job listings found matching your criteria. Try adjusting your filters.
+                </p>
+                <Button 
+                  onClick={clearFilters}
+                  className="w-full sm:w-auto"
+                >
+                  Clear Filters
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="flex flex-wrap justify-center items-center gap-2 mt-6 sm:mt-8">
+            <Button
+              variant="outline"
+              size="sm"
+              className="px-3 sm:px-4"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" /> Previous
+            </Button>
+            <span className="text-sm text-gray-500 px-2">
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="px-3 sm:px-4"
+              disabled={page >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next <ChevronRight className="h-4 w-4" />
+            </Button>
           </div>
-        ) : (
-          // Empty state
-          <Card className="mx-auto max-w-md">
-            <CardContent className="flex flex-col items-center justify-center py-8 sm:py-12 text-center">
-              <p className="text-gray-500 mb-4 text-sm sm:text-base">
-                No job listings found matching your criteria. Try adjusting your filters.
-              </p>
-              <Button 
-                onClick={() => {
-                  setSearchTerm("");
-                  setJobType("all");
-                  setRemoteOnly(false);
-                }}
-                className="w-full sm:w-auto"
-              >
-                Clear Filters
-              </Button>
-            </CardContent>
-          </Card>
         )}
-      </div>
-      
-      {/* Pagination (simplified for now) */}
-      {sortedJobs.length > 0 && (
-        <div className="flex flex-wrap justify-center gap-2 mt-6 sm:mt-8">
-          <Button variant="outline" size="sm" className="px-3 sm:px-4">1</Button>
-          <Button variant="outline" size="sm" className="px-3 sm:px-4">2</Button>
-          <Button variant="outline" size="sm" className="px-3 sm:px-4">3</Button>
-          <Button variant="outline" size="sm" className="px-3 sm:px-4">Next</Button>
         </div>
-      )}
+      </div>
     </div>
   );
 }
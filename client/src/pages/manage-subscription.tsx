@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { 
@@ -18,7 +19,8 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  RefreshCw
+  RefreshCw,
+  Gauge
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -70,6 +72,24 @@ interface Invoice {
   createdAt: string;
 }
 
+interface UsageSummary {
+  plan: { id: number; name: string; planType: string };
+  period: { start: string; end: string };
+  metrics: {
+    metric: 'jobApplications' | 'jobPostings' | 'resourceDownloads' | 'contacts';
+    used: number;
+    limit: number | null;
+    remaining: number | null;
+  }[];
+}
+
+const USAGE_LABELS: Record<UsageSummary['metrics'][number]['metric'], string> = {
+  jobApplications: 'Job applications',
+  jobPostings: 'Job postings',
+  resourceDownloads: 'Resource downloads',
+  contacts: 'Professional contacts'
+};
+
 export default function ManageSubscription() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -96,6 +116,11 @@ export default function ManageSubscription() {
     enabled: !!user
   });
 
+  const { data: usage } = useQuery<UsageSummary>({
+    queryKey: ["/api/my-subscription/usage"],
+    enabled: !!user
+  });
+
   const cancelMutation = useMutation({
     mutationFn: async (cancelAtPeriodEnd: boolean) => {
       const response = await apiRequest("POST", "/api/cancel-subscription", {
@@ -106,6 +131,7 @@ export default function ManageSubscription() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/my-subscription"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my-subscription/usage"] });
       toast({
         title: "Subscription Updated",
         description: "Your subscription has been updated successfully.",
@@ -427,8 +453,38 @@ export default function ManageSubscription() {
             </Card>
           </div>
 
-          {/* Billing History */}
-          <div>
+          <div className="space-y-6">
+            {/* Plan Usage */}
+            {usage && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Gauge className="h-5 w-5" />
+                    Plan Usage
+                  </CardTitle>
+                  <CardDescription>
+                    {usage.plan.name} plan, resets on {formatDate(usage.period.end)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {usage.metrics.filter(item => item.limit !== 0).map((item) => (
+                    <div key={item.metric} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">{USAGE_LABELS[item.metric]}</span>
+                        <span className="font-medium">
+                          {item.limit === null ? `${item.used} (unlimited)` : `${item.used} / ${item.limit}`}
+                        </span>
+                      </div>
+                      {item.limit !== null && (
+                        <Progress value={Math.min((item.used / item.limit) * 100, 100)} className="h-2" />
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Billing History */}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -1,7 +1,9 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
 
 import {
   Card,
@@ -15,26 +17,44 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
-import { Search, User, Building } from "lucide-react";
+import { Search, User, Building, Paperclip, Briefcase, CalendarDays } from "lucide-react";
 import MessageThread from "@/components/messaging/message-thread";
-import type { Message, User as UserType } from "@shared/schema";
+import type { Conversation, ConversationSummary, User as UserType } from "@shared/schema";
 
 export default function Messages() {
   const [, setLocation] = useLocation();
   const { user, isLoading: isLoadingAuth } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Keep conversation previews and unread counts current
+  useRealtime((event) => {
+    if (event.type === "new_message" || event.type === "message_read") {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+    }
+  });
 
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
 
   // Get user from query parameters
   const params = new URLSearchParams(window.location.search);
+  const conversationIdParam = params.get("conversation");
   const userIdParam = params.get("user");
   const professionalIdParam = params.get("professional");
   const companyIdParam = params.get("company");
+  const jobIdParam = params.get("job");
+  const consultationIdParam = params.get("consultation");
 
-  // Set selected user from URL params if provided
+  // Open (or start) a conversation from URL params if provided
   useEffect(() => {
-    const fetchAndSetUserId = async () => {
+    if (!user) return;
+
+    const fetchAndSetConversation = async () => {
+      if (conversationIdParam) {
+        setSelectedConversationId(parseInt(conversationIdParam));
+        return;
+      }
+
       let actualUserId: number | null = null;
 
       if (userIdParam) {
@@ -49,14 +69,22 @@ export default function Messages() {
         actualUserId = profile?.userId || null;
       }
 
-      if (actualUserId) {
-        setSelectedUserId(actualUserId);
-        window.history.replaceState({}, '', `/messages?user=${actualUserId}`);
+      if (actualUserId && actualUserId !== user.id) {
+        const res = await apiRequest("POST", "/api/conversations", {
+          participantId: actualUserId,
+          jobPostingId: jobIdParam ? parseInt(jobIdParam) : undefined,
+          consultationId: consultationIdParam ? parseInt(consultationIdParam) : undefined,
+        });
+        const conversation: Conversation = await res.json();
+
+        setSelectedConversationId(conversation.id);
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+        window.history.replaceState({}, '', `/messages?conversation=${conversation.id}`);
       }
     };
 
-    fetchAndSetUserId();
-  }, [userIdParam, professionalIdParam, companyIdParam]);
+    fetchAndSetConversation().catch(error => console.error("Failed to open conversation:", error));
+  }, [user?.id, conversationIdParam, userIdParam, professionalIdParam, companyIdParam, jobIdParam, consultationIdParam]);
 
 
   // Redirect if not logged in
@@ -66,28 +94,32 @@ export default function Messages() {
     }
   }, [user, isLoadingAuth, setLocation]);
 
-  // Fetch all messages for current user
+  // Fetch all conversations for current user with previews and unread counts
   const {
-    data: messages,
+    data: conversations,
     isLoading: isLoadingMessages
-  } = useQuery<Message[]>({
-    queryKey: ["/api/messages"],
+  } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
     enabled: !!user,
   });
 
-  // Fetch user details for all message contacts
+  // The other party of each conversation; in the shared company inbox that is whoever is not the
+  // inbox's owner
+  const getContactId = (conversation: ConversationSummary) =>
+    conversation.participantIds.find(id => id !== (conversation.inboxUserId ?? user?.id));
+
+  const participantIds = conversations ?
+    Array.from(new Set(conversations.map(getContactId).filter((id): id is number => id !== undefined)))
+      .sort((a, b) => a - b) : [];
+
+  // Fetch user details for all conversation participants
   const {
     data: users
   } = useQuery<UserType[]>({
-    queryKey: ["/api/users/batch"],
-    enabled: !!messages && messages.length > 0,
+    queryKey: ["/api/users/batch", participantIds.join(",")],
+    enabled: participantIds.length > 0,
     queryFn: async () => {
-      // Extract unique user IDs from messages
-      const userIds = messages ?
-        Array.from(new Set([
-          ...messages.map(msg => msg.senderId),
-          ...messages.map(msg => msg.receiverId)
-        ])).filter(id => id !== user?.id) : [];
+      const userIds = participantIds;
 
       if (userIds.length === 0) return [];
 
@@ -99,42 +131,32 @@ export default function Messages() {
     }
   });
 
-  // Get unique contacts from messages
-  const contacts = messages ?
-    Array.from(new Set(
-      messages.map(msg =>
-        msg.senderId === user?.id ? msg.receiverId : msg.senderId
-      )
-    )).map(contactId => {
-      // Get the latest message with this contact
-      const latestMessage = [...messages]
-        .filter(msg =>
-          (msg.senderId === contactId && msg.receiverId === user?.id) ||
-          (msg.receiverId === contactId && msg.senderId === user?.id)
-        )
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
-
-      // Find user details
-      const contactUser = users?.find(u => u.id === contactId);
+  // One entry per conversation, labelled with the other participant
+  const contacts = conversations ?
+    conversations.map(conversation => {
+      const contactId = getContactId(conversation);
 
       return {
+        conversationId: conversation.id,
         userId: contactId,
-        user: contactUser,
-        latestMessage,
-        unreadCount: messages.filter(msg =>
-          msg.senderId === contactId &&
-          msg.receiverId === user?.id &&
-          !msg.read
-        ).length
+        user: users?.find(u => u.id === contactId),
+        subject: conversation.subject,
+        jobPostingId: conversation.jobPostingId,
+        consultationId: conversation.consultationId,
+        latestMessage: conversation.lastMessage,
+        unreadCount: conversation.unreadCount
       };
     }).filter(contact => contact.user) : [];
 
+  const selectedContact = contacts.find(contact => contact.conversationId === selectedConversationId);
+
   // Filter contacts based on search term
   const filteredContacts = contacts.filter(contact =>
     !searchTerm ||
     contact.user?.firstName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     contact.user?.lastName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    contact.user?.username?.toLowerCase().includes(searchTerm.toLowerCase())
+    contact.user?.username?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    contact.subject?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   if (isLoadingAuth) {
@@ -204,9 +226,9 @@ export default function Messages() {
                 <div className="divide-y">
                   {filteredContacts.map((contact) => (
                     <button
-                      key={contact.userId}
-                      onClick={() => setSelectedUserId(contact.userId)}
-                      className={`w-full text-left p-4 hover:bg-muted/50 transition-colors ${selectedUserId === contact.userId ? 'bg-muted' : ''
+                      key={contact.conversationId}
+                      onClick={() => setSelectedConversationId(contact.conversationId)}
+                      className={`w-full text-left p-4 hover:bg-muted/50 transition-colors ${selectedConversationId === contact.conversationId ? 'bg-muted' : ''
                         }`}
                     >
                       <div className="flex items-center space-x-3">
@@ -228,8 +250,24 @@ export default function Messages() {
                               </Badge>
                             )}
                           </div>
+                          {(contact.jobPostingId || contact.consultationId) && (
+                            <p className="flex items-center gap-1 text-xs text-primary truncate">
+                              {contact.jobPostingId ? (
+                                <Briefcase className="h-3 w-3 shrink-0" />
+                              ) : (
+                                <CalendarDays className="h-3 w-3 shrink-0" />
+                              )}
+                              {contact.subject || (contact.jobPostingId ? 'Job discussion' : 'Consultation')}
+                            </p>
+                          )}
                           <p className="text-sm text-muted-foreground truncate">
-                            {contact.latestMessage?.content || 'No messages yet'}
+                            {contact.latestMessage ? (
+                              contact.latestMessage.content || (
+                                <span className="inline-flex items-center gap-1">
+                                  <Paperclip className="h-3 w-3" /> Attachment
+                                </span>
+                              )
+                            ) : 'No messages yet'}
                           </p>
                           {contact.latestMessage && (
                             <p className="text-xs text-muted-foreground mt-1">
@@ -249,8 +287,11 @@ export default function Messages() {
         {/* Message Thread */}
         <div className="lg:col-span-2">
           <Card className="h-full">
-            {selectedUserId ? (
-              <MessageThread otherUserId={selectedUserId} />
+            {selectedConversationId && selectedContact?.userId ? (
+              <MessageThread
+                conversationId={selectedConversationId}
+                otherUserId={selectedContact.userId}
+              />
             ) : (
               <div className="flex items-center justify-center h-full">
                 <div className="text-center">
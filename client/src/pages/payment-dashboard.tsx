@@ -8,6 +8,10 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { EscrowDisputePanel, EscrowMilestones } from "@/components/payment/escrow-payment";
+import type { EscrowDisputeView } from "@/components/payment/escrow-payment";
+import type { EscrowMilestone } from "@shared/schema";
 import { DollarSign, Clock, CheckCircle, XCircle, AlertTriangle, RefreshCw } from "lucide-react";
 
 interface EscrowTransaction {
@@ -31,6 +35,7 @@ interface TransactionHistory {
   previousStatus: string;
   newStatus: string;
   actionReason: string;
+  metadata?: { milestoneTitle?: string } | null;
   createdAt: string;
 }
 
@@ -71,6 +76,7 @@ const getStatusColor = (status: string) => {
 export default function PaymentDashboard() {
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [selectedTransaction, setSelectedTransaction] = useState<EscrowTransaction | null>(null);
   const [showDetails, setShowDetails] = useState(false);
 
@@ -81,11 +87,24 @@ export default function PaymentDashboard() {
   const { data: transactionDetails } = useQuery<{
     transaction: EscrowTransaction;
     history: TransactionHistory[];
+    milestones: EscrowMilestone[];
+    disputes: EscrowDisputeView[];
   }>({
-    queryKey: ["/api/payments/transactions", selectedTransaction?.id],
+    queryKey: [`/api/payments/transactions/${selectedTransaction?.id}`],
     enabled: !!selectedTransaction,
   });
 
+  const viewerRole = transactionDetails?.transaction.companyId === user?.id
+    ? 'company'
+    : transactionDetails?.transaction.trainerId === user?.id
+      ? 'trainer'
+      : 'viewer';
+
+  const refreshDetails = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/payments/transactions/${selectedTransaction?.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/payments/transactions"] });
+  };
+
   const handleReleaseFunds = async (transactionId: number) => {
     try {
       const response = await apiRequest("POST", `/api/payments/release-funds/${transactionId}`, {
@@ -146,7 +165,7 @@ export default function PaymentDashboard() {
   }
 
   const completedTransactions = transactions?.filter(t => t.status === 'released') || [];
-  const activeTransactions = transactions?.filter(t => ['pending', 'in_escrow'].includes(t.status)) || [];
+  const activeTransactions = transactions?.filter(t => ['pending', 'in_escrow', 'disputed'].includes(t.status)) || [];
   const totalEarnings = completedTransactions.reduce((sum, t) => sum + t.trainerPayoutAmount, 0);
   const pendingAmount = activeTransactions.reduce((sum, t) => sum + t.amount, 0);
 
@@ -317,13 +336,35 @@ export default function PaymentDashboard() {
                 </div>
               </div>
 
+              {transactionDetails.milestones?.length > 0 && (
+                <EscrowMilestones
+                  milestones={transactionDetails.milestones}
+                  currency={transactionDetails.transaction.currency}
+                  role={viewerRole}
+                  onChange={refreshDetails}
+                />
+              )}
+
+              <EscrowDisputePanel
+                transactionId={transactionDetails.transaction.id}
+                transactionStatus={transactionDetails.transaction.status}
+                currency={transactionDetails.transaction.currency}
+                disputes={transactionDetails.disputes || []}
+                userId={user?.id}
+                role={viewerRole}
+                onChange={refreshDetails}
+              />
+
               <div>
                 <h4 className="font-medium mb-2">{t("payment.transactionHistory")}</h4>
                 <div className="space-y-2">
                   {transactionDetails.history.map((item) => (
                     <div key={item.id} className="flex justify-between items-center text-sm border-l-2 border-gray-200 pl-3">
                       <div>
-                        <p className="font-medium">{t(`payment.action.${item.action}`)}</p>
+                        <p className="font-medium">
+                          {t(`payment.action.${item.action}`)}
+                          {item.metadata?.milestoneTitle && `: ${item.metadata.milestoneTitle}`}
+                        </p>
                         {item.actionReason && (
                           <p className="text-gray-600">{item.actionReason}</p>
                         )}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { 
   Card, 
@@ -23,75 +23,75 @@ import {
   MapPin, 
   Filter, 
   Star,
-  ArrowUpDown
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
 import ProfessionalCard from "@/components/home/professional-card";
-import type { ProfessionalProfile, Expertise } from "@shared/schema";
+import SearchFacet from "@/components/search/search-facet";
+import { useDebounce } from "@/hooks/use-debounce";
+import { EXPERIENCE_LEVELS, RATE_RANGES, toSearchParams, type ProfessionalSearchResult } from "@shared/search";
+import type { Expertise } from "@shared/schema";
+
+const PAGE_SIZE = 12;
+const MAX_RATE = 500;
 
 export default function Professionals() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedExpertise, setSelectedExpertise] = useState<string>("all");
-  const [sortOrder, setSortOrder] = useState<string>("rating");
+  const [sortOrder, setSortOrder] = useState<string>("relevance");
   const [experienceLevel, setExperienceLevel] = useState<string>("");
-  const [rateRange, setRateRange] = useState<[number, number]>([0, 500]);
-  
-  // Fetch all professionals
+  const [rateRange, setRateRange] = useState<[number, number]>([0, MAX_RATE]);
+  const [location, setLocation] = useState("");
+  const [industryIds, setIndustryIds] = useState<number[]>([]);
+  const [page, setPage] = useState(1);
+
+  const query = useDebounce(searchTerm, 300);
+  const [minRate, maxRate] = useDebounce(rateRange, 300);
+  const filterParams = toSearchParams({
+    q: query,
+    location,
+    industry: industryIds,
+    expertise: selectedExpertise === "all" ? undefined : [parseInt(selectedExpertise)],
+    experience: experienceLevel in EXPERIENCE_LEVELS ? experienceLevel : undefined,
+    // The sliders' end stops mean "no limit"
+    minRate: minRate > 0 ? minRate : undefined,
+    maxRate: maxRate < MAX_RATE ? maxRate : undefined,
+    sort: sortOrder,
+  }).toString();
+
+  // A new search starts again from its first page
+  useEffect(() => setPage(1), [filterParams]);
+
   const { 
-    data: professionals, 
+    data: result, 
     isLoading: isLoadingProfessionals,
     error: professionalError
-  } = useQuery<ProfessionalProfile[]>({
-    queryKey: ["/api/professional-profiles"],
+  } = useQuery<ProfessionalSearchResult>({
+    queryKey: [`/api/search/professionals?${filterParams}&page=${page}&pageSize=${PAGE_SIZE}`],
+    placeholderData: keepPreviousData,
   });
+  const professionals = result?.items ?? [];
+  const total = result?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
   
   // Fetch all expertise areas for filtering
   const { data: expertise } = useQuery<Expertise[]>({
     queryKey: ["/api/expertise"],
   });
-  
-  // Filter and sort professionals
-  const filteredProfessionals = professionals?.filter(professional => {
-    // Search by title, bio or location (with null checks)
-    const matchesSearch = !searchTerm || 
-      (professional.title && professional.title.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (professional.bio && professional.bio.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (professional.location && professional.location.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    // Filter by rate range
-    const matchesRate = !professional.ratePerHour || 
-      (professional.ratePerHour >= rateRange[0] && professional.ratePerHour <= rateRange[1]);
 
-    // Filter by experience level
-    const yearsExp = professional.yearsExperience || 0;
-    const matchesExperience = !experienceLevel || 
-      (experienceLevel === "junior" && (yearsExp <= 2)) ||
-      (experienceLevel === "mid-level" && (yearsExp > 2 && yearsExp <= 5)) ||
-      (experienceLevel === "senior" && (yearsExp > 5 && yearsExp <= 8)) ||
-      (experienceLevel === "expert" && (yearsExp > 8)) ||
-      (professional.title && professional.title.toLowerCase().includes(experienceLevel.toLowerCase()));
+  const selectedRateRange = RATE_RANGES.find(range =>
+    range.min === rateRange[0] && (range.max ?? MAX_RATE) === rateRange[1]
+  );
 
-    // For expertise, we show all if "all" is selected, otherwise filter by specific expertise
-    const matchesExpertise = selectedExpertise === "all";
-    
-    return matchesSearch && matchesRate && matchesExperience && matchesExpertise;
-  }) || [];
-  
-  // Sort professionals
-  const sortedProfessionals = [...filteredProfessionals].sort((a, b) => {
-    if (sortOrder === "rating") {
-      const aRating = a.rating || 0;
-      const bRating = b.rating || 0;
-      return bRating - aRating;
-    } else if (sortOrder === "ratePerHour") {
-      const aRate = a.ratePerHour || 0;
-      const bRate = b.ratePerHour || 0;
-      return bRate - aRate;
-    }
-    // Default sorting by rating
-    const aRating = a.rating || 0;
-    const bRating = b.rating || 0;
-    return bRating - aRating;
-  });
+  const clearFilters = () => {
+    setSearchTerm("");
+    setSelectedExpertise("all");
+    setExperienceLevel("");
+    setRateRange([0, MAX_RATE]);
+    setLocation("");
+    setIndustryIds([]);
+  };
   
   return (
     <div className="container mx-auto px-4 py-8">
@@ -148,10 +148,11 @@ export default function Professionals() {
                 </SelectTrigger>
                 <SelectContent className="bg-white border border-slate-200">
                   <SelectItem value="any" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Any Experience Level</SelectItem>
-                  <SelectItem value="junior" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Junior (0-2 years)</SelectItem>
-                  <SelectItem value="mid-level" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Mid Level (2-5 years)</SelectItem>
-                  <SelectItem value="senior" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Senior (5-8 years)</SelectItem>
-                  <SelectItem value="expert" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Expert (8+ years)</SelectItem>
+                  {Object.entries(EXPERIENCE_LEVELS).map(([value, level]) => (
+                    <SelectItem key={value} value={value} className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">
+                      {level.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -168,7 +169,7 @@ export default function Professionals() {
                 <SelectContent className="bg-white border border-slate-200">
                   <SelectItem value="all" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">All Expertise</SelectItem>
                   {expertise?.map((exp) => (
-                    <SelectItem key={exp.id} value={exp.name} className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">
+                    <SelectItem key={exp.id} value={exp.id.toString()} className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">
                       {exp.name}
                     </SelectItem>
                   ))}
@@ -186,8 +187,9 @@ export default function Professionals() {
                   </div>
                 </SelectTrigger>
                 <SelectContent className="bg-white border border-slate-200">
+                  <SelectItem value="relevance" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Best Match</SelectItem>
                   <SelectItem value="rating" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Highest Rated</SelectItem>
-                  <SelectItem value="ratePerHour" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Hourly Rate</SelectItem>
+                  <SelectItem value="rate" className="text-slate-700 focus:bg-blue-50 focus:text-blue-800">Hourly Rate</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -207,7 +209,7 @@ export default function Professionals() {
             <input
               type="range"
               min="0"
-              max="500"
+              max={MAX_RATE}
               value={rateRange[0]}
               onChange={(e) => setRateRange([parseInt(e.target.value), rateRange[1]])}
               className="w-full accent-blue-600"
@@ -215,18 +217,58 @@ export default function Professionals() {
             <input
               type="range"
               min="0"
-              max="500"
+              max={MAX_RATE}
               value={rateRange[1]}
               onChange={(e) => setRateRange([rateRange[0], parseInt(e.target.value)])}
               className="w-full accent-blue-600"
             />
             <span className="text-md font-medium bg-gradient-to-r from-slate-800 to-blue-700 text-white px-6 py-2 rounded-md min-w-[120px] text-center shadow-md">
-              ${rateRange[0]} - ${rateRange[1]}
+              ${rateRange[0]} - ${rateRange[1]}{rateRange[1] === MAX_RATE ? "+" : ""}
             </span>
           </div>
         </div>
       </div>
 
+      {/* Facets */}
+      <div className="relative mb-8">
+        <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-slate-700 rounded-xl blur opacity-20"></div>
+        <div className="relative bg-white p-8 rounded-xl shadow-lg ring-1 ring-slate-200/50">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            <SearchFacet
+              title="Hourly rate"
+              buckets={result?.facets.rateRange}
+              selected={selectedRateRange ? [selectedRateRange.value] : []}
+              onToggle={(value) => {
+                const range = RATE_RANGES.find(range => range.value === value);
+                setRateRange(!range || range === selectedRateRange ? [0, MAX_RATE] : [range.min, range.max ?? MAX_RATE]);
+              }}
+            />
+            <SearchFacet
+              title="Location"
+              buckets={result?.facets.location}
+              selected={location ? [location] : []}
+              onToggle={(value) => setLocation(value === location ? "" : value)}
+            />
+            <SearchFacet
+              title="Industry"
+              buckets={result?.facets.industry}
+              selected={industryIds.map(String)}
+              onToggle={(value) => {
+                const id = parseInt(value);
+                setIndustryIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]);
+              }}
+            />
+            <SearchFacet
+              title="Expertise"
+              buckets={result?.facets.expertise}
+              selected={selectedExpertise === "all" ? [] : [selectedExpertise]}
+              onToggle={(value) => setSelectedExpertise(value === selectedExpertise ? "all" : value)}
+              labelFor={(value) => expertise?.find(item => item.id.toString() === value)?.name}
+            />
+          </div>
+        </div>
+      </div>
+
       {/* Results count and filters */}
       <div className="relative mb-8">
         <div className="absolute -inset-1 bg-gradient-to-r from-blue-700 to-slate-800 rounded-lg blur opacity-10"></div>
@@ -234,17 +276,12 @@ export default function Professionals() {
           <div className="flex items-center gap-2">
             <div className="bg-blue-600/90 h-10 w-1 rounded-full"></div>
             <p className="text-slate-700 font-medium">
-              <span className="font-bold text-xl text-blue-700">{sortedProfessionals.length}</span> professionals found
+              <span className="font-bold text-xl text-blue-700">{total}</span> professionals found
             </p>
           </div>
           <Button
             variant="outline"
-            onClick={() => {
-              setSearchTerm("");
-              setSelectedExpertise("all");
-              setExperienceLevel("");
-              setRateRange([0, 500]);
-            }}
+            onClick={clearFilters}
             className="border-slate-300 bg-white hover:bg-slate-100 text-slate-700 font-medium shadow-sm"
           >
             Clear All Filters
@@ -312,10 +349,10 @@ export default function Professionals() {
               </CardContent>
             </Card>
           </div>
-        ) : sortedProfessionals.length > 0 ? (
+        ) : professionals.length > 0 ? (
           // Professional cards
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {sortedProfessionals.map((professional) => (
+            {professionals.map((professional) => (
               <ProfessionalCard key={professional.id} professional={professional} />
             ))}
           </div>
@@ -335,12 +372,7 @@ export default function Professionals() {
                   No professionals match your current filter criteria. Try adjusting your filters or broadening your search.
                 </p>
                 <Button 
-                  onClick={() => {
-                    setSearchTerm("");
-                    setSelectedExpertise("all");
-                    setExperienceLevel("");
-                    setRateRange([0, 500]);
-                  }}
+                  onClick={clearFilters}
                   className="bg-gradient-to-r from-slate-700 to-blue-600 hover:from-slate-800 hover:to-blue-700 text-white shadow-md hover:shadow-lg transition-all duration-200"
                 >
                   Reset All Filters
@@ -351,8 +383,8 @@ export default function Professionals() {
         )}
       </div>
       
-      {/* Pagination (simplified for now) */}
-      {sortedProfessionals.length > 0 && (
+      {/* Pagination */}
+      {pageCount > 1 && (
         <div className="relative mt-10">
           <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-slate-700 rounded-xl blur opacity-20"></div>
           <div className="relative bg-white p-6 rounded-xl shadow-md ring-1 ring-slate-200/50 flex justify-center">
@@ -360,36 +392,23 @@ export default function Professionals() {
               <Button 
                 variant="outline" 
                 className="border-slate-200 bg-white hover:bg-slate-50 text-slate-700 shadow-sm"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
               >
-                Previous
-              </Button>
-              
-              <Button 
-                variant="default" 
-                className="bg-gradient-to-r from-blue-700 to-slate-800 text-white shadow-md border-none hover:opacity-90"
-              >
-                1
-              </Button>
-              
-              <Button 
-                variant="outline" 
-                className="border-slate-200 bg-white hover:bg-slate-50 text-slate-700 shadow-sm"
-              >
-                2
+                <ChevronLeft className="h-4 w-4" /> Previous
               </Button>
-              
-              <Button 
-                variant="outline" 
-                className="border-slate-200 bg-white hover:bg-slate-50 text-slate-700 shadow-sm"
-              >
-                3
-              </Button>
-              
+
+              <span className="px-4 text-slate-600 font-medium">
+                Page {page} of {pageCount}
+              </span>
+
               <Button 
                 variant="outline" 
                 className="border-slate-200 bg-white hover:bg-slate-50 text-slate-700 shadow-sm"
+                disabled={page >= pageCount}
+                onClick={() => setPage(page + 1)}
               >
-                Next
+                Next <ChevronRight className="h-4 w-4" />
               </Button>
             </div>
           </div>
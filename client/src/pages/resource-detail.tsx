@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ImageWithFallback } from '@/components/ui/image-with-fallback';
+import { ReportButton } from '@/components/report-button';
 import { 
   ArrowLeft, 
   Download, 
@@ -187,6 +188,9 @@ export default function ResourceDetail() {
                     </a>
                   </Button>
                 )}
+                <div className="ml-auto">
+                  <ReportButton targetType="resource" targetId={resource.id} ownerId={resource.authorId} showLabel />
+                </div>
               </div>
             </CardContent>
           </Card>
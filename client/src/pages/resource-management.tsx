@@ -1,7 +1,7 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Resource } from '@shared/schema';
 import { ResourceManager } from '@/components/resources/resource-manager';
-import { apiRequest, secureFileUpload, queryClient } from '@/lib/queryClient';
+import { apiRequest, secureFileUpload, queryClient, useInfiniteList } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
@@ -23,14 +23,15 @@ export default function ResourceManagementPage() {
     enabled: !!user,
   });
 
-  // Fetch all resources for admins
+  // Fetch all resources for admins, a page at a time
   const {
-    data: allResources,
+    items: allResources,
+    total: totalResources,
     isLoading: isLoadingAll,
-  } = useQuery<Resource[]>({
-    queryKey: ['/api/resources'],
-    enabled: !!user?.isAdmin,
-  });
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useInfiniteList<Resource>('/api/resources', { limit: 50 }, { enabled: !!user?.isAdmin });
 
   // Handle file upload
   const uploadMutation = useMutation({
@@ -191,11 +192,21 @@ export default function ResourceManagementPage() {
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : (
-              <ResourceManager
-                resources={allResources || []}
-                onFileUpload={handleFileUpload}
-                onResourceRemoved={handleResourceRemoved}
-              />
+              <>
+                <ResourceManager
+                  resources={allResources}
+                  onFileUpload={handleFileUpload}
+                  onResourceRemoved={handleResourceRemoved}
+                />
+                {hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Load more ({allResources.length} of {totalResources})
+                    </Button>
+                  </div>
+                )}
+              </>
             )}
           </TabsContent>
         </Tabs>
@@ -1,5 +1,5 @@
-import { useState, useEffect, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Link, useLocation } from "wouter";
 import { 
   Card, 
@@ -36,26 +36,11 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
-import type { Resource, User as UserType, ResourceCategory } from "@shared/schema";
+import { useDebounce } from "@/hooks/use-debounce";
+import type { User as UserType, ResourceCategory } from "@shared/schema";
+import { toSearchParams, type ResourceSearchResult } from "@shared/search";
 import { ImageWithFallback } from "@/components/ui/image-with-fallback";
 
-// Custom hook for debounced search
-function useDebounce<T>(value: T, delay: number): T {
-  const [debouncedValue, setDebouncedValue] = useState<T>(value);
-
-  useEffect(() => {
-    const handler = setTimeout(() => {
-      setDebouncedValue(value);
-    }, delay);
-
-    return () => {
-      clearTimeout(handler);
-    };
-  }, [value, delay]);
-
-  return debouncedValue;
-}
-
 export default function Resources() {
   const [location] = useLocation();
   const { user } = useAuth();
@@ -92,70 +77,37 @@ export default function Resources() {
     queryKey: ["/api/resource-categories"],
   });
   
-  // Fetch ALL resources first, then filter client-side
+  const filterParams = toSearchParams({
+    q: debouncedSearchTerm.trim(),
+    resourceType: resourceType === "all" ? undefined : resourceType,
+    category: selectedCategory ? [selectedCategory] : undefined,
+  }).toString();
+
+  // Type and category are filtered and paged on the server; facets give the counts per tab and category
   const { 
-    data: allResources, 
+    data: result, 
     isLoading: isLoadingResources,
     error: resourcesError
-  } = useQuery<Resource[]>({
-    queryKey: ["/api/resources/search", { 
-      query: debouncedSearchTerm, 
-      categoryId: selectedCategory 
-    }],
-    queryFn: async ({ queryKey }) => {
-      const [path, params] = queryKey;
-      const { query, categoryId } = params as { 
-        query: string, 
-        categoryId: number | null 
-      };
-      
-      const searchParams = new URLSearchParams();
-      if (query && query.trim()) searchParams.append('query', query.trim());
-      if (categoryId) searchParams.append('categoryId', categoryId.toString());
-      // Don't send type to API, we'll filter client-side
-      
-      const url = `/api/resources/search${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-      console.log('Fetching all resources with URL:', url);
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch resources: ${response.status}`);
-      }
-      
-      return response.json();
-    },
+  } = useQuery<ResourceSearchResult>({
+    queryKey: [`/api/search/resources?${filterParams}&page=${currentPage}&pageSize=${itemsPerPage}`],
+    placeholderData: keepPreviousData,
     retry: (failureCount, error: any) => {
       if (error?.message?.includes('401')) return false;
       return failureCount < 2;
     },
   });
+  const resources = result?.items ?? [];
+  const authorIds = Array.from(new Set(resources.map(resource => resource.authorId)));
 
-  // Client-side filtering by resource type
-  const resources = useMemo(() => {
-    if (!allResources) return [];
-    
-    if (resourceType === "all") {
-      return allResources;
-    }
-    
-    // Case-insensitive filtering
-    return allResources.filter(resource => 
-      resource.resourceType.toLowerCase() === resourceType.toLowerCase()
-    );
-  }, [allResources, resourceType]);
+  const facetCount = (facet: keyof ResourceSearchResult["facets"], value: string) =>
+    result?.facets[facet].find(bucket => bucket.value === value)?.count ?? 0;
+  const typeTotal = result?.facets.resourceType.reduce((sum, bucket) => sum + bucket.count, 0) ?? 0;
   
   // Fetch user details for resources
   const { data: users } = useQuery<UserType[]>({
-    queryKey: ["/api/users/batch"],
-    enabled: !!resources && resources.length > 0,
+    queryKey: ["/api/users/batch", authorIds],
+    enabled: authorIds.length > 0,
     queryFn: async () => {
-      // Extract unique author IDs from resources
-      const authorIds = resources
-        ? Array.from(new Set(resources.map(resource => resource.authorId)))
-        : [];
-      
-      if (authorIds.length === 0) return [];
       
       // Fetch user details for all authors
       const response = await fetch(`/api/users/batch?userIds=${JSON.stringify(authorIds)}`, {
@@ -171,17 +123,11 @@ export default function Resources() {
     }
   });
   
-  // Sort resources by created date (newest first)
-  const sortedResources = resources 
-    ? [...resources].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    : [];
-
   // Calculate pagination
-  const totalItems = sortedResources.length;
+  const totalItems = result?.total ?? 0;
   const totalPages = Math.ceil(totalItems / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const currentResources = sortedResources.slice(startIndex, endIndex);
 
   // Reset page when filters change
   useEffect(() => {
@@ -238,8 +184,6 @@ export default function Resources() {
   
   // Handle tab change
   const handleTabChange = (value: string) => {
-    console.log('Tab changed to:', value);
-    console.log('Available resource types in data:', allResources ? [...new Set(allResources.map(r => r.resourceType))] : []);
     setResourceType(value);
     setCurrentPage(1); // Reset to first page when changing tabs
   };
@@ -264,30 +208,30 @@ export default function Resources() {
       {/* Resource type tabs */}
       <Tabs value={resourceType} onValueChange={handleTabChange} className="mb-6">
         <TabsList className="w-full grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 h-auto gap-1 p-1">
-          <TabsTrigger value="all" className="text-xs sm:text-sm px-2 py-2">All</TabsTrigger>
+          <TabsTrigger value="all" className="text-xs sm:text-sm px-2 py-2">All ({typeTotal})</TabsTrigger>
           <TabsTrigger value="article" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:flex items-center">
-              <BookOpen className="mr-1 h-3 w-3" /> Articles
+              <BookOpen className="mr-1 h-3 w-3" /> Articles ({facetCount("resourceType", "article")})
             </span>
-            <span className="sm:hidden">Articles</span>
+            <span className="sm:hidden">Articles ({facetCount("resourceType", "article")})</span>
           </TabsTrigger>
           <TabsTrigger value="template" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:flex items-center">
-              <FileText className="mr-1 h-3 w-3" /> Templates
+              <FileText className="mr-1 h-3 w-3" /> Templates ({facetCount("resourceType", "template")})
             </span>
-            <span className="sm:hidden">Templates</span>
+            <span className="sm:hidden">Templates ({facetCount("resourceType", "template")})</span>
           </TabsTrigger>
           <TabsTrigger value="video" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:flex items-center">
-              <Video className="mr-1 h-3 w-3" /> Videos
+              <Video className="mr-1 h-3 w-3" /> Videos ({facetCount("resourceType", "video")})
             </span>
-            <span className="sm:hidden">Videos</span>
+            <span className="sm:hidden">Videos ({facetCount("resourceType", "video")})</span>
           </TabsTrigger>
           <TabsTrigger value="webinar" className="text-xs sm:text-sm px-2 py-2">
             <span className="hidden sm:flex items-center">
-              <HeadphonesIcon className="mr-1 h-3 w-3" /> Webinars
+              <HeadphonesIcon className="mr-1 h-3 w-3" /> Webinars ({facetCount("resourceType", "webinar")})
             </span>
-            <span className="sm:hidden">Webinars</span>
+            <span className="sm:hidden">Webinars ({facetCount("resourceType", "webinar")})</span>
           </TabsTrigger>
         </TabsList>
       </Tabs>
@@ -323,7 +267,7 @@ export default function Resources() {
                   <SelectItem value="0">All Categories</SelectItem>
                   {categories?.map((category) => (
                     <SelectItem key={category.id} value={category.id.toString()}>
-                      {category.name}
+                      {category.name} ({facetCount("category", category.id.toString())})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -393,7 +337,7 @@ export default function Resources() {
       {/* Results count */}
       <div className="flex justify-between items-center mb-6">
         <p className="text-gray-500">
-          {sortedResources.length} resources found
+          {totalItems} resources found
           {resourceType !== "all" && ` (filtered by ${resourceType})`}
         </p>
       </div>
@@ -429,10 +373,10 @@ export default function Resources() {
               <Button onClick={() => window.location.reload()}>Retry</Button>
             </CardContent>
           </Card>
-        ) : currentResources.length > 0 ? (
+        ) : resources.length > 0 ? (
           // Resource cards
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {currentResources.map((resource) => (
+            {resources.map((resource) => (
               <Card key={resource.id} className="overflow-hidden hover:shadow-lg transition-shadow">
                 <div className="w-full h-48 overflow-hidden">
                   <ImageWithFallback
@@ -4,8 +4,10 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Bell, Shield, Eye, Save, Trash2 } from "lucide-react";
+import { Bell, Shield, Eye, Save, Trash2, CalendarDays, Copy, RefreshCw, Mail } from "lucide-react";
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
@@ -19,6 +21,29 @@ interface Settings {
   emailUpdates: boolean;
 }
 
+type EmailFrequency = "immediate" | "daily" | "weekly" | "off";
+
+interface NotificationSetting {
+  type: string;
+  label: string;
+  description: string;
+  emailFrequency: EmailFrequency;
+  inApp: boolean;
+}
+
+const EMAIL_FREQUENCY_LABELS: Record<EmailFrequency, string> = {
+  immediate: "Immediately",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+  off: "Off",
+};
+
+interface CalendarFeed {
+  url: string | null;
+  createdAt?: string;
+  expiresAt?: string;
+}
+
 export default function SettingsPage() {
   const { user, logout } = useAuth();
   const { toast } = useToast();
@@ -103,6 +128,81 @@ export default function SettingsPage() {
     },
   });
 
+  // Per-type email and in-app preferences, saved as soon as they change
+  const { data: notificationSettings } = useQuery<NotificationSetting[]>({
+    queryKey: ['/api/notification-settings'],
+    enabled: !!user,
+  });
+
+  const updateNotificationSettingMutation = useMutation({
+    mutationFn: async ({ type, ...update }: { type: string; emailFrequency?: EmailFrequency; inApp?: boolean }) => {
+      return apiRequest('PUT', `/api/notification-settings/${type}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notification-settings'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update notification preference.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Private iCal subscription URL for consultations
+  const { data: calendarFeed } = useQuery<CalendarFeed>({
+    queryKey: ['/api/calendar/feed'],
+    enabled: !!user,
+  });
+
+  const createFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/feed');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/feed'] });
+      toast({
+        title: "Calendar Feed Ready",
+        description: "Add the URL to your calendar app to see your consultations.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to create calendar feed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeFeedMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', '/api/calendar/feed');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/feed'] });
+      toast({
+        title: "Calendar Feed Revoked",
+        description: "The old feed URL no longer works.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to revoke calendar feed.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!calendarFeed?.url) return;
+    await navigator.clipboard.writeText(calendarFeed.url);
+    toast({ title: "Copied", description: "Calendar feed URL copied to clipboard." });
+  };
+
   // If no user
   if (!user) {
     return <div>Please log in to access settings.</div>;
@@ -172,6 +272,64 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Email notifications */}
+        {notificationSettings && notificationSettings.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5" />
+                Email Notifications
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-slate-600">
+                Choose how often we email you about each kind of notification. Digests collect
+                everything you haven't read yet and are sent at 08:00 UTC, weekly ones on Mondays.
+              </p>
+              {notificationSettings.map((setting, index) => (
+                <div key={setting.type} className="space-y-3">
+                  {index > 0 && <Separator />}
+                  <div>
+                    <Label className="text-base">{setting.label}</Label>
+                    <p className="text-sm text-slate-500">{setting.description}</p>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Select
+                      value={setting.emailFrequency}
+                      onValueChange={(value) => updateNotificationSettingMutation.mutate({
+                        type: setting.type,
+                        emailFrequency: value as EmailFrequency,
+                      })}
+                    >
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EMAIL_FREQUENCY_LABELS) as EmailFrequency[]).map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {EMAIL_FREQUENCY_LABELS[frequency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`in-app-${setting.type}`} className="text-sm">In-app</Label>
+                      <Switch
+                        id={`in-app-${setting.type}`}
+                        checked={setting.inApp}
+                        onCheckedChange={(checked) => updateNotificationSettingMutation.mutate({
+                          type: setting.type,
+                          inApp: checked,
+                        })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Privacy */}
         <Card>
           <CardHeader>
@@ -198,6 +356,59 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Calendar */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Calendar
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Subscribe to your consultations from Google Calendar, Outlook or Apple Calendar.
+              Keep this URL private: anyone with it can see your consultation schedule.
+            </p>
+            {calendarFeed?.url ? (
+              <>
+                <div className="flex gap-2">
+                  <Input value={calendarFeed.url} readOnly onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" onClick={copyFeedUrl}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => createFeedMutation.mutate()}
+                    disabled={createFeedMutation.isPending}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Reset URL
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="text-red-600"
+                    onClick={() => revokeFeedMutation.mutate()}
+                    disabled={revokeFeedMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => createFeedMutation.mutate()}
+                disabled={createFeedMutation.isPending}
+              >
+                <CalendarDays className="mr-2 h-4 w-4" />
+                {createFeedMutation.isPending ? 'Creating...' : 'Create Calendar Feed'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Account */}
         <Card>
           <CardHeader>
@@ -0,0 +1,135 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building, Loader2, Users } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface TeamInvitation {
+  companyName: string;
+  email: string;
+  role: "admin" | "recruiter" | "viewer";
+  status: "pending" | "accepted" | "expired";
+  expiresAt: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<TeamInvitation["role"], string> = {
+  admin: "Manage job postings, applications, messages and the team",
+  recruiter: "Post jobs, review applications and message candidates",
+  viewer: "View job postings, applications, messages and consultations"
+};
+
+export default function TeamInvitationPage() {
+  const params = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<TeamInvitation>({
+    queryKey: [`/api/team-invitations/${params.token}`],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/team-invitations/${params.token}/accept`);
+      return response.json();
+    },
+    onSuccess: (data: { companyName: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/companies/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/company-team"] });
+      toast({
+        title: "Invitation accepted",
+        description: `You are now a member of ${data.companyName}.`,
+      });
+      setLocation("/company-dashboard");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not accept invitation",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emailMatches = !!invitation && user?.email?.toLowerCase() === invitation.email;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-lg">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-primary/10 p-4">
+              <Users className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle>Team Invitation</CardTitle>
+          <CardDescription>Join a company team on L&D Nexus</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-6 w-48 mx-auto" />
+              <Skeleton className="h-4 w-full" />
+            </div>
+          ) : error || !invitation ? (
+            <p className="text-center text-muted-foreground">
+              This invitation could not be found. It may have been revoked.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center justify-center gap-2">
+                <Building className="h-5 w-5 text-muted-foreground" />
+                <span className="text-lg font-semibold">{invitation.companyName}</span>
+              </div>
+              <div className="text-center space-y-1">
+                <Badge variant="secondary" className="capitalize">{invitation.role}</Badge>
+                <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[invitation.role]}</p>
+              </div>
+              {invitation.status === "pending" && (
+                <p className="text-sm text-center text-muted-foreground">
+                  Sent to {invitation.email} · expires {format(new Date(invitation.expiresAt), "MMM d, yyyy")}
+                </p>
+              )}
+              {invitation.status === "accepted" && (
+                <p className="text-sm text-center text-muted-foreground">This invitation has already been accepted.</p>
+              )}
+              {invitation.status === "expired" && (
+                <p className="text-sm text-center text-muted-foreground">
+                  This invitation has expired. Ask the company to send a new one.
+                </p>
+              )}
+              {invitation.status === "pending" && !emailMatches && (
+                <p className="text-sm text-center text-destructive">
+                  You are signed in as {user?.email}. Sign in with {invitation.email} to accept.
+                </p>
+              )}
+              {invitation.status === "pending" && emailMatches && user?.userType !== "company" && (
+                <p className="text-sm text-center text-destructive">
+                  Only company accounts can join a company team.
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+        {invitation?.status === "pending" && (
+          <CardFooter className="justify-center">
+            <Button
+              onClick={() => acceptMutation.mutate()}
+              disabled={!emailMatches || user?.userType !== "company" || acceptMutation.isPending}
+            >
+              {acceptMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept Invitation
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
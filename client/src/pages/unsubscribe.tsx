@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, MailX } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+// Landing page for the unsubscribe link in notification emails. The link itself only redirects
+// here, so that mail scanners prefetching it do not unsubscribe anyone; this page makes the POST.
+export default function UnsubscribePage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notification-preferences/unsubscribe", { token });
+      return response.json() as Promise<{ types: string[] }>;
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      unsubscribeMutation.mutate();
+    }
+    // Runs once per token
+  }, [token]);
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-lg">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-primary/10 p-4">
+              <MailX className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle>Unsubscribe</CardTitle>
+          <CardDescription>Email notifications from L&D Nexus</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center space-y-3">
+          {!token ? (
+            <p className="text-slate-600">This unsubscribe link is incomplete.</p>
+          ) : unsubscribeMutation.isError ? (
+            <p className="text-red-600">
+              {(unsubscribeMutation.error as Error)?.message || "We could not process this unsubscribe link."}
+            </p>
+          ) : unsubscribeMutation.isSuccess ? (
+            unsubscribeMutation.data.types.length > 0 ? (
+              <>
+                <p className="text-slate-600">You will no longer receive emails for:</p>
+                <ul className="font-medium text-slate-900">
+                  {unsubscribeMutation.data.types.map((type) => (
+                    <li key={type}>{type}</li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-slate-600">You were already unsubscribed from these emails.</p>
+            )
+          ) : (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="justify-center">
+          <Button variant="outline" asChild>
+            <Link href="/settings">Manage notification settings</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
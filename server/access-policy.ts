@@ -0,0 +1,77 @@
+import { Request, Response, NextFunction } from 'express';
+import type { User } from '@shared/schema';
+import { storage } from './storage';
+import { hasPermission, type Permission } from '@shared/permissions';
+
+// Who may do what. Staff permissions come from roles (see shared/permissions.ts); the rest of
+// the policy is account types and ownership. Routes use the middleware here rather than checking
+// isAdmin or userType themselves.
+
+export type AccountType = 'professional' | 'company';
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  professional: 'professionals',
+  company: 'companies',
+};
+
+export function can(user: User | null | undefined, permission: Permission): boolean {
+  return hasPermission(user, permission);
+}
+
+// The owner of a record, or staff with the permission
+export function canActOn(user: User, ownerId: number | null | undefined, permission: Permission): boolean {
+  return (ownerId != null && ownerId === user.id) || can(user, permission);
+}
+
+// Content hidden by moderation is shown only to its owner and to moderators
+export function canView(user: User | null | undefined, record: { hidden: boolean }, ownerId: number | null | undefined): boolean {
+  return !record.hidden || (!!user && canActOn(user, ownerId, 'content.moderate'));
+}
+
+export function isAccountType(user: User | null | undefined, accountType: AccountType): boolean {
+  return user?.userType === accountType;
+}
+
+// Whether the user is the professional or the company on a consultation or review
+export async function isParticipant(
+  user: User,
+  record: { professionalId: number | null; companyId: number | null }
+): Promise<boolean> {
+  if (isAccountType(user, 'professional')) {
+    const profile = await storage.getProfessionalProfileByUserId(user.id);
+    return !!profile && profile.id === record.professionalId;
+  }
+  if (isAccountType(user, 'company')) {
+    const profile = await storage.getCompanyProfileByUserId(user.id);
+    return !!profile && profile.id === record.companyId;
+  }
+  return false;
+}
+
+// Run after authentication; anyone without the permission gets a 403
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as User | undefined;
+    if (!user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    if (!can(user, permission)) {
+      return res.status(403).json({ message: 'You do not have permission to do this', permission });
+    }
+    next();
+  };
+}
+
+// Routes only professionals or only companies can use
+export function requireAccountType(accountType: AccountType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as User | undefined;
+    if (!user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    if (!isAccountType(user, accountType)) {
+      return res.status(403).json({ message: `Only ${ACCOUNT_TYPE_LABELS[accountType]} can access this` });
+    }
+    next();
+  };
+}
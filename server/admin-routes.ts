@@ -1,2 +1,104 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { adminBulkActionSchema } from '@shared/admin';
+import { bulkActionPermission, userRolesSchema } from '@shared/permissions';
+import { adminService, AdminError } from './admin-service';
+import { auditLogService, AuditLogError } from './audit-log-service';
+import { can, requirePermission } from './access-policy';
+import { auditLogExportQuerySchema, auditLogPageQuerySchema } from '@shared/audit-log';
 
-// This file has been removed as part of admin section cleanup
+const userStatusSchema = z.object({
+  status: z.enum(['active', 'suspended'])
+});
+
+// Admin errors are shown to the admin, anything else is a 500
+const handleAdminError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof AdminError || error instanceof AuditLogError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+const parseId = (req: any) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    throw new AdminError('Invalid ID');
+  }
+  return id;
+};
+
+export function registerAdminRoutes(app: Express) {
+  // Counts and revenue for the admin console overview
+  app.get('/api/admin/metrics', requirePermission('admin.access'), async (req, res) => {
+    try {
+      res.json(await adminService.getMetrics());
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to load metrics');
+    }
+  });
+
+  // Verify, feature, suspend or delete many records at once; see ADMIN_BULK_ACTIONS
+  app.post('/api/admin/bulk-actions', requirePermission('admin.access'), async (req: any, res) => {
+    try {
+      const input = adminBulkActionSchema.parse(req.body);
+      const permission = bulkActionPermission(input.entity, input.action);
+      if (!can(req.user, permission)) {
+        return res.status(403).json({ message: 'You do not have permission to do this', permission });
+      }
+      res.json(await adminService.bulkAction(input, req.user.id));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to apply bulk action');
+    }
+  });
+
+  app.patch('/api/admin/users/:id/status', requirePermission('users.manage'), async (req: any, res) => {
+    try {
+      const { status } = userStatusSchema.parse(req.body);
+      await adminService.setUserStatus(parseId(req), status, req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to update user status');
+    }
+  });
+
+  // Replaces the user's staff roles; see shared/permissions.ts
+  app.put('/api/admin/users/:id/roles', requirePermission('roles.assign'), async (req: any, res) => {
+    try {
+      const { roles } = userRolesSchema.parse(req.body);
+      res.json(await adminService.setUserRoles(parseId(req), roles, req.user.id));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to update user roles');
+    }
+  });
+
+  // The audit log, newest first, filtered by actor, action, target and date
+  app.get('/api/admin/audit-logs', requirePermission('audit.view'), async (req, res) => {
+    try {
+      res.json(await auditLogService.list(auditLogPageQuerySchema.parse(req.query)));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to load audit log');
+    }
+  });
+
+  // The same filters, downloaded as CSV or JSON
+  app.get('/api/admin/audit-logs/export', requirePermission('audit.view'), async (req, res) => {
+    try {
+      const { format, ...filter } = auditLogExportQuerySchema.parse(req.query);
+      const entries = await auditLogService.export(filter);
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'csv') {
+        res.type('text/csv').send(auditLogService.toCsv(entries));
+      } else {
+        res.json(entries);
+      }
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to export audit log');
+    }
+  });
+}
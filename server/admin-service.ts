@@ -0,0 +1,330 @@
+import { count, eq, gte, inArray, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { jobMatchService } from './job-match-service';
+import { realtimeService } from './realtime';
+import {
+  companyProfiles, forumPosts, jobApplications, jobPostings, professionalProfiles, resources, subscriptionPlans,
+  userSubscriptions, users
+} from '@shared/schema';
+import type { User } from '@shared/schema';
+import type { AdminBulkActionInput, AdminBulkActionResult, AdminMetrics } from '@shared/admin';
+import { getRoles, hasPermission, type Role } from '@shared/permissions';
+
+// Thrown when an admin action is not allowed; the message is safe to show to admins
+export class AdminError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AdminError';
+  }
+}
+
+const SIGNUP_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+// count(*) of the rows matching a condition, as a select field
+const countWhere = (condition: SQL) => sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+
+const notFound = (record: string) => new AdminError(`${record} not found`, 404);
+
+export class AdminService {
+  async getMetrics(now: Date = new Date()): Promise<AdminMetrics> {
+    const database = getDb();
+    const signupsSince = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (SIGNUP_DAYS - 1) * DAY_MS);
+
+    const [
+      [userCounts], [professionalCounts], [companyCounts], [jobCounts], [{ applications }], [resourceCounts],
+      [{ posts }], [subscriptionCounts], revenueRows, signupRows
+    ] = await Promise.all([
+      database.select({
+        total: count(),
+        professionals: countWhere(sql`${users.userType} = 'professional'`),
+        companies: countWhere(sql`${users.userType} = 'company'`),
+        admins: countWhere(sql`${users.isAdmin}`),
+        suspended: countWhere(sql`${users.status} = 'suspended'`),
+        newLast30Days: countWhere(sql`${users.createdAt} >= ${new Date(now.getTime() - 30 * DAY_MS)}`),
+      }).from(users),
+      database.select({
+        total: count(),
+        verified: countWhere(sql`${professionalProfiles.verified}`),
+        featured: countWhere(sql`${professionalProfiles.featured}`),
+      }).from(professionalProfiles),
+      database.select({
+        total: count(),
+        verified: countWhere(sql`${companyProfiles.verified}`),
+        featured: countWhere(sql`${companyProfiles.featured}`),
+      }).from(companyProfiles),
+      database.select({
+        total: count(),
+        open: countWhere(sql`${jobPostings.status} = 'open' and not coalesce(${jobPostings.archived}, false)`),
+        featured: countWhere(sql`${jobPostings.featured}`),
+      }).from(jobPostings),
+      database.select({ applications: count() }).from(jobApplications),
+      database.select({
+        total: count(),
+        featured: countWhere(sql`${resources.featured}`),
+      }).from(resources),
+      database.select({ posts: count() }).from(forumPosts),
+      database.select({
+        active: countWhere(sql`${userSubscriptions.status} = 'active'`),
+        trialing: countWhere(sql`${userSubscriptions.status} = 'trialing'`),
+        pastDue: countWhere(sql`${userSubscriptions.status} = 'past_due'`),
+      }).from(userSubscriptions),
+      database.select({
+        currency: userSubscriptions.currency,
+        billingCycle: userSubscriptions.billingCycle,
+        plan: subscriptionPlans,
+      })
+        .from(userSubscriptions)
+        .innerJoin(subscriptionPlans, eq(userSubscriptions.planId, subscriptionPlans.id))
+        .where(inArray(userSubscriptions.status, ['active', 'past_due'])),
+      database.select({
+        date: sql<string>`to_char(date_trunc('day', ${users.createdAt} at time zone 'UTC'), 'YYYY-MM-DD')`,
+        count: count(),
+      })
+        .from(users)
+        .where(gte(users.createdAt, signupsSince))
+        .groupBy(sql`1`),
+    ]);
+
+    // Yearly subscriptions count as a twelfth of their price
+    const monthlyRecurringRevenue = { USD: 0, AED: 0 };
+    revenueRows.forEach(({ currency, billingCycle, plan }) => {
+      const price = currency === 'AED'
+        ? (billingCycle === 'yearly' ? plan.priceYearlyAED / 12 : plan.priceMonthlyAED)
+        : (billingCycle === 'yearly' ? plan.priceYearlyUSD / 12 : plan.priceMonthlyUSD);
+      monthlyRecurringRevenue[currency] += price;
+    });
+
+    const signupsByDate = new Map(signupRows.map(row => [row.date, row.count] as const));
+    const signups = Array.from({ length: SIGNUP_DAYS }, (_, day) => {
+      const date = new Date(signupsSince.getTime() + day * DAY_MS).toISOString().slice(0, 10);
+      return { date, count: signupsByDate.get(date) ?? 0 };
+    });
+
+    return {
+      users: userCounts,
+      professionalProfiles: professionalCounts,
+      companyProfiles: companyCounts,
+      jobPostings: jobCounts,
+      jobApplications: applications,
+      resources: resourceCounts,
+      forumPosts: posts,
+      subscriptions: {
+        ...subscriptionCounts,
+        monthlyRecurringRevenue: {
+          USD: Math.round(monthlyRecurringRevenue.USD),
+          AED: Math.round(monthlyRecurringRevenue.AED),
+        },
+      },
+      signups,
+    };
+  }
+
+  // Applies the action to each record in turn. A record that fails is reported and skipped.
+  async bulkAction(input: AdminBulkActionInput, adminId: number): Promise<AdminBulkActionResult> {
+    const result: AdminBulkActionResult = { succeeded: [], failed: [] };
+
+    for (const id of Array.from(new Set(input.ids))) {
+      try {
+        await this.applyAction(input.entity, input.action, id, adminId);
+        result.succeeded.push(id);
+      } catch (error) {
+        if (!(error instanceof AdminError)) {
+          console.error(`Admin bulk ${input.action} failed for ${input.entity} ${id}:`, error);
+        }
+        result.failed.push({
+          id,
+          message: error instanceof AdminError ? error.message : `Failed to ${input.action}`,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Suspended users cannot sign in, and their sessions end on their next request
+  async setUserStatus(userId: number, status: 'active' | 'suspended', adminId: number): Promise<void> {
+    if (userId === adminId) {
+      throw new AdminError('You cannot change the status of your own account');
+    }
+    const user = await storage.getUser(userId);
+    if (!user) throw notFound('User');
+    await this.assertCanManageUser(user, adminId);
+
+    await storage.updateUser(userId, { status });
+    if (status === 'suspended') realtimeService.disconnectUser(userId);
+  }
+
+  // Staff access follows the roles: isAdmin is set while the user has any
+  async setUserRoles(userId: number, roles: Role[], adminId: number): Promise<{ id: number; roles: Role[]; isAdmin: boolean }> {
+    if (userId === adminId) {
+      throw new AdminError('You cannot change your own roles');
+    }
+    const uniqueRoles = Array.from(new Set(roles));
+    const user = await storage.updateUser(userId, { roles: uniqueRoles, isAdmin: uniqueRoles.length > 0 });
+    if (!user) throw notFound('User');
+    return { id: user.id, roles: user.roles, isAdmin: user.isAdmin };
+  }
+
+  // Staff accounts can only be changed by admins who can assign roles, so a support agent
+  // cannot suspend or edit a super admin
+  async assertCanManageUser(user: User, adminId: number): Promise<void> {
+    if (getRoles(user).length === 0) return;
+    const admin = await storage.getUser(adminId);
+    if (!hasPermission(admin, 'roles.assign')) {
+      throw new AdminError('Only super admins can change staff accounts', 403);
+    }
+  }
+
+  // Deletes the user with their profile, job postings and resources
+  async deleteUser(userId: number, adminId: number): Promise<void> {
+    if (userId === adminId) {
+      throw new AdminError('You cannot delete your own account');
+    }
+    const user = await storage.getUser(userId);
+    if (!user) throw notFound('User');
+    await this.assertCanManageUser(user, adminId);
+
+    if (user.userType === 'professional') {
+      const profile = await storage.getProfessionalProfileByUserId(userId);
+      if (profile) await this.deleteProfessionalProfile(profile.id);
+    }
+
+    if (user.userType === 'company') {
+      const profile = await storage.getCompanyProfileByUserId(userId);
+      if (profile) await this.deleteCompanyProfile(profile.id);
+    }
+
+    const authoredResources = await storage.getResourcesByAuthor(userId);
+    for (const resource of authoredResources) {
+      await storage.deleteResource(resource.id);
+    }
+
+    if (!(await storage.deleteUser(userId))) {
+      throw new Error(`Failed to delete user ${userId}`);
+    }
+  }
+
+  // Deletes the profile with its expertise and certifications
+  async deleteProfessionalProfile(profileId: number): Promise<void> {
+    const expertise = await storage.getProfessionalExpertise(profileId);
+    for (const item of expertise) {
+      await storage.deleteProfessionalExpertise(item.id);
+    }
+    const certifications = await storage.getProfessionalCertifications(profileId);
+    for (const certification of certifications) {
+      await storage.deleteCertification(certification.id);
+    }
+
+    if (!(await storage.deleteProfessionalProfile(profileId))) throw notFound('Professional profile');
+    jobMatchService.profileChanged(profileId);
+  }
+
+  // Deletes the profile with its job postings and their applications
+  async deleteCompanyProfile(profileId: number): Promise<void> {
+    const jobs = await storage.getCompanyJobPostings(profileId);
+    for (const job of jobs) {
+      await this.deleteJobPosting(job.id);
+    }
+
+    if (!(await storage.deleteCompanyProfile(profileId))) throw notFound('Company profile');
+  }
+
+  async deleteJobPosting(jobId: number): Promise<void> {
+    const applications = await storage.getJobApplicationsByJob(jobId);
+    for (const application of applications) {
+      await storage.deleteJobApplication(application.id);
+    }
+
+    if (!(await storage.deleteJobPosting(jobId))) throw notFound('Job posting');
+    jobMatchService.jobChanged(jobId);
+  }
+
+  private async applyAction(entity: AdminBulkActionInput['entity'], action: string, id: number, adminId: number): Promise<void> {
+    switch (`${entity}.${action}`) {
+      case 'users.suspend':
+        return this.setUserStatus(id, 'suspended', adminId);
+      case 'users.reactivate':
+        return this.setUserStatus(id, 'active', adminId);
+      case 'users.delete':
+        return this.deleteUser(id, adminId);
+
+      case 'professionalProfiles.verify':
+      case 'professionalProfiles.unverify':
+        return this.updateProfessionalProfile(id, { verified: action === 'verify' });
+      case 'professionalProfiles.feature':
+      case 'professionalProfiles.unfeature':
+        return this.updateProfessionalProfile(id, { featured: action === 'feature' });
+      case 'professionalProfiles.delete':
+        return this.deleteProfessionalProfile(id);
+
+      case 'companyProfiles.verify':
+      case 'companyProfiles.unverify':
+        return this.updateCompanyProfile(id, { verified: action === 'verify' });
+      case 'companyProfiles.feature':
+      case 'companyProfiles.unfeature':
+        return this.updateCompanyProfile(id, { featured: action === 'feature' });
+      case 'companyProfiles.delete':
+        return this.deleteCompanyProfile(id);
+
+      case 'jobPostings.feature':
+      case 'jobPostings.unfeature':
+        return this.updateJobPosting(id, { featured: action === 'feature' });
+      case 'jobPostings.close':
+        return this.updateJobPosting(id, { status: 'closed' });
+      case 'jobPostings.delete':
+        return this.deleteJobPosting(id);
+
+      case 'resources.feature':
+      case 'resources.unfeature': {
+        const resource = await storage.setResourceFeatured(id, action === 'feature');
+        if (!resource) throw notFound('Resource');
+        return;
+      }
+      case 'resources.delete':
+        if (!(await storage.deleteResource(id))) throw notFound('Resource');
+        return;
+
+      case 'forumPosts.pin':
+      case 'forumPosts.unpin':
+        return this.updateForumPost(id, { pinned: action === 'pin' });
+      case 'forumPosts.lock':
+      case 'forumPosts.unlock':
+        return this.updateForumPost(id, { locked: action === 'lock' });
+      case 'forumPosts.delete':
+        if (!(await storage.deleteForumPost(id))) throw notFound('Forum post');
+        return;
+    }
+    throw new AdminError(`Cannot ${action} ${entity}`);
+  }
+
+  private async updateProfessionalProfile(id: number, changes: { verified?: boolean; featured?: boolean }): Promise<void> {
+    if (!(await storage.updateProfessionalProfile(id, changes))) throw notFound('Professional profile');
+  }
+
+  private async updateCompanyProfile(id: number, changes: { verified?: boolean; featured?: boolean }): Promise<void> {
+    if (!(await storage.updateCompanyProfile(id, changes))) throw notFound('Company profile');
+  }
+
+  private async updateJobPosting(id: number, changes: { featured?: boolean; status?: string }): Promise<void> {
+    const job = await storage.updateJobPosting(id, changes);
+    if (!job) throw notFound('Job posting');
+    jobMatchService.jobChanged(job);
+  }
+
+  private async updateForumPost(id: number, changes: { pinned?: boolean; locked?: boolean }): Promise<void> {
+    const [post] = await getDb().update(forumPosts).set(changes).where(eq(forumPosts.id, id)).returning({ id: forumPosts.id });
+    if (!post) throw notFound('Forum post');
+  }
+}
+
+export const adminService = new AdminService();
@@ -1,6 +1,6 @@
 import type { Request, Response } from "express";
-import { storage } from "./storage";
-import { JobPosting, ProfessionalProfile } from "@shared/schema";
+import { jobMatchService } from "./job-match-service";
+import { matchReasons } from "./match-scorer";
 
 // Controller for AI matching endpoints
 
@@ -14,15 +14,15 @@ export async function getMatchingJobsForProfessional(req: Request, res: Response
       return res.status(400).json({ message: "Invalid professional ID" });
     }
     
-    // Use the storage method to get matching jobs
-    const matchingJobs = await storage.getMatchingJobsForProfessional(professionalId, limit);
+    const matchingJobs = await jobMatchService.getMatchingJobs(professionalId, limit);
     
     // Format the response with enhanced match details
     const formattedMatches = matchingJobs.map(match => ({
       job: match.job,
       matchScore: Math.round(match.score * 100), // Format as percentage
       matchStrength: getMatchStrengthLabel(match.score),
-      matchReasons: generateMatchReasons(match.job, match.score)
+      matchReasons: matchReasons(match.breakdown),
+      breakdown: match.breakdown
     }));
     
     return res.json(formattedMatches);
@@ -42,15 +42,15 @@ export async function getMatchingProfessionalsForJob(req: Request, res: Response
       return res.status(400).json({ message: "Invalid job ID" });
     }
     
-    // Use the storage method to get matching professionals
-    const matchingProfessionals = await storage.getMatchingProfessionalsForJob(jobId, limit);
+    const matchingProfessionals = await jobMatchService.getMatchingProfessionals(jobId, limit);
     
     // Format the response with enhanced match details
     const formattedMatches = matchingProfessionals.map(match => ({
       professional: match.professional,
       matchScore: Math.round(match.score * 100), // Format as percentage
       matchStrength: getMatchStrengthLabel(match.score),
-      matchReasons: generateMatchReasons(match.professional, match.score)
+      matchReasons: matchReasons(match.breakdown),
+      breakdown: match.breakdown
     }));
     
     return res.json(formattedMatches);
@@ -68,34 +68,3 @@ function getMatchStrengthLabel(score: number): string {
   if (score >= 0.2) return "Moderate Match";
   return "Basic Match";
 }
-
-// Helper function to generate human-readable match reasons 
-// This will be enhanced later with more sophisticated AI analysis
-function generateMatchReasons(entity: JobPosting | ProfessionalProfile, score: number): string[] {
-  const reasons: string[] = [];
-  
-  // Basic reasons based on match score
-  if (score >= 0.8) {
-    reasons.push("Highly relevant skills and experience");
-    reasons.push("Strong alignment with requirements");
-  } else if (score >= 0.6) {
-    reasons.push("Good skills match");
-    reasons.push("Relevant experience");
-  } else if (score >= 0.4) {
-    reasons.push("Some matching skills");
-    reasons.push("Partial alignment with requirements");
-  } else {
-    reasons.push("Basic match on key terms");
-  }
-  
-  // If this is a job posting
-  if ('description' in entity && 'requirements' in entity) {
-    reasons.push("Based on job description and requirements");
-  } 
-  // If this is a professional profile
-  else if ('bio' in entity && 'title' in entity) {
-    reasons.push("Based on professional bio and expertise");
-  }
-  
-  return reasons;
-}
\ No newline at end of file
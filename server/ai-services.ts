@@ -1,43 +1,15 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import type { JobPosting, ProfessionalProfile } from "@shared/schema";
+import { llmService } from "./llm-service";
 
-// Initialize Gemini client with API key validation
-let gemini: GoogleGenerativeAI | null = null;
-let model: any = null;
-let apiKeyValid = false;
-
-async function initializeGemini(): Promise<boolean> {
-  if (!process.env.GEMINI_API_KEY) {
-    console.warn("Gemini API key not found - AI features disabled");
-    return false;
-  }
-
-  try {
-    gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    model = gemini.getGenerativeModel({ model: "text-embedding-004" });
-
-    // Test the API key with a minimal request
-    await model.embedContent("test");
-    apiKeyValid = true;
-    console.log("Gemini API key validated successfully");
-    return true;
-  } catch (error: any) {
-    console.error("Gemini API key validation failed:", error.message);
-    apiKeyValid = false;
-    gemini = null;
-    model = null;
-    return false;
-  }
+export function isEmbeddingAvailable(): boolean {
+  return llmService.embeddingsAvailable;
 }
 
-// Initialize on startup
-initializeGemini();
-
-// Generates text embeddings using Gemini's embedding model
+// Generates a text embedding with the configured embedding provider
 export async function generateEmbedding(text: string): Promise<number[] | null> {
   try {
-    if (!apiKeyValid || !model) {
-      console.warn("Gemini API not available - embedding generation disabled");
+    if (!isEmbeddingAvailable()) {
+      console.warn("Embedding provider not available - embedding generation disabled");
       return null;
     }
 
@@ -46,34 +18,44 @@ export async function generateEmbedding(text: string): Promise<number[] | null>
       return null;
     }
 
-    const result = await model.embedContent(text);
-    return result.embedding.values;
+    const [embedding] = await llmService.embed([text]);
+    return embedding;
   } catch (error: any) {
     console.error("Error generating embedding:", error.message);
-    if (error.message.includes("API_KEY_INVALID") || error.message.includes("401")) {
-      console.error("Gemini API key is invalid or expired");
-      apiKeyValid = false;
-      gemini = null;
-      model = null;
-    }
     return null;
   }
 }
 
+// The text a professional profile is embedded from
+export function profileEmbeddingText(profile: ProfessionalProfile): string {
+  return [
+    profile.title,
+    profile.bio,
+    profile.industryFocus,
+    // Additional fields could be added here as the profile schema evolves
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+// The text a job posting is embedded from
+export function jobEmbeddingText(job: JobPosting): string {
+  return [
+    job.title,
+    job.description,
+    job.requirements,
+    job.jobType,
+    job.location,
+    // Additional fields could be added here as the job schema evolves
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
 // Extracts relevant details from a professional profile for embedding
 export async function generateProfileEmbedding(profile: ProfessionalProfile): Promise<number[] | null> {
   try {
-    // Create a combined text description from relevant profile fields
-    const textToEmbed = [
-      profile.title,
-      profile.bio,
-      profile.industryFocus,
-      // Additional fields could be added here as the profile schema evolves
-    ]
-      .filter(Boolean)
-      .join(" | ");
-
-    return await generateEmbedding(textToEmbed);
+    return await generateEmbedding(profileEmbeddingText(profile));
   } catch (error) {
     console.error("Error generating profile embedding:", error);
     return null;
@@ -83,19 +65,7 @@ export async function generateProfileEmbedding(profile: ProfessionalProfile): Pr
 // Extracts relevant details from a job posting for embedding
 export async function generateJobEmbedding(job: JobPosting): Promise<number[] | null> {
   try {
-    // Create a combined text description from relevant job fields
-    const textToEmbed = [
-      job.title,
-      job.description,
-      job.requirements,
-      job.jobType,
-      job.location,
-      // Additional fields could be added here as the job schema evolves
-    ]
-      .filter(Boolean)
-      .join(" | ");
-
-    return await generateEmbedding(textToEmbed);
+    return await generateEmbedding(jobEmbeddingText(job));
   } catch (error) {
     console.error("Error generating job embedding:", error);
     return null;
@@ -142,7 +112,7 @@ export async function calculateProfileJobMatchScore(
 
     // If embeddings could not be generated, fall back to a simpler method
     if (!profileEmbedding || !jobEmbedding) {
-      console.log("Using fallback matching algorithm (Gemini not available)");
+      console.log("Using fallback matching algorithm (embeddings not available)");
       const fallbackScore = fallbackMatchScore(profile, job);
       console.log(`Fallback score: ${(fallbackScore * 100).toFixed(1)}%`);
       return fallbackScore;
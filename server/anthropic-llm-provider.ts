@@ -0,0 +1,40 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmError } from './llm-provider';
+import type { LlmCompletionRequest, LlmProvider } from './llm-provider';
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+// Completions only: Anthropic has no embeddings API
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  readonly model = process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    // llmService retries and times out requests the same way for every provider
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  // Structured output through a tool the model is made to call: its input is the response
+  async complete(request: LlmCompletionRequest): Promise<unknown> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+      tools: [{
+        name: request.schemaName,
+        description: 'Records the response to the request.',
+        input_schema: { ...request.jsonSchema, type: 'object' },
+      }],
+      tool_choice: { type: 'tool', name: request.schemaName },
+    }, { signal: request.signal });
+
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new LlmError(`${this.name} did not return a structured response`, 502, true);
+    }
+    return toolUse.input;
+  }
+}
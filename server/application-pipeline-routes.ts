@@ -0,0 +1,190 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import {
+  insertApplicationNoteSchema, insertApplicationScorecardSchema, insertPipelineStageSchema
+} from '@shared/schema';
+import { applicationPipelineService, PipelineError } from './application-pipeline-service';
+import { requireCompanyRole } from './company-team-routes';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+const updateStageSchema = insertPipelineStageSchema.partial();
+
+const reorderStagesSchema = z.object({
+  stageIds: z.array(z.number().int().positive()).min(1)
+});
+
+const moveApplicationSchema = z.object({
+  stageId: z.number().int().positive()
+});
+
+// Pipeline errors are shown to the user, anything else is a 500
+const handlePipelineError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof PipelineError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+// Resolve :id into req.application, limited to applications for the user's company's jobs.
+// Runs after requireCompanyRole.
+const loadApplication = async (req: any, res: any, next: any) => {
+  try {
+    const applicationId = parseInt(req.params.id);
+    if (isNaN(applicationId)) {
+      return res.status(400).json({ message: 'Invalid application ID' });
+    }
+
+    const found = await applicationPipelineService.getCompanyApplication(req.companyAccess.companyProfile.id, applicationId);
+    if (!found) {
+      return res.status(404).json({ message: 'Application not found' });
+    }
+    req.application = found.application;
+    next();
+  } catch (error) {
+    handlePipelineError(res, error, 'Failed to load application');
+  }
+};
+
+export function registerApplicationPipelineRoutes(app: Express) {
+  // Pipeline stages: everyone on the team sees them, admins configure them
+  app.get('/api/company/pipeline-stages', isAuthenticated, requireCompanyRole('viewer'), async (req: any, res) => {
+    try {
+      res.json(await applicationPipelineService.getStages(req.companyAccess.companyProfile.id));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to fetch pipeline stages');
+    }
+  });
+
+  app.post('/api/company/pipeline-stages', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const input = insertPipelineStageSchema.parse(req.body);
+      const stage = await applicationPipelineService.createStage(req.companyAccess.companyProfile.id, input);
+      res.status(201).json(stage);
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to create pipeline stage');
+    }
+  });
+
+  app.put('/api/company/pipeline-stages/order', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const { stageIds } = reorderStagesSchema.parse(req.body);
+      res.json(await applicationPipelineService.reorderStages(req.companyAccess.companyProfile.id, stageIds));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to reorder pipeline stages');
+    }
+  });
+
+  app.patch('/api/company/pipeline-stages/:id', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const stageId = parseInt(req.params.id);
+      if (isNaN(stageId)) {
+        return res.status(400).json({ message: 'Invalid stage ID' });
+      }
+
+      const input = updateStageSchema.parse(req.body);
+      res.json(await applicationPipelineService.updateStage(req.companyAccess.companyProfile.id, stageId, input));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to update pipeline stage');
+    }
+  });
+
+  app.delete('/api/company/pipeline-stages/:id', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const stageId = parseInt(req.params.id);
+      if (isNaN(stageId)) {
+        return res.status(400).json({ message: 'Invalid stage ID' });
+      }
+
+      await applicationPipelineService.deleteStage(req.companyAccess.companyProfile.id, stageId);
+      res.status(204).end();
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to delete pipeline stage');
+    }
+  });
+
+  // The kanban board for one of the company's jobs
+  app.get('/api/job-postings/:id/pipeline', isAuthenticated, requireCompanyRole('viewer'), async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: 'Invalid job posting ID' });
+      }
+
+      const job = await applicationPipelineService.getCompanyJob(req.companyAccess.companyProfile.id, jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Job posting not found' });
+      }
+
+      res.json(await applicationPipelineService.getBoard(job.companyId, job.id));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to fetch pipeline');
+    }
+  });
+
+  app.put('/api/applications/:id/stage', isAuthenticated, requireCompanyRole('recruiter'), loadApplication, async (req: any, res) => {
+    try {
+      const { stageId } = moveApplicationSchema.parse(req.body);
+      const application = await applicationPipelineService.moveApplication(
+        req.companyAccess.companyProfile.id, req.application.id, stageId, req.user.id
+      );
+      res.json(application);
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to move application');
+    }
+  });
+
+  app.get('/api/applications/:id/history', isAuthenticated, requireCompanyRole('viewer'), loadApplication, async (req: any, res) => {
+    try {
+      res.json(await applicationPipelineService.getHistory(req.application.id));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to fetch stage history');
+    }
+  });
+
+  // Reviewer notes and scorecards never leave the hiring team
+  app.get('/api/applications/:id/notes', isAuthenticated, requireCompanyRole('viewer'), loadApplication, async (req: any, res) => {
+    try {
+      res.json(await applicationPipelineService.getNotes(req.application.id));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to fetch notes');
+    }
+  });
+
+  app.post('/api/applications/:id/notes', isAuthenticated, requireCompanyRole('recruiter'), loadApplication, async (req: any, res) => {
+    try {
+      const { content } = insertApplicationNoteSchema.parse(req.body);
+      const note = await applicationPipelineService.addNote(req.application.id, req.user.id, content);
+      res.status(201).json(note);
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to add note');
+    }
+  });
+
+  app.get('/api/applications/:id/scorecards', isAuthenticated, requireCompanyRole('viewer'), loadApplication, async (req: any, res) => {
+    try {
+      res.json(await applicationPipelineService.getScorecards(req.application.id));
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to fetch scorecards');
+    }
+  });
+
+  app.put('/api/applications/:id/scorecard', isAuthenticated, requireCompanyRole('recruiter'), loadApplication, async (req: any, res) => {
+    try {
+      const input = insertApplicationScorecardSchema.parse(req.body);
+      const scorecard = await applicationPipelineService.saveScorecard(req.application.id, req.user.id, input);
+      res.json(scorecard);
+    } catch (error) {
+      handlePipelineError(res, error, 'Failed to save scorecard');
+    }
+  });
+}
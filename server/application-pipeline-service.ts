@@ -0,0 +1,395 @@
+import { db } from './db';
+import { storage } from './storage';
+import {
+  pipelineStages, applicationStageHistory, applicationNotes, applicationScorecards, jobApplications,
+  jobPostings, professionalProfiles, users
+} from '@shared/schema';
+import type {
+  ApplicationNote, ApplicationScorecard, InsertApplicationScorecard, InsertPipelineStage, JobApplication,
+  JobPosting, PipelineStage
+} from '@shared/schema';
+import { and, asc, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import { notificationService } from './notification-service';
+
+// Thrown when a pipeline action is not allowed; the message is safe to show to users
+export class PipelineError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+// Every company starts with this pipeline and can rename, reorder, add or remove stages
+const DEFAULT_STAGES: InsertPipelineStage[] = [
+  { name: 'Applied', status: 'pending' },
+  { name: 'Screening', status: 'reviewed' },
+  { name: 'Interview', status: 'reviewed' },
+  { name: 'Trial session', status: 'reviewed' },
+  { name: 'Offer', status: 'reviewed' },
+  { name: 'Hired', status: 'accepted' },
+  { name: 'Rejected', status: 'rejected' }
+];
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+type ApplicationStatus = PipelineStage['status'];
+
+export class ApplicationPipelineService {
+  // The company's stages in board order, created from the defaults on first use
+  async getStages(companyId: number): Promise<PipelineStage[]> {
+    const database = getDb();
+    const stages = await database.select()
+      .from(pipelineStages)
+      .where(eq(pipelineStages.companyId, companyId))
+      .orderBy(asc(pipelineStages.position), asc(pipelineStages.id));
+    if (stages.length > 0) return stages;
+
+    // Two first requests may race to seed; the unique stage name keeps one copy of each
+    await database.insert(pipelineStages)
+      .values(DEFAULT_STAGES.map((stage, position) => ({ ...stage, companyId, position })))
+      .onConflictDoNothing();
+
+    return database.select()
+      .from(pipelineStages)
+      .where(eq(pipelineStages.companyId, companyId))
+      .orderBy(asc(pipelineStages.position), asc(pipelineStages.id));
+  }
+
+  private async getStage(companyId: number, stageId: number): Promise<PipelineStage> {
+    const [stage] = await getDb().select()
+      .from(pipelineStages)
+      .where(and(eq(pipelineStages.id, stageId), eq(pipelineStages.companyId, companyId)));
+    if (!stage) {
+      throw new PipelineError('Pipeline stage not found', 404);
+    }
+    return stage;
+  }
+
+  private async assertNameAvailable(companyId: number, name: string, exceptStageId?: number) {
+    const stages = await this.getStages(companyId);
+    if (stages.some(stage => stage.id !== exceptStageId && stage.name.toLowerCase() === name.toLowerCase())) {
+      throw new PipelineError(`A stage called "${name}" already exists`);
+    }
+  }
+
+  async createStage(companyId: number, input: InsertPipelineStage): Promise<PipelineStage> {
+    await this.assertNameAvailable(companyId, input.name);
+
+    const [stage] = await getDb().insert(pipelineStages).values({
+      companyId,
+      name: input.name,
+      status: input.status,
+      position: sql<number>`(SELECT coalesce(max(${pipelineStages.position}), -1) + 1 FROM ${pipelineStages} WHERE ${pipelineStages.companyId} = ${companyId})`
+    }).returning();
+    return stage;
+  }
+
+  async updateStage(companyId: number, stageId: number, input: Partial<InsertPipelineStage>): Promise<PipelineStage> {
+    await this.getStage(companyId, stageId);
+    if (input.name) {
+      await this.assertNameAvailable(companyId, input.name, stageId);
+    }
+
+    const [stage] = await getDb().update(pipelineStages)
+      .set({ name: input.name, status: input.status })
+      .where(eq(pipelineStages.id, stageId))
+      .returning();
+    return stage;
+  }
+
+  async reorderStages(companyId: number, stageIds: number[]): Promise<PipelineStage[]> {
+    const stages = await this.getStages(companyId);
+    const current = stages.map(stage => stage.id).sort((a, b) => a - b);
+    const requested = [...stageIds].sort((a, b) => a - b);
+    if (current.length !== requested.length || current.some((id, index) => id !== requested[index])) {
+      throw new PipelineError('The new order must list every pipeline stage exactly once');
+    }
+
+    await getDb().transaction(async (tx) => {
+      for (let position = 0; position < stageIds.length; position++) {
+        await tx.update(pipelineStages).set({ position }).where(eq(pipelineStages.id, stageIds[position]));
+      }
+    });
+    return this.getStages(companyId);
+  }
+
+  // Applications without a stage sit in the first one, so that stage counts them as well
+  private applicationsInStage(companyId: number, stage: PipelineStage, firstStageId: number) {
+    return and(
+      eq(jobPostings.companyId, companyId),
+      stage.id === firstStageId
+        ? or(eq(jobApplications.stageId, stage.id), isNull(jobApplications.stageId))
+        : eq(jobApplications.stageId, stage.id)
+    );
+  }
+
+  async deleteStage(companyId: number, stageId: number): Promise<void> {
+    const stages = await this.getStages(companyId);
+    const stage = stages.find(candidate => candidate.id === stageId);
+    if (!stage) {
+      throw new PipelineError('Pipeline stage not found', 404);
+    }
+    if (stages.length === 1) {
+      throw new PipelineError('A pipeline needs at least one stage');
+    }
+
+    const [{ count }] = await getDb().select({ count: sql<number>`count(*)::int` })
+      .from(jobApplications)
+      .innerJoin(jobPostings, eq(jobApplications.jobId, jobPostings.id))
+      .where(this.applicationsInStage(companyId, stage, stages[0].id));
+    if (count > 0) {
+      throw new PipelineError('Move the applications out of this stage before deleting it');
+    }
+
+    await getDb().delete(pipelineStages).where(eq(pipelineStages.id, stageId));
+  }
+
+  async getCompanyJob(companyId: number, jobId: number): Promise<JobPosting | undefined> {
+    const job = await storage.getJobPosting(jobId);
+    return job?.companyId === companyId ? job : undefined;
+  }
+
+  // An application together with its job, provided the job belongs to the company
+  async getCompanyApplication(companyId: number, applicationId: number) {
+    const [found] = await getDb().select({ application: jobApplications, job: jobPostings })
+      .from(jobApplications)
+      .innerJoin(jobPostings, eq(jobApplications.jobId, jobPostings.id))
+      .where(and(eq(jobApplications.id, applicationId), eq(jobPostings.companyId, companyId)));
+    return found;
+  }
+
+  // Everything the kanban board shows for one job: the stages and each application with its
+  // candidate, resolved stage and review summary
+  async getBoard(companyId: number, jobId: number) {
+    const database = getDb();
+    const stages = await this.getStages(companyId);
+
+    const rows = await database.select({
+      application: jobApplications,
+      professional: {
+        id: professionalProfiles.id,
+        userId: professionalProfiles.userId,
+        firstName: professionalProfiles.firstName,
+        lastName: professionalProfiles.lastName,
+        title: professionalProfiles.title,
+        location: professionalProfiles.location,
+        email: professionalProfiles.email,
+        phone: professionalProfiles.phone,
+        profileImageUrl: professionalProfiles.profileImageUrl,
+        bio: professionalProfiles.bio
+      }
+    })
+      .from(jobApplications)
+      .innerJoin(professionalProfiles, eq(jobApplications.professionalId, professionalProfiles.id))
+      .where(eq(jobApplications.jobId, jobId))
+      .orderBy(desc(jobApplications.createdAt));
+
+    const applicationIds = rows.map(row => row.application.id);
+    const [ratings, noteCounts] = applicationIds.length === 0 ? [[], []] : await Promise.all([
+      database.select({
+        applicationId: applicationScorecards.applicationId,
+        averageRating: sql<number>`round(avg(${applicationScorecards.overallRating}), 1)::float`,
+        scorecardCount: sql<number>`count(*)::int`
+      })
+        .from(applicationScorecards)
+        .where(inArray(applicationScorecards.applicationId, applicationIds))
+        .groupBy(applicationScorecards.applicationId),
+      database.select({
+        applicationId: applicationNotes.applicationId,
+        noteCount: sql<number>`count(*)::int`
+      })
+        .from(applicationNotes)
+        .where(inArray(applicationNotes.applicationId, applicationIds))
+        .groupBy(applicationNotes.applicationId)
+    ]);
+
+    const stageIds = new Set(stages.map(stage => stage.id));
+    return {
+      stages,
+      applications: rows.map(({ application, professional }) => {
+        const rating = ratings.find(entry => entry.applicationId === application.id);
+        return {
+          ...application,
+          stageId: application.stageId !== null && stageIds.has(application.stageId) ? application.stageId : stages[0].id,
+          professional,
+          averageRating: rating?.averageRating ?? null,
+          scorecardCount: rating?.scorecardCount ?? 0,
+          noteCount: noteCounts.find(entry => entry.applicationId === application.id)?.noteCount ?? 0
+        };
+      })
+    };
+  }
+
+  // Move an application to another stage of its company's pipeline, recording who moved it, and
+  // tell the candidate when the status they see changes. Moving to the stage it is already in does
+  // nothing.
+  async moveApplication(
+    companyId: number,
+    applicationId: number,
+    toStageId: number,
+    movedBy: number
+  ): Promise<JobApplication> {
+    const stages = await this.getStages(companyId);
+    const toStage = stages.find(stage => stage.id === toStageId);
+    if (!toStage) {
+      throw new PipelineError('Pipeline stage not found', 404);
+    }
+
+    const result = await getDb().transaction(async (tx) => {
+      const [current] = await tx.select({ application: jobApplications, job: jobPostings })
+        .from(jobApplications)
+        .innerJoin(jobPostings, eq(jobApplications.jobId, jobPostings.id))
+        .where(and(eq(jobApplications.id, applicationId), eq(jobPostings.companyId, companyId)))
+        .for('update', { of: jobApplications });
+      if (!current) {
+        throw new PipelineError('Application not found', 404);
+      }
+
+      const fromStage = stages.find(stage => stage.id === current.application.stageId) ?? stages[0];
+      if (fromStage.id === toStage.id) {
+        return { application: current.application, job: current.job, statusChanged: false };
+      }
+
+      const [application] = await tx.update(jobApplications)
+        .set({ stageId: toStage.id, status: toStage.status })
+        .where(eq(jobApplications.id, applicationId))
+        .returning();
+
+      await tx.insert(applicationStageHistory).values({
+        applicationId,
+        fromStageId: fromStage.id,
+        fromStageName: fromStage.name,
+        toStageId: toStage.id,
+        toStageName: toStage.name,
+        movedBy
+      });
+
+      return { application, job: current.job, statusChanged: current.application.status !== toStage.status };
+    });
+
+    if (result.statusChanged) {
+      await this.notifyCandidate(result.application, result.job, toStage.status);
+    }
+    return result.application;
+  }
+
+  // The legacy status endpoint: move to the first stage showing that status, or only set the
+  // status when the company has no such stage
+  async moveApplicationToStatus(
+    companyId: number,
+    applicationId: number,
+    status: ApplicationStatus,
+    movedBy: number
+  ): Promise<JobApplication | undefined> {
+    const stage = (await this.getStages(companyId)).find(candidate => candidate.status === status);
+    if (stage) {
+      return this.moveApplication(companyId, applicationId, stage.id, movedBy);
+    }
+
+    const found = await this.getCompanyApplication(companyId, applicationId);
+    if (!found) return undefined;
+
+    const application = await storage.updateJobApplicationStatus(applicationId, status);
+    if (application && found.application.status !== status) {
+      await this.notifyCandidate(application, found.job, status);
+    }
+    return application;
+  }
+
+  private async notifyCandidate(application: JobApplication, job: JobPosting, status: string) {
+    try {
+      const professional = await storage.getProfessionalProfile(application.professionalId);
+      const professionalUser = professional ? await storage.getUser(professional.userId) : undefined;
+      if (professional && professionalUser) {
+        await notificationService.sendApplicationStatusUpdateNotification(
+          application, job, professional, professionalUser, status
+        );
+      }
+    } catch (error) {
+      console.error('Failed to send application status notification:', error);
+    }
+  }
+
+  async getHistory(applicationId: number) {
+    return getDb().select({
+      id: applicationStageHistory.id,
+      fromStageName: applicationStageHistory.fromStageName,
+      toStageName: applicationStageHistory.toStageName,
+      movedAt: applicationStageHistory.movedAt,
+      movedBy: {
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName
+      }
+    })
+      .from(applicationStageHistory)
+      .innerJoin(users, eq(applicationStageHistory.movedBy, users.id))
+      .where(eq(applicationStageHistory.applicationId, applicationId))
+      .orderBy(asc(applicationStageHistory.movedAt), asc(applicationStageHistory.id));
+  }
+
+  async getNotes(applicationId: number) {
+    return getDb().select({
+      note: applicationNotes,
+      author: {
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName
+      }
+    })
+      .from(applicationNotes)
+      .innerJoin(users, eq(applicationNotes.authorId, users.id))
+      .where(eq(applicationNotes.applicationId, applicationId))
+      .orderBy(desc(applicationNotes.createdAt));
+  }
+
+  async addNote(applicationId: number, authorId: number, content: string): Promise<ApplicationNote> {
+    const [note] = await getDb().insert(applicationNotes)
+      .values({ applicationId, authorId, content })
+      .returning();
+    return note;
+  }
+
+  async getScorecards(applicationId: number) {
+    return getDb().select({
+      scorecard: applicationScorecards,
+      reviewer: {
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName
+      }
+    })
+      .from(applicationScorecards)
+      .innerJoin(users, eq(applicationScorecards.reviewerId, users.id))
+      .where(eq(applicationScorecards.applicationId, applicationId))
+      .orderBy(desc(applicationScorecards.updatedAt));
+  }
+
+  // Each reviewer keeps one scorecard per application; submitting again replaces it
+  async saveScorecard(applicationId: number, reviewerId: number, input: InsertApplicationScorecard): Promise<ApplicationScorecard> {
+    const values = {
+      overallRating: input.overallRating,
+      criteria: input.criteria,
+      comment: input.comment || null
+    };
+
+    const [scorecard] = await getDb().insert(applicationScorecards)
+      .values({ applicationId, reviewerId, ...values })
+      .onConflictDoUpdate({
+        target: [applicationScorecards.applicationId, applicationScorecards.reviewerId],
+        set: { ...values, updatedAt: new Date() }
+      })
+      .returning();
+    return scorecard;
+  }
+}
+
+export const applicationPipelineService = new ApplicationPipelineService();
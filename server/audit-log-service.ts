@@ -0,0 +1,273 @@
+import { Request, Response, NextFunction } from 'express';
+import { and, count, desc, eq, gte, ilike, lt, lte } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { escrowService } from './escrow-service';
+import { adminAuditLogs } from '@shared/schema';
+import type { AdminAuditLog, User } from '@shared/schema';
+import { adminBulkActionSchema, type AdminEntity } from '@shared/admin';
+import {
+  MAX_AUDIT_EXPORT_ROWS, REDACTED_VALUE, type AuditChanges, type AuditLogFilter, type AuditLogPageQuery,
+  type AuditTargetType
+} from '@shared/audit-log';
+import type { Page } from '@shared/pagination';
+import { hasPermission } from '@shared/permissions';
+
+// Thrown for a bad audit log query; the message is safe to show to admins
+export class AuditLogError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AuditLogError';
+  }
+}
+
+type Snapshot = Record<string, unknown>;
+
+// Never copied into the log, from snapshots or request bodies
+const REDACTED_FIELDS = ['password', 'currentPassword', 'newPassword', 'token', 'resetToken', 'emailVerificationToken'];
+
+// Reads are logged only for these paths under /api/admin; every other admin request is logged
+const AUDITED_READS = ['/subscriptions', '/subscription-analytics', '/audit-logs/export'];
+
+const MAX_USER_AGENT_LENGTH = 500;
+
+interface TargetRoute {
+  type: AuditTargetType;
+  // The record as it is now, to diff before and after the request
+  load?: (id: number) => Promise<object | null | undefined>;
+}
+
+// Admin routes by the path segment after /api/admin
+const TARGET_ROUTES: Record<string, TargetRoute> = {
+  'users': { type: 'users', load: id => storage.getUser(id) },
+  'professional-profiles': { type: 'professionalProfiles', load: async id => storage.getProfessionalProfile(id) },
+  'company-profiles': { type: 'companyProfiles', load: id => storage.getCompanyProfile(id) },
+  'job-postings': { type: 'jobPostings', load: id => storage.getJobPosting(id) },
+  'resources': { type: 'resources', load: id => storage.getResource(id) },
+  'resource-categories': { type: 'resourceCategories', load: id => storage.getResourceCategory(id) },
+  'expertise': { type: 'expertise', load: id => storage.getExpertiseById(id) },
+  'forum-posts': { type: 'forumPosts', load: id => storage.getForumPost(id) },
+  'escrow/disputes': {
+    type: 'escrowDisputes',
+    load: async id => (await escrowService.getDisputeWithTransaction(id))?.dispute
+  },
+  'escrow/transactions': { type: 'escrowTransactions', load: id => escrowService.getTransaction(id) },
+  'subscriptions': { type: 'subscriptions' },
+  'subscription-analytics': { type: 'subscriptions' },
+  'audit-logs': { type: 'auditLogs' },
+};
+
+const BULK_ACTION_ROUTES: Record<AdminEntity, string> = {
+  users: 'users',
+  professionalProfiles: 'professional-profiles',
+  companyProfiles: 'company-profiles',
+  jobPostings: 'job-postings',
+  resources: 'resources',
+  forumPosts: 'forum-posts',
+};
+
+interface AuditTarget {
+  route: TargetRoute;
+  id: number | null;
+  before: Snapshot | null;
+}
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+// A JSON copy of the value with secrets replaced, at any depth
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+      [key, REDACTED_FIELDS.includes(key) ? REDACTED_VALUE : redact(field)]
+    ));
+  }
+  return value;
+}
+
+const snapshot = (record: object | null | undefined): Snapshot | null =>
+  record ? redact(JSON.parse(JSON.stringify(record))) as Snapshot : null;
+
+// The fields that differ between the snapshots. Secrets compare equal once redacted, so a changed
+// password shows up only in the request body's redacted field.
+export function diffSnapshots(before: Snapshot | null, after: Snapshot | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]));
+  keys.forEach(key => {
+    const from = before ? before[key] ?? null : null;
+    const to = after ? after[key] ?? null : null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { before: from, after: to };
+    }
+  });
+  return changes;
+}
+
+// What the request acts on, by its path under /api/admin. A bulk action targets each of its
+// records; a create targets nothing until the response names the new record.
+async function resolveTargets(req: Request): Promise<AuditTarget[]> {
+  if (req.path === '/bulk-actions') {
+    const bulk = adminBulkActionSchema.safeParse(req.body);
+    if (!bulk.success) return [];
+    const route = TARGET_ROUTES[BULK_ACTION_ROUTES[bulk.data.entity]];
+    return Promise.all(Array.from(new Set(bulk.data.ids)).map(async id => ({
+      route, id, before: snapshot(await route.load?.(id))
+    })));
+  }
+
+  const match = req.path.match(/^\/((?:escrow\/)?[a-z-]+)(?:\/(\d+))?/);
+  const route = match ? TARGET_ROUTES[match[1]] : undefined;
+  if (!route) return [];
+  const id = match?.[2] ? parseInt(match[2]) : null;
+  return [{ route, id, before: id !== null && route.load ? snapshot(await route.load(id)) : null }];
+}
+
+const csvCell = (value: unknown) => {
+  let text = value === null || value === undefined ? '' : value instanceof Date ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from running cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: Array<keyof AdminAuditLog> = [
+  'id', 'createdAt', 'actorId', 'actorUsername', 'action', 'targetType', 'targetId', 'statusCode', 'changes',
+  'requestBody', 'ipAddress', 'userAgent'
+];
+
+export class AuditLogService {
+  // The only write: entries are never updated or deleted
+  async record(entry: typeof adminAuditLogs.$inferInsert): Promise<void> {
+    if (!db) {
+      console.warn(`Database not available, audit entry not recorded: ${entry.action}`);
+      return;
+    }
+    await db.insert(adminAuditLogs).values(entry);
+  }
+
+  async list(query: AuditLogPageQuery): Promise<Page<AdminAuditLog>> {
+    const database = getDb();
+    const where = this.filterConditions(query);
+
+    let before: number | undefined;
+    if (query.cursor) {
+      before = parseInt(query.cursor);
+      if (!/^\d+$/.test(query.cursor) || !before) throw new AuditLogError('Invalid cursor');
+    }
+
+    const [rows, [{ total }]] = await Promise.all([
+      database.select()
+        .from(adminAuditLogs)
+        .where(and(where, before ? lt(adminAuditLogs.id, before) : undefined))
+        .orderBy(desc(adminAuditLogs.id))
+        .limit(query.limit + 1),
+      database.select({ total: count() }).from(adminAuditLogs).where(where),
+    ]);
+
+    const items = rows.slice(0, query.limit);
+    return {
+      items,
+      nextCursor: rows.length > query.limit ? String(items[items.length - 1].id) : null,
+      total,
+    };
+  }
+
+  // The newest MAX_AUDIT_EXPORT_ROWS entries matching the filter
+  async export(filter: AuditLogFilter): Promise<AdminAuditLog[]> {
+    return getDb().select()
+      .from(adminAuditLogs)
+      .where(this.filterConditions(filter))
+      .orderBy(desc(adminAuditLogs.id))
+      .limit(MAX_AUDIT_EXPORT_ROWS);
+  }
+
+  toCsv(entries: AdminAuditLog[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    entries.forEach(entry => lines.push(CSV_COLUMNS.map(column => csvCell(entry[column])).join(',')));
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private filterConditions(filter: AuditLogFilter): SQL | undefined {
+    return and(
+      filter.actorId ? eq(adminAuditLogs.actorId, filter.actorId) : undefined,
+      filter.action ? ilike(adminAuditLogs.action, `%${filter.action.replace(/[\\%_]/g, '\\$&')}%`) : undefined,
+      filter.targetType ? eq(adminAuditLogs.targetType, filter.targetType) : undefined,
+      filter.targetId ? eq(adminAuditLogs.targetId, filter.targetId) : undefined,
+      filter.from ? gte(adminAuditLogs.createdAt, filter.from) : undefined,
+      filter.to ? lte(adminAuditLogs.createdAt, filter.to) : undefined,
+    );
+  }
+}
+
+export const auditLogService = new AuditLogService();
+
+// Mounted on /api/admin ahead of the admin routes. Snapshots the target before the request and
+// again once the response is sent, then records who did what, the diff and where from. Requests
+// by non-staff are rejected by the routes and not logged.
+export async function auditAdminRequests(req: Request, res: Response, next: NextFunction) {
+  const actor = req.user as User | undefined;
+  const isRead = ['GET', 'HEAD', 'OPTIONS'].includes(req.method);
+  if (!actor || !hasPermission(actor, 'admin.access') || (isRead && !AUDITED_READS.some(path => req.path.startsWith(path)))) {
+    return next();
+  }
+
+  const path = req.originalUrl.split('?')[0];
+  let targets: AuditTarget[] = [];
+  try {
+    targets = await resolveTargets(req);
+  } catch (error) {
+    console.error(`Failed to snapshot the audit target of ${req.method} ${path}:`, error);
+  }
+
+  // A create's response body names the new record
+  let responseBody: unknown;
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    responseBody = body;
+    return json(body);
+  };
+
+  res.on('finish', async () => {
+    try {
+      const succeeded = res.statusCode < 400;
+      const created = responseBody as { id?: unknown } | undefined;
+      if (succeeded && req.method === 'POST' && targets.length === 1 && targets[0].id === null
+        && typeof created?.id === 'number') {
+        targets[0].id = created.id;
+      }
+
+      const entry = {
+        actorId: actor.id,
+        actorUsername: actor.username,
+        action: `${req.method} ${req.route?.path ?? path}`,
+        // Reads take their parameters from the query string
+        requestBody: redact(isRead ? req.query : req.body) ?? null,
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      };
+
+      if (targets.length === 0) {
+        return await auditLogService.record({ ...entry, targetType: null, targetId: null, changes: null });
+      }
+
+      for (const target of targets) {
+        let changes: AuditChanges | null = null;
+        if (succeeded && target.id !== null && target.route.load) {
+          changes = diffSnapshots(target.before, snapshot(await target.route.load(target.id)));
+        }
+        await auditLogService.record({ ...entry, targetType: target.route.type, targetId: target.id, changes });
+      }
+    } catch (error) {
+      console.error(`Failed to write the audit log for ${req.method} ${path}:`, error);
+    }
+  });
+
+  next();
+}
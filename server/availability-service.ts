@@ -0,0 +1,191 @@
+import { storage } from './storage';
+import type {
+  AvailabilityBlackout,
+  AvailabilityRule,
+  AvailabilitySettings,
+  AvailabilitySlot,
+  Consultation
+} from '@shared/schema';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_TIMEZONE = 'UTC';
+const DEFAULT_MIN_NOTICE_HOURS = 24;
+const MAX_SLOT_RANGE_DAYS = 62;
+
+export interface BookingCheck {
+  ok: boolean;
+  status?: 400 | 409;
+  message?: string;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant in the given timezone
+function getZonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Convert a local date ("YYYY-MM-DD") and time ("HH:mm") in a timezone to a UTC instant
+function zonedTimeToUtc(localDate: string, localTime: string, timezone: string): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const [hour, minute] = localTime.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Resolve the offset twice so times next to a DST transition land on the right side of it
+  const firstGuess = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffset(new Date(firstGuess), timezone));
+}
+
+function toLocalDate(date: Date, timezone: string): string {
+  const p = getZonedParts(date, timezone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+function addDays(localDate: string, days: number): string {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(localDate: string): number {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function isBlackedOut(localDate: string, blackouts: AvailabilityBlackout[]): boolean {
+  return blackouts.some(blackout => localDate >= blackout.startDate && localDate <= blackout.endDate);
+}
+
+function overlaps(start: Date, end: Date, consultations: Consultation[]): boolean {
+  return consultations.some(c => c.startTime < end && c.endTime > start);
+}
+
+class AvailabilityService {
+  async getSchedule(professionalId: number): Promise<{
+    settings: AvailabilitySettings | undefined;
+    rules: AvailabilityRule[];
+    blackouts: AvailabilityBlackout[];
+  }> {
+    const [settings, rules, blackouts] = await Promise.all([
+      storage.getAvailabilitySettings(professionalId),
+      storage.getAvailabilityRules(professionalId),
+      storage.getAvailabilityBlackouts(professionalId)
+    ]);
+    return { settings, rules, blackouts };
+  }
+
+  // Expand the weekly rules into bookable slots of the given length between two instants,
+  // skipping blackout dates, the minimum notice window and existing bookings
+  async getSlots(professionalId: number, from: Date, to: Date, durationMinutes: number): Promise<AvailabilitySlot[]> {
+    const { settings, rules, blackouts } = await this.getSchedule(professionalId);
+    if (rules.length === 0) return [];
+
+    const timezone = settings?.timezone || DEFAULT_TIMEZONE;
+    const minNoticeHours = settings?.minNoticeHours ?? DEFAULT_MIN_NOTICE_HOURS;
+    const earliest = new Date(Math.max(from.getTime(), Date.now() + minNoticeHours * 60 * MINUTE_MS));
+    const latest = new Date(Math.min(to.getTime(), from.getTime() + MAX_SLOT_RANGE_DAYS * DAY_MS));
+    if (earliest >= latest) return [];
+
+    const booked = await storage.getOverlappingConsultations(professionalId, earliest, latest);
+    const durationMs = durationMinutes * MINUTE_MS;
+    const slots: AvailabilitySlot[] = [];
+
+    // Walk local dates one day either side of the range so windows near midnight UTC are not missed
+    const lastDate = addDays(toLocalDate(latest, timezone), 1);
+    for (let date = addDays(toLocalDate(earliest, timezone), -1); date <= lastDate; date = addDays(date, 1)) {
+      if (isBlackedOut(date, blackouts)) continue;
+
+      for (const rule of rules.filter(r => r.dayOfWeek === dayOfWeek(date))) {
+        const windowStart = zonedTimeToUtc(date, rule.startTime, timezone).getTime();
+        const windowEnd = zonedTimeToUtc(date, rule.endTime, timezone).getTime();
+
+        for (let start = windowStart; start + durationMs <= windowEnd; start += durationMs) {
+          const slotStart = new Date(start);
+          const slotEnd = new Date(start + durationMs);
+          if (slotStart < earliest || slotEnd > latest) continue;
+          if (overlaps(slotStart, slotEnd, booked)) continue;
+
+          slots.push({ startTime: slotStart.toISOString(), endTime: slotEnd.toISOString() });
+        }
+      }
+    }
+
+    return slots.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  // Check that a requested booking sits inside one published availability window and
+  // does not collide with an existing consultation
+  async checkBooking(professionalId: number, startTime: Date, endTime: Date): Promise<BookingCheck> {
+    if (!(startTime < endTime)) {
+      return { ok: false, status: 400, message: "Consultation must end after it starts" };
+    }
+
+    const { settings, rules, blackouts } = await this.getSchedule(professionalId);
+    if (rules.length === 0) {
+      return { ok: false, status: 400, message: "This professional has not published any availability" };
+    }
+
+    const timezone = settings?.timezone || DEFAULT_TIMEZONE;
+    const minNoticeHours = settings?.minNoticeHours ?? DEFAULT_MIN_NOTICE_HOURS;
+    if (startTime.getTime() < Date.now() + minNoticeHours * 60 * MINUTE_MS) {
+      return { ok: false, status: 400, message: `Consultations must be booked at least ${minNoticeHours} hours in advance` };
+    }
+
+    const localDate = toLocalDate(startTime, timezone);
+    if (isBlackedOut(localDate, blackouts)) {
+      return { ok: false, status: 400, message: "The professional is unavailable on this date" };
+    }
+
+    const withinWindow = rules
+      .filter(rule => rule.dayOfWeek === dayOfWeek(localDate))
+      .some(rule =>
+        zonedTimeToUtc(localDate, rule.startTime, timezone) <= startTime &&
+        zonedTimeToUtc(localDate, rule.endTime, timezone) >= endTime
+      );
+    if (!withinWindow) {
+      return { ok: false, status: 400, message: "The requested time is outside the professional's availability" };
+    }
+
+    const overlapping = await storage.getOverlappingConsultations(professionalId, startTime, endTime);
+    if (overlapping.length > 0) {
+      return { ok: false, status: 409, message: "The professional is already booked for this time" };
+    }
+
+    return { ok: true };
+  }
+}
+
+export const availabilityService = new AvailabilityService();
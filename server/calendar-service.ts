@@ -0,0 +1,196 @@
+import { storage } from './storage';
+import { companyTeamService } from './company-team-service';
+import type { AuthToken, CompanyProfile, Consultation, ProfessionalProfile, User } from '@shared/schema';
+
+export const CALENDAR_FEED_TOKEN_TYPE = 'calendar_feed';
+
+const FEED_TOKEN_TTL_DAYS = 730;
+const PRODUCT_ID = '-//L&D Nexus//Consultations//EN';
+const UID_DOMAIN = 'ldnexus';
+
+type Perspective = 'professional' | 'company';
+
+interface ConsultationEntry {
+  consultation: Consultation;
+  perspective: Perspective;
+  professional?: ProfessionalProfile;
+  company?: CompanyProfile;
+}
+
+// RFC 5545 text escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function professionalName(profile?: ProfessionalProfile): string {
+  if (!profile) return 'a professional';
+  const name = [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+  return name || profile.title || 'a professional';
+}
+
+function appUrl(): string {
+  return process.env.FRONTEND_URL || 'http://localhost:5000';
+}
+
+class CalendarService {
+  // Build a VCALENDAR document for the given consultations. Cancelled consultations are
+  // kept as CANCELLED events so subscribed calendars remove them instead of keeping stale entries.
+  renderCalendar(entries: ConsultationEntry[], calendarName: string): string {
+    const now = formatUtc(new Date());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(calendarName)}`
+    ];
+
+    for (const { consultation, perspective, professional, company } of entries) {
+      const cancelled = consultation.status === 'cancelled';
+      const counterpart = perspective === 'professional'
+        ? company?.companyName || 'a client'
+        : professionalName(professional);
+      const dashboard = perspective === 'professional' ? 'professional-dashboard' : 'company-dashboard';
+
+      const description = [
+        consultation.notes,
+        `Rate: $${consultation.rate}/hour`,
+        `${appUrl()}/${dashboard}`
+      ].filter(Boolean).join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:consultation-${consultation.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${now}`,
+        `CREATED:${formatUtc(consultation.createdAt)}`,
+        `DTSTART:${formatUtc(consultation.startTime)}`,
+        `DTEND:${formatUtc(consultation.endTime)}`,
+        `SUMMARY:${escapeText(`${cancelled ? 'Cancelled: ' : ''}Consultation with ${counterpart}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${appUrl()}/${dashboard}`,
+        `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+        // Cancellation is the only change an event can go through, so it bumps the sequence once
+        `SEQUENCE:${cancelled ? 1 : 0}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  // All consultations the user takes part in, as a professional and/or for their company
+  async getUserConsultations(user: User): Promise<ConsultationEntry[]> {
+    const entries: ConsultationEntry[] = [];
+
+    const professionalProfile = await storage.getProfessionalProfileByUserId(user.id);
+    if (professionalProfile) {
+      for (const consultation of await storage.getProfessionalConsultations(professionalProfile.id)) {
+        entries.push({ consultation, perspective: 'professional', professional: professionalProfile });
+      }
+    }
+
+    const companyProfile = (await companyTeamService.getCompanyAccess(user.id))?.companyProfile;
+    if (companyProfile) {
+      for (const consultation of await storage.getCompanyConsultations(companyProfile.id)) {
+        entries.push({ consultation, perspective: 'company', company: companyProfile });
+      }
+    }
+
+    return this.withCounterparts(entries);
+  }
+
+  async getConsultationEntry(consultation: Consultation, user: User): Promise<ConsultationEntry | null> {
+    const [professional, company, companyAccess] = await Promise.all([
+      storage.getProfessionalProfile(consultation.professionalId),
+      storage.getCompanyProfile(consultation.companyId),
+      companyTeamService.getCompanyAccess(user.id)
+    ]);
+
+    if (professional?.userId === user.id) {
+      return { consultation, perspective: 'professional', professional, company };
+    }
+    if (company && companyAccess?.companyProfile.id === company.id) {
+      return { consultation, perspective: 'company', professional, company };
+    }
+    return null;
+  }
+
+  async getFeedToken(userId: number): Promise<AuthToken | undefined> {
+    const [token] = await storage.getUserAuthTokens(userId, CALENDAR_FEED_TOKEN_TYPE);
+    return token;
+  }
+
+  // Revoke any existing feed token and issue a fresh one
+  async rotateFeedToken(userId: number, userAgent?: string, ipAddress?: string): Promise<AuthToken> {
+    await this.revokeFeedTokens(userId);
+
+    const expiresAt = new Date(Date.now() + FEED_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    return storage.createAuthToken(userId, CALENDAR_FEED_TOKEN_TYPE, expiresAt, userAgent, ipAddress);
+  }
+
+  async revokeFeedTokens(userId: number): Promise<void> {
+    const tokens = await storage.getUserAuthTokens(userId, CALENDAR_FEED_TOKEN_TYPE);
+    await Promise.all(tokens.map(token => storage.revokeAuthToken(token.token)));
+  }
+
+  async resolveFeedUser(token: string): Promise<User | undefined> {
+    return storage.validateAuthToken(token, CALENDAR_FEED_TOKEN_TYPE);
+  }
+
+  getFeedUrl(token: AuthToken): string {
+    return `${appUrl()}/api/calendar/feed/${token.token}.ics`;
+  }
+
+  // Fill in the other party's profile for each entry, loading each profile once
+  private async withCounterparts(entries: ConsultationEntry[]): Promise<ConsultationEntry[]> {
+    const professionals = new Map<number, Promise<ProfessionalProfile | undefined>>();
+    const companies = new Map<number, Promise<CompanyProfile | undefined>>();
+
+    return Promise.all(entries.map(async entry => {
+      const { professionalId, companyId } = entry.consultation;
+      if (!entry.professional) {
+        if (!professionals.has(professionalId)) {
+          professionals.set(professionalId, Promise.resolve(storage.getProfessionalProfile(professionalId)));
+        }
+        entry.professional = await professionals.get(professionalId);
+      }
+      if (!entry.company) {
+        if (!companies.has(companyId)) {
+          companies.set(companyId, storage.getCompanyProfile(companyId));
+        }
+        entry.company = await companies.get(companyId);
+      }
+      return entry;
+    }));
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -1,42 +1,33 @@
-
-import OpenAI from 'openai';
+import { z } from 'zod';
 import type { ProfessionalProfile, Expertise } from '@shared/schema';
+import { LlmRateLimitError } from './llm-provider';
+import { llmService } from './llm-service';
 
-// Initialize OpenAI only if API key is available
-let openai: OpenAI | null = null;
-try {
-  if (process.env.OPENAI_API_KEY) {
-    openai = new OpenAI();
-  } else {
-    console.warn("OpenAI API key is missing. Career recommendation features will be disabled.");
-  }
-} catch (error) {
-  console.warn("OpenAI client initialization failed. Career recommendation features will be disabled.");
-}
+const careerRecommendationSchema = z.object({
+  role: z.string(),
+  description: z.string(),
+  requiredSkills: z.array(z.string()),
+  courses: z.array(z.object({
+    name: z.string(),
+    provider: z.string(),
+    description: z.string(),
+  })),
+  marketDemand: z.string(),
+  estimatedSalary: z.string(),
+});
 
-interface CareerRecommendation {
-  role: string;
-  description: string;
-  requiredSkills: string[];
-  courses: Array<{
-    name: string;
-    provider: string;
-    description: string;
-  }>;
-  marketDemand: string;
-  estimatedSalary: string;
-}
+type CareerRecommendation = z.infer<typeof careerRecommendationSchema>;
 
+const careerRecommendationsSchema = z.object({
+  careers: z.array(careerRecommendationSchema),
+});
+
+// Rate limiting reaches the caller; any other failure falls back to the standard recommendations
 export async function generateCareerRecommendations(
   profile: ProfessionalProfile,
-  expertise: Expertise[]
+  expertise: Expertise[],
+  userId?: number
 ): Promise<CareerRecommendation[]> {
-  // If OpenAI is not available, return static recommendations based on expertise
-  if (!openai) {
-    console.log("Using fallback career recommendations as OpenAI is not available");
-    return generateFallbackRecommendations(expertise);
-  }
-  
   try {
     const prompt = `Given an L&D professional with the following profile:
 Title: ${profile.title}
@@ -49,38 +40,25 @@ Provide 3 career path recommendations including:
 - Required skills
 - Recommended courses for upskilling
 - Market demand
-- Estimated salary range
+- Estimated salary range`;
 
-Format as structured data.`;
-
-    // We've already checked if openai is null above, but TypeScript still complains
-    // Using the non-null assertion operator to inform TypeScript that openai is definitely not null here
-    const response = await openai!.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are a career advisor specializing in Learning & Development careers."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const { careers } = await llmService.complete({
+      schema: careerRecommendationsSchema,
+      schemaName: 'career_recommendations',
+      system: 'You are a career advisor specializing in Learning & Development careers.',
+      prompt,
+      template: () => ({ careers: generateFallbackRecommendations(expertise) }),
+      userId,
     });
-
-    // Using optional chaining and nullish coalescing to handle potential null values safely
-    const content = response.choices[0]?.message?.content || '{"careers": []}';
-    const recommendations = JSON.parse(content);
-    return recommendations.careers;
+    return careers;
   } catch (error) {
+    if (error instanceof LlmRateLimitError) throw error;
     console.error("Error generating career recommendations:", error);
     return generateFallbackRecommendations(expertise);
   }
 }
 
-// Fallback recommendations when OpenAI is not available
+// Fallback recommendations when the AI provider is not available
 function generateFallbackRecommendations(expertise: Expertise[]): CareerRecommendation[] {
   // Common L&D roles
   const commonRoles: CareerRecommendation[] = [
@@ -0,0 +1,152 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { insertCompanyInvitationSchema } from '@shared/schema';
+import type { CompanyTeamRole } from '@shared/schema';
+import { companyTeamService, CompanyTeamError, hasCompanyRole } from './company-team-service';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Resolve the user's company into req.companyAccess, rejecting users below `minimumRole`
+export const requireCompanyRole = (minimumRole: CompanyTeamRole) => async (req: any, res: any, next: any) => {
+  try {
+    const access = await companyTeamService.getCompanyAccess(req.user.id);
+    if (!access) {
+      return res.status(404).json({ message: 'You are not part of a company' });
+    }
+    if (!hasCompanyRole(access.role, minimumRole)) {
+      return res.status(403).json({ message: 'Your team role does not allow this action' });
+    }
+    req.companyAccess = access;
+    next();
+  } catch (error) {
+    console.error('Error resolving company access:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+const updateRoleSchema = z.object({
+  role: z.enum(['admin', 'recruiter', 'viewer'])
+});
+
+// Team errors are shown to the user, anything else is a 500
+const handleTeamError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof CompanyTeamError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+export function registerCompanyTeamRoutes(app: Express) {
+  // The team of the user's company with its seat usage; pending invitations are only listed for admins
+  app.get('/api/company-team', isAuthenticated, requireCompanyRole('viewer'), async (req: any, res) => {
+    try {
+      const { companyProfile, role } = req.companyAccess;
+      const canManage = hasCompanyRole(role, 'admin');
+
+      res.json({
+        company: { id: companyProfile.id, companyName: companyProfile.companyName },
+        role,
+        members: await companyTeamService.getTeamMembers(companyProfile),
+        invitations: canManage
+          ? (await companyTeamService.getPendingInvitations(companyProfile.id)).map(({ token, ...invitation }) => invitation)
+          : [],
+        seats: await companyTeamService.getSeatUsage(companyProfile)
+      });
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to fetch company team');
+    }
+  });
+
+  app.post('/api/company-team/invitations', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const input = insertCompanyInvitationSchema.parse(req.body);
+      const { token, ...invitation } = await companyTeamService.inviteMember(req.companyAccess, req.user, input);
+      res.status(201).json(invitation);
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to send invitation');
+    }
+  });
+
+  app.delete('/api/company-team/invitations/:id', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      if (isNaN(invitationId)) {
+        return res.status(400).json({ message: 'Invalid invitation ID' });
+      }
+
+      await companyTeamService.revokeInvitation(req.companyAccess.companyProfile.id, invitationId);
+      res.status(204).end();
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to revoke invitation');
+    }
+  });
+
+  // What the invitation page shows before the invitee accepts
+  app.get('/api/team-invitations/:token', isAuthenticated, async (req: any, res) => {
+    try {
+      const found = await companyTeamService.getInvitationByToken(req.params.token);
+      if (!found || found.invitation.status === 'revoked') {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+
+      const { invitation, companyProfile, expired } = found;
+      res.json({
+        companyName: companyProfile.companyName,
+        email: invitation.email,
+        role: invitation.role,
+        status: expired ? 'expired' : invitation.status,
+        expiresAt: invitation.expiresAt
+      });
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to fetch invitation');
+    }
+  });
+
+  app.post('/api/team-invitations/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const { companyProfile, role } = await companyTeamService.acceptInvitation(req.params.token, req.user);
+      res.json({ companyId: companyProfile.id, companyName: companyProfile.companyName, role });
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to accept invitation');
+    }
+  });
+
+  app.patch('/api/company-team/members/:userId', isAuthenticated, requireCompanyRole('admin'), async (req: any, res) => {
+    try {
+      const memberUserId = parseInt(req.params.userId);
+      if (isNaN(memberUserId)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+
+      const { role } = updateRoleSchema.parse(req.body);
+      const member = await companyTeamService.updateMemberRole(req.companyAccess, memberUserId, role);
+      res.json(member);
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to update team member');
+    }
+  });
+
+  // Admins remove teammates; any teammate can remove themselves to leave the team
+  app.delete('/api/company-team/members/:userId', isAuthenticated, requireCompanyRole('viewer'), async (req: any, res) => {
+    try {
+      const memberUserId = parseInt(req.params.userId);
+      if (isNaN(memberUserId)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+
+      await companyTeamService.removeMember(req.companyAccess, req.user.id, memberUserId);
+      res.status(204).end();
+    } catch (error) {
+      handleTeamError(res, error, 'Failed to remove team member');
+    }
+  });
+}
@@ -0,0 +1,308 @@
+import { randomBytes } from 'crypto';
+import { db } from './db';
+import { storage } from './storage';
+import { companyInvitations, companyTeamMembers, users } from '@shared/schema';
+import type {
+  CompanyInvitation, CompanyProfile, CompanyTeamMember, CompanyTeamRole, InsertCompanyInvitation, User
+} from '@shared/schema';
+import { and, asc, eq, gt, sql } from 'drizzle-orm';
+import { getUserEntitlements } from './feature-gate';
+import { notificationService } from './notification-service';
+
+// Thrown when a team action is not allowed; the message is safe to show to users
+export class CompanyTeamError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CompanyTeamError';
+  }
+}
+
+export interface CompanyAccess {
+  companyProfile: CompanyProfile;
+  role: CompanyTeamRole;
+}
+
+const ROLE_RANK: Record<CompanyTeamRole, number> = {
+  viewer: 0,
+  recruiter: 1,
+  admin: 2,
+  owner: 3
+};
+
+const INVITATION_TTL_DAYS = 7;
+// First key of the per-company two-key advisory lock that serializes seat allocation
+const SEAT_LOCK_KEY = 5150;
+
+export function hasCompanyRole(role: CompanyTeamRole, minimumRole: CompanyTeamRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+type Database = NonNullable<typeof db>;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export class CompanyTeamService {
+  // The company a user works for and their role in it: owners own the company profile, teammates
+  // have a membership row
+  async getCompanyAccess(userId: number): Promise<CompanyAccess | undefined> {
+    const ownProfile = await storage.getCompanyProfileByUserId(userId);
+    if (ownProfile) {
+      return { companyProfile: ownProfile, role: 'owner' };
+    }
+
+    // Teams need the database; without it every company is a team of one
+    if (!db) return undefined;
+
+    const [membership] = await db.select()
+      .from(companyTeamMembers)
+      .where(eq(companyTeamMembers.userId, userId));
+    if (!membership) return undefined;
+
+    const companyProfile = await storage.getCompanyProfile(membership.companyId);
+    return companyProfile ? { companyProfile, role: membership.role } : undefined;
+  }
+
+  // Like getCompanyAccess, but only when the user's role is at least `minimumRole`
+  async getCompanyAccessWithRole(userId: number, minimumRole: CompanyTeamRole): Promise<CompanyAccess | undefined> {
+    const access = await this.getCompanyAccess(userId);
+    return access && hasCompanyRole(access.role, minimumRole) ? access : undefined;
+  }
+
+  async getTeamMembers(companyProfile: CompanyProfile) {
+    const owner = await storage.getUser(companyProfile.userId);
+    const members = await getDb().select({ member: companyTeamMembers, user: users })
+      .from(companyTeamMembers)
+      .innerJoin(users, eq(companyTeamMembers.userId, users.id))
+      .where(eq(companyTeamMembers.companyId, companyProfile.id))
+      .orderBy(asc(companyTeamMembers.createdAt));
+
+    const toMember = (user: User, role: CompanyTeamRole, joinedAt: Date | null) => ({
+      userId: user.id,
+      username: user.username,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role,
+      joinedAt
+    });
+
+    return [
+      ...(owner ? [toMember(owner, 'owner', null)] : []),
+      ...members.map(({ member, user }) => toMember(user, member.role, member.createdAt))
+    ];
+  }
+
+  async getPendingInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    return getDb().select()
+      .from(companyInvitations)
+      .where(and(
+        eq(companyInvitations.companyId, companyId),
+        eq(companyInvitations.status, 'pending'),
+        gt(companyInvitations.expiresAt, new Date())
+      ))
+      .orderBy(asc(companyInvitations.createdAt));
+  }
+
+  // Seats are the owner, every teammate and every invitation that can still be accepted. The
+  // limit is the owner's plan maxTeamMembers, where null means unlimited.
+  async getSeatUsage(companyProfile: CompanyProfile, database: Database | Transaction = getDb()) {
+    const [members] = await database.select({ count: sql<number>`count(*)::int` })
+      .from(companyTeamMembers)
+      .where(eq(companyTeamMembers.companyId, companyProfile.id));
+    const [invitations] = await database.select({ count: sql<number>`count(*)::int` })
+      .from(companyInvitations)
+      .where(and(
+        eq(companyInvitations.companyId, companyProfile.id),
+        eq(companyInvitations.status, 'pending'),
+        gt(companyInvitations.expiresAt, new Date())
+      ));
+    const { plan } = await getUserEntitlements(companyProfile.userId);
+
+    return {
+      used: 1 + members.count + invitations.count,
+      limit: plan.maxTeamMembers ?? null
+    };
+  }
+
+  private async lockSeats(tx: Transaction, companyId: number) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${SEAT_LOCK_KEY}, ${companyId})`);
+  }
+
+  async inviteMember(access: CompanyAccess, inviter: User, input: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const { companyProfile } = access;
+    const email = input.email.trim().toLowerCase();
+
+    if (input.role === 'admin' && access.role !== 'owner') {
+      throw new CompanyTeamError('Only the company owner can invite admins', 403);
+    }
+
+    const existingUser = await storage.getUserByEmail(email);
+    if (existingUser) {
+      const existingAccess = await this.getCompanyAccess(existingUser.id);
+      if (existingAccess?.companyProfile.id === companyProfile.id) {
+        throw new CompanyTeamError('This user is already a member of your team');
+      }
+      if (existingAccess) {
+        throw new CompanyTeamError('This user already belongs to another company');
+      }
+    }
+
+    const invitation = await getDb().transaction(async (tx) => {
+      await this.lockSeats(tx, companyProfile.id);
+
+      const [duplicate] = await tx.select({ id: companyInvitations.id })
+        .from(companyInvitations)
+        .where(and(
+          eq(companyInvitations.companyId, companyProfile.id),
+          eq(companyInvitations.email, email),
+          eq(companyInvitations.status, 'pending'),
+          gt(companyInvitations.expiresAt, new Date())
+        ));
+      if (duplicate) {
+        throw new CompanyTeamError('An invitation has already been sent to this email');
+      }
+
+      const seats = await this.getSeatUsage(companyProfile, tx);
+      if (seats.limit !== null && seats.used >= seats.limit) {
+        throw new CompanyTeamError(
+          `Your plan includes ${seats.limit} team seats and all of them are in use. Upgrade your plan to add more teammates.`,
+          403
+        );
+      }
+
+      const [created] = await tx.insert(companyInvitations).values({
+        companyId: companyProfile.id,
+        email,
+        role: input.role,
+        token: randomBytes(32).toString('hex'),
+        invitedBy: inviter.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+      }).returning();
+      return created;
+    });
+
+    await notificationService.sendTeamInvitation(invitation, companyProfile, inviter, existingUser);
+    return invitation;
+  }
+
+  async revokeInvitation(companyId: number, invitationId: number): Promise<void> {
+    const [revoked] = await getDb().update(companyInvitations)
+      .set({ status: 'revoked' })
+      .where(and(
+        eq(companyInvitations.id, invitationId),
+        eq(companyInvitations.companyId, companyId),
+        eq(companyInvitations.status, 'pending')
+      ))
+      .returning({ id: companyInvitations.id });
+
+    if (!revoked) {
+      throw new CompanyTeamError('Invitation not found', 404);
+    }
+  }
+
+  async getInvitationByToken(token: string) {
+    const [invitation] = await getDb().select()
+      .from(companyInvitations)
+      .where(eq(companyInvitations.token, token));
+    if (!invitation) return undefined;
+
+    const companyProfile = await storage.getCompanyProfile(invitation.companyId);
+    if (!companyProfile) return undefined;
+
+    const expired = invitation.status === 'pending' && invitation.expiresAt <= new Date();
+    return { invitation, companyProfile, expired };
+  }
+
+  async acceptInvitation(token: string, user: User): Promise<CompanyAccess> {
+    const found = await this.getInvitationByToken(token);
+    if (!found || found.invitation.status === 'revoked') {
+      throw new CompanyTeamError('Invitation not found', 404);
+    }
+
+    const { invitation, companyProfile, expired } = found;
+    if (invitation.status === 'accepted') {
+      throw new CompanyTeamError('This invitation has already been accepted');
+    }
+    if (expired) {
+      throw new CompanyTeamError('This invitation has expired. Ask the company to send a new one.');
+    }
+    if (invitation.email !== user.email.trim().toLowerCase()) {
+      throw new CompanyTeamError('This invitation was sent to a different email address', 403);
+    }
+    if (user.userType !== 'company') {
+      throw new CompanyTeamError('Only company accounts can join a company team', 403);
+    }
+    if (await this.getCompanyAccess(user.id)) {
+      throw new CompanyTeamError('You already belong to a company');
+    }
+
+    // The invitation already holds a seat, so accepting never exceeds the limit it was checked against
+    await getDb().transaction(async (tx) => {
+      await this.lockSeats(tx, companyProfile.id);
+
+      const [claimed] = await tx.update(companyInvitations)
+        .set({ status: 'accepted', acceptedBy: user.id, acceptedAt: new Date() })
+        .where(and(eq(companyInvitations.id, invitation.id), eq(companyInvitations.status, 'pending')))
+        .returning({ id: companyInvitations.id });
+      if (!claimed) {
+        throw new CompanyTeamError('This invitation is no longer valid');
+      }
+
+      await tx.insert(companyTeamMembers).values({
+        companyId: companyProfile.id,
+        userId: user.id,
+        role: invitation.role,
+        invitedBy: invitation.invitedBy
+      });
+    });
+
+    return { companyProfile, role: invitation.role };
+  }
+
+  private async getMember(companyId: number, userId: number): Promise<CompanyTeamMember> {
+    const [member] = await getDb().select()
+      .from(companyTeamMembers)
+      .where(and(eq(companyTeamMembers.companyId, companyId), eq(companyTeamMembers.userId, userId)));
+    if (!member) {
+      throw new CompanyTeamError('Team member not found', 404);
+    }
+    return member;
+  }
+
+  // Admins manage recruiters and viewers; only the owner can grant or take away the admin role
+  async updateMemberRole(access: CompanyAccess, memberUserId: number, role: CompanyTeamMember['role']): Promise<CompanyTeamMember> {
+    const member = await this.getMember(access.companyProfile.id, memberUserId);
+    if ((member.role === 'admin' || role === 'admin') && access.role !== 'owner') {
+      throw new CompanyTeamError('Only the company owner can change admin roles', 403);
+    }
+
+    const [updated] = await getDb().update(companyTeamMembers)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(companyTeamMembers.id, member.id))
+      .returning();
+    return updated;
+  }
+
+  // Removes a teammate, or lets a teammate leave when `actingUserId` is the member themselves
+  async removeMember(access: CompanyAccess, actingUserId: number, memberUserId: number): Promise<void> {
+    const member = await this.getMember(access.companyProfile.id, memberUserId);
+    const leaving = actingUserId === memberUserId;
+
+    if (!leaving && !hasCompanyRole(access.role, 'admin')) {
+      throw new CompanyTeamError('Only company admins can remove teammates', 403);
+    }
+    if (!leaving && member.role === 'admin' && access.role !== 'owner') {
+      throw new CompanyTeamError('Only the company owner can remove admins', 403);
+    }
+
+    await getDb().delete(companyTeamMembers).where(eq(companyTeamMembers.id, member.id));
+  }
+}
+
+export const companyTeamService = new CompanyTeamService();
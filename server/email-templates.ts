@@ -0,0 +1,647 @@
+import { z } from 'zod';
+
+// Markup that is already safe to embed. Anything else interpolated into html`` is escaped.
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+type HtmlValue = SafeHtml | string | number | null | undefined | false | HtmlValue[];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtmlValue(value: HtmlValue): string {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(renderHtmlValue).join('');
+  if (value instanceof SafeHtml) return value.value;
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+  return new SafeHtml(strings.reduce(
+    (out, part, index) => out + part + (index < values.length ? renderHtmlValue(values[index]) : ''),
+    ''
+  ));
+}
+
+// Translations. Strings are plain text with {placeholders}; they are escaped when rendered, so
+// translators never write markup. Locales other than English may leave keys out.
+const en = {
+  'layout.footer': 'L&D Nexus - Professional Development Platform',
+  'layout.copyright': '© {year} L&D Nexus. All rights reserved.',
+  'layout.greeting': 'Hello {name},',
+  'layout.linkFallback': 'If the button does not work, copy and paste this link into your browser:',
+  'layout.unsubscribe': 'Unsubscribe from these emails',
+
+  'verification.subject': 'Welcome to L&D Nexus',
+  'verification.heading': 'Welcome to L&D Nexus!',
+  'verification.intro': "Thank you for joining L&D Nexus! We're excited to have you on board.",
+  'verification.instructions': 'Please confirm your email address to activate your account.',
+  'verification.action': 'Verify Email',
+
+  'passwordReset.subject': 'Reset your L&D Nexus password',
+  'passwordReset.heading': 'Password Reset Request',
+  'passwordReset.intro': 'You requested to reset your password for L&D Nexus. Click the button below to reset your password.',
+  'passwordReset.expiry': 'This link will expire in 1 hour.',
+  'passwordReset.ignore': "If you didn't request this, please ignore this email.",
+  'passwordReset.action': 'Reset Password',
+
+  'jobApplication.subject': 'New Application: {jobTitle}',
+  'jobApplication.heading': 'New Job Application',
+  'jobApplication.intro': 'You have received a new application for your job posting:',
+  'jobApplication.applicant': 'Applicant',
+  'jobApplication.title': 'Title',
+  'jobApplication.location': 'Location',
+  'jobApplication.coverLetter': 'Cover Letter',
+  'jobApplication.action': 'View Application',
+  'jobApplication.footnote': 'You received this email because you have email notifications enabled for job applications.',
+
+  'applicationStatus.subject.reviewed': 'Application Under Review',
+  'applicationStatus.subject.accepted': 'Application Accepted!',
+  'applicationStatus.subject.rejected': 'Application Update',
+  'applicationStatus.subject.other': 'Application Status Update',
+  'applicationStatus.message.reviewed': 'Your application is being reviewed by our team.',
+  'applicationStatus.message.accepted': 'Congratulations! Your application has been accepted.',
+  'applicationStatus.message.rejected': 'Thank you for your interest. We have decided to move forward with other candidates.',
+  'applicationStatus.message.other': 'Your application status has been updated.',
+  'applicationStatus.status': 'Status',
+  'applicationStatus.location': 'Location',
+  'applicationStatus.action': 'View Dashboard',
+
+  'escrow.action': 'View Payments',
+
+  'digest.subject.daily': 'Your daily L&D Nexus digest',
+  'digest.subject.weekly': 'Your weekly L&D Nexus digest',
+  'digest.heading.daily': 'Your Daily Digest',
+  'digest.heading.weekly': 'Your Weekly Digest',
+  'digest.intro.one': 'You have 1 new notification since your last digest:',
+  'digest.intro.other': 'You have {count} new notifications since your last digest:',
+  'digest.open': 'Open',
+  'digest.action': 'Go to Dashboard',
+
+  'jobAlert.subject': 'New job for "{searchName}": {jobTitle}',
+  'jobAlert.heading': 'A New Job Matches Your Search',
+  'jobAlert.intro': 'A job was just posted that matches your saved search "{searchName}":',
+  'jobAlert.company': 'Company',
+  'jobAlert.location': 'Location',
+  'jobAlert.jobType': 'Type',
+  'jobAlert.compensation': 'Compensation',
+  'jobAlert.remote': 'Remote',
+  'jobAlert.action': 'View Job',
+  'jobAlert.manage': 'Manage your job alerts: {manageUrl}',
+
+  'teamInvitation.subject': "You're invited to join {companyName}",
+  'teamInvitation.heading': 'Join {companyName} on L&D Nexus',
+  'teamInvitation.message': '{inviterName} invited you to join {companyName} as {role}.',
+  'teamInvitation.instructions': 'Sign in or create a company account with {email} to accept. This invitation expires on {expiresAt}.',
+  'teamInvitation.action': 'View Invitation',
+  'teamInvitation.role.admin': 'an admin',
+  'teamInvitation.role.recruiter': 'a recruiter',
+  'teamInvitation.role.viewer': 'a viewer'
+};
+
+type MessageKey = keyof typeof en;
+
+const catalogs = {
+  en
+} satisfies Record<string, Partial<Record<MessageKey, string>>>;
+
+export type EmailLocale = keyof typeof catalogs;
+export const EMAIL_LOCALES = Object.keys(catalogs) as EmailLocale[];
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export interface TemplateContext {
+  locale: EmailLocale;
+  t(key: MessageKey, params?: Record<string, string | number>): string;
+  formatDate(date: Date): string;
+}
+
+function createContext(locale: EmailLocale): TemplateContext {
+  const catalog: Partial<Record<MessageKey, string>> = catalogs[locale];
+  return {
+    locale,
+    t: (key, params = {}) => (catalog[key] ?? en[key]).replace(
+      /\{(\w+)\}/g,
+      (placeholder, name) => (name in params ? String(params[name]) : placeholder)
+    ),
+    formatDate: (date) => new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' }).format(date) + ' UTC'
+  };
+}
+
+// Templates describe their content as blocks; the layout turns them into both the HTML and the
+// plain-text part, so user-supplied values only ever reach the HTML escaped.
+type EmailBlock =
+  | { kind: 'paragraph'; text: string; strong?: boolean }
+  | { kind: 'details'; title: string; rows: [label: string, value: string][] }
+  | { kind: 'quote'; label: string; text: string }
+  | { kind: 'items'; items: { title: string; text: string; meta: string; link?: { label: string; url: string } }[] };
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  greeting?: string;
+  blocks: EmailBlock[];
+  action?: { label: string; url: string };
+  footnote?: string;
+  // One-click unsubscribe link for notification emails; also sent as the List-Unsubscribe header
+  unsubscribeUrl?: string;
+}
+
+const ACCENT_COLORS = {
+  primary: '#2563eb',
+  success: '#10b981',
+  danger: '#ef4444'
+};
+
+interface LayoutOptions {
+  accent: keyof typeof ACCENT_COLORS;
+  // Account emails print the action link as text too, for clients that strip buttons
+  showLinkFallback: boolean;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  unsubscribeUrl?: string;
+}
+
+function renderBlockHtml(block: EmailBlock): SafeHtml {
+  switch (block.kind) {
+    case 'paragraph':
+      return block.strong ? html`<p><strong>${block.text}</strong></p>` : html`<p>${block.text}</p>`;
+    case 'details':
+      return html`
+            <div class="panel">
+              <h3>${block.title}</h3>
+              ${block.rows.map(([label, value]) => html`<p><strong>${label}:</strong> ${value}</p>`)}
+            </div>`;
+    case 'quote':
+      return html`<p><strong>${block.label}:</strong></p><p class="quote">${block.text}</p>`;
+    case 'items':
+      return html`${block.items.map(item => html`
+            <div class="panel">
+              <h3>${item.title}</h3>
+              <p>${item.text}</p>
+              <p class="meta">${item.meta}${item.link ? html` · <a href="${item.link.url}">${item.link.label}</a>` : ''}</p>
+            </div>`)}`;
+  }
+}
+
+function renderBlockText(block: EmailBlock): string {
+  switch (block.kind) {
+    case 'paragraph':
+      return block.text;
+    case 'details':
+      return [block.title, ...block.rows.map(([label, value]) => `${label}: ${value}`)].join('\n');
+    case 'quote':
+      return `${block.label}:\n${block.text.split('\n').map(line => `> ${line}`).join('\n')}`;
+    case 'items':
+      return block.items
+        .map(item => [`* ${item.title}`, `  ${item.text}`, `  ${item.meta}${item.link ? ` - ${item.link.url}` : ''}`].join('\n'))
+        .join('\n\n');
+  }
+}
+
+function renderLayout(content: EmailContent, options: LayoutOptions, context: TemplateContext): RenderedEmail {
+  const accent = ACCENT_COLORS[options.accent];
+  const footer = [context.t('layout.footer'), context.t('layout.copyright', { year: new Date().getFullYear() })];
+
+  const body = html`<!DOCTYPE html>
+<html lang="${context.locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: ${accent}; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+    .content { padding: 30px 20px; background: #f9fafb; border-radius: 0 0 10px 10px; }
+    .panel { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .quote { font-style: italic; white-space: pre-wrap; }
+    .button { display: inline-block; padding: 12px 24px; background: ${accent}; color: white !important; text-decoration: none; border-radius: 6px; font-weight: bold; }
+    .link-text { word-break: break-all; color: ${accent}; font-size: 12px; }
+    .meta { color: #666; font-size: 12px; }
+    .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
+    @media (max-width: 600px) {
+      .container { padding: 10px; }
+      .content { padding: 20px; }
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${content.heading}</h1>
+    </div>
+    <div class="content">
+      ${content.greeting ? html`<h2>${content.greeting}</h2>` : ''}
+      ${content.blocks.map(renderBlockHtml)}
+      ${content.action ? html`
+      <p style="text-align: center;">
+        <a href="${content.action.url}" class="button">${content.action.label}</a>
+      </p>` : ''}
+      ${content.action && options.showLinkFallback ? html`
+      <p>${context.t('layout.linkFallback')}</p>
+      <p class="link-text">${content.action.url}</p>` : ''}
+    </div>
+    <div class="footer">
+      ${footer.map(line => html`<p>${line}</p>`)}
+      ${content.footnote ? html`<p>${content.footnote}</p>` : ''}
+      ${content.unsubscribeUrl ? html`<p><a href="${content.unsubscribeUrl}">${context.t('layout.unsubscribe')}</a></p>` : ''}
+    </div>
+  </div>
+</body>
+</html>
+`;
+
+  const text = [
+    content.heading,
+    content.greeting,
+    ...content.blocks.map(renderBlockText),
+    content.action && `${content.action.label}: ${content.action.url}`,
+    [
+      '--',
+      ...footer,
+      content.footnote,
+      content.unsubscribeUrl && `${context.t('layout.unsubscribe')}: ${content.unsubscribeUrl}`
+    ].filter(Boolean).join('\n')
+  ].filter(Boolean).join('\n\n');
+
+  return { subject: content.subject, html: body.value, text: `${text}\n`, unsubscribeUrl: content.unsubscribeUrl };
+}
+
+interface EmailTemplate<S extends z.ZodTypeAny> {
+  description: string;
+  variables: S;
+  // Variables used by the admin preview
+  sample: z.input<S>;
+  layout: LayoutOptions | ((variables: z.infer<S>) => LayoutOptions);
+  render(variables: z.infer<S>, context: TemplateContext): EmailContent;
+}
+
+const defineTemplate = <S extends z.ZodTypeAny>(template: EmailTemplate<S>) => template;
+
+const accountLayout: LayoutOptions = { accent: 'primary', showLinkFallback: true };
+const notificationLayout: LayoutOptions = { accent: 'primary', showLinkFallback: false };
+
+export const emailTemplates = {
+  'email-verification': defineTemplate({
+    description: 'Sent after registration to confirm the email address',
+    variables: z.object({
+      firstName: z.string(),
+      verificationUrl: z.string().url()
+    }),
+    sample: { firstName: 'Ada', verificationUrl: 'http://localhost:5000/verify-email?token=sample' },
+    layout: accountLayout,
+    render: (vars, { t }) => ({
+      subject: t('verification.subject'),
+      heading: t('verification.heading'),
+      greeting: t('layout.greeting', { name: vars.firstName }),
+      blocks: [
+        { kind: 'paragraph', text: t('verification.intro') },
+        { kind: 'paragraph', text: t('verification.instructions') }
+      ],
+      action: { label: t('verification.action'), url: vars.verificationUrl }
+    })
+  }),
+
+  'password-reset': defineTemplate({
+    description: 'Password reset link, valid for one hour',
+    variables: z.object({
+      firstName: z.string(),
+      resetUrl: z.string().url()
+    }),
+    sample: { firstName: 'Ada', resetUrl: 'http://localhost:5000/reset-password?token=sample' },
+    layout: { ...accountLayout, accent: 'danger' },
+    render: (vars, { t }) => ({
+      subject: t('passwordReset.subject'),
+      heading: t('passwordReset.heading'),
+      greeting: t('layout.greeting', { name: vars.firstName }),
+      blocks: [
+        { kind: 'paragraph', text: t('passwordReset.intro') },
+        { kind: 'paragraph', text: t('passwordReset.expiry'), strong: true },
+        { kind: 'paragraph', text: t('passwordReset.ignore') }
+      ],
+      action: { label: t('passwordReset.action'), url: vars.resetUrl }
+    })
+  }),
+
+  'job-application': defineTemplate({
+    description: 'Tells a company about a new application to one of its jobs',
+    variables: z.object({
+      companyName: z.string(),
+      jobTitle: z.string(),
+      applicantName: z.string(),
+      applicantTitle: z.string().nullish(),
+      applicantLocation: z.string().nullish(),
+      coverLetter: z.string().nullish(),
+      applicationUrl: z.string().url(),
+      unsubscribeUrl: z.string().url().optional()
+    }),
+    sample: {
+      companyName: 'Acme Corp',
+      jobTitle: 'Leadership Workshop Facilitator',
+      applicantName: 'Ada Lovelace',
+      applicantTitle: 'Senior L&D Consultant',
+      applicantLocation: 'London, UK',
+      coverLetter: 'I have run leadership programmes for <10 years> & would love to help.',
+      applicationUrl: 'http://localhost:5000/job-applications/1'
+    },
+    layout: notificationLayout,
+    render: (vars, { t }) => ({
+      subject: t('jobApplication.subject', { jobTitle: vars.jobTitle }),
+      heading: t('jobApplication.heading'),
+      greeting: t('layout.greeting', { name: vars.companyName }),
+      blocks: [
+        { kind: 'paragraph', text: t('jobApplication.intro') },
+        {
+          kind: 'details',
+          title: vars.jobTitle,
+          rows: [
+            [t('jobApplication.applicant'), vars.applicantName],
+            ...(vars.applicantTitle ? [[t('jobApplication.title'), vars.applicantTitle] as [string, string]] : []),
+            ...(vars.applicantLocation ? [[t('jobApplication.location'), vars.applicantLocation] as [string, string]] : [])
+          ]
+        },
+        ...(vars.coverLetter ? [{ kind: 'quote' as const, label: t('jobApplication.coverLetter'), text: vars.coverLetter }] : [])
+      ],
+      action: { label: t('jobApplication.action'), url: vars.applicationUrl },
+      footnote: t('jobApplication.footnote'),
+      unsubscribeUrl: vars.unsubscribeUrl
+    })
+  }),
+
+  'application-status': defineTemplate({
+    description: "Tells a professional their application's status changed",
+    variables: z.object({
+      firstName: z.string(),
+      jobTitle: z.string(),
+      jobLocation: z.string().nullish(),
+      status: z.string(),
+      dashboardUrl: z.string().url(),
+      unsubscribeUrl: z.string().url().optional()
+    }),
+    sample: {
+      firstName: 'Ada',
+      jobTitle: 'Leadership Workshop Facilitator',
+      jobLocation: 'Remote',
+      status: 'accepted',
+      dashboardUrl: 'http://localhost:5000/dashboard'
+    },
+    layout: (vars) => ({
+      ...notificationLayout,
+      accent: vars.status === 'accepted' ? 'success' : vars.status === 'rejected' ? 'danger' : 'primary'
+    }),
+    render: (vars, { t }) => {
+      const outcome = ['reviewed', 'accepted', 'rejected'].includes(vars.status)
+        ? vars.status as 'reviewed' | 'accepted' | 'rejected'
+        : 'other';
+      return {
+        subject: t(`applicationStatus.subject.${outcome}`),
+        heading: t(`applicationStatus.subject.${outcome}`),
+        greeting: t('layout.greeting', { name: vars.firstName }),
+        blocks: [
+          { kind: 'paragraph', text: t(`applicationStatus.message.${outcome}`) },
+          {
+            kind: 'details',
+            title: vars.jobTitle,
+            rows: [
+              [t('applicationStatus.status'), vars.status.charAt(0).toUpperCase() + vars.status.slice(1)],
+              ...(vars.jobLocation ? [[t('applicationStatus.location'), vars.jobLocation] as [string, string]] : [])
+            ]
+          }
+        ],
+        action: { label: t('applicationStatus.action'), url: vars.dashboardUrl },
+        unsubscribeUrl: vars.unsubscribeUrl
+      };
+    }
+  }),
+
+  // Escrow messages are composed by the escrow service, which knows the amounts and deadlines
+  'escrow-notice': defineTemplate({
+    description: 'Escrow auto-release warnings and dispute updates',
+    variables: z.object({
+      firstName: z.string(),
+      subject: z.string(),
+      heading: z.string(),
+      message: z.string(),
+      paymentsUrl: z.string().url(),
+      unsubscribeUrl: z.string().url().optional()
+    }),
+    sample: {
+      firstName: 'Ada',
+      subject: 'Escrow funds are about to be released',
+      heading: 'Escrow Auto-Release Scheduled',
+      message: '$1,200.00 held in escrow for "Leadership workshop" will be released to you on Mon, 02 Nov 2026 12:00:00 GMT.',
+      paymentsUrl: 'http://localhost:5000/professional-dashboard'
+    },
+    layout: notificationLayout,
+    render: (vars, { t }) => ({
+      subject: vars.subject,
+      heading: vars.heading,
+      greeting: t('layout.greeting', { name: vars.firstName }),
+      blocks: [{ kind: 'paragraph', text: vars.message }],
+      action: { label: t('escrow.action'), url: vars.paymentsUrl },
+      unsubscribeUrl: vars.unsubscribeUrl
+    })
+  }),
+
+  'notification-digest': defineTemplate({
+    description: 'Daily or weekly summary of unread notifications',
+    variables: z.object({
+      firstName: z.string(),
+      frequency: z.enum(['daily', 'weekly']),
+      notifications: z.array(z.object({
+        title: z.string(),
+        message: z.string(),
+        url: z.string().url().nullish(),
+        createdAt: z.coerce.date()
+      })).min(1),
+      dashboardUrl: z.string().url(),
+      unsubscribeUrl: z.string().url()
+    }),
+    sample: {
+      firstName: 'Ada',
+      frequency: 'daily',
+      notifications: [
+        {
+          title: 'New Job Application',
+          message: 'Grace Hopper applied for Leadership Workshop Facilitator',
+          url: 'http://localhost:5000/job-applications/1',
+          createdAt: new Date('2026-10-18T09:30:00Z')
+        },
+        {
+          title: 'Escrow Auto-Release Scheduled',
+          message: '$1,200.00 held in escrow for "Leadership workshop" will be released to the professional on Mon, 02 Nov 2026 12:00:00 GMT unless you raise a dispute.',
+          url: 'http://localhost:5000/company-dashboard',
+          createdAt: new Date('2026-10-18T14:05:00Z')
+        }
+      ],
+      dashboardUrl: 'http://localhost:5000/dashboard',
+      unsubscribeUrl: 'http://localhost:5000/unsubscribe?token=sample'
+    },
+    layout: notificationLayout,
+    render: (vars, { t, formatDate }) => ({
+      subject: t(`digest.subject.${vars.frequency}`),
+      heading: t(`digest.heading.${vars.frequency}`),
+      greeting: t('layout.greeting', { name: vars.firstName }),
+      blocks: [
+        {
+          kind: 'paragraph',
+          text: vars.notifications.length === 1
+            ? t('digest.intro.one')
+            : t('digest.intro.other', { count: vars.notifications.length })
+        },
+        {
+          kind: 'items',
+          items: vars.notifications.map(notification => ({
+            title: notification.title,
+            text: notification.message,
+            meta: formatDate(notification.createdAt),
+            link: notification.url ? { label: t('digest.open'), url: notification.url } : undefined
+          }))
+        }
+      ],
+      action: { label: t('digest.action'), url: vars.dashboardUrl },
+      unsubscribeUrl: vars.unsubscribeUrl
+    })
+  }),
+
+  'job-alert': defineTemplate({
+    description: 'Tells a professional about a new job matching one of their saved searches',
+    variables: z.object({
+      firstName: z.string(),
+      searchName: z.string(),
+      jobTitle: z.string(),
+      companyName: z.string(),
+      location: z.string(),
+      jobType: z.string(),
+      remote: z.boolean(),
+      compensation: z.string().nullish(),
+      jobUrl: z.string().url(),
+      manageUrl: z.string().url(),
+      unsubscribeUrl: z.string().url().optional()
+    }),
+    sample: {
+      firstName: 'Ada',
+      searchName: 'Remote facilitation',
+      jobTitle: 'Leadership Workshop Facilitator',
+      companyName: 'Acme Corp',
+      location: 'Dubai, UAE',
+      jobType: 'contract',
+      remote: true,
+      compensation: '$80 - $120 hourly',
+      jobUrl: 'http://localhost:5000/job/1',
+      manageUrl: 'http://localhost:5000/job-alerts'
+    },
+    layout: notificationLayout,
+    render: (vars, { t }) => ({
+      subject: t('jobAlert.subject', { searchName: vars.searchName, jobTitle: vars.jobTitle }),
+      heading: t('jobAlert.heading'),
+      greeting: t('layout.greeting', { name: vars.firstName }),
+      blocks: [
+        { kind: 'paragraph', text: t('jobAlert.intro', { searchName: vars.searchName }) },
+        {
+          kind: 'details',
+          title: vars.jobTitle,
+          rows: [
+            [t('jobAlert.company'), vars.companyName],
+            [t('jobAlert.location'), vars.remote ? `${vars.location} (${t('jobAlert.remote')})` : vars.location],
+            [t('jobAlert.jobType'), vars.jobType],
+            ...(vars.compensation ? [[t('jobAlert.compensation'), vars.compensation] as [string, string]] : [])
+          ]
+        }
+      ],
+      action: { label: t('jobAlert.action'), url: vars.jobUrl },
+      footnote: t('jobAlert.manage', { manageUrl: vars.manageUrl }),
+      unsubscribeUrl: vars.unsubscribeUrl
+    })
+  }),
+
+  'team-invitation': defineTemplate({
+    description: 'Invites an email address to join a company team',
+    variables: z.object({
+      companyName: z.string(),
+      inviterName: z.string(),
+      role: z.enum(['admin', 'recruiter', 'viewer']),
+      email: z.string().email(),
+      expiresAt: z.coerce.date(),
+      invitationUrl: z.string().url()
+    }),
+    sample: {
+      companyName: 'Acme Corp',
+      inviterName: 'Grace Hopper',
+      role: 'recruiter',
+      email: 'ada@example.com',
+      expiresAt: new Date('2026-11-01T12:00:00Z'),
+      invitationUrl: 'http://localhost:5000/team-invitations/sample'
+    },
+    layout: notificationLayout,
+    render: (vars, { t, formatDate }) => ({
+      subject: t('teamInvitation.subject', { companyName: vars.companyName }),
+      heading: t('teamInvitation.heading', { companyName: vars.companyName }),
+      blocks: [
+        {
+          kind: 'paragraph',
+          text: t('teamInvitation.message', {
+            inviterName: vars.inviterName,
+            companyName: vars.companyName,
+            role: t(`teamInvitation.role.${vars.role}`)
+          })
+        },
+        {
+          kind: 'paragraph',
+          text: t('teamInvitation.instructions', { email: vars.email, expiresAt: formatDate(vars.expiresAt) })
+        }
+      ],
+      action: { label: t('teamInvitation.action'), url: vars.invitationUrl }
+    })
+  })
+};
+
+export type EmailTemplateName = keyof typeof emailTemplates;
+export type EmailTemplateVariables<N extends EmailTemplateName> = z.input<(typeof emailTemplates)[N]['variables']>;
+
+export const isEmailTemplateName = (name: string): name is EmailTemplateName =>
+  Object.prototype.hasOwnProperty.call(emailTemplates, name);
+
+export const isEmailLocale = (locale: string): locale is EmailLocale =>
+  Object.prototype.hasOwnProperty.call(catalogs, locale);
+
+// Validates the variables against the template's schema, so a ZodError means the caller passed bad data
+export function renderEmail<N extends EmailTemplateName>(
+  name: N,
+  variables: EmailTemplateVariables<N>,
+  locale: EmailLocale = DEFAULT_EMAIL_LOCALE
+): RenderedEmail {
+  const template: EmailTemplate<any> = emailTemplates[name];
+  const parsed = template.variables.parse(variables);
+  const layout = typeof template.layout === 'function' ? template.layout(parsed) : template.layout;
+  const context = createContext(locale);
+  return renderLayout(template.render(parsed, context), layout, context);
+}
+
+export function listEmailTemplates() {
+  return (Object.keys(emailTemplates) as EmailTemplateName[]).map(name => ({
+    name,
+    description: emailTemplates[name].description,
+    variables: Object.keys((emailTemplates[name].variables as z.AnyZodObject).shape),
+    sample: emailTemplates[name].sample
+  }));
+}
+
+// Render a template with its sample variables, overridden by any the admin supplies
+export function previewEmail(name: EmailTemplateName, locale: EmailLocale, overrides: Record<string, unknown> = {}): RenderedEmail {
+  return renderEmail(name, { ...emailTemplates[name].sample, ...overrides } as EmailTemplateVariables<typeof name>, locale);
+}
@@ -0,0 +1,132 @@
+import { MailService } from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface EmailMessage {
+  to: string;
+  from: { name: string; address: string };
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: 'sendgrid' | 'smtp' | 'outbox';
+  send(message: EmailMessage): Promise<void>;
+  // Resolves when the transport can deliver mail, rejects with the reason otherwise
+  verify(): Promise<void>;
+}
+
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+  private mailService = new MailService();
+
+  constructor(apiKey: string) {
+    this.mailService.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage) {
+    await this.mailService.send({
+      to: message.to,
+      from: { name: message.from.name, email: message.from.address },
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers
+    });
+  }
+
+  async verify() {}
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private transporter: nodemailer.Transporter) {}
+
+  async send(message: EmailMessage) {
+    await this.transporter.sendMail(message);
+  }
+
+  async verify() {
+    await this.transporter.verify();
+  }
+}
+
+// Writes each message to EMAIL_OUTBOX_DIR instead of sending it: a .html file to open in a
+// browser and a .json file with every part. The most recent messages are also kept in memory.
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox';
+  readonly sent: EmailMessage[] = [];
+  private static readonly MAX_KEPT = 100;
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage) {
+    this.sent.push(message);
+    if (this.sent.length > OutboxEmailTransport.MAX_KEPT) {
+      this.sent.shift();
+    }
+
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+    const basename = path.join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}`);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${basename}.html`, message.html);
+    await writeFile(`${basename}.json`, JSON.stringify(message, null, 2));
+    console.log(`Email "${message.subject}" to ${message.to} written to ${basename}.html`);
+  }
+
+  async verify() {
+    await mkdir(this.directory, { recursive: true });
+  }
+}
+
+// EMAIL_TRANSPORT picks the implementation. Without it, SendGrid is used when an API key is
+// configured, then SMTP when a host or Gmail account is, and the outbox otherwise.
+function createEmailTransport(): EmailTransport {
+  const requested = process.env.EMAIL_TRANSPORT;
+  const name = requested || (
+    process.env.SENDGRID_API_KEY ? 'sendgrid'
+      : process.env.SMTP_HOST || process.env.EMAIL_USER ? 'smtp'
+        : 'outbox'
+  );
+
+  if (name === 'sendgrid') {
+    if (!process.env.SENDGRID_API_KEY) {
+      throw new Error('Missing required SendGrid secret: SENDGRID_API_KEY');
+    }
+    return new SendGridEmailTransport(process.env.SENDGRID_API_KEY);
+  }
+
+  if (name === 'smtp') {
+    if (process.env.SMTP_HOST) {
+      return new SmtpEmailTransport(nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+      }));
+    }
+    if (!process.env.EMAIL_USER) {
+      throw new Error('SMTP email requires SMTP_HOST, or EMAIL_USER and EMAIL_PASSWORD for Gmail');
+    }
+    return new SmtpEmailTransport(nodemailer.createTransport({
+      service: 'gmail',
+      auth: { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASSWORD }
+    }));
+  }
+
+  if (name === 'outbox') {
+    const directory = path.resolve(process.env.EMAIL_OUTBOX_DIR || '.email-outbox');
+    if (process.env.NODE_ENV === 'production') {
+      console.warn(`No email provider is configured; emails are written to ${directory} and not delivered`);
+    }
+    return new OutboxEmailTransport(directory);
+  }
+
+  throw new Error(`Unknown EMAIL_TRANSPORT: ${requested}`);
+}
+
+export const emailTransport = createEmailTransport();
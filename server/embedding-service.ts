@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { and, cosineDistance, eq, inArray, sql } from 'drizzle-orm';
+import { db } from './db';
+import { generateEmbedding, jobEmbeddingText, profileEmbeddingText } from './ai-services';
+import { llmService } from './llm-service';
+import { storage } from './storage';
+import { VectorIndex } from './vector-index';
+import type { VectorMatch } from './vector-index';
+import { EMBEDDING_DIMENSIONS, EMBEDDING_ENTITY_TYPES, embeddings } from '@shared/schema';
+import type { EmbeddingEntityType, JobPosting, ProfessionalProfile } from '@shared/schema';
+
+// Hash of the text an embedding is made from. Includes the provider and model, so switching
+// either, or refitting a corpus-based model, recomputes every embedding.
+export function contentHash(text: string): string {
+  return createHash('sha256').update(`${llmService.embeddingModel}\n${text}`).digest('hex');
+}
+
+export const profileContentHash = (profile: ProfessionalProfile) => contentHash(profileEmbeddingText(profile));
+export const jobContentHash = (job: JobPosting) => contentHash(jobEmbeddingText(job));
+
+interface EmbeddingSource {
+  id: number;
+  text: string;
+}
+
+// Embeddings of profiles and jobs, stored in Postgres and searched through its pgvector index,
+// or kept in memory with an LSH index when there is no database. An embedding is only requested
+// from the embedding provider again when the text it was made from or the model changes.
+export class EmbeddingService {
+  private memoryHashes = new Map<string, string>();
+  private memoryIndexes = new Map<EmbeddingEntityType, VectorIndex>(
+    EMBEDDING_ENTITY_TYPES.map(type => [type, new VectorIndex(EMBEDDING_DIMENSIONS)])
+  );
+
+  async embedProfile(profile: ProfessionalProfile): Promise<number[] | null> {
+    return this.embed('professional_profile', { id: profile.id, text: profileEmbeddingText(profile) });
+  }
+
+  async embedJob(job: JobPosting): Promise<number[] | null> {
+    return this.embed('job_posting', { id: job.id, text: jobEmbeddingText(job) });
+  }
+
+  // Embeds the profiles whose text changed since they were last embedded
+  async syncProfiles(profiles: ProfessionalProfile[]): Promise<number> {
+    return this.sync('professional_profile', profiles.map(profile => ({ id: profile.id, text: profileEmbeddingText(profile) })));
+  }
+
+  async syncJobs(jobs: JobPosting[]): Promise<number> {
+    return this.sync('job_posting', jobs.map(job => ({ id: job.id, text: jobEmbeddingText(job) })));
+  }
+
+  async remove(entityType: EmbeddingEntityType, entityId: number): Promise<void> {
+    if (!db) {
+      this.memoryHashes.delete(`${entityType}:${entityId}`);
+      this.memoryIndexes.get(entityType)!.delete(entityId);
+      return;
+    }
+    await db.delete(embeddings)
+      .where(and(eq(embeddings.entityType, entityType), eq(embeddings.entityId, entityId)));
+  }
+
+  // The `limit` stored embeddings of the type most similar to the vector, most similar first.
+  // Only the given entities are searched, so stale embeddings of closed jobs or hidden profiles
+  // cannot crowd out the ones that can still be matched.
+  async nearest(entityType: EmbeddingEntityType, vector: number[], limit: number, among: number[]): Promise<VectorMatch[]> {
+    if (among.length === 0) return [];
+    if (!db) {
+      return this.memoryIndexes.get(entityType)!.nearest(vector, limit, new Set(among));
+    }
+
+    const distance = cosineDistance(embeddings.embedding, vector);
+    return db.select({ id: embeddings.entityId, similarity: sql<number>`1 - (${distance})`.mapWith(Number) })
+      .from(embeddings)
+      .where(and(eq(embeddings.entityType, entityType), inArray(embeddings.entityId, among)))
+      .orderBy(distance)
+      .limit(limit);
+  }
+
+  private async embed(entityType: EmbeddingEntityType, source: EmbeddingSource): Promise<number[] | null> {
+    await this.fitCorpus();
+    if (!db) {
+      const index = this.memoryIndexes.get(entityType)!;
+      if (this.memoryHashes.get(`${entityType}:${source.id}`) === contentHash(source.text)) {
+        return index.get(source.id) ?? null;
+      }
+      return this.store(entityType, source);
+    }
+
+    const [stored] = await db.select({ contentHash: embeddings.contentHash, embedding: embeddings.embedding })
+      .from(embeddings)
+      .where(and(eq(embeddings.entityType, entityType), eq(embeddings.entityId, source.id)));
+    if (stored?.contentHash === contentHash(source.text)) {
+      return stored.embedding;
+    }
+    return this.store(entityType, source);
+  }
+
+  private async sync(entityType: EmbeddingEntityType, sources: EmbeddingSource[]): Promise<number> {
+    await this.fitCorpus();
+    const hashes = await this.storedHashes(entityType);
+    const stale = sources.filter(source => hashes.get(source.id) !== contentHash(source.text));
+
+    // One at a time, to stay inside the provider's rate limits
+    let refreshed = 0;
+    for (const source of stale) {
+      if (await this.store(entityType, source)) refreshed++;
+    }
+    return refreshed;
+  }
+
+  // Corpus-based embeddings are fitted to every profile and job before any is embedded, so jobs
+  // and profiles share one vector space. A changed corpus changes the model and so every hash.
+  private async fitCorpus(): Promise<void> {
+    if (!llmService.embeddingsNeedCorpus) return;
+    const [profiles, jobs] = await Promise.all([storage.getAllProfessionalProfiles(), storage.getAllJobPostings()]);
+    llmService.fitEmbeddings([...profiles.map(profileEmbeddingText), ...jobs.map(jobEmbeddingText)]);
+  }
+
+  private async storedHashes(entityType: EmbeddingEntityType): Promise<Map<number, string>> {
+    const hashes = new Map<number, string>();
+    if (!db) {
+      const prefix = `${entityType}:`;
+      this.memoryHashes.forEach((hash, key) => {
+        if (key.startsWith(prefix)) hashes.set(Number(key.slice(prefix.length)), hash);
+      });
+      return hashes;
+    }
+
+    const rows = await db.select({ entityId: embeddings.entityId, contentHash: embeddings.contentHash })
+      .from(embeddings)
+      .where(eq(embeddings.entityType, entityType));
+    rows.forEach(row => hashes.set(row.entityId, row.contentHash));
+    return hashes;
+  }
+
+  private async store(entityType: EmbeddingEntityType, source: EmbeddingSource): Promise<number[] | null> {
+    const vector = await generateEmbedding(source.text);
+    if (!vector) return null;
+    if (vector.length !== EMBEDDING_DIMENSIONS) {
+      console.error(`Embedding for ${entityType} ${source.id} has ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+      return null;
+    }
+
+    const hash = contentHash(source.text);
+    if (!db) {
+      this.memoryHashes.set(`${entityType}:${source.id}`, hash);
+      this.memoryIndexes.get(entityType)!.set(source.id, vector);
+      return vector;
+    }
+
+    await db.insert(embeddings)
+      .values({ entityType, entityId: source.id, contentHash: hash, embedding: vector })
+      .onConflictDoUpdate({
+        target: [embeddings.entityType, embeddings.entityId],
+        set: { contentHash: hash, embedding: vector, updatedAt: new Date() }
+      });
+    return vector;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -1,19 +1,18 @@
 import { Express } from 'express';
-import Stripe from 'stripe';
+import multer from 'multer';
+import fs from 'fs';
+import path from 'path';
 import { db } from './db';
 import { users, escrowTransactions, transactionHistory } from '@shared/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { escrowService, EscrowStateError, AUTO_RELEASE_WARNING_HOURS } from './escrow-service';
+import { paymentProvider } from './payment-provider';
+import { can, requirePermission } from './access-policy';
+import type { EscrowDispute, EscrowDisputeEvidence, User } from '@shared/schema';
 import dotenv from 'dotenv';
 dotenv.config();
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2023-10-16" as any,
-});
-
 const isAuthenticated = (req: any, res: any, next: any) => {
   if (!req.user) {
     return res.status(401).json({ message: 'Authentication required' });
@@ -21,6 +20,91 @@ const isAuthenticated = (req: any, res: any, next: any) => {
   next();
 };
 
+const milestoneContractSchema = z.object({
+  trainerId: z.number().int().positive(),
+  currency: z.string().default('USD'),
+  jobPostingId: z.number().int().optional(),
+  bookingId: z.number().int().optional(),
+  description: z.string().optional(),
+  milestones: z.array(z.object({
+    title: z.string().min(1),
+    deliverable: z.string().min(1),
+    amount: z.number().int().min(100), // At least 1.00 in cents
+    dueDate: z.coerce.date().optional()
+  })).min(1).max(20)
+});
+
+const openDisputeSchema = z.object({
+  reason: z.string().trim().min(3).max(200),
+  details: z.string().trim().min(10).max(5000)
+});
+
+const disputeResponseSchema = z.object({
+  response: z.string().trim().min(10).max(5000)
+});
+
+const resolveDisputeSchema = z.object({
+  outcome: z.enum(['release', 'refund', 'split']),
+  refundAmount: z.number().int().positive().optional(), // Cents, required for a split
+  note: z.string().trim().min(3).max(2000)
+}).refine(data => data.outcome !== 'split' || data.refundAmount !== undefined, {
+  message: 'A split needs a refund amount',
+  path: ['refundAmount']
+});
+
+const DISPUTE_STATUSES = [
+  'opened', 'awaiting_response', 'under_review', 'resolved_release', 'resolved_refund', 'resolved_split'
+] as const;
+
+// Dispute evidence is private and only served through /api/payments/disputes/evidence/:id
+const disputeEvidenceStorage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    const uploadDir = 'uploads/disputes';
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: function (req, file, cb) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(file.originalname);
+    cb(null, 'evidence-' + uniqueSuffix + ext);
+  }
+});
+
+const uploadDisputeEvidence = multer({
+  storage: disputeEvidenceStorage,
+  limits: {
+    fileSize: 25 * 1024 * 1024 // 25MB in bytes
+  },
+  fileFilter: (req, file, cb) => {
+    if (!file.originalname.match(/\.(pdf|doc|docx|xls|xlsx|ppt|pptx|txt|zip|jpg|jpeg|png|gif|webp)$/i)) {
+      return cb(new Error('Only document and image files are allowed!'));
+    }
+    cb(null, true);
+  }
+});
+
+// Evidence without its location on disk
+const toEvidenceResponse = ({ filePath, ...evidence }: EscrowDisputeEvidence) => evidence;
+
+const withEvidence = async (dispute: EscrowDispute) => ({
+  ...dispute,
+  evidence: (await escrowService.getDisputeEvidence(dispute.id)).map(toEvidenceResponse)
+});
+
+// Map escrow workflow errors to responses: state errors are shown to the user, anything else is a 500
+const handleEscrowError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof EscrowStateError) {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
 export function registerEscrowRoutes(app: Express) {
   
   // Create Stripe Connect account for trainers
@@ -37,7 +121,7 @@ export function registerEscrowRoutes(app: Express) {
         return res.status(400).json({ message: 'Connect account already exists' });
       }
 
-      const account = await stripe.accounts.create({
+      const account = await paymentProvider.createAccount({
         type: 'express',
         country: 'US',
         email: user[0].email,
@@ -54,7 +138,7 @@ export function registerEscrowRoutes(app: Express) {
         .where(eq(users.id, userId));
 
       // Create account link for onboarding
-      const accountLink = await stripe.accountLinks.create({
+      const accountLink = await paymentProvider.createAccountLink({
         account: account.id,
         refresh_url: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/professional-dashboard?setup=refresh`,
         return_url: `${process.env.FRONTEND_URL || 'http://localhost:5000'}/professional-dashboard?setup=complete`,
@@ -81,7 +165,7 @@ export function registerEscrowRoutes(app: Express) {
         return res.json({ hasAccount: false, isComplete: false });
       }
 
-      const account = await stripe.accounts.retrieve(user[0].stripeConnectAccountId);
+      const account = await paymentProvider.retrieveAccount(user[0].stripeConnectAccountId);
       
       res.json({
         hasAccount: true,
@@ -121,7 +205,7 @@ export function registerEscrowRoutes(app: Express) {
       const transferGroupId = `escrow_${Date.now()}_${companyId}_${trainerId}`;
 
       // Create payment intent with application fee
-      const paymentIntent = await stripe.paymentIntents.create({
+      const paymentIntent = await paymentProvider.createPaymentIntent({
         amount: amount,
         currency: currency.toLowerCase(),
         application_fee_amount: platformCommissionAmount,
@@ -194,40 +278,9 @@ export function registerEscrowRoutes(app: Express) {
         return res.status(404).json({ message: 'Transaction not found' });
       }
 
-      // Check payment intent status
-      const paymentIntent = await stripe.paymentIntents.retrieve(transaction[0].stripePaymentIntentId!);
-
-      if (paymentIntent.status === 'succeeded') {
-        // Update transaction status to in escrow
-        await db!.update(escrowTransactions)
-          .set({ 
-            status: 'in_escrow',
-            updatedAt: new Date()
-          })
-          .where(eq(escrowTransactions.id, transactionId));
-
-        // Record history
-        await db!.insert(transactionHistory)
-          .values({
-            escrowTransactionId: transactionId,
-            action: 'funds_captured',
-            previousStatus: 'pending',
-            newStatus: 'in_escrow',
-            actionBy: transaction[0].companyId,
-          });
-
-        res.json({ success: true, status: 'in_escrow' });
-      } else {
-        // Update to payment failed
-        await db!.update(escrowTransactions)
-          .set({ 
-            status: 'payment_failed',
-            updatedAt: new Date()
-          })
-          .where(eq(escrowTransactions.id, transactionId));
-
-        res.json({ success: false, status: 'payment_failed' });
-      }
+      // The payment webhook may already have confirmed it; that is a no-op here
+      const result = await escrowService.confirmPayment(transactionId);
+      res.json(result);
     } catch (error) {
       console.error('Error confirming payment:', error);
       res.status(500).json({ message: 'Failed to confirm payment' });
@@ -254,10 +307,17 @@ export function registerEscrowRoutes(app: Express) {
       }
 
       // Check if user is authorized (company who paid or admin)
-      if (transaction[0].companyId !== req.user.id && !req.user.isAdmin) {
+      if (transaction[0].companyId !== req.user.id && !can(req.user as User, 'escrow.release')) {
         return res.status(403).json({ message: 'Not authorized to release funds' });
       }
 
+      // Milestone contracts pay out through per-milestone transfers
+      const milestones = await escrowService.getMilestones(transactionId);
+      if (milestones.length > 0) {
+        const result = await escrowService.releaseFunds(transactionId, (req.user as any).id, reason);
+        return res.json(result);
+      }
+
       // Update transaction status to released
       await db!.update(escrowTransactions)
         .set({ 
@@ -286,9 +346,11 @@ export function registerEscrowRoutes(app: Express) {
     }
   });
 
-  // Request refund
+  // Request refund. The paying company can only take back funds still held in escrow; once they
+  // are released, a refund is up to staff through the admin API
   app.post('/api/payments/request-refund/:transactionId', isAuthenticated, async (req, res) => {
     try {
+      const user = req.user as User;
       const transactionId = parseInt(req.params.transactionId);
       const { reason } = req.body;
       
@@ -301,45 +363,17 @@ export function registerEscrowRoutes(app: Express) {
         return res.status(404).json({ message: 'Transaction not found' });
       }
 
-      if (!['in_escrow', 'released'].includes(transaction[0].status)) {
-        return res.status(400).json({ message: 'Cannot refund transaction in current status' });
+      // Only the company who paid
+      if (transaction[0].companyId !== user.id) {
+        return res.status(403).json({ message: 'Not authorized to refund this transaction' });
+      }
+      if (transaction[0].status === 'released') {
+        return res.status(400).json({ message: 'Released funds can no longer be refunded by the company' });
       }
 
-      // Create refund in Stripe
-      const refund = await stripe.refunds.create({
-        payment_intent: transaction[0].stripePaymentIntentId!,
-        reason: 'requested_by_customer',
-        metadata: {
-          escrowTransactionId: transactionId.toString(),
-          requestedBy: req.user.id.toString(),
-          reason: reason
-        }
-      });
-
-      // Update transaction status
-      await db!.update(escrowTransactions)
-        .set({ 
-          status: 'refunded',
-          disputeReason: reason,
-          updatedAt: new Date()
-        })
-        .where(eq(escrowTransactions.id, transactionId));
-
-      // Record history
-      await db!.insert(transactionHistory)
-        .values({
-          escrowTransactionId: transactionId,
-          action: 'refunded',
-          previousStatus: transaction[0].status,
-          newStatus: 'refunded',
-          actionBy: req.user.id,
-          actionReason: reason,
-        });
-
-      res.json({ success: true, refundId: refund.id });
+      res.json(await escrowService.refundTransaction(transactionId, user.id, reason));
     } catch (error) {
-      console.error('Error processing refund:', error);
-      res.status(500).json({ message: 'Failed to process refund' });
+      handleEscrowError(res, error, 'Failed to process refund');
     }
   });
 
@@ -388,7 +422,7 @@ export function registerEscrowRoutes(app: Express) {
       // Check if user has access to this transaction
       if (transaction[0].companyId !== req.user.id && 
           transaction[0].trainerId !== req.user.id && 
-          !req.user.isAdmin) {
+          !can(req.user as User, 'escrow.view')) {
         return res.status(403).json({ message: 'Access denied' });
       }
 
@@ -398,13 +432,305 @@ export function registerEscrowRoutes(app: Express) {
         .where(eq(transactionHistory.escrowTransactionId, transactionId))
         .orderBy(desc(transactionHistory.createdAt));
 
+      const milestones = await escrowService.getMilestones(transactionId);
+      const disputes = await Promise.all(
+        (await escrowService.getTransactionDisputes(transactionId)).map(withEvidence)
+      );
+
       res.json({
         transaction: transaction[0],
-        history
+        history,
+        milestones,
+        disputes
       });
     } catch (error) {
       console.error('Error fetching transaction details:', error);
       res.status(500).json({ message: 'Failed to fetch transaction details' });
     }
   });
-}
\ No newline at end of file
+
+  // Create an escrow contract paid out in milestones
+  app.post('/api/payments/create-milestone-escrow', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const data = milestoneContractSchema.parse(req.body);
+
+      const result = await escrowService.createMilestoneContract({
+        companyId: user.id,
+        professionalId: data.trainerId,
+        currency: data.currency,
+        jobPostingId: data.jobPostingId,
+        bookingId: data.bookingId,
+        description: data.description,
+        milestones: data.milestones
+      });
+
+      res.json({
+        escrowTransactionId: result.escrowTransaction.id,
+        clientSecret: result.clientSecret,
+        amount: result.escrowTransaction.amount,
+        platformCommission: result.escrowTransaction.platformCommissionAmount,
+        trainerPayout: result.escrowTransaction.trainerPayoutAmount,
+        milestones: result.milestones
+      });
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to create milestone contract');
+    }
+  });
+
+  // Trainer submits the deliverable for a milestone
+  app.post('/api/payments/milestones/:milestoneId/submit', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const milestoneId = parseInt(req.params.milestoneId);
+      const { note } = z.object({ note: z.string().max(5000).optional() }).parse(req.body);
+
+      const found = await escrowService.getMilestoneWithTransaction(milestoneId);
+      if (!found) {
+        return res.status(404).json({ message: 'Milestone not found' });
+      }
+      if (found.transaction.trainerId !== user.id) {
+        return res.status(403).json({ message: 'Only the trainer can submit this milestone' });
+      }
+
+      const milestone = await escrowService.submitMilestone(milestoneId, user.id, note);
+      res.json(milestone);
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to submit milestone');
+    }
+  });
+
+  // Company sends a submitted milestone back for changes
+  app.post('/api/payments/milestones/:milestoneId/request-changes', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const milestoneId = parseInt(req.params.milestoneId);
+      const { feedback } = z.object({ feedback: z.string().min(1).max(5000) }).parse(req.body);
+
+      const found = await escrowService.getMilestoneWithTransaction(milestoneId);
+      if (!found) {
+        return res.status(404).json({ message: 'Milestone not found' });
+      }
+      if (found.transaction.companyId !== user.id) {
+        return res.status(403).json({ message: 'Only the paying company can review this milestone' });
+      }
+
+      const milestone = await escrowService.requestMilestoneChanges(milestoneId, user.id, feedback);
+      res.json(milestone);
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to request milestone changes');
+    }
+  });
+
+  // Company approves a milestone, releasing its share of the escrow to the trainer
+  app.post('/api/payments/milestones/:milestoneId/approve', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const milestoneId = parseInt(req.params.milestoneId);
+
+      const found = await escrowService.getMilestoneWithTransaction(milestoneId);
+      if (!found) {
+        return res.status(404).json({ message: 'Milestone not found' });
+      }
+      if (found.transaction.companyId !== user.id && !can(user, 'escrow.release')) {
+        return res.status(403).json({ message: 'Not authorized to approve this milestone' });
+      }
+
+      const milestone = await escrowService.approveMilestone(milestoneId, user.id);
+      res.json(milestone);
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to approve milestone');
+    }
+  });
+
+  // Admin: transactions that will auto-release within the next `days` days (default 7), including overdue ones
+  app.get('/api/admin/escrow/auto-releases', requirePermission('escrow.view'), async (req, res) => {
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 7;
+      if (isNaN(days) || days < 0 || days > 90) {
+        return res.status(400).json({ message: 'days must be between 0 and 90' });
+      }
+
+      const now = new Date();
+      const candidates = await escrowService.getUpcomingAutoReleases(
+        new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+      );
+
+      const partyIds = Array.from(new Set(candidates.flatMap(c => [c.transaction.companyId, c.transaction.trainerId])));
+      const parties = partyIds.length > 0
+        ? await db!.select({
+            id: users.id,
+            username: users.username,
+            email: users.email,
+            firstName: users.firstName,
+            lastName: users.lastName
+          }).from(users).where(inArray(users.id, partyIds))
+        : [];
+      const partyById = new Map(parties.map(party => [party.id, party]));
+
+      res.json(candidates.map(({ transaction, releaseAt, warningSentAt }) => ({
+        transaction,
+        company: partyById.get(transaction.companyId) || null,
+        trainer: partyById.get(transaction.trainerId) || null,
+        releaseAt,
+        warningSentAt,
+        overdue: releaseAt <= now,
+        warningDue: !warningSentAt && releaseAt.getTime() - now.getTime() <= AUTO_RELEASE_WARNING_HOURS * 60 * 60 * 1000
+      })));
+    } catch (error) {
+      console.error('Error fetching upcoming auto-releases:', error);
+      res.status(500).json({ message: 'Failed to fetch upcoming auto-releases' });
+    }
+  });
+
+  // Either party opens a dispute on a transaction held in escrow
+  app.post('/api/payments/transactions/:transactionId/dispute', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const transactionId = parseInt(req.params.transactionId);
+      if (isNaN(transactionId)) {
+        return res.status(400).json({ message: 'Invalid transaction ID' });
+      }
+
+      const { reason, details } = openDisputeSchema.parse(req.body);
+      const dispute = await escrowService.openDispute(transactionId, user.id, reason, details);
+      res.status(201).json(await withEvidence(dispute));
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to open dispute');
+    }
+  });
+
+  app.get('/api/payments/disputes/:disputeId', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const found = await escrowService.getDisputeWithTransaction(parseInt(req.params.disputeId));
+      if (!found) {
+        return res.status(404).json({ message: 'Dispute not found' });
+      }
+      const { dispute, transaction } = found;
+      if (transaction.companyId !== user.id && transaction.trainerId !== user.id && !can(user, 'escrow.view')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      res.json({ ...(await withEvidence(dispute)), transaction });
+    } catch (error) {
+      console.error('Error fetching dispute:', error);
+      res.status(500).json({ message: 'Failed to fetch dispute' });
+    }
+  });
+
+  // The other party answers the dispute before its response deadline
+  app.post('/api/payments/disputes/:disputeId/respond', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { response } = disputeResponseSchema.parse(req.body);
+      const dispute = await escrowService.respondToDispute(parseInt(req.params.disputeId), user.id, response);
+      res.json(await withEvidence(dispute));
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to respond to dispute');
+    }
+  });
+
+  // Either party attaches evidence files until the evidence deadline
+  app.post('/api/payments/disputes/:disputeId/evidence', isAuthenticated, uploadDisputeEvidence.array('files', 5), async (req, res) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const discardUploads = () => files.forEach(file => fs.unlink(file.path, () => { }));
+
+    try {
+      const user = req.user as any;
+      if (files.length === 0) {
+        return res.status(400).json({ message: 'No files uploaded' });
+      }
+
+      const description = typeof req.body.description === 'string' ? req.body.description.trim().slice(0, 1000) : '';
+      const evidence = await escrowService.addDisputeEvidence(
+        parseInt(req.params.disputeId),
+        user.id,
+        files.map(file => ({
+          fileName: file.originalname,
+          filePath: file.path,
+          mimeType: file.mimetype,
+          fileSize: file.size
+        })),
+        description || undefined
+      );
+      res.status(201).json(evidence.map(toEvidenceResponse));
+    } catch (error) {
+      discardUploads();
+      handleEscrowError(res, error, 'Failed to add dispute evidence');
+    }
+  });
+
+  app.get('/api/payments/disputes/evidence/:evidenceId', isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const found = await escrowService.getDisputeEvidenceFile(parseInt(req.params.evidenceId));
+      if (!found) {
+        return res.status(404).json({ message: 'Evidence not found' });
+      }
+      const { evidence, transaction } = found;
+      if (transaction.companyId !== user.id && transaction.trainerId !== user.id && !can(user, 'escrow.view')) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
+      if (!fs.existsSync(evidence.filePath)) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+
+      if (evidence.mimeType) {
+        res.setHeader('Content-Type', evidence.mimeType);
+      }
+      res.download(path.resolve(evidence.filePath), evidence.fileName);
+    } catch (error) {
+      console.error('Error downloading dispute evidence:', error);
+      res.status(500).json({ message: 'Failed to download evidence' });
+    }
+  });
+
+  // Admin: dispute queue, unresolved disputes by default; ?status= narrows it to one state
+  app.get('/api/admin/escrow/disputes', requirePermission('escrow.view'), async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(DISPUTE_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: 'Invalid dispute status' });
+      }
+
+      const queue = await escrowService.getDisputeQueue(
+        status ? [status as EscrowDispute['status']] : undefined
+      );
+      res.json(await Promise.all(queue.map(async ({ dispute, transaction }) => ({
+        ...(await withEvidence(dispute)),
+        transaction
+      }))));
+    } catch (error) {
+      console.error('Error fetching dispute queue:', error);
+      res.status(500).json({ message: 'Failed to fetch dispute queue' });
+    }
+  });
+
+  // Admin: settle a dispute under review by releasing, refunding or splitting the escrowed funds
+  app.post('/api/admin/escrow/disputes/:disputeId/resolve', requirePermission('escrow.refund'), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const resolution = resolveDisputeSchema.parse(req.body);
+      const dispute = await escrowService.resolveDispute(parseInt(req.params.disputeId), user.id, resolution);
+      res.json(await withEvidence(dispute));
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to resolve dispute');
+    }
+  });
+
+  // Staff refunds, released funds included. Under /api/admin so they are audited.
+  app.post('/api/admin/escrow/transactions/:transactionId/refund', requirePermission('escrow.refund'), async (req, res) => {
+    try {
+      const transactionId = parseInt(req.params.transactionId);
+      if (isNaN(transactionId)) {
+        return res.status(400).json({ message: 'Invalid transaction ID' });
+      }
+      const { reason } = req.body;
+      res.json(await escrowService.refundTransaction(transactionId, (req.user as User).id, reason));
+    } catch (error) {
+      handleEscrowError(res, error, 'Failed to process refund');
+    }
+  });
+}
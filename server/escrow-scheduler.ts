@@ -0,0 +1,22 @@
+import { escrowService } from './escrow-service';
+import { IntervalRunner } from './interval-runner';
+
+// Periodically warns about and performs escrow auto-releases and moves disputes whose response
+// deadline passed into review. All state lives in the database, so a restart simply picks up
+// where the previous process left off.
+export const escrowScheduler = new IntervalRunner({
+  name: 'Escrow scheduler',
+  intervalMs: 15 * 60 * 1000,
+  startupDelayMs: 30 * 1000,
+  run: async () => {
+    const result = await escrowService.processScheduledWork();
+    if (!result) {
+      console.log('Escrow scheduler pass skipped: another instance holds the lock');
+    } else if (result.warned || result.released || result.failed || result.escalated) {
+      console.log(
+        `Escrow scheduler pass: ${result.warned} warned, ${result.released} released, ` +
+        `${result.failed} failed, ${result.escalated} disputes escalated`
+      );
+    }
+  }
+});
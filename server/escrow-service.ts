@@ -1,15 +1,75 @@
-import Stripe from 'stripe';
 import { db, initializeDatabase } from './db';
-import { users, escrowTransactions, transactionHistory, paymentMethods } from '@shared/schema';
-import { eq, and, lt } from 'drizzle-orm';
+import {
+  users, escrowTransactions, escrowMilestones, escrowDisputes, escrowDisputeEvidence, transactionHistory, paymentMethods
+} from '@shared/schema';
+import type { EscrowDispute, EscrowDisputeEvidence, EscrowMilestone, EscrowTransaction } from '@shared/schema';
+import { eq, and, lt, asc, desc, inArray, or, isNull, isNotNull, sql } from 'drizzle-orm';
+import { notificationService } from './notification-service';
+import { paymentProvider } from './payment-provider';
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+// Thrown when an escrow action is not allowed in the current state; the message is safe to show to users
+export class EscrowStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscrowStateError';
+  }
+}
+
+export interface MilestoneInput {
+  title: string;
+  deliverable: string;
+  amount: number;
+  dueDate?: Date | null;
+}
+
+const UNRELEASED_MILESTONE_STATUSES = ['pending', 'submitted', 'approved'] as const;
+// A failed payment can still be retried on the same payment intent
+const AWAITING_PAYMENT_STATUSES: EscrowTransaction['status'][] = ['pending', 'payment_failed'];
+
+export const AUTO_RELEASE_WARNING_HOURS = 48;
+const AUTO_RELEASE_WARNING_ACTION = 'auto_release_warning_sent';
+// Two-key advisory lock so it cannot collide with the single-key per-professional booking locks
+const AUTO_RELEASE_LOCK = [4242, 1] as const;
+
+// When an in-escrow transaction releases on its own: the earlier of the fixed release date and the
+// service completion date plus the transaction's auto-release window. least() skips nulls.
+const autoReleaseAt = sql<Date | null>`least(
+  ${escrowTransactions.escrowReleaseDate},
+  ${escrowTransactions.serviceCompletionDate} + make_interval(days => coalesce(${escrowTransactions.autoReleaseAfterDays}, 7))
+)`.mapWith(escrowTransactions.escrowReleaseDate);
+
+// A dispute stays open until it has a resolution date
+const noOpenDispute = or(
+  isNull(escrowTransactions.disputeReason),
+  isNotNull(escrowTransactions.disputeResolutionDate)
+);
+
+export interface AutoReleaseCandidate {
+  transaction: EscrowTransaction;
+  releaseAt: Date;
+  warningSentAt: Date | null;
 }
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-02-24.acacia",
-});
+export interface EscrowSchedulerResult {
+  warned: number;
+  released: number;
+  failed: number;
+  escalated: number;
+}
+
+export type DisputeOutcome = 'release' | 'refund' | 'split';
+
+export interface DisputeEvidenceFile {
+  fileName: string;
+  filePath: string;
+  mimeType?: string;
+  fileSize?: number;
+}
+
+const DISPUTE_RESPONSE_DAYS = 5;
+// Evidence stays open a little past the response deadline so the opener can answer the response
+const DISPUTE_EVIDENCE_GRACE_DAYS = 2;
+const OPEN_DISPUTE_STATUSES = ['opened', 'awaiting_response', 'under_review'] as const;
 
 export class EscrowService {
   
@@ -26,7 +86,7 @@ export class EscrowService {
   // Create Stripe Connect account for trainers to receive payouts
   async createConnectAccount(userId: number, email: string, country: string = 'US') {
     try {
-      const account = await stripe.accounts.create({
+      const account = await paymentProvider.createAccount({
         type: 'express',
         country: country,
         email: email,
@@ -61,7 +121,7 @@ export class EscrowService {
   // Create account link for Connect account setup
   async createAccountLink(accountId: string, userId: number) {
     try {
-      const accountLink = await stripe.accountLinks.create({
+      const accountLink = await paymentProvider.createAccountLink({
         account: accountId,
         refresh_url: `${process.env.FRONTEND_URL}/professional-dashboard?setup=refresh`,
         return_url: `${process.env.FRONTEND_URL}/professional-dashboard?setup=complete`,
@@ -114,7 +174,7 @@ export class EscrowService {
       const transferGroupId = `escrow_${Date.now()}_${data.companyId}_${data.professionalId}`;
 
       // Create payment intent with application fee
-      const paymentIntent = await stripe.paymentIntents.create({
+      const paymentIntent = await paymentProvider.createPaymentIntent({
         amount: data.amount,
         currency: data.currency.toLowerCase(),
         application_fee_amount: platformCommissionAmount,
@@ -164,7 +224,8 @@ export class EscrowService {
     }
   }
 
-  // Confirm payment and capture funds into escrow
+  // Confirm payment and capture funds into escrow. Both the client (after paying) and the payment
+  // webhook call this, so only a transaction still waiting for its payment changes state.
   async confirmPayment(escrowTransactionId: number) {
     try {
       const [transaction] = await db.select()
@@ -175,28 +236,45 @@ export class EscrowService {
         throw new Error('Transaction not found');
       }
 
+      if (!AWAITING_PAYMENT_STATUSES.includes(transaction.status)) {
+        return { success: true, status: transaction.status };
+      }
+
       // Retrieve payment intent to check status
-      const paymentIntent = await stripe.paymentIntents.retrieve(transaction.stripePaymentIntentId!);
+      const paymentIntent = await paymentProvider.retrievePaymentIntent(transaction.stripePaymentIntentId!);
 
       if (paymentIntent.status === 'succeeded') {
         // Update transaction status to funds captured
-        await db.update(escrowTransactions)
+        const [updated] = await db.update(escrowTransactions)
           .set({ 
             status: 'in_escrow',
             updatedAt: new Date()
           })
-          .where(eq(escrowTransactions.id, escrowTransactionId));
+          .where(and(
+            eq(escrowTransactions.id, escrowTransactionId),
+            inArray(escrowTransactions.status, AWAITING_PAYMENT_STATUSES)
+          ))
+          .returning();
+
+        // A concurrent confirmation already captured the funds
+        if (!updated) {
+          return { success: true, status: 'in_escrow' };
+        }
 
         await this.recordTransactionHistory(
           escrowTransactionId, 
           'funds_captured', 
-          'pending', 
+          transaction.status, 
           'in_escrow',
           transaction.companyId
         );
 
         return { success: true, status: 'in_escrow' };
       } else {
+        if (transaction.status === 'payment_failed') {
+          return { success: false, status: 'payment_failed' };
+        }
+
         // Update status to payment failed
         await db.update(escrowTransactions)
           .set({ 
@@ -221,8 +299,21 @@ export class EscrowService {
     }
   }
 
-  // Release funds from escrow to trainer
-  async releaseFunds(escrowTransactionId: number, releasedBy: number, reason?: string) {
+  // Bring the transaction paid by a payment intent up to date after a payment webhook
+  async syncPaymentIntent(paymentIntentId: string) {
+    const database = await this.getDb();
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.stripePaymentIntentId, paymentIntentId));
+
+    if (!transaction) {
+      return null;
+    }
+    return this.confirmPayment(transaction.id);
+  }
+
+  // Release funds from escrow to trainer. releasedBy is undefined for automatic releases.
+  async releaseFunds(escrowTransactionId: number, releasedBy: number | undefined, reason?: string) {
     try {
       const [transaction] = await db.select()
         .from(escrowTransactions)
@@ -236,18 +327,39 @@ export class EscrowService {
         throw new Error('Transaction is not in escrow status');
       }
 
+      // Milestone contracts pay out per milestone, so releasing the whole contract
+      // releases every milestone that has not been paid yet
+      const milestones = await this.getMilestones(escrowTransactionId);
+      if (milestones.length > 0) {
+        for (const milestone of milestones) {
+          if ((UNRELEASED_MILESTONE_STATUSES as readonly string[]).includes(milestone.status)) {
+            await this.releaseMilestone(milestone.id, releasedBy, reason);
+          }
+        }
+        return { success: true, status: 'released' };
+      }
+
       // The funds are automatically transferred to the trainer's account
       // when the payment intent succeeds due to transfer_data configuration
       // We just need to update our records
       
-      await db.update(escrowTransactions)
+      // Only move the row if it is still in escrow, so a concurrent release cannot record twice
+      const [released] = await db.update(escrowTransactions)
         .set({ 
           status: 'released',
           serviceCompletionConfirmed: true,
           serviceCompletionDate: new Date(),
           updatedAt: new Date()
         })
-        .where(eq(escrowTransactions.id, escrowTransactionId));
+        .where(and(
+          eq(escrowTransactions.id, escrowTransactionId),
+          eq(escrowTransactions.status, 'in_escrow')
+        ))
+        .returning({ id: escrowTransactions.id });
+
+      if (!released) {
+        throw new Error('Transaction is not in escrow status');
+      }
 
       await this.recordTransactionHistory(
         escrowTransactionId, 
@@ -281,7 +393,7 @@ export class EscrowService {
       }
 
       // Create refund in Stripe
-      const refund = await stripe.refunds.create({
+      const refund = await paymentProvider.createRefund({
         payment_intent: transaction.stripePaymentIntentId!,
         reason: 'requested_by_customer',
         metadata: {
@@ -316,27 +428,939 @@ export class EscrowService {
     }
   }
 
-  // Auto-release funds after specified period
-  async autoReleaseFunds() {
-    try {
-      const overdueTransactions = await db.select()
-        .from(escrowTransactions)
-        .where(
-          and(
-            eq(escrowTransactions.status, 'in_escrow'),
-            // SQL to check if escrowReleaseDate has passed would go here
-          )
+  // In-escrow transactions without an open dispute that auto-release on or before the given time,
+  // soonest first. Overdue transactions are included so a missed run is picked up by the next one.
+  async getUpcomingAutoReleases(before: Date): Promise<AutoReleaseCandidate[]> {
+    const database = await this.getDb();
+    const rows = await database.select({ transaction: escrowTransactions, releaseAt: autoReleaseAt })
+      .from(escrowTransactions)
+      .where(and(
+        eq(escrowTransactions.status, 'in_escrow'),
+        noOpenDispute,
+        // Timestamps are stored as UTC wall-clock time, so compare against the UTC ISO string
+        sql`${autoReleaseAt} <= ${before.toISOString()}`
+      ))
+      .orderBy(asc(autoReleaseAt));
+
+    if (rows.length === 0) return [];
+
+    const warnings = await database.select({
+      escrowTransactionId: transactionHistory.escrowTransactionId,
+      createdAt: transactionHistory.createdAt
+    })
+      .from(transactionHistory)
+      .where(and(
+        eq(transactionHistory.action, AUTO_RELEASE_WARNING_ACTION),
+        inArray(transactionHistory.escrowTransactionId, rows.map(row => row.transaction.id))
+      ));
+    const warnedAt = new Map(warnings.map(warning => [warning.escrowTransactionId, warning.createdAt]));
+
+    return rows
+      .filter((row): row is { transaction: EscrowTransaction; releaseAt: Date } => row.releaseAt !== null)
+      .map(row => ({
+        transaction: row.transaction,
+        releaseAt: row.releaseAt,
+        warningSentAt: warnedAt.get(row.transaction.id) ?? null
+      }));
+  }
+
+  // Warn both parties once, AUTO_RELEASE_WARNING_HOURS before a transaction auto-releases.
+  // The warning is recorded in the transaction history, which is what keeps it from repeating.
+  async sendAutoReleaseWarnings(now: Date = new Date()) {
+    const horizon = new Date(now.getTime() + AUTO_RELEASE_WARNING_HOURS * 60 * 60 * 1000);
+    const candidates = await this.getUpcomingAutoReleases(horizon);
+    const database = await this.getDb();
+    let warned = 0;
+
+    for (const { transaction, releaseAt, warningSentAt } of candidates) {
+      if (warningSentAt || releaseAt <= now) continue;
+
+      // Record before notifying: a crash in between skips a warning rather than sending it twice
+      await this.recordTransactionHistory(
+        transaction.id,
+        AUTO_RELEASE_WARNING_ACTION,
+        'in_escrow',
+        'in_escrow',
+        undefined,
+        undefined,
+        { releaseAt: releaseAt.toISOString() }
+      );
+
+      const parties = await database.select()
+        .from(users)
+        .where(inArray(users.id, [transaction.companyId, transaction.trainerId]));
+      for (const party of parties) {
+        await notificationService.sendEscrowAutoReleaseWarning(
+          transaction,
+          party,
+          party.id === transaction.companyId ? 'company' : 'professional',
+          releaseAt
         );
+      }
+      warned++;
+    }
+
+    return warned;
+  }
+
+  // Release every transaction whose auto-release time has passed. Safe to run repeatedly:
+  // releases only move in_escrow transactions and milestone transfers use idempotency keys.
+  async autoReleaseFunds(now: Date = new Date()) {
+    const due = await this.getUpcomingAutoReleases(now);
+    let released = 0;
+    let failed = 0;
 
-      for (const transaction of overdueTransactions) {
-        await this.releaseFunds(transaction.id, 0, 'Auto-released after escrow period');
+    for (const { transaction, releaseAt } of due) {
+      try {
+        await this.releaseFunds(
+          transaction.id,
+          undefined,
+          `Auto-released after escrow period (due ${releaseAt.toISOString()})`
+        );
+        released++;
+      } catch (error) {
+        // Leave it in escrow; the next run retries
+        console.error(`Error auto-releasing escrow transaction ${transaction.id}:`, error);
+        failed++;
       }
+    }
 
-      return overdueTransactions.length;
-    } catch (error) {
-      console.error('Error in auto-release:', error);
-      return 0;
+    return { released, failed };
+  }
+
+  // One scheduler pass. The advisory lock keeps several app instances from working the same
+  // transactions at once; an instance that cannot take it skips the pass and returns null.
+  async processScheduledWork(now: Date = new Date()): Promise<EscrowSchedulerResult | null> {
+    const database = await this.getDb();
+    return database.transaction(async (tx) => {
+      const lock = await tx.execute(
+        sql`SELECT pg_try_advisory_xact_lock(${AUTO_RELEASE_LOCK[0]}, ${AUTO_RELEASE_LOCK[1]}) AS locked`
+      );
+      if (!lock.rows[0]?.locked) return null;
+
+      const escalated = await this.escalateOverdueDisputes(now);
+      const warned = await this.sendAutoReleaseWarnings(now);
+      const { released, failed } = await this.autoReleaseFunds(now);
+      return { warned, released, failed, escalated };
+    });
+  }
+
+  // Create an escrow contract paid in ordered milestones. The full amount is charged up front
+  // into the platform account and each milestone is transferred to the trainer when approved.
+  async createMilestoneContract(data: {
+    companyId: number;
+    professionalId: number;
+    currency: string;
+    milestones: MilestoneInput[];
+    jobPostingId?: number;
+    bookingId?: number;
+    description?: string;
+  }) {
+    if (data.milestones.length === 0) {
+      throw new EscrowStateError('A milestone contract needs at least one milestone');
+    }
+
+    const database = await this.getDb();
+    const [professional] = await database.select()
+      .from(users)
+      .where(eq(users.id, data.professionalId));
+
+    if (!professional?.stripeConnectAccountId) {
+      throw new EscrowStateError('Professional must set up payout account before receiving payments');
+    }
+
+    const milestoneAmounts = data.milestones.map(milestone => ({
+      ...milestone,
+      ...this.calculatePayoutAmounts(milestone.amount)
+    }));
+    const amount = milestoneAmounts.reduce((sum, m) => sum + m.amount, 0);
+    const platformCommissionAmount = milestoneAmounts.reduce((sum, m) => sum + m.platformCommissionAmount, 0);
+    const transferGroupId = `escrow_${Date.now()}_${data.companyId}_${data.professionalId}`;
+
+    // No transfer_data here: funds stay on the platform until each milestone is released
+    const paymentIntent = await paymentProvider.createPaymentIntent({
+      amount,
+      currency: data.currency.toLowerCase(),
+      transfer_group: transferGroupId,
+      metadata: {
+        companyId: data.companyId.toString(),
+        professionalId: data.professionalId.toString(),
+        jobPostingId: data.jobPostingId?.toString() || '',
+        bookingId: data.bookingId?.toString() || '',
+        type: 'escrow_milestone_contract'
+      }
+    });
+
+    const [escrowTransaction] = await database.insert(escrowTransactions)
+      .values({
+        companyId: data.companyId,
+        trainerId: data.professionalId,
+        jobPostingId: data.jobPostingId,
+        bookingId: data.bookingId,
+        amount,
+        currency: data.currency,
+        platformCommissionAmount,
+        trainerPayoutAmount: amount - platformCommissionAmount,
+        stripePaymentIntentId: paymentIntent.id,
+        stripeTransferGroupId: transferGroupId,
+        status: 'pending',
+        description: data.description,
+        metadata: { contractType: 'milestones', milestoneCount: data.milestones.length },
+      })
+      .returning();
+
+    const milestones = await database.insert(escrowMilestones)
+      .values(milestoneAmounts.map((milestone, index) => ({
+        escrowTransactionId: escrowTransaction.id,
+        position: index + 1,
+        title: milestone.title,
+        deliverable: milestone.deliverable,
+        amount: milestone.amount,
+        platformCommissionAmount: milestone.platformCommissionAmount,
+        trainerPayoutAmount: milestone.professionalPayoutAmount,
+        dueDate: milestone.dueDate ?? null,
+        status: 'pending' as const,
+      })))
+      .returning();
+
+    await this.recordTransactionHistory(escrowTransaction.id, 'created', null, 'pending', data.companyId);
+    for (const milestone of milestones) {
+      await this.recordMilestoneHistory(milestone, 'milestone_created', null, 'pending', data.companyId);
+    }
+
+    return {
+      escrowTransaction,
+      milestones,
+      clientSecret: paymentIntent.client_secret
+    };
+  }
+
+  async getTransaction(escrowTransactionId: number): Promise<EscrowTransaction | undefined> {
+    const database = await this.getDb();
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    return transaction;
+  }
+
+  async getMilestones(escrowTransactionId: number): Promise<EscrowMilestone[]> {
+    const database = await this.getDb();
+    return database.select()
+      .from(escrowMilestones)
+      .where(eq(escrowMilestones.escrowTransactionId, escrowTransactionId))
+      .orderBy(asc(escrowMilestones.position));
+  }
+
+  async getMilestoneWithTransaction(milestoneId: number): Promise<{
+    milestone: EscrowMilestone;
+    transaction: EscrowTransaction;
+  } | null> {
+    const database = await this.getDb();
+    const [milestone] = await database.select()
+      .from(escrowMilestones)
+      .where(eq(escrowMilestones.id, milestoneId));
+    if (!milestone) return null;
+
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, milestone.escrowTransactionId));
+    return transaction ? { milestone, transaction } : null;
+  }
+
+  // Trainer hands in the deliverable for a milestone
+  async submitMilestone(milestoneId: number, submittedBy: number, note?: string) {
+    const { milestone, transaction } = await this.requireMilestone(milestoneId);
+
+    if (transaction.status !== 'in_escrow') {
+      throw new EscrowStateError('The contract must be funded before milestones can be submitted');
+    }
+    if (milestone.status !== 'pending') {
+      throw new EscrowStateError(`Milestone cannot be submitted while ${milestone.status}`);
+    }
+
+    const updated = await this.updateMilestone(milestone.id, {
+      status: 'submitted',
+      submissionNote: note || null,
+      submittedAt: new Date(),
+      feedback: null
+    });
+    await this.recordMilestoneHistory(updated, 'milestone_submitted', milestone.status, 'submitted', submittedBy, note);
+    return updated;
+  }
+
+  // Company sends a submitted milestone back to the trainer
+  async requestMilestoneChanges(milestoneId: number, requestedBy: number, feedback: string) {
+    const { milestone } = await this.requireMilestone(milestoneId);
+
+    if (milestone.status !== 'submitted') {
+      throw new EscrowStateError('Only submitted milestones can be sent back for changes');
     }
+
+    const updated = await this.updateMilestone(milestone.id, { status: 'pending', feedback });
+    await this.recordMilestoneHistory(updated, 'milestone_changes_requested', 'submitted', 'pending', requestedBy, feedback);
+    return updated;
+  }
+
+  // Company accepts a submitted milestone, which releases its share of the escrow
+  async approveMilestone(milestoneId: number, approvedBy: number) {
+    const { milestone, transaction } = await this.requireMilestone(milestoneId);
+
+    if (milestone.status === 'approved') {
+      // A previous approval succeeded but its payout did not; retry the release
+      return this.releaseMilestone(milestone.id, approvedBy);
+    }
+    if (milestone.status !== 'submitted') {
+      throw new EscrowStateError('Only submitted milestones can be approved');
+    }
+
+    const earlier = (await this.getMilestones(transaction.id))
+      .filter(m => m.position < milestone.position && m.status !== 'released');
+    if (earlier.length > 0) {
+      throw new EscrowStateError('Earlier milestones must be approved first');
+    }
+
+    const approved = await this.updateMilestone(milestone.id, {
+      status: 'approved',
+      approvedBy,
+      approvedAt: new Date()
+    });
+    await this.recordMilestoneHistory(approved, 'milestone_approved', 'submitted', 'approved', approvedBy);
+
+    return this.releaseMilestone(milestone.id, approvedBy);
+  }
+
+  // Transfer one milestone's payout to the trainer's Connect account
+  async releaseMilestone(milestoneId: number, releasedBy: number | undefined, reason?: string) {
+    const { milestone, transaction } = await this.requireMilestone(milestoneId);
+
+    if (transaction.status !== 'in_escrow') {
+      throw new EscrowStateError('Transaction is not in escrow status');
+    }
+    if (!(UNRELEASED_MILESTONE_STATUSES as readonly string[]).includes(milestone.status)) {
+      throw new EscrowStateError(`Milestone cannot be released while ${milestone.status}`);
+    }
+
+    const database = await this.getDb();
+    const [professional] = await database.select()
+      .from(users)
+      .where(eq(users.id, transaction.trainerId));
+    if (!professional?.stripeConnectAccountId) {
+      throw new EscrowStateError('Professional has no payout account');
+    }
+
+    // Tie the transfer to the original charge so it can be made before the funds settle
+    const paymentIntent = await paymentProvider.retrievePaymentIntent(transaction.stripePaymentIntentId!);
+    const sourceCharge = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+
+    const transfer = await paymentProvider.createTransfer({
+      amount: milestone.trainerPayoutAmount,
+      currency: transaction.currency.toLowerCase(),
+      destination: professional.stripeConnectAccountId,
+      transfer_group: transaction.stripeTransferGroupId || undefined,
+      source_transaction: sourceCharge,
+      metadata: {
+        escrowTransactionId: transaction.id.toString(),
+        milestoneId: milestone.id.toString(),
+        type: 'escrow_milestone_release'
+      }
+    }, {
+      idempotencyKey: `escrow_milestone_release_${milestone.id}`
+    });
+
+    const released = await this.updateMilestone(milestone.id, {
+      status: 'released',
+      stripeTransferId: transfer.id,
+      releasedAt: new Date()
+    });
+    await this.recordMilestoneHistory(released, 'milestone_released', milestone.status, 'released', releasedBy, reason);
+
+    // Close the contract once the last milestone is paid out
+    const remaining = (await this.getMilestones(transaction.id))
+      .filter(m => (UNRELEASED_MILESTONE_STATUSES as readonly string[]).includes(m.status));
+    if (remaining.length === 0) {
+      await database.update(escrowTransactions)
+        .set({
+          status: 'released',
+          serviceCompletionConfirmed: true,
+          serviceCompletionDate: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(escrowTransactions.id, transaction.id));
+      await this.recordTransactionHistory(transaction.id, 'released', 'in_escrow', 'released', releasedBy, reason);
+    }
+
+    return released;
+  }
+
+  // Refund what can still be refunded: the unreleased milestones of a milestone contract,
+  // otherwise the whole payment, released or not
+  async refundTransaction(escrowTransactionId: number, requestedBy: number, reason: string) {
+    if ((await this.getMilestones(escrowTransactionId)).length > 0) {
+      return this.refundUnreleasedMilestones(escrowTransactionId, requestedBy, reason);
+    }
+
+    const database = await this.getDb();
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    if (!transaction) {
+      throw new EscrowStateError('Transaction not found');
+    }
+    if (transaction.status !== 'in_escrow' && transaction.status !== 'released') {
+      throw new EscrowStateError('Cannot refund transaction in current status');
+    }
+
+    const refund = await paymentProvider.createRefund({
+      payment_intent: transaction.stripePaymentIntentId!,
+      reason: 'requested_by_customer',
+      metadata: {
+        escrowTransactionId: escrowTransactionId.toString(),
+        requestedBy: requestedBy.toString(),
+        reason
+      }
+    });
+
+    await database.update(escrowTransactions)
+      .set({ status: 'refunded', disputeReason: reason, updatedAt: new Date() })
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    await this.recordTransactionHistory(escrowTransactionId, 'refunded', transaction.status, 'refunded', requestedBy, reason);
+
+    return { success: true, refundId: refund.id, amount: transaction.amount };
+  }
+
+  // Refund the part of a milestone contract that has not been released yet
+  async refundUnreleasedMilestones(escrowTransactionId: number, requestedBy: number, reason: string) {
+    const database = await this.getDb();
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    if (!transaction) {
+      throw new EscrowStateError('Transaction not found');
+    }
+    if (transaction.status !== 'in_escrow') {
+      throw new EscrowStateError('Cannot refund transaction in current status');
+    }
+
+    const unreleased = (await this.getMilestones(escrowTransactionId))
+      .filter(m => (UNRELEASED_MILESTONE_STATUSES as readonly string[]).includes(m.status));
+    const refundAmount = unreleased.reduce((sum, m) => sum + m.amount, 0);
+    if (refundAmount === 0) {
+      throw new EscrowStateError('All milestones have already been released');
+    }
+
+    const refund = await paymentProvider.createRefund({
+      payment_intent: transaction.stripePaymentIntentId!,
+      amount: refundAmount,
+      reason: 'requested_by_customer',
+      metadata: {
+        escrowTransactionId: escrowTransactionId.toString(),
+        requestedBy: requestedBy.toString(),
+        reason
+      }
+    });
+
+    await database.update(escrowMilestones)
+      .set({ status: 'refunded', updatedAt: new Date() })
+      .where(inArray(escrowMilestones.id, unreleased.map(m => m.id)));
+    for (const milestone of unreleased) {
+      await this.recordMilestoneHistory(
+        { ...milestone, status: 'refunded' }, 'milestone_refunded', milestone.status, 'refunded', requestedBy, reason
+      );
+    }
+
+    // Partially released contracts stay released; untouched ones are fully refunded
+    const anyReleased = unreleased.length < (await this.getMilestones(escrowTransactionId)).length;
+    const newStatus = anyReleased ? 'released' : 'refunded';
+    await database.update(escrowTransactions)
+      .set({ status: newStatus, disputeReason: reason, updatedAt: new Date() })
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    await this.recordTransactionHistory(escrowTransactionId, 'refunded', transaction.status, newStatus, requestedBy, reason);
+
+    return { success: true, refundId: refund.id, amount: refundAmount };
+  }
+
+  // Either party freezes an in-escrow transaction by opening a dispute. The other party is
+  // asked to respond before the response deadline.
+  async openDispute(escrowTransactionId: number, openedBy: number, reason: string, details: string) {
+    const database = await this.getDb();
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, escrowTransactionId));
+    if (!transaction) {
+      throw new EscrowStateError('Transaction not found');
+    }
+    if (transaction.companyId !== openedBy && transaction.trainerId !== openedBy) {
+      throw new EscrowStateError('Only the parties to a transaction can open a dispute');
+    }
+
+    // Moving the transaction out of in_escrow is what claims it, so two parties
+    // opening at the same time cannot create two disputes
+    const [frozen] = await database.update(escrowTransactions)
+      .set({
+        status: 'disputed',
+        disputeReason: reason,
+        disputeDetails: details,
+        disputeResolution: null,
+        disputeResolutionDate: null,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(escrowTransactions.id, escrowTransactionId),
+        eq(escrowTransactions.status, 'in_escrow')
+      ))
+      .returning({ id: escrowTransactions.id });
+    if (!frozen) {
+      throw new EscrowStateError('Only transactions held in escrow can be disputed');
+    }
+
+    const now = new Date();
+    const responseDeadline = new Date(now.getTime() + DISPUTE_RESPONSE_DAYS * 24 * 60 * 60 * 1000);
+    const respondentId = openedBy === transaction.companyId ? transaction.trainerId : transaction.companyId;
+    const [dispute] = await database.insert(escrowDisputes)
+      .values({
+        escrowTransactionId,
+        openedBy,
+        respondentId,
+        status: 'opened',
+        reason,
+        details,
+        responseDeadline,
+        evidenceDeadline: new Date(responseDeadline.getTime() + DISPUTE_EVIDENCE_GRACE_DAYS * 24 * 60 * 60 * 1000)
+      })
+      .returning();
+    await this.recordDisputeHistory(dispute, 'dispute_opened', transaction.status, 'disputed', openedBy, reason);
+
+    await this.notifyParty(
+      transaction,
+      respondentId,
+      'Payment Disputed',
+      `A dispute was opened on ${this.describeTransaction(transaction)}: ${reason}. ` +
+        `Please respond by ${responseDeadline.toUTCString()}.`
+    );
+    const awaiting = await this.updateDispute(dispute.id, { status: 'awaiting_response' });
+    await this.recordDisputeHistory(awaiting, 'dispute_response_requested', 'disputed', 'disputed');
+
+    return awaiting;
+  }
+
+  async getDisputeWithTransaction(disputeId: number): Promise<{
+    dispute: EscrowDispute;
+    transaction: EscrowTransaction;
+  } | null> {
+    const database = await this.getDb();
+    const [dispute] = await database.select()
+      .from(escrowDisputes)
+      .where(eq(escrowDisputes.id, disputeId));
+    if (!dispute) return null;
+
+    const [transaction] = await database.select()
+      .from(escrowTransactions)
+      .where(eq(escrowTransactions.id, dispute.escrowTransactionId));
+    return transaction ? { dispute, transaction } : null;
+  }
+
+  async getTransactionDisputes(escrowTransactionId: number): Promise<EscrowDispute[]> {
+    const database = await this.getDb();
+    return database.select()
+      .from(escrowDisputes)
+      .where(eq(escrowDisputes.escrowTransactionId, escrowTransactionId))
+      .orderBy(desc(escrowDisputes.createdAt));
+  }
+
+  async getDisputeEvidence(disputeId: number): Promise<EscrowDisputeEvidence[]> {
+    const database = await this.getDb();
+    return database.select()
+      .from(escrowDisputeEvidence)
+      .where(eq(escrowDisputeEvidence.disputeId, disputeId))
+      .orderBy(asc(escrowDisputeEvidence.createdAt));
+  }
+
+  async getDisputeEvidenceFile(evidenceId: number): Promise<{
+    evidence: EscrowDisputeEvidence;
+    transaction: EscrowTransaction;
+  } | null> {
+    const database = await this.getDb();
+    const [evidence] = await database.select()
+      .from(escrowDisputeEvidence)
+      .where(eq(escrowDisputeEvidence.id, evidenceId));
+    if (!evidence) return null;
+
+    const found = await this.getDisputeWithTransaction(evidence.disputeId);
+    return found ? { evidence, transaction: found.transaction } : null;
+  }
+
+  // Admin queue: unresolved disputes, the ones ready for a decision first
+  async getDisputeQueue(statuses: readonly EscrowDispute['status'][] = OPEN_DISPUTE_STATUSES) {
+    const database = await this.getDb();
+    const rows = await database.select({ dispute: escrowDisputes, transaction: escrowTransactions })
+      .from(escrowDisputes)
+      .innerJoin(escrowTransactions, eq(escrowDisputes.escrowTransactionId, escrowTransactions.id))
+      .where(inArray(escrowDisputes.status, [...statuses]))
+      .orderBy(asc(escrowDisputes.responseDeadline));
+
+    const order = (status: EscrowDispute['status']) => (status === 'under_review' ? 0 : 1);
+    return rows.sort((a, b) => order(a.dispute.status) - order(b.dispute.status));
+  }
+
+  // The respondent answers the dispute, which hands it to an admin for review
+  async respondToDispute(disputeId: number, respondedBy: number, response: string) {
+    const { dispute, transaction } = await this.requireDispute(disputeId);
+    if (dispute.respondentId !== respondedBy) {
+      throw new EscrowStateError('Only the other party can respond to this dispute');
+    }
+    if (dispute.status !== 'awaiting_response') {
+      throw new EscrowStateError('This dispute is no longer awaiting a response');
+    }
+    if (new Date() > dispute.responseDeadline) {
+      throw new EscrowStateError('The response deadline has passed');
+    }
+
+    const responded = await this.updateDispute(dispute.id, {
+      status: 'under_review',
+      response,
+      respondedAt: new Date()
+    });
+    await this.recordDisputeHistory(responded, 'dispute_responded', 'disputed', 'disputed', respondedBy, response);
+
+    await this.notifyParty(
+      transaction,
+      dispute.openedBy,
+      'Dispute Response Received',
+      `The other party responded to your dispute on ${this.describeTransaction(transaction)}. An admin will now review it.`
+    );
+
+    return responded;
+  }
+
+  async addDisputeEvidence(
+    disputeId: number,
+    uploadedBy: number,
+    files: DisputeEvidenceFile[],
+    description?: string
+  ): Promise<EscrowDisputeEvidence[]> {
+    const { dispute } = await this.requireDispute(disputeId);
+    if (dispute.openedBy !== uploadedBy && dispute.respondentId !== uploadedBy) {
+      throw new EscrowStateError('Only the parties to this dispute can add evidence');
+    }
+    if (!(OPEN_DISPUTE_STATUSES as readonly string[]).includes(dispute.status)) {
+      throw new EscrowStateError('This dispute has already been resolved');
+    }
+    if (new Date() > dispute.evidenceDeadline) {
+      throw new EscrowStateError('The deadline for adding evidence has passed');
+    }
+
+    const database = await this.getDb();
+    const evidence = await database.insert(escrowDisputeEvidence)
+      .values(files.map(file => ({
+        disputeId,
+        uploadedBy,
+        description: description || null,
+        fileName: file.fileName,
+        filePath: file.filePath,
+        mimeType: file.mimeType || null,
+        fileSize: file.fileSize ?? null
+      })))
+      .returning();
+
+    await this.recordDisputeHistory(
+      dispute, 'dispute_evidence_added', 'disputed', 'disputed', uploadedBy, description,
+      { fileNames: files.map(file => file.fileName) }
+    );
+
+    return evidence;
+  }
+
+  // Disputes whose respondent let the deadline pass go to review without a response
+  async escalateOverdueDisputes(now: Date = new Date()) {
+    const database = await this.getDb();
+    const escalated = await database.update(escrowDisputes)
+      .set({ status: 'under_review', updatedAt: new Date() })
+      .where(and(
+        eq(escrowDisputes.status, 'awaiting_response'),
+        lt(escrowDisputes.responseDeadline, now)
+      ))
+      .returning();
+
+    for (const dispute of escalated) {
+      await this.recordDisputeHistory(
+        dispute, 'dispute_response_overdue', 'disputed', 'disputed', undefined, 'No response before the deadline'
+      );
+    }
+    return escalated.length;
+  }
+
+  // Admin decision on a dispute under review. `release` pays the trainer in full, `refund` returns
+  // everything still held to the company, and `split` refunds refundAmount and releases the rest.
+  async resolveDispute(
+    disputeId: number,
+    resolvedBy: number,
+    resolution: { outcome: DisputeOutcome; refundAmount?: number; note: string }
+  ) {
+    const { dispute, transaction } = await this.requireDispute(disputeId);
+    if (dispute.status !== 'under_review') {
+      throw new EscrowStateError('Only disputes under review can be resolved');
+    }
+    // in_escrow covers a retry after a release that failed part-way
+    if (!['disputed', 'in_escrow'].includes(transaction.status)) {
+      throw new EscrowStateError(`Transaction cannot be settled while ${transaction.status}`);
+    }
+
+    // Milestone contracts only still hold their unreleased milestones
+    const milestones = await this.getMilestones(transaction.id);
+    const unreleased = milestones.filter(m => (UNRELEASED_MILESTONE_STATUSES as readonly string[]).includes(m.status));
+    const refundable = milestones.length > 0
+      ? unreleased.reduce((sum, m) => sum + m.amount, 0)
+      : transaction.amount;
+
+    let refundAmount = 0;
+    if (resolution.outcome === 'refund') {
+      refundAmount = refundable;
+    } else if (resolution.outcome === 'split') {
+      refundAmount = resolution.refundAmount ?? 0;
+      if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount >= refundable) {
+        throw new EscrowStateError(`A split must refund more than 0 and less than ${refundable} cents`);
+      }
+    }
+    const releaseAmount = refundable - refundAmount;
+
+    const database = await this.getDb();
+    const resolvedAt = new Date();
+    const summary = { disputeId: dispute.id, outcome: resolution.outcome, refundAmount, releaseAmount };
+    let stripeRefundId: string | null = null;
+
+    if (resolution.outcome === 'release') {
+      // Hand the transaction back to the normal release path, which also handles milestone transfers
+      await database.update(escrowTransactions)
+        .set({
+          status: 'in_escrow',
+          disputeResolution: resolution.note,
+          disputeResolutionDate: resolvedAt,
+          updatedAt: resolvedAt
+        })
+        .where(eq(escrowTransactions.id, transaction.id));
+      await this.recordTransactionHistory(
+        transaction.id, 'dispute_resolved', transaction.status, 'in_escrow', resolvedBy, resolution.note, summary
+      );
+      await this.releaseFunds(transaction.id, resolvedBy, resolution.note);
+    } else {
+      if (refundAmount === 0) {
+        throw new EscrowStateError('Nothing is left in escrow to refund');
+      }
+
+      // Standard contracts were paid out through a destination charge, so the trainer's share of
+      // the refund is pulled back from their account; milestone funds still sit on the platform
+      const refund = await paymentProvider.createRefund({
+        payment_intent: transaction.stripePaymentIntentId!,
+        amount: refundAmount,
+        reason: 'requested_by_customer',
+        reverse_transfer: milestones.length === 0,
+        metadata: {
+          escrowTransactionId: transaction.id.toString(),
+          disputeId: dispute.id.toString(),
+          outcome: resolution.outcome
+        }
+      }, {
+        idempotencyKey: `escrow_dispute_refund_${dispute.id}`
+      });
+      stripeRefundId = refund.id;
+
+      if (milestones.length > 0) {
+        await this.settleDisputedMilestones(transaction, dispute, unreleased, releaseAmount, resolvedBy, resolution.note);
+      }
+
+      // A contract that paid out anything stays released; one that paid out nothing is refunded
+      const paidOut = releaseAmount > 0 || unreleased.length < milestones.length;
+      const newStatus = paidOut ? 'released' : 'refunded';
+      await database.update(escrowTransactions)
+        .set({
+          status: newStatus,
+          disputeResolution: resolution.note,
+          disputeResolutionDate: resolvedAt,
+          updatedAt: resolvedAt
+        })
+        .where(eq(escrowTransactions.id, transaction.id));
+      await this.recordTransactionHistory(
+        transaction.id, 'dispute_resolved', transaction.status, newStatus, resolvedBy, resolution.note,
+        { ...summary, stripeRefundId }
+      );
+    }
+
+    const resolved = await this.updateDispute(dispute.id, {
+      status: `resolved_${resolution.outcome}`,
+      resolutionNote: resolution.note,
+      refundAmount,
+      releaseAmount,
+      stripeRefundId,
+      resolvedBy,
+      resolvedAt
+    });
+
+    const outcomeText = {
+      release: 'the funds were released to the professional',
+      refund: 'the funds were refunded to the company',
+      split: 'the funds were split between both parties'
+    }[resolution.outcome];
+    for (const userId of [transaction.companyId, transaction.trainerId]) {
+      await this.notifyParty(
+        transaction,
+        userId,
+        'Dispute Resolved',
+        `The dispute on ${this.describeTransaction(transaction)} was resolved: ${outcomeText}. ${resolution.note}`
+      );
+    }
+
+    return resolved;
+  }
+
+  // Pay the released part of a split milestone contract as one transfer and close the unreleased milestones
+  private async settleDisputedMilestones(
+    transaction: EscrowTransaction,
+    dispute: EscrowDispute,
+    unreleased: EscrowMilestone[],
+    releaseAmount: number,
+    resolvedBy: number,
+    reason: string
+  ) {
+    const database = await this.getDb();
+
+    if (releaseAmount > 0) {
+      const [professional] = await database.select()
+        .from(users)
+        .where(eq(users.id, transaction.trainerId));
+      if (!professional?.stripeConnectAccountId) {
+        throw new EscrowStateError('Professional has no payout account');
+      }
+
+      const paymentIntent = await paymentProvider.retrievePaymentIntent(transaction.stripePaymentIntentId!);
+      const sourceCharge = typeof paymentIntent.latest_charge === 'string'
+        ? paymentIntent.latest_charge
+        : paymentIntent.latest_charge?.id;
+
+      await paymentProvider.createTransfer({
+        amount: this.calculatePayoutAmounts(releaseAmount).professionalPayoutAmount,
+        currency: transaction.currency.toLowerCase(),
+        destination: professional.stripeConnectAccountId,
+        transfer_group: transaction.stripeTransferGroupId || undefined,
+        source_transaction: sourceCharge,
+        metadata: {
+          escrowTransactionId: transaction.id.toString(),
+          disputeId: dispute.id.toString(),
+          type: 'escrow_dispute_release'
+        }
+      }, {
+        idempotencyKey: `escrow_dispute_release_${dispute.id}`
+      });
+    }
+
+    const newStatus = releaseAmount > 0 ? 'cancelled' : 'refunded';
+    await database.update(escrowMilestones)
+      .set({ status: newStatus, updatedAt: new Date() })
+      .where(inArray(escrowMilestones.id, unreleased.map(m => m.id)));
+    for (const milestone of unreleased) {
+      await this.recordMilestoneHistory(
+        { ...milestone, status: newStatus }, `milestone_${newStatus}`, milestone.status, newStatus, resolvedBy, reason
+      );
+    }
+  }
+
+  private async requireDispute(disputeId: number) {
+    const result = await this.getDisputeWithTransaction(disputeId);
+    if (!result) {
+      throw new EscrowStateError('Dispute not found');
+    }
+    return result;
+  }
+
+  private async updateDispute(disputeId: number, changes: Partial<EscrowDispute>) {
+    const database = await this.getDb();
+    const [updated] = await database.update(escrowDisputes)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(escrowDisputes.id, disputeId))
+      .returning();
+    return updated;
+  }
+
+  // Dispute steps are written to the transaction history with the dispute's state alongside
+  private async recordDisputeHistory(
+    dispute: EscrowDispute,
+    action: string,
+    previousStatus: string | null,
+    newStatus: string,
+    actionBy?: number,
+    reason?: string,
+    metadata?: Record<string, unknown>
+  ) {
+    await this.recordTransactionHistory(
+      dispute.escrowTransactionId,
+      action,
+      previousStatus,
+      newStatus,
+      actionBy,
+      reason,
+      { ...metadata, disputeId: dispute.id, disputeStatus: dispute.status }
+    );
+  }
+
+  private describeTransaction(transaction: EscrowTransaction) {
+    return transaction.description ? `"${transaction.description}"` : `payment #${transaction.id}`;
+  }
+
+  private async notifyParty(transaction: EscrowTransaction, userId: number, title: string, message: string) {
+    const database = await this.getDb();
+    const [user] = await database.select()
+      .from(users)
+      .where(eq(users.id, userId));
+    if (!user) return;
+
+    await notificationService.sendEscrowNotification(
+      user,
+      user.id === transaction.companyId ? 'company' : 'professional',
+      { escrowTransactionId: transaction.id, title, message }
+    );
+  }
+
+  private async requireMilestone(milestoneId: number) {
+    const result = await this.getMilestoneWithTransaction(milestoneId);
+    if (!result) {
+      throw new EscrowStateError('Milestone not found');
+    }
+    return result;
+  }
+
+  private async updateMilestone(milestoneId: number, changes: Partial<EscrowMilestone>) {
+    const database = await this.getDb();
+    const [updated] = await database.update(escrowMilestones)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(escrowMilestones.id, milestoneId))
+      .returning();
+    return updated;
+  }
+
+  // Milestone changes are written to the contract's transaction history
+  private async recordMilestoneHistory(
+    milestone: EscrowMilestone,
+    action: string,
+    previousStatus: string | null,
+    newStatus: string,
+    actionBy?: number,
+    reason?: string
+  ) {
+    await this.recordTransactionHistory(
+      milestone.escrowTransactionId,
+      action,
+      previousStatus,
+      newStatus,
+      actionBy,
+      reason,
+      {
+        milestoneId: milestone.id,
+        milestonePosition: milestone.position,
+        milestoneTitle: milestone.title,
+        amount: milestone.amount
+      }
+    );
   }
 
   // Record transaction history for audit trail
@@ -346,9 +1370,11 @@ export class EscrowService {
     previousStatus: string | null,
     newStatus: string,
     actionBy?: number,
-    reason?: string
+    reason?: string,
+    metadata?: Record<string, unknown>
   ) {
-    await db.insert(transactionHistory)
+    const database = await this.getDb();
+    await database.insert(transactionHistory)
       .values({
         escrowTransactionId,
         action,
@@ -356,7 +1382,7 @@ export class EscrowService {
         newStatus,
         actionBy,
         actionReason: reason,
-        metadata: { timestamp: new Date().toISOString() }
+        metadata: { ...metadata, timestamp: new Date().toISOString() }
       });
   }
 
@@ -375,9 +1401,14 @@ export class EscrowService {
         .from(transactionHistory)
         .where(eq(transactionHistory.escrowTransactionId, escrowTransactionId));
 
+      const milestones = await this.getMilestones(escrowTransactionId);
+      const disputes = await this.getTransactionDisputes(escrowTransactionId);
+
       return {
         transaction,
-        history
+        history,
+        milestones,
+        disputes
       };
     } catch (error) {
       console.error('Error getting transaction details:', error);
@@ -400,7 +1431,7 @@ export class EscrowService {
   // Save payment method
   async savePaymentMethod(userId: number, paymentMethodId: string) {
     try {
-      const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+      const paymentMethod = await paymentProvider.retrievePaymentMethod(paymentMethodId);
       
       await db.insert(paymentMethods)
         .values({
@@ -0,0 +1,738 @@
+import Stripe from 'stripe';
+import crypto from 'crypto';
+import type { PaymentEventHandler, PaymentProvider, ProviderRequestOptions } from './payment-provider';
+
+const FAKE_API_VERSION = '2025-02-24.acacia';
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function newId(prefix: string): string {
+  // Random rather than sequential so ids stored by an earlier process never collide with new ones
+  return `${prefix}_fake_${crypto.randomBytes(8).toString('hex')}`;
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function toMetadata(metadata?: Stripe.MetadataParam | '' | null): Stripe.Metadata {
+  const result: Stripe.Metadata = {};
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (value !== null && value !== undefined) result[key] = String(value);
+  }
+  return result;
+}
+
+function missing(kind: string, id: string): Stripe.errors.StripeInvalidRequestError {
+  return new Stripe.errors.StripeInvalidRequestError({
+    type: 'invalid_request_error',
+    code: 'resource_missing',
+    statusCode: 404,
+    message: `No such ${kind}: '${id}'`
+  });
+}
+
+function invalid(message: string): Stripe.errors.StripeInvalidRequestError {
+  return new Stripe.errors.StripeInvalidRequestError({ type: 'invalid_request_error', statusCode: 400, message });
+}
+
+function addInterval(timestamp: number, interval: Stripe.Price.Recurring.Interval | undefined): number {
+  const date = new Date(timestamp * 1000);
+  if (interval === 'year') date.setUTCFullYear(date.getUTCFullYear() + 1);
+  else if (interval === 'week') date.setUTCDate(date.getUTCDate() + 7);
+  else if (interval === 'day') date.setUTCDate(date.getUTCDate() + 1);
+  else date.setUTCMonth(date.getUTCMonth() + 1);
+  return Math.floor(date.getTime() / 1000);
+}
+
+// In-process stand-in for Stripe. It keeps Stripe-shaped objects in memory, moves them through the
+// same state transitions Stripe would and delivers the resulting events to the onEvent handlers,
+// so payment, escrow and subscription flows can run without network access or Stripe keys.
+// Nothing survives a restart: objects created by an earlier process are reported as missing.
+//
+// Payments that Stripe completes in the browser (confirming a payment or setup intent, finishing
+// Connect onboarding) are completed here with the succeed*/fail*/complete* helpers, and renewals
+// are driven with advanceSubscriptionPeriod.
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  private customers = new Map<string, Stripe.Customer>();
+  private paymentIntents = new Map<string, Stripe.PaymentIntent>();
+  private setupIntents = new Map<string, Stripe.SetupIntent>();
+  private paymentMethods = new Map<string, Stripe.PaymentMethod>();
+  private accounts = new Map<string, Stripe.Account>();
+  private transfers = new Map<string, Stripe.Transfer>();
+  private refunds = new Map<string, Stripe.Refund>();
+  private products = new Map<string, Stripe.Product>();
+  private prices = new Map<string, Stripe.Price>();
+  private subscriptions = new Map<string, Stripe.Subscription>();
+  private invoices = new Map<string, Stripe.Invoice>();
+  // Payment intent id -> id of the invoice it pays
+  private invoicePayments = new Map<string, string>();
+  private idempotentResults = new Map<string, unknown>();
+
+  private handlers: PaymentEventHandler[] = [];
+  private delivery: Promise<void> = Promise.resolve();
+
+  // Customers
+
+  async createCustomer(params: Stripe.CustomerCreateParams) {
+    const customer = {
+      id: newId('cus'),
+      object: 'customer',
+      email: params.email ?? null,
+      name: params.name ?? null,
+      metadata: toMetadata(params.metadata),
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.Customer;
+
+    this.customers.set(customer.id, customer);
+    this.emit('customer.created', customer);
+    return clone(customer);
+  }
+
+  // Payment intents and saved payment methods
+
+  async createPaymentIntent(params: Stripe.PaymentIntentCreateParams, options?: ProviderRequestOptions) {
+    return this.idempotent(options, () => {
+      const intent = this.buildPaymentIntent(params);
+      if (params.confirm && intent.payment_method) {
+        this.settlePaymentIntent(intent, intent.payment_method as string);
+      }
+      return clone(intent);
+    });
+  }
+
+  async retrievePaymentIntent(id: string) {
+    return clone(this.requirePaymentIntent(id));
+  }
+
+  async createSetupIntent(params: Stripe.SetupIntentCreateParams) {
+    const id = newId('seti');
+    const setupIntent = {
+      id,
+      object: 'setup_intent',
+      client_secret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      customer: params.customer ?? null,
+      payment_method: null,
+      payment_method_types: params.payment_method_types ?? ['card'],
+      usage: params.usage ?? 'off_session',
+      status: 'requires_payment_method',
+      metadata: toMetadata(params.metadata),
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.SetupIntent;
+
+    this.setupIntents.set(id, setupIntent);
+    return clone(setupIntent);
+  }
+
+  async retrieveSetupIntent(id: string) {
+    return clone(this.requireSetupIntent(id));
+  }
+
+  async listPaymentMethods(customerId: string) {
+    return Array.from(this.paymentMethods.values())
+      .filter(paymentMethod => paymentMethod.customer === customerId)
+      .map(clone);
+  }
+
+  async retrievePaymentMethod(id: string) {
+    return clone(this.requirePaymentMethod(id));
+  }
+
+  async detachPaymentMethod(id: string) {
+    const paymentMethod = this.requirePaymentMethod(id);
+    if (!paymentMethod.customer) {
+      throw invalid(`The payment method you provided is not attached to a customer so detachment is impossible.`);
+    }
+    paymentMethod.customer = null;
+    this.emit('payment_method.detached', paymentMethod);
+    return clone(paymentMethod);
+  }
+
+  // Connect accounts, transfers and refunds
+
+  async createAccount(params: Stripe.AccountCreateParams) {
+    const account = {
+      id: newId('acct'),
+      object: 'account',
+      type: params.type ?? 'express',
+      country: params.country ?? 'US',
+      email: params.email ?? null,
+      business_type: params.business_type ?? null,
+      capabilities: {},
+      details_submitted: false,
+      charges_enabled: false,
+      payouts_enabled: false,
+      metadata: toMetadata(params.metadata),
+      created: now()
+    } as unknown as Stripe.Account;
+
+    this.accounts.set(account.id, account);
+    return clone(account);
+  }
+
+  async retrieveAccount(id: string) {
+    return clone(this.requireAccount(id));
+  }
+
+  // There is no hosted onboarding, so the link leads straight back to the app
+  async createAccountLink(params: Stripe.AccountLinkCreateParams) {
+    this.requireAccount(params.account);
+    return {
+      object: 'account_link',
+      url: params.return_url ?? params.refresh_url ?? '',
+      created: now(),
+      expires_at: now() + 300
+    } as Stripe.AccountLink;
+  }
+
+  async createTransfer(params: Stripe.TransferCreateParams, options?: ProviderRequestOptions) {
+    return this.idempotent(options, () => {
+      if (!params.destination) {
+        throw invalid('Missing required param: destination.');
+      }
+      if (params.amount === undefined || params.amount <= 0) {
+        throw invalid('Transfer amount must be positive.');
+      }
+
+      const transfer = {
+        id: newId('tr'),
+        object: 'transfer',
+        amount: params.amount,
+        amount_reversed: 0,
+        currency: params.currency,
+        destination: params.destination,
+        transfer_group: params.transfer_group ?? null,
+        source_transaction: params.source_transaction ?? null,
+        metadata: toMetadata(params.metadata),
+        reversed: false,
+        created: now(),
+        livemode: false
+      } as unknown as Stripe.Transfer;
+
+      this.transfers.set(transfer.id, transfer);
+      this.emit('transfer.created', transfer);
+      return clone(transfer);
+    });
+  }
+
+  async createRefund(params: Stripe.RefundCreateParams, options?: ProviderRequestOptions) {
+    return this.idempotent(options, () => {
+      if (!params.payment_intent) {
+        throw invalid('Missing required param: payment_intent.');
+      }
+      const intent = this.requirePaymentIntent(params.payment_intent);
+      if (intent.status !== 'succeeded') {
+        throw invalid(`PaymentIntent ${intent.id} has not been paid and cannot be refunded.`);
+      }
+
+      const alreadyRefunded = Array.from(this.refunds.values())
+        .filter(refund => refund.payment_intent === intent.id)
+        .reduce((sum, refund) => sum + refund.amount, 0);
+      const remaining = intent.amount_received - alreadyRefunded;
+      const amount = params.amount ?? remaining;
+      if (amount <= 0 || amount > remaining) {
+        throw invalid(`Refund amount (${amount}) is greater than the unrefunded amount on the charge (${remaining}).`);
+      }
+
+      const refund = {
+        id: newId('re'),
+        object: 'refund',
+        amount,
+        currency: intent.currency,
+        payment_intent: intent.id,
+        charge: intent.latest_charge,
+        reason: params.reason ?? null,
+        status: 'succeeded',
+        metadata: toMetadata(params.metadata),
+        created: now()
+      } as unknown as Stripe.Refund;
+
+      this.refunds.set(refund.id, refund);
+      this.emit('refund.created', refund);
+      return clone(refund);
+    });
+  }
+
+  // Products, prices and subscriptions
+
+  async createProduct(params: Stripe.ProductCreateParams) {
+    const product = {
+      id: newId('prod'),
+      object: 'product',
+      name: params.name,
+      description: params.description ?? null,
+      active: params.active ?? true,
+      metadata: toMetadata(params.metadata),
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.Product;
+
+    this.products.set(product.id, product);
+    return clone(product);
+  }
+
+  async createPrice(params: Stripe.PriceCreateParams) {
+    if (!params.product || !this.products.has(params.product)) {
+      throw missing('product', params.product ?? '');
+    }
+
+    const price = {
+      id: newId('price'),
+      object: 'price',
+      product: params.product,
+      currency: params.currency,
+      unit_amount: params.unit_amount ?? 0,
+      recurring: params.recurring
+        ? { interval: params.recurring.interval, interval_count: params.recurring.interval_count ?? 1 }
+        : null,
+      type: params.recurring ? 'recurring' : 'one_time',
+      active: params.active ?? true,
+      metadata: toMetadata(params.metadata),
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.Price;
+
+    this.prices.set(price.id, price);
+    return clone(price);
+  }
+
+  async createSubscription(params: Stripe.SubscriptionCreateParams) {
+    if (!params.customer || !this.customers.has(params.customer)) {
+      throw missing('customer', params.customer ?? '');
+    }
+    const items = (params.items || []).map(item => {
+      if (!item.price) throw invalid('Each subscription item needs a price.');
+      return {
+        id: newId('si'),
+        object: 'subscription_item',
+        price: clone(this.requirePrice(item.price)),
+        quantity: item.quantity ?? 1
+      };
+    });
+    if (items.length === 0) {
+      throw invalid('Missing required param: items.');
+    }
+
+    const start = now();
+    const subscription = {
+      id: newId('sub'),
+      object: 'subscription',
+      customer: params.customer,
+      status: 'incomplete',
+      items: { object: 'list', data: items, has_more: false },
+      current_period_start: start,
+      current_period_end: addInterval(start, items[0].price.recurring?.interval),
+      cancel_at_period_end: false,
+      canceled_at: null,
+      ended_at: null,
+      trial_start: null,
+      trial_end: null,
+      default_payment_method: params.default_payment_method ?? null,
+      latest_invoice: null,
+      metadata: toMetadata(params.metadata),
+      created: start,
+      livemode: false
+    } as unknown as Stripe.Subscription;
+    this.subscriptions.set(subscription.id, subscription);
+
+    const invoice = this.openInvoice(subscription, 'subscription_create');
+
+    // Without default_incomplete Stripe charges a saved payment method straight away
+    if (params.payment_behavior !== 'default_incomplete' && subscription.default_payment_method) {
+      const intent = this.requirePaymentIntent(invoice.payment_intent as string);
+      this.settlePaymentIntent(intent, subscription.default_payment_method as string);
+    }
+
+    this.emit('customer.subscription.created', subscription);
+    return this.expandSubscription(subscription, params.expand);
+  }
+
+  async retrieveSubscription(id: string) {
+    return clone(this.requireSubscription(id));
+  }
+
+  async updateSubscription(id: string, params: Stripe.SubscriptionUpdateParams) {
+    const subscription = this.requireSubscription(id);
+    if (subscription.status === 'canceled') {
+      throw invalid('A canceled subscription can only update its cancellation_details and metadata.');
+    }
+
+    for (const item of params.items || []) {
+      const existing = subscription.items.data.find(current => current.id === item.id);
+      if (!existing) throw missing('subscription_item', item.id ?? '');
+      if (item.price) existing.price = clone(this.requirePrice(item.price));
+      if (item.quantity !== undefined) existing.quantity = item.quantity;
+    }
+    if (params.cancel_at_period_end !== undefined) {
+      subscription.cancel_at_period_end = params.cancel_at_period_end;
+    }
+    if (typeof params.default_payment_method === 'string') {
+      subscription.default_payment_method = params.default_payment_method;
+    }
+    if (params.metadata) {
+      subscription.metadata = { ...subscription.metadata, ...toMetadata(params.metadata) };
+    }
+
+    this.emit('customer.subscription.updated', subscription);
+    return this.expandSubscription(subscription, params.expand);
+  }
+
+  async cancelSubscription(id: string) {
+    const subscription = this.requireSubscription(id);
+    if (subscription.status === 'canceled') {
+      throw invalid(`This subscription has already been canceled: ${id}`);
+    }
+
+    this.endSubscription(subscription);
+    return clone(subscription);
+  }
+
+  // Webhooks
+
+  // Payloads posted to the webhook routes are verified exactly as Stripe's would be, so signed test
+  // payloads (Stripe.webhooks.generateTestHeaderString) keep working against the fake
+  constructWebhookEvent(payload: string | Buffer, signature: string, secret: string) {
+    return Stripe.webhooks.constructEvent(payload, signature, secret);
+  }
+
+  onEvent(handler: PaymentEventHandler) {
+    this.handlers.push(handler);
+  }
+
+  // Resolves once every event emitted so far, including events emitted by the handlers, is handled
+  async flushEvents(): Promise<void> {
+    let current: Promise<void>;
+    do {
+      current = this.delivery;
+      await current;
+    } while (current !== this.delivery);
+  }
+
+  // Simulation helpers
+
+  // What the customer confirming the payment in the browser would do
+  async succeedPaymentIntent(id: string, paymentMethodId?: string) {
+    const intent = this.requirePaymentIntent(id);
+    if (intent.status === 'succeeded') return clone(intent);
+    if (intent.status === 'canceled') {
+      throw invalid(`This PaymentIntent's status is canceled and it cannot be confirmed.`);
+    }
+
+    const paymentMethod = paymentMethodId
+      ?? (intent.payment_method as string | null)
+      ?? this.createCard(intent.customer as string | null).id;
+    this.settlePaymentIntent(intent, paymentMethod);
+    return clone(intent);
+  }
+
+  async failPaymentIntent(id: string, message: string = 'Your card was declined.') {
+    const intent = this.requirePaymentIntent(id);
+    if (intent.status === 'succeeded' || intent.status === 'canceled') {
+      throw invalid(`This PaymentIntent's status is ${intent.status} and it cannot be confirmed.`);
+    }
+
+    intent.status = 'requires_payment_method';
+    intent.last_payment_error = {
+      type: 'card_error',
+      code: 'card_declined',
+      decline_code: 'generic_decline',
+      message
+    } as Stripe.PaymentIntent.LastPaymentError;
+    this.emit('payment_intent.payment_failed', intent);
+
+    const invoiceId = this.invoicePayments.get(intent.id);
+    if (invoiceId) {
+      const invoice = this.invoices.get(invoiceId)!;
+      const subscription = this.subscriptions.get(invoice.subscription as string);
+      this.emit('invoice.payment_failed', invoice);
+      if (subscription && subscription.status === 'active') {
+        subscription.status = 'past_due';
+        this.emit('customer.subscription.updated', subscription);
+      }
+    }
+    return clone(intent);
+  }
+
+  // What the customer saving a card in the browser would do
+  async succeedSetupIntent(id: string) {
+    const setupIntent = this.requireSetupIntent(id);
+    if (setupIntent.status === 'succeeded') return clone(setupIntent);
+
+    const paymentMethod = this.createCard(setupIntent.customer as string | null);
+    setupIntent.payment_method = paymentMethod.id;
+    setupIntent.status = 'succeeded';
+    this.emit('setup_intent.succeeded', setupIntent);
+    return clone(setupIntent);
+  }
+
+  async completeAccountOnboarding(id: string) {
+    const account = this.requireAccount(id);
+    account.details_submitted = true;
+    account.charges_enabled = true;
+    account.payouts_enabled = true;
+    this.emit('account.updated', account);
+    return clone(account);
+  }
+
+  // Move a subscription to its next billing period, as Stripe does when the period ends: the
+  // subscription ends if it was set to cancel, otherwise a renewal invoice is charged to the
+  // default payment method (or left open, making the subscription past due, when there is none)
+  async advanceSubscriptionPeriod(id: string) {
+    const subscription = this.requireSubscription(id);
+    if (subscription.status === 'canceled') {
+      throw invalid(`This subscription has already been canceled: ${id}`);
+    }
+
+    if (subscription.cancel_at_period_end) {
+      this.endSubscription(subscription);
+      return clone(subscription);
+    }
+
+    subscription.current_period_start = subscription.current_period_end;
+    subscription.current_period_end = addInterval(
+      subscription.current_period_end,
+      subscription.items.data[0].price.recurring?.interval
+    );
+
+    const invoice = this.openInvoice(subscription, 'subscription_cycle');
+    const intent = this.requirePaymentIntent(invoice.payment_intent as string);
+    if (subscription.default_payment_method) {
+      this.settlePaymentIntent(intent, subscription.default_payment_method as string);
+    } else {
+      await this.failPaymentIntent(intent.id, 'The customer has no default payment method.');
+    }
+    return clone(subscription);
+  }
+
+  getTransfers(transferGroup?: string) {
+    return Array.from(this.transfers.values())
+      .filter(transfer => !transferGroup || transfer.transfer_group === transferGroup)
+      .map(clone);
+  }
+
+  getRefunds(paymentIntentId?: string) {
+    return Array.from(this.refunds.values())
+      .filter(refund => !paymentIntentId || refund.payment_intent === paymentIntentId)
+      .map(clone);
+  }
+
+  // Internals
+
+  private async idempotent<T>(options: ProviderRequestOptions | undefined, create: () => T): Promise<T> {
+    const key = options?.idempotencyKey;
+    if (!key) return create();
+    if (this.idempotentResults.has(key)) {
+      return clone(this.idempotentResults.get(key) as T);
+    }
+    const result = create();
+    this.idempotentResults.set(key, clone(result));
+    return result;
+  }
+
+  private buildPaymentIntent(params: Stripe.PaymentIntentCreateParams): Stripe.PaymentIntent {
+    if (!params.amount || params.amount <= 0) {
+      throw invalid('Amount must be at least 1.');
+    }
+
+    const id = newId('pi');
+    const intent = {
+      id,
+      object: 'payment_intent',
+      amount: params.amount,
+      amount_received: 0,
+      currency: params.currency,
+      customer: params.customer ?? null,
+      description: params.description ?? null,
+      client_secret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      payment_method: params.payment_method ?? null,
+      payment_method_types: params.payment_method_types ?? ['card'],
+      application_fee_amount: params.application_fee_amount ?? null,
+      transfer_data: params.transfer_data ?? null,
+      transfer_group: params.transfer_group ?? null,
+      latest_charge: null,
+      last_payment_error: null,
+      status: 'requires_payment_method',
+      metadata: toMetadata(params.metadata),
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.PaymentIntent;
+
+    this.paymentIntents.set(id, intent);
+    this.emit('payment_intent.created', intent);
+    return intent;
+  }
+
+  private settlePaymentIntent(intent: Stripe.PaymentIntent, paymentMethodId: string) {
+    intent.status = 'succeeded';
+    intent.payment_method = paymentMethodId;
+    intent.amount_received = intent.amount;
+    intent.latest_charge = newId('ch');
+    intent.last_payment_error = null;
+    this.emit('payment_intent.succeeded', intent);
+
+    const invoiceId = this.invoicePayments.get(intent.id);
+    if (!invoiceId) return;
+
+    const invoice = this.invoices.get(invoiceId)!;
+    invoice.status = 'paid';
+    invoice.amount_paid = invoice.amount_due;
+    invoice.status_transitions = { ...invoice.status_transitions, paid_at: now() };
+    this.emit('invoice.payment_succeeded', invoice);
+
+    const subscription = this.subscriptions.get(invoice.subscription as string);
+    if (subscription) {
+      subscription.status = 'active';
+      subscription.default_payment_method = subscription.default_payment_method ?? paymentMethodId;
+      this.emit('customer.subscription.updated', subscription);
+    }
+  }
+
+  private openInvoice(subscription: Stripe.Subscription, billingReason: Stripe.Invoice.BillingReason): Stripe.Invoice {
+    const amount = subscription.items.data
+      .reduce((sum, item) => sum + (item.price.unit_amount ?? 0) * (item.quantity ?? 1), 0);
+    const currency = subscription.items.data[0].price.currency;
+    const intent = this.buildPaymentIntent({
+      amount,
+      currency,
+      customer: subscription.customer as string,
+      description: 'Subscription update'
+    });
+
+    const invoice = {
+      id: newId('in'),
+      object: 'invoice',
+      customer: subscription.customer,
+      subscription: subscription.id,
+      status: 'open',
+      amount_due: amount,
+      amount_paid: 0,
+      currency,
+      billing_reason: billingReason,
+      hosted_invoice_url: null,
+      invoice_pdf: null,
+      due_date: null,
+      payment_intent: intent.id,
+      period_start: subscription.current_period_start,
+      period_end: subscription.current_period_end,
+      status_transitions: { finalized_at: now(), paid_at: null, marked_uncollectible_at: null, voided_at: null },
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.Invoice;
+
+    this.invoices.set(invoice.id, invoice);
+    this.invoicePayments.set(intent.id, invoice.id);
+    subscription.latest_invoice = invoice.id;
+    this.emit('invoice.finalized', invoice);
+    return invoice;
+  }
+
+  private endSubscription(subscription: Stripe.Subscription) {
+    subscription.status = 'canceled';
+    subscription.canceled_at = subscription.canceled_at ?? now();
+    subscription.ended_at = now();
+    this.emit('customer.subscription.deleted', subscription);
+  }
+
+  // Stripe only inlines related objects that were asked for with `expand`
+  private expandSubscription(subscription: Stripe.Subscription, expand?: string[]): Stripe.Subscription {
+    const result = clone(subscription);
+    if (expand?.includes('latest_invoice') || expand?.includes('latest_invoice.payment_intent')) {
+      const invoice = clone(this.invoices.get(subscription.latest_invoice as string)!);
+      if (expand.includes('latest_invoice.payment_intent')) {
+        invoice.payment_intent = clone(this.requirePaymentIntent(invoice.payment_intent as string));
+      }
+      result.latest_invoice = invoice;
+    }
+    return result;
+  }
+
+  private createCard(customerId: string | null): Stripe.PaymentMethod {
+    const paymentMethod = {
+      id: newId('pm'),
+      object: 'payment_method',
+      type: 'card',
+      customer: customerId,
+      card: { brand: 'visa', last4: '4242', exp_month: 12, exp_year: new Date().getFullYear() + 3 },
+      billing_details: {},
+      metadata: {},
+      created: now(),
+      livemode: false
+    } as unknown as Stripe.PaymentMethod;
+
+    this.paymentMethods.set(paymentMethod.id, paymentMethod);
+    if (customerId) this.emit('payment_method.attached', paymentMethod);
+    return paymentMethod;
+  }
+
+  private requirePaymentIntent(id: string) {
+    const intent = this.paymentIntents.get(id);
+    if (!intent) throw missing('payment_intent', id);
+    return intent;
+  }
+
+  private requireSetupIntent(id: string) {
+    const setupIntent = this.setupIntents.get(id);
+    if (!setupIntent) throw missing('setup_intent', id);
+    return setupIntent;
+  }
+
+  private requirePaymentMethod(id: string) {
+    const paymentMethod = this.paymentMethods.get(id);
+    if (!paymentMethod) throw missing('payment_method', id);
+    return paymentMethod;
+  }
+
+  private requireAccount(id: string) {
+    const account = this.accounts.get(id);
+    if (!account) throw missing('account', id);
+    return account;
+  }
+
+  private requirePrice(id: string) {
+    const price = this.prices.get(id);
+    if (!price) throw missing('price', id);
+    return price;
+  }
+
+  private requireSubscription(id: string) {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) throw missing('subscription', id);
+    return subscription;
+  }
+
+  // Events carry a snapshot of the object and are delivered asynchronously and in order, like
+  // webhooks arriving after the API call that caused them has returned
+  private emit(type: string, object: { id?: string }) {
+    const event = {
+      id: newId('evt'),
+      object: 'event',
+      api_version: FAKE_API_VERSION,
+      type,
+      created: now(),
+      data: { object: clone(object) },
+      livemode: false,
+      pending_webhooks: this.handlers.length,
+      request: { id: null, idempotency_key: null }
+    } as unknown as Stripe.Event;
+
+    this.delivery = this.delivery
+      .then(() => new Promise<void>(resolve => setImmediate(resolve)))
+      .then(() => this.deliver(event));
+  }
+
+  private async deliver(event: Stripe.Event) {
+    for (const handler of this.handlers) {
+      try {
+        await handler(event);
+      } catch (error) {
+        console.error(`Fake payment provider: handler failed for ${event.type}:`, error);
+      }
+    }
+  }
+}
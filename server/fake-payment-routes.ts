@@ -0,0 +1,43 @@
+import type { Express } from 'express';
+import type { FakePaymentProvider } from './fake-payment-provider';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Stand-ins for the steps Stripe completes outside the app (the customer paying in the browser,
+// Connect onboarding, a billing period ending). Only registered while the fake provider is active.
+export function registerFakePaymentRoutes(app: Express, provider: FakePaymentProvider) {
+  const simulate = (action: (id: string, body: any) => Promise<unknown>) => async (req: any, res: any) => {
+    try {
+      const result = await action(req.params.id, req.body || {});
+      await provider.flushEvents();
+      res.json(result);
+    } catch (error: any) {
+      res.status(error.statusCode || 500).json({ message: error.message || 'Simulation failed' });
+    }
+  };
+
+  app.post('/api/dev/payments/payment-intents/:id/succeed', isAuthenticated, simulate(
+    (id, body) => provider.succeedPaymentIntent(id, body.paymentMethodId)
+  ));
+
+  app.post('/api/dev/payments/payment-intents/:id/fail', isAuthenticated, simulate(
+    (id, body) => provider.failPaymentIntent(id, body.message)
+  ));
+
+  app.post('/api/dev/payments/setup-intents/:id/succeed', isAuthenticated, simulate(
+    id => provider.succeedSetupIntent(id)
+  ));
+
+  app.post('/api/dev/payments/accounts/:id/complete-onboarding', isAuthenticated, simulate(
+    id => provider.completeAccountOnboarding(id)
+  ));
+
+  app.post('/api/dev/payments/subscriptions/:id/advance-period', isAuthenticated, simulate(
+    id => provider.advanceSubscriptionPeriod(id)
+  ));
+}
@@ -1,105 +1,116 @@
 import { Request, Response, NextFunction } from 'express';
-import { storage } from './storage';
-
-// Feature definitions mapped to plan types
-export const PLAN_FEATURES = {
-  free: {
-    maxJobApplications: 0,
-    maxJobPostings: 0,
-    maxResourceDownloads: 3,
-    maxTeamMembers: 1,
-    maxContacts: 0,
-    aiMatchingEnabled: false,
-    directMessaging: false,
-    videoConsultations: false,
-    analyticsAccess: false,
-    apiAccess: false,
-    featuredPlacement: false,
-    customBranding: false,
-    whiteLabel: false,
-    dedicatedManager: false,
-    supportLevel: 'email'
-  },
-  professional: {
-    starter: {
-      maxJobApplications: 15,
-      maxResourceDownloads: 50,
-      maxTeamMembers: 1,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      supportLevel: 'priority_email'
-    },
-    expert: {
-      maxJobApplications: null, // unlimited
-      maxResourceDownloads: null,
-      maxTeamMembers: 1,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      videoConsultations: true,
-      analyticsAccess: true,
-      featuredPlacement: true,
-      supportLevel: 'phone'
-    },
-    elite: {
-      maxJobApplications: null,
-      maxResourceDownloads: null,
-      maxTeamMembers: 1,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      videoConsultations: true,
-      analyticsAccess: true,
-      featuredPlacement: true,
-      customBranding: true,
-      apiAccess: true,
-      whiteLabel: true,
-      dedicatedManager: true,
-      supportLevel: '24_7'
-    }
-  },
-  company: {
-    startup: {
-      maxJobPostings: 3,
-      maxTeamMembers: 3,
-      maxContacts: 100,
-      maxResourceDownloads: 100,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      supportLevel: 'email'
-    },
-    growth: {
-      maxJobPostings: 15,
-      maxTeamMembers: 8,
-      maxContacts: 500,
-      maxResourceDownloads: 500,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      analyticsAccess: true,
-      featuredPlacement: true,
-      customBranding: true,
-      supportLevel: 'phone'
-    },
-    enterprise: {
-      maxJobPostings: null,
-      maxTeamMembers: null,
-      maxContacts: null,
-      maxResourceDownloads: null,
-      aiMatchingEnabled: true,
-      directMessaging: true,
-      analyticsAccess: true,
-      featuredPlacement: true,
-      customBranding: true,
-      apiAccess: true,
-      whiteLabel: true,
-      dedicatedManager: true,
-      supportLevel: '24_7'
-    }
+import { db } from './db';
+import { subscriptionPlans, userSubscriptions, usageCounters } from '@shared/schema';
+import type { SubscriptionPlan, UsageMetric, UserSubscription } from '@shared/schema';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import type { CompanyAccess } from './company-team-service';
+
+// Boolean plan columns that requireFeature can gate on
+export const PLAN_FEATURE_FLAGS = [
+  'aiMatchingEnabled',
+  'priorityMatching',
+  'featuredPlacement',
+  'customBranding',
+  'videoConsultations',
+  'directMessaging',
+  'analyticsAccess',
+  'apiAccess',
+  'whiteLabel',
+  'dedicatedManager'
+] as const;
+
+export type PlanFeature = typeof PLAN_FEATURE_FLAGS[number];
+
+export const USAGE_METRICS: UsageMetric[] = ['jobApplications', 'jobPostings', 'resourceDownloads', 'contacts'];
+
+// Plan column holding each metric's per-period limit; a null limit means unlimited
+const USAGE_LIMIT_COLUMNS = {
+  jobApplications: 'maxJobApplications',
+  jobPostings: 'maxJobPostings',
+  resourceDownloads: 'maxResourceDownloads',
+  contacts: 'maxContacts'
+} as const satisfies Record<UsageMetric, keyof SubscriptionPlan>;
+
+// Subscription statuses that grant the plan's entitlements
+const ENTITLED_STATUSES: UserSubscription['status'][] = ['active', 'trialing'];
+
+export interface UsagePeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface Entitlements {
+  plan: SubscriptionPlan;
+  subscription: UserSubscription | null;
+  period: UsagePeriod;
+}
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
   }
-};
+  return db;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  // Clamp to the end of shorter months, e.g. Jan 31 + 1 month is Feb 28
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+// The monthly window containing `now`, counted from the anchor. Yearly subscriptions get twelve
+// windows per billing period, so a monthly limit means the same on either billing cycle.
+export function getUsagePeriod(anchor: Date, now: Date = new Date()): UsagePeriod {
+  let months = (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchor.getUTCMonth());
+  if (addMonths(anchor, months) > now) months--;
+  return { start: addMonths(anchor, months), end: addMonths(anchor, months + 1) };
+}
+
+export function getPlanLimit(plan: SubscriptionPlan, metric: UsageMetric): number | null {
+  return plan[USAGE_LIMIT_COLUMNS[metric]] ?? null;
+}
 
-// Usage tracking for monthly limits
+// Resolve the plan a user is entitled to: the plan of their active subscription, or the free
+// plan when they have none
+export async function getUserEntitlements(userId: number, now: Date = new Date()): Promise<Entitlements> {
+  const database = getDb();
+
+  const [current] = await database.select({ subscription: userSubscriptions, plan: subscriptionPlans })
+    .from(userSubscriptions)
+    .innerJoin(subscriptionPlans, eq(userSubscriptions.planId, subscriptionPlans.id))
+    .where(and(
+      eq(userSubscriptions.userId, userId),
+      inArray(userSubscriptions.status, ENTITLED_STATUSES)
+    ))
+    .orderBy(desc(userSubscriptions.currentPeriodEnd))
+    .limit(1);
+
+  if (current) {
+    return { ...current, period: getUsagePeriod(current.subscription.currentPeriodStart, now) };
+  }
+
+  const [freePlan] = await database.select()
+    .from(subscriptionPlans)
+    .where(eq(subscriptionPlans.planType, 'free'))
+    .orderBy(asc(subscriptionPlans.sortOrder))
+    .limit(1);
+
+  if (!freePlan) {
+    throw new Error('No free subscription plan configured');
+  }
+
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return { plan: freePlan, subscription: null, period: getUsagePeriod(monthStart, now) };
+}
+
+// Usage counters for plan limits, persisted per user, metric and usage period
 export class UsageTracker {
   private static instance: UsageTracker;
-  private monthlyUsage: Map<string, any> = new Map();
 
   static getInstance(): UsageTracker {
     if (!UsageTracker.instance) {
@@ -108,53 +119,71 @@ export class UsageTracker {
     return UsageTracker.instance;
   }
 
-  async getMonthlyUsage(userId: number, metric: string): Promise<number> {
-    const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-    const key = `${userId}-${metric}-${currentMonth}`;
-    
-    if (!this.monthlyUsage.has(key)) {
-      // Load from database or initialize to 0
-      const usage = await this.loadUsageFromDB(userId, metric, currentMonth);
-      this.monthlyUsage.set(key, usage);
-    }
-    
-    return this.monthlyUsage.get(key) || 0;
-  }
+  async getUsage(userId: number, metric: UsageMetric, period: UsagePeriod): Promise<number> {
+    const [counter] = await getDb().select({ count: usageCounters.count })
+      .from(usageCounters)
+      .where(and(
+        eq(usageCounters.userId, userId),
+        eq(usageCounters.metric, metric),
+        eq(usageCounters.periodStart, period.start)
+      ));
 
-  async incrementUsage(userId: number, metric: string, amount: number = 1): Promise<number> {
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    const key = `${userId}-${metric}-${currentMonth}`;
-    
-    const currentUsage = await this.getMonthlyUsage(userId, metric);
-    const newUsage = currentUsage + amount;
-    
-    this.monthlyUsage.set(key, newUsage);
-    await this.saveUsageToDB(userId, metric, currentMonth, newUsage);
-    
-    return newUsage;
+    return counter?.count ?? 0;
   }
 
-  private async loadUsageFromDB(userId: number, metric: string, month: string): Promise<number> {
-    // Implementation would load from a usage_tracking table
-    return 0; // Placeholder
+  async getPeriodUsage(userId: number, period: UsagePeriod): Promise<Record<UsageMetric, number>> {
+    const counters = await getDb().select({ metric: usageCounters.metric, count: usageCounters.count })
+      .from(usageCounters)
+      .where(and(
+        eq(usageCounters.userId, userId),
+        eq(usageCounters.periodStart, period.start)
+      ));
+
+    const usage = Object.fromEntries(USAGE_METRICS.map(metric => [metric, 0])) as Record<UsageMetric, number>;
+    for (const counter of counters) {
+      usage[counter.metric] = counter.count;
+    }
+    return usage;
   }
 
-  private async saveUsageToDB(userId: number, metric: string, month: string, usage: number): Promise<void> {
-    // Implementation would save to a usage_tracking table
+  // Atomic, so concurrent requests never lose an increment
+  async incrementUsage(userId: number, metric: UsageMetric, period: UsagePeriod, amount: number = 1): Promise<number> {
+    const [counter] = await getDb().insert(usageCounters)
+      .values({ userId, metric, periodStart: period.start, periodEnd: period.end, count: amount })
+      .onConflictDoUpdate({
+        target: [usageCounters.userId, usageCounters.metric, usageCounters.periodStart],
+        set: {
+          count: sql`${usageCounters.count} + ${amount}`,
+          updatedAt: new Date()
+        }
+      })
+      .returning({ count: usageCounters.count });
+
+    return counter.count;
   }
 }
 
 // Feature gate middleware
-export function requireFeature(feature: string) {
+export function requireFeature(feature: PlanFeature) {
+  return featureGate(feature, req => req.user!.id);
+}
+
+// Feature gate for company routes. Teammates have no subscription of their own, so the company
+// owner's plan applies; runs after requireCompanyRole, which sets req.companyAccess.
+export function requireCompanyFeature(feature: PlanFeature) {
+  return featureGate(feature, req => req.companyAccess?.companyProfile.userId ?? req.user!.id);
+}
+
+function featureGate(feature: PlanFeature, planHolderId: (req: Request) => number) {
   return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
     try {
-      const userPlan = await getUserPlanFeatures(req.user.id);
-      
-      if (!userPlan[feature]) {
+      const { plan } = await getUserEntitlements(planHolderId(req));
+
+      if (!plan[feature]) {
         return res.status(403).json({
           error: 'Feature not available',
           feature: feature,
@@ -171,37 +200,74 @@ export function requireFeature(feature: string) {
   };
 }
 
-// Usage limit middleware
-export function requireUsageLimit(metric: string, action: string = 'perform this action') {
+export interface UsageLimitCheck {
+  usage: NonNullable<Request['usageInfo']>;
+  // The 403 response body when the limit is used up
+  exceeded?: {
+    error: string;
+    metric: UsageMetric;
+    limit: number;
+    currentUsage: number;
+    resetsAt: Date;
+    message: string;
+    upgradeUrl: string;
+  };
+}
+
+// The user's usage of the metric against their plan's limit, for routes that only know whether
+// the action counts once they are handling it
+export async function checkUsageLimit(userId: number, metric: UsageMetric, action: string = 'perform this action'): Promise<UsageLimitCheck> {
+  const { plan, period } = await getUserEntitlements(userId);
+  const limit = getPlanLimit(plan, metric);
+  const currentUsage = await UsageTracker.getInstance().getUsage(userId, metric, period);
+  const usage = { metric, currentUsage, limit, period };
+
+  if (limit !== null && currentUsage >= limit) {
+    return {
+      usage,
+      exceeded: {
+        error: 'Usage limit exceeded',
+        metric: metric,
+        limit: limit,
+        currentUsage: currentUsage,
+        resetsAt: period.end,
+        message: `You've reached your plan's limit of ${limit} ${metric} for this month, so you can't ${action}. Upgrade to increase your limits.`,
+        upgradeUrl: '/subscription-plans'
+      }
+    };
+  }
+  return { usage };
+}
+
+// Usage limit middleware. The route increments the usage with incrementUserUsage once the action
+// has succeeded, so failed attempts do not count against the limit. Usage is kept in the
+// database; without one nothing is limited.
+export function requireUsageLimit(metric: UsageMetric, action: string = 'perform this action') {
+  return usageGate(metric, action, req => req.user!.id);
+}
+
+// Usage limit for company routes. Teammates count against the company owner's plan and usage, so
+// the route increments the owner's usage; runs after requireCompanyRole, which sets req.companyAccess.
+export function requireCompanyUsageLimit(metric: UsageMetric, action: string = 'perform this action') {
+  return usageGate(metric, action, req => req.companyAccess?.companyProfile.userId ?? req.user!.id);
+}
+
+function usageGate(metric: UsageMetric, action: string, planHolderId: (req: Request) => number) {
   return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
+    if (!db) return next();
 
     try {
-      const userPlan = await getUserPlanFeatures(req.user.id);
-      const usageTracker = UsageTracker.getInstance();
-      
-      const limit = userPlan[`max${metric.charAt(0).toUpperCase() + metric.slice(1)}`];
-      
-      if (limit !== null) {
-        const currentUsage = await usageTracker.getMonthlyUsage(req.user.id, metric);
-        
-        if (currentUsage >= limit) {
-          return res.status(403).json({
-            error: 'Usage limit exceeded',
-            metric: metric,
-            limit: limit,
-            currentUsage: currentUsage,
-            message: `You've reached your monthly limit of ${limit} ${metric}. Upgrade to increase your limits.`,
-            upgradeUrl: '/subscription-plans'
-          });
-        }
-
-        // Add usage info to request for potential increment after successful action
-        req.usageInfo = { metric, currentUsage, limit };
+      const { usage, exceeded } = await checkUsageLimit(planHolderId(req), metric, action);
+      if (exceeded) {
+        return res.status(403).json(exceeded);
       }
 
+      // Add usage info to request for the increment after a successful action
+      req.usageInfo = usage;
+
       next();
     } catch (error) {
       console.error('Usage limit check error:', error);
@@ -210,100 +276,46 @@ export function requireUsageLimit(metric: string, action: string = 'perform this
   };
 }
 
-// Helper function to get user's plan features
-async function getUserPlanFeatures(userId: number): Promise<any> {
-  const user = await storage.getUser(userId);
-  if (!user) throw new Error('User not found');
-
-  // Get user's current subscription
-  const subscription = await storage.getUserSubscription(userId);
-  
-  if (!subscription || subscription.status !== 'active') {
-    return PLAN_FEATURES.free;
-  }
-
-  const planName = subscription.planName.toLowerCase();
-  
-  // Map plan names to feature sets
-  if (planName === 'starter') return PLAN_FEATURES.free;
-  if (planName === 'professional') return PLAN_FEATURES.professional.starter;
-  if (planName === 'expert') return PLAN_FEATURES.professional.expert;
-  if (planName === 'elite') return PLAN_FEATURES.professional.elite;
-  if (planName === 'startup') return PLAN_FEATURES.company.startup;
-  if (planName === 'growth') return PLAN_FEATURES.company.growth;
-  if (planName === 'enterprise') return PLAN_FEATURES.company.enterprise;
-  
-  return PLAN_FEATURES.free;
-}
-
 // Helper function to increment usage after successful action
-export async function incrementUserUsage(userId: number, metric: string, amount: number = 1): Promise<void> {
-  const usageTracker = UsageTracker.getInstance();
-  await usageTracker.incrementUsage(userId, metric, amount);
+export async function incrementUserUsage(userId: number, metric: UsageMetric, amount: number = 1): Promise<number> {
+  const { period } = await getUserEntitlements(userId);
+  return UsageTracker.getInstance().incrementUsage(userId, metric, period, amount);
 }
 
-// Helper function to check if user can perform action
-export async function canUserPerformAction(userId: number, feature: string, metric?: string): Promise<{
-  allowed: boolean;
-  reason?: string;
-  currentUsage?: number;
-  limit?: number;
-}> {
-  try {
-    const userPlan = await getUserPlanFeatures(userId);
-    
-    // Check feature access
-    if (!userPlan[feature]) {
+// Everything the usage endpoint reports: the plan, the current usage period, each metric's
+// usage against its limit and which features the plan includes
+export async function getUsageSummary(userId: number) {
+  const { plan, subscription, period } = await getUserEntitlements(userId);
+  const usage = await UsageTracker.getInstance().getPeriodUsage(userId, period);
+
+  return {
+    plan: { id: plan.id, name: plan.name, planType: plan.planType },
+    subscriptionStatus: subscription?.status ?? null,
+    period,
+    metrics: USAGE_METRICS.map(metric => {
+      const limit = getPlanLimit(plan, metric);
       return {
-        allowed: false,
-        reason: `Feature '${feature}' not available in your current plan`
+        metric,
+        used: usage[metric],
+        limit,
+        remaining: limit === null ? null : Math.max(limit - usage[metric], 0)
       };
-    }
-
-    // Check usage limits if metric provided
-    if (metric) {
-      const limit = userPlan[`max${metric.charAt(0).toUpperCase() + metric.slice(1)}`];
-      
-      if (limit !== null) {
-        const usageTracker = UsageTracker.getInstance();
-        const currentUsage = await usageTracker.getMonthlyUsage(userId, metric);
-        
-        if (currentUsage >= limit) {
-          return {
-            allowed: false,
-            reason: `Monthly limit of ${limit} ${metric} exceeded`,
-            currentUsage,
-            limit
-          };
-        }
-
-        return {
-          allowed: true,
-          currentUsage,
-          limit
-        };
-      }
-    }
-
-    return { allowed: true };
-  } catch (error) {
-    console.error('Error checking user permissions:', error);
-    return {
-      allowed: false,
-      reason: 'Error checking permissions'
-    };
-  }
+    }),
+    features: Object.fromEntries(PLAN_FEATURE_FLAGS.map(feature => [feature, !!plan[feature]])) as Record<PlanFeature, boolean>
+  };
 }
 
 // Declare global types for Express
 declare global {
   namespace Express {
     interface Request {
+      companyAccess?: CompanyAccess;
       usageInfo?: {
-        metric: string;
+        metric: UsageMetric;
         currentUsage: number;
         limit: number | null;
+        period: UsagePeriod;
       };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,180 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import type { User } from '@shared/schema';
+import { forumPostPageQuerySchema } from '@shared/pagination';
+import {
+  acceptedAnswerSchema, forumPostInputSchema, forumReplyInputSchema, updateForumPostSchema, updateForumReplySchema
+} from '@shared/forum';
+import { forumService, ForumError } from './forum-service';
+import { storage, PaginationError } from './storage';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Forum errors and bad cursors are shown to the user; anything else is a 500
+const handleForumError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof ForumError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error instanceof PaginationError) {
+    return res.status(400).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+const parseId = (value: string, what: string) => {
+  const id = parseInt(value);
+  if (isNaN(id)) {
+    throw new ForumError(`Invalid ${what} ID format`);
+  }
+  return id;
+};
+
+export function registerForumRoutes(app: Express) {
+  app.get('/api/forum-categories', async (_req, res) => {
+    try {
+      res.json(await forumService.getCategories());
+    } catch (error) {
+      handleForumError(res, error, 'Failed to fetch forum categories');
+    }
+  });
+
+  app.get('/api/forum-tags', async (_req, res) => {
+    try {
+      res.json(await forumService.getPopularTags());
+    } catch (error) {
+      handleForumError(res, error, 'Failed to fetch forum tags');
+    }
+  });
+
+  app.post('/api/forum-posts', isAuthenticated, async (req, res) => {
+    try {
+      const input = forumPostInputSchema.parse(req.body);
+      res.status(201).json(await forumService.createPost((req.user as User).id, input));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to create post');
+    }
+  });
+
+  app.get('/api/forum-posts', async (req, res) => {
+    try {
+      const page = await storage.getForumPostsPage(forumPostPageQuerySchema.parse(req.query));
+      res.json(await forumService.withViewerVotes(page, (req.user as User | undefined)?.id));
+    } catch (error) {
+      handleForumError(res, error, 'Error fetching forum posts');
+    }
+  });
+
+  app.get('/api/forum-posts/:id', async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      res.json(await forumService.getPostForViewer(id, req.user as User | undefined));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to fetch post');
+    }
+  });
+
+  // Authors edit their own posts; moderators can edit any
+  app.patch('/api/forum-posts/:id', isAuthenticated, async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      const input = updateForumPostSchema.parse(req.body);
+      res.json(await forumService.updatePost(req.user as User, id, input));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to update post');
+    }
+  });
+
+  app.delete('/api/forum-posts/:id', isAuthenticated, async (req, res) => {
+    try {
+      await forumService.deletePost(req.user as User, parseId(req.params.id, 'post'));
+      res.json({ success: true });
+    } catch (error) {
+      handleForumError(res, error, 'Failed to delete post');
+    }
+  });
+
+  // Only signed-in readers are counted; signed-out ones get the current count
+  app.post('/api/forum-posts/:id/views', async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      res.json({ viewCount: await forumService.recordView(id, req.user as User | undefined) });
+    } catch (error) {
+      handleForumError(res, error, 'Failed to record view');
+    }
+  });
+
+  // Upvotes the post, or takes the upvote back
+  app.post('/api/forum-posts/:id/votes', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await forumService.togglePostVote(req.user as User, parseId(req.params.id, 'post')));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to vote');
+    }
+  });
+
+  app.put('/api/forum-posts/:id/accepted-answer', isAuthenticated, async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      const { replyId } = acceptedAnswerSchema.parse(req.body);
+      res.json(await forumService.setAcceptedAnswer(req.user as User, id, replyId));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to update the accepted answer');
+    }
+  });
+
+  // The replies as a tree, see ForumReplyNode
+  app.get('/api/forum-posts/:id/comments', async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      res.json(await forumService.getReplies(id, req.user as User | undefined));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to fetch replies');
+    }
+  });
+
+  app.post('/api/forum-posts/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'post');
+      const input = forumReplyInputSchema.parse(req.body);
+      res.status(201).json(await forumService.createReply(req.user as User, id, input));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to post reply');
+    }
+  });
+
+  app.patch('/api/forum-comments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const id = parseId(req.params.id, 'reply');
+      const { body } = updateForumReplySchema.parse(req.body);
+      res.json(await forumService.updateReply(req.user as User, id, body));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to update reply');
+    }
+  });
+
+  app.delete('/api/forum-comments/:id', isAuthenticated, async (req, res) => {
+    try {
+      await forumService.deleteReply(req.user as User, parseId(req.params.id, 'reply'));
+      res.json({ success: true });
+    } catch (error) {
+      handleForumError(res, error, 'Failed to delete reply');
+    }
+  });
+
+  app.post('/api/forum-comments/:id/votes', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await forumService.toggleReplyVote(req.user as User, parseId(req.params.id, 'reply')));
+    } catch (error) {
+      handleForumError(res, error, 'Failed to vote');
+    }
+  });
+}
@@ -0,0 +1,312 @@
+import { and, asc, count, desc, eq, inArray, isNotNull, sql } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { canActOn, canView, can } from './access-policy';
+import { forumCategories, forumComments, forumPostViews, forumPosts, forumVotes } from '@shared/schema';
+import type { ForumComment, ForumPost, User } from '@shared/schema';
+import {
+  DEFAULT_FORUM_CATEGORIES, type ForumCategoryWithCount, type ForumPostForViewer, type ForumPostInput, type ForumReplyInput, type ForumReplyNode,
+  type ForumTagCount, type ForumVoteResult, type UpdateForumPostInput
+} from '@shared/forum';
+import type { Page } from '@shared/pagination';
+
+// Thrown when a forum action is not allowed; the message is safe to show to users
+export class ForumError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ForumError';
+  }
+}
+
+const MAX_POPULAR_TAGS = 20;
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+const postNotFound = () => new ForumError('Post not found', 404);
+const replyNotFound = () => new ForumError('Reply not found', 404);
+
+// Accepted answer first, then the most upvoted; replies to replies read oldest first
+const compareTopLevel = (a: ForumReplyNode, b: ForumReplyNode) =>
+  Number(b.accepted) - Number(a.accepted) || b.voteCount - a.voteCount || a.createdAt.localeCompare(b.createdAt);
+
+export class ForumService {
+  async initializeCategories(): Promise<void> {
+    await getDb().insert(forumCategories).values([...DEFAULT_FORUM_CATEGORIES]).onConflictDoNothing();
+  }
+
+  async getCategories(): Promise<ForumCategoryWithCount[]> {
+    return getDb()
+      .select({
+        id: forumCategories.id,
+        slug: forumCategories.slug,
+        name: forumCategories.name,
+        description: forumCategories.description,
+        postCount: sql<number>`count(${forumPosts.id})`.mapWith(Number),
+      })
+      .from(forumCategories)
+      .leftJoin(forumPosts, and(eq(forumPosts.categoryId, forumCategories.id), eq(forumPosts.hidden, false)))
+      .groupBy(forumCategories.id)
+      .orderBy(asc(forumCategories.position), asc(forumCategories.name));
+  }
+
+  // The tags on the most visible posts, most used first
+  async getPopularTags(): Promise<ForumTagCount[]> {
+    const tag = sql<string>`unnest(${forumPosts.tags})`;
+    return getDb()
+      .select({ tag, count: count() })
+      .from(forumPosts)
+      .where(eq(forumPosts.hidden, false))
+      .groupBy(sql`1`)
+      .orderBy(desc(count()), sql`1`)
+      .limit(MAX_POPULAR_TAGS);
+  }
+
+  async createPost(authorId: number, input: ForumPostInput): Promise<ForumPost> {
+    await this.assertCategoryExists(input.categoryId);
+    return storage.createForumPost({ ...input, authorId });
+  }
+
+  // Authors edit their own posts; moderators can edit any
+  async updatePost(user: User, postId: number, input: UpdateForumPostInput): Promise<ForumPost> {
+    const post = await this.getEditablePost(user, postId);
+    if (input.categoryId !== undefined && input.categoryId !== post.categoryId) {
+      await this.assertCategoryExists(input.categoryId);
+    }
+    const [updated] = await getDb().update(forumPosts)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(forumPosts.id, post.id))
+      .returning();
+    return updated;
+  }
+
+  // Deletes the post with its replies, votes and views
+  async deletePost(user: User, postId: number): Promise<void> {
+    const post = await this.getEditablePost(user, postId);
+    if (!(await storage.deleteForumPost(post.id))) throw postNotFound();
+  }
+
+  // Counts each signed-in viewer once; returns the post's view count
+  async recordView(postId: number, viewer?: User): Promise<number> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(viewer, post, post.authorId)) throw postNotFound();
+    if (!viewer) return post.viewCount;
+
+    const database = getDb();
+    const inserted = await database.insert(forumPostViews).values({ postId, userId: viewer.id }).onConflictDoNothing().returning();
+    if (inserted.length === 0) return post.viewCount;
+    const [updated] = await database.update(forumPosts)
+      .set({ viewCount: sql`${forumPosts.viewCount} + 1` })
+      .where(eq(forumPosts.id, postId))
+      .returning({ viewCount: forumPosts.viewCount });
+    return updated?.viewCount ?? post.viewCount;
+  }
+
+  // Marks the posts the user has upvoted
+  async withViewerVotes(page: Page<ForumPost>, userId?: number): Promise<Page<ForumPostForViewer>> {
+    const voted = await this.votedIds(userId, 'post', page.items.map(post => post.id));
+    return { ...page, items: page.items.map(post => ({ ...post, viewerHasVoted: voted.has(post.id) })) };
+  }
+
+  async getPostForViewer(postId: number, viewer?: User): Promise<ForumPostForViewer> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(viewer, post, post.authorId)) throw postNotFound();
+    const voted = await this.votedIds(viewer?.id, 'post', [post.id]);
+    return { ...post, viewerHasVoted: voted.has(post.id) };
+  }
+
+  async togglePostVote(user: User, postId: number): Promise<ForumVoteResult> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(user, post, post.authorId)) throw postNotFound();
+    if (post.authorId === user.id) throw new ForumError('You cannot upvote your own post');
+    return this.toggleVote(user.id, { postId });
+  }
+
+  async toggleReplyVote(user: User, replyId: number): Promise<ForumVoteResult> {
+    const reply = await this.getReply(replyId);
+    if (reply.deleted || !canView(user, reply, reply.authorId)) throw replyNotFound();
+    if (reply.authorId === user.id) throw new ForumError('You cannot upvote your own reply');
+    return this.toggleVote(user.id, { commentId: replyId });
+  }
+
+  // The post's replies as a tree. Replies the viewer may not see are left out, or kept without
+  // their body while they have replies the viewer can see.
+  async getReplies(postId: number, viewer?: User): Promise<ForumReplyNode[]> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(viewer, post, post.authorId)) throw postNotFound();
+
+    const rows = await getDb().select().from(forumComments)
+      .where(eq(forumComments.postId, postId))
+      .orderBy(asc(forumComments.createdAt), asc(forumComments.id));
+    const voted = await this.votedIds(viewer?.id, 'comment', rows.map(row => row.id));
+
+    const nodes = new Map<number, ForumReplyNode>();
+    rows.forEach(row => {
+      const visible = !row.deleted && canView(viewer, row, row.authorId);
+      nodes.set(row.id, {
+        id: row.id,
+        postId: row.postId,
+        parentId: row.parentId,
+        authorId: row.authorId,
+        body: visible ? row.content : '',
+        voteCount: row.voteCount,
+        viewerHasVoted: voted.has(row.id),
+        deleted: !visible,
+        hidden: row.hidden,
+        accepted: post.acceptedReplyId === row.id,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt?.toISOString() ?? null,
+        replies: [],
+      });
+    });
+
+    const roots: ForumReplyNode[] = [];
+    rows.forEach(row => {
+      const node = nodes.get(row.id)!;
+      const parent = row.parentId !== null ? nodes.get(row.parentId) : undefined;
+      (parent ? parent.replies : roots).push(node);
+    });
+
+    const prune = (list: ForumReplyNode[]): ForumReplyNode[] => list.filter(node => {
+      node.replies = prune(node.replies);
+      return !node.deleted || node.replies.length > 0;
+    });
+    return prune(roots).sort(compareTopLevel);
+  }
+
+  async createReply(user: User, postId: number, input: ForumReplyInput): Promise<ForumComment> {
+    const database = getDb();
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(user, post, post.authorId)) throw postNotFound();
+    if (post.locked && !can(user, 'content.moderate')) {
+      throw new ForumError('This thread is locked', 403);
+    }
+    if (input.parentId !== undefined) {
+      const parent = await this.getReply(input.parentId);
+      if (parent.postId !== postId || parent.deleted) throw replyNotFound();
+    }
+
+    return database.transaction(async (tx) => {
+      const [reply] = await tx.insert(forumComments)
+        .values({ postId, parentId: input.parentId ?? null, authorId: user.id, content: input.body })
+        .returning();
+      await tx.update(forumPosts)
+        .set({ replyCount: sql`${forumPosts.replyCount} + 1`, lastActivityAt: reply.createdAt })
+        .where(eq(forumPosts.id, postId));
+      return reply;
+    });
+  }
+
+  async updateReply(user: User, replyId: number, body: string): Promise<ForumComment> {
+    const reply = await this.getReply(replyId);
+    if (reply.deleted) throw replyNotFound();
+    if (!canActOn(user, reply.authorId, 'content.moderate')) {
+      throw new ForumError('You can only edit your own replies', 403);
+    }
+    const [updated] = await getDb().update(forumComments)
+      .set({ content: body, updatedAt: new Date() })
+      .where(eq(forumComments.id, replyId))
+      .returning();
+    return updated;
+  }
+
+  // The reply keeps its place so replies to it still make sense; its content is removed
+  async deleteReply(user: User, replyId: number): Promise<void> {
+    const reply = await this.getReply(replyId);
+    if (reply.deleted) throw replyNotFound();
+    if (!canActOn(user, reply.authorId, 'content.moderate')) {
+      throw new ForumError('You can only delete your own replies', 403);
+    }
+
+    await getDb().transaction(async (tx) => {
+      await tx.update(forumComments)
+        .set({ content: '', deleted: true, updatedAt: new Date() })
+        .where(eq(forumComments.id, replyId));
+      await tx.update(forumPosts)
+        .set({
+          replyCount: sql`greatest(${forumPosts.replyCount} - 1, 0)`,
+          acceptedReplyId: sql`nullif(${forumPosts.acceptedReplyId}, ${replyId})`,
+        })
+        .where(eq(forumPosts.id, reply.postId));
+    });
+  }
+
+  // Only the post's author picks the answer
+  async setAcceptedAnswer(user: User, postId: number, replyId: number | null): Promise<ForumPost> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(user, post, post.authorId)) throw postNotFound();
+    if (post.authorId !== user.id) {
+      throw new ForumError('Only the author of the post can accept an answer', 403);
+    }
+    if (replyId !== null) {
+      const reply = await this.getReply(replyId);
+      if (reply.postId !== postId || reply.deleted || reply.hidden) throw replyNotFound();
+    }
+
+    const [updated] = await getDb().update(forumPosts)
+      .set({ acceptedReplyId: replyId })
+      .where(eq(forumPosts.id, postId))
+      .returning();
+    return updated;
+  }
+
+  private async getEditablePost(user: User, postId: number): Promise<ForumPost> {
+    const post = await storage.getForumPost(postId);
+    if (!post || !canView(user, post, post.authorId)) throw postNotFound();
+    if (!canActOn(user, post.authorId, 'content.moderate')) {
+      throw new ForumError('You can only change your own posts', 403);
+    }
+    return post;
+  }
+
+  private async getReply(replyId: number): Promise<ForumComment> {
+    const [reply] = await getDb().select().from(forumComments).where(eq(forumComments.id, replyId));
+    if (!reply) throw replyNotFound();
+    return reply;
+  }
+
+  private async assertCategoryExists(categoryId: number): Promise<void> {
+    const [category] = await getDb().select({ id: forumCategories.id }).from(forumCategories)
+      .where(eq(forumCategories.id, categoryId));
+    if (!category) throw new ForumError('Category not found');
+  }
+
+  // Which of the posts or replies the user has upvoted
+  private async votedIds(userId: number | undefined, on: 'post' | 'comment', ids: number[]): Promise<Set<number>> {
+    if (!userId || ids.length === 0) return new Set();
+    const column = on === 'post' ? forumVotes.postId : forumVotes.commentId;
+    const rows = await getDb().select({ id: column }).from(forumVotes)
+      .where(and(eq(forumVotes.userId, userId), isNotNull(column), inArray(column, ids)));
+    return new Set(rows.map(row => row.id!));
+  }
+
+  // Adds the user's upvote, or takes it back if they had already voted
+  private async toggleVote(userId: number, on: { postId: number } | { commentId: number }): Promise<ForumVoteResult> {
+    const vote = 'postId' in on
+      ? and(eq(forumVotes.userId, userId), eq(forumVotes.postId, on.postId))
+      : and(eq(forumVotes.userId, userId), eq(forumVotes.commentId, on.commentId));
+
+    return getDb().transaction(async (tx) => {
+      const removed = await tx.delete(forumVotes).where(vote).returning();
+      const added = removed.length > 0 ? [] : await tx.insert(forumVotes).values({ userId, ...on }).onConflictDoNothing().returning();
+      const change = added.length - removed.length;
+
+      const [target] = 'postId' in on
+        ? await tx.update(forumPosts)
+          .set({ voteCount: sql`${forumPosts.voteCount} + ${change}` })
+          .where(eq(forumPosts.id, on.postId))
+          .returning({ voteCount: forumPosts.voteCount })
+        : await tx.update(forumComments)
+          .set({ voteCount: sql`${forumComments.voteCount} + ${change}` })
+          .where(eq(forumComments.id, on.commentId))
+          .returning({ voteCount: forumComments.voteCount });
+      return { voted: removed.length === 0, voteCount: target.voteCount };
+    });
+  }
+}
+
+export const forumService = new ForumService();
@@ -0,0 +1,40 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { parseJsonResponse } from './llm-provider';
+import type { EmbeddingProvider, LlmCompletionRequest, LlmEmbeddingRequest, LlmProvider } from './llm-provider';
+
+export class GeminiLlmProvider implements LlmProvider, EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+  readonly embeddingModel = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+  private client: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<unknown> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      systemInstruction: request.system,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+
+    // Gemini's response schemas only cover part of JSON Schema, so the schema goes in the prompt
+    const prompt = `${request.prompt}\n\nRespond with JSON that follows this JSON Schema:\n${JSON.stringify(request.jsonSchema)}`;
+    const result = await model.generateContent(prompt, { signal: request.signal });
+    return parseJsonResponse(result.response.text(), this.name);
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    const model = this.client.getGenerativeModel({ model: this.embeddingModel });
+    const result = await model.batchEmbedContents({
+      requests: request.texts.map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+    }, { signal: request.signal });
+
+    return result.embeddings.map(embedding => embedding.values);
+  }
+}
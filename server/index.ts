@@ -246,6 +246,16 @@ app.use((req, res, next) => {
     console.log("initialized", useRealDatabase);
     // Monitoring systems removed for performance optimization
 
+    // Message attachments are private and only served through /api/messages/attachments/:id
+    app.use('/uploads/messages', (req, res) => {
+      res.status(404).json({ message: "Not found" });
+    });
+
+    // Dispute evidence is private and only served through /api/payments/disputes/evidence/:id
+    app.use('/uploads/disputes', (req, res) => {
+      res.status(404).json({ message: "Not found" });
+    });
+
     // Add static file serving for uploaded files - must come before routes
     app.use('/uploads', express.static('uploads', {
       maxAge: '1d', // Cache static files for 1 day
@@ -0,0 +1,47 @@
+interface IntervalRunnerOptions {
+  // Used in the log line when a pass fails
+  name: string;
+  intervalMs: number;
+  // Let the server finish booting before the first pass
+  startupDelayMs: number;
+  run: () => Promise<void>;
+}
+
+// Runs a background task on an interval. A pass that outlasts the interval is never overlapped by
+// the next tick, and the timers never keep the process alive.
+export class IntervalRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private startupTimer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private options: IntervalRunnerOptions) {}
+
+  start() {
+    if (this.timer) return;
+
+    this.startupTimer = setTimeout(() => this.runOnce(), this.options.startupDelayMs);
+    this.timer = setInterval(() => this.runOnce(), this.options.intervalMs);
+    this.startupTimer.unref();
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.startupTimer) clearTimeout(this.startupTimer);
+    if (this.timer) clearInterval(this.timer);
+    this.startupTimer = null;
+    this.timer = null;
+  }
+
+  async runOnce() {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.options.run();
+    } catch (error) {
+      console.error(`${this.options.name} pass failed:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { storage } from './storage';
+import { isEmbeddingAvailable } from './ai-services';
+import { embeddingService, jobContentHash, profileContentHash } from './embedding-service';
+import { jobExpertiseNames, scoreMatch } from './match-scorer';
+import type { MatchScore } from './match-scorer';
+import type { JobMatch, JobPosting, ProfessionalProfile } from '@shared/schema';
+
+// Saved scores are reused while every candidate has one computed from its current version; the TTL
+// bounds how stale they get after changes to expertise, certifications and reviews
+const MATCH_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// With embeddings, only this many of the most similar candidates are scored in full
+const CANDIDATE_POOL_SIZE = 100;
+
+export interface ProfessionalMatch extends MatchScore {
+  professional: ProfessionalProfile;
+}
+
+export interface JobMatchResult extends MatchScore {
+  job: JobPosting;
+}
+
+// Identifies the versions of the job and profile a saved score was computed from
+const sourceHash = (job: JobPosting, profile: ProfessionalProfile) =>
+  `${jobContentHash(job)}:${profileContentHash(profile)}`;
+
+// Ranks professionals for a job and jobs for a professional with the hybrid score of
+// match-scorer.ts. With an embedding provider, candidates are first narrowed down to the nearest
+// stored embeddings through the vector index; without one, every candidate is scored on the
+// structured signals alone.
+export class JobMatchService {
+  async getMatchingProfessionals(jobId: number, limit: number): Promise<ProfessionalMatch[]> {
+    const job = await storage.getJobPosting(jobId);
+    if (!job) return [];
+    // Profiles moderators hid are never recommended
+    const profiles = (await storage.getAllProfessionalProfiles()).filter(profile => !profile.hidden);
+
+    const similarities = await this.professionalSimilarities(job, profiles);
+    const candidates = similarities ? profiles.filter(profile => similarities.has(profile.id)) : profiles;
+
+    const saved = this.fromSaved(await storage.getJobMatches({ jobId }), candidates, row => row.professionalId, profile => sourceHash(job, profile));
+    if (saved) return this.top(saved.map(({ candidate, ...match }) => ({ professional: candidate, ...match })), limit);
+
+    const candidateIds = candidates.map(profile => profile.id);
+
+    const [allExpertise, expertiseRows, certificationRows] = await Promise.all([
+      storage.getAllExpertise(),
+      storage.getProfessionalExpertiseNames(candidateIds),
+      storage.getCertificationsForProfessionals(candidateIds),
+    ]);
+    const jobExpertise = jobExpertiseNames(job, allExpertise.map(item => item.name));
+    const expertiseByProfessional = groupNames(expertiseRows.map(row => [row.professionalId, row.name]));
+    const certificationsByProfessional = groupNames(certificationRows.map(row => [row.professionalId, row.name]));
+
+    const matches = candidates.map(professional => ({
+      professional,
+      ...scoreMatch(job, professional, {
+        similarity: similarities?.get(professional.id) ?? null,
+        jobExpertise,
+        professionalExpertise: expertiseByProfessional.get(professional.id) ?? [],
+        certifications: certificationsByProfessional.get(professional.id) ?? [],
+      }),
+    }));
+
+    await this.save(matches.map(match => ({ job, ...match })));
+    return this.top(matches, limit);
+  }
+
+  async getMatchingJobs(professionalId: number, limit: number): Promise<JobMatchResult[]> {
+    const professional = await storage.getProfessionalProfile(professionalId);
+    if (!professional) return [];
+    const jobs = (await storage.getAllJobPostings()).filter(job => job.status === 'open');
+
+    const similarities = await this.jobSimilarities(professional, jobs);
+    const candidates = similarities ? jobs.filter(job => similarities.has(job.id)) : jobs;
+
+    const saved = this.fromSaved(await storage.getJobMatches({ professionalId }), candidates, row => row.jobId, job => sourceHash(job, professional));
+    if (saved) return this.top(saved.map(({ candidate, ...match }) => ({ job: candidate, ...match })), limit);
+
+    const [allExpertise, professionalExpertise, certifications] = await Promise.all([
+      storage.getAllExpertise(),
+      storage.getProfessionalExpertise(professionalId),
+      storage.getProfessionalCertifications(professionalId),
+    ]);
+    const expertiseNames = allExpertise.map(item => item.name);
+
+    const matches = candidates.map(job => ({
+      job,
+      ...scoreMatch(job, professional, {
+        similarity: similarities?.get(job.id) ?? null,
+        jobExpertise: jobExpertiseNames(job, expertiseNames),
+        professionalExpertise: professionalExpertise.map(item => item.name),
+        certifications: certifications.map(certification => certification.name),
+      }),
+    }));
+
+    await this.save(matches.map(match => ({ professional, ...match })));
+    return this.top(matches, limit);
+  }
+
+  // Called when a job or profile is created, edited or deleted: re-embeds it in the background.
+  // Saved scores that included it no longer match its source hash, so they are not reused
+  profileChanged(profile: ProfessionalProfile | number): void {
+    const refresh = typeof profile === 'number'
+      ? embeddingService.remove('professional_profile', profile)
+      : isEmbeddingAvailable() ? embeddingService.embedProfile(profile) : Promise.resolve();
+    refresh.catch(error => console.error('Error refreshing profile embedding:', error));
+  }
+
+  // Jobs that are no longer open leave the index; they are never matched
+  jobChanged(job: JobPosting | number): void {
+    const refresh = typeof job === 'number' || job.status !== 'open'
+      ? embeddingService.remove('job_posting', typeof job === 'number' ? job : job.id)
+      : isEmbeddingAvailable() ? embeddingService.embedJob(job) : Promise.resolve();
+    refresh.catch(error => console.error('Error refreshing job embedding:', error));
+  }
+
+  // Similarity of the job to its nearest profiles, by profile id; null without embeddings, so
+  // every profile is a candidate
+  private async professionalSimilarities(job: JobPosting, profiles: ProfessionalProfile[]): Promise<Map<number, number> | null> {
+    if (!isEmbeddingAvailable()) return null;
+
+    const jobVector = await embeddingService.embedJob(job);
+    if (!jobVector) return null;
+    await embeddingService.syncProfiles(profiles);
+
+    const nearest = await embeddingService.nearest('professional_profile', jobVector, CANDIDATE_POOL_SIZE, profiles.map(profile => profile.id));
+    return nearest.length > 0 ? new Map(nearest.map(match => [match.id, match.similarity])) : null;
+  }
+
+  private async jobSimilarities(professional: ProfessionalProfile, jobs: JobPosting[]): Promise<Map<number, number> | null> {
+    if (!isEmbeddingAvailable()) return null;
+
+    const profileVector = await embeddingService.embedProfile(professional);
+    if (!profileVector) return null;
+    await embeddingService.syncJobs(jobs);
+
+    const nearest = await embeddingService.nearest('job_posting', profileVector, CANDIDATE_POOL_SIZE, jobs.map(job => job.id));
+    return nearest.length > 0 ? new Map(nearest.map(match => [match.id, match.similarity])) : null;
+  }
+
+  // Every candidate's score is saved, so the next request can tell whether all of them are current
+  private async save(matches: Array<MatchScore & { job: JobPosting; professional: ProfessionalProfile }>): Promise<void> {
+    await storage.saveJobMatches(matches.map(({ job, professional, score, breakdown }) => ({
+      jobId: job.id,
+      professionalId: professional.id,
+      score,
+      breakdown,
+      sourceHash: sourceHash(job, professional),
+    })));
+  }
+
+  // The saved score of every candidate, as long as each was computed within the TTL from the
+  // candidate's current version. Undefined once one is missing or stale, e.g. for a new or edited
+  // profile or job, so the candidates are scored afresh.
+  private fromSaved<T extends { id: number }>(
+    rows: JobMatch[],
+    candidates: T[],
+    candidateId: (row: JobMatch) => number,
+    hash: (candidate: T) => string,
+  ): Array<MatchScore & { candidate: T }> | undefined {
+    const rowsByCandidate = new Map(rows.map(row => [candidateId(row), row]));
+    const since = Date.now() - MATCH_CACHE_TTL_MS;
+    const saved: Array<MatchScore & { candidate: T }> = [];
+    for (const candidate of candidates) {
+      const row = rowsByCandidate.get(candidate.id);
+      if (!row || row.computedAt.getTime() <= since || row.sourceHash !== hash(candidate)) return undefined;
+      saved.push({ candidate, score: row.score, breakdown: row.breakdown });
+    }
+    return saved;
+  }
+
+  private top<T extends { score: number }>(matches: T[], limit: number): T[] {
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+function groupNames(rows: Array<[number, string]>): Map<number, string[]> {
+  const groups = new Map<number, string[]>();
+  rows.forEach(([id, name]) => groups.set(id, [...(groups.get(id) ?? []), name]));
+  return groups;
+}
+
+export const jobMatchService = new JobMatchService();
@@ -0,0 +1,54 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { jobBriefSchema, jobDraftCheckSchema } from '@shared/job-writing';
+import { jobWritingService } from './job-writing-service';
+import { requireCompanyRole } from './company-team-routes';
+import { requireCompanyFeature } from './feature-gate';
+import { LlmError, LlmRateLimitError } from './llm-provider';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Provider error messages are for the logs; users get a generic one
+const handleJobWritingError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof LlmRateLimitError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    return res.status(error.status).json({ message: error.message });
+  }
+  if (error instanceof LlmError) {
+    console.error(`${fallback}:`, error.message);
+    return res.status(error.status).json({ message: 'The AI writing assistant is unavailable right now. Please try again later.' });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+export function registerJobWritingRoutes(app: Express) {
+  // Only teammates who can post jobs, when their company's plan has AI features
+  const canUseAssistant = [isAuthenticated, requireCompanyRole('recruiter'), requireCompanyFeature('aiMatchingEnabled')];
+
+  app.post('/api/job-writing/draft', ...canUseAssistant, async (req: any, res) => {
+    try {
+      const brief = jobBriefSchema.parse(req.body);
+      res.json(await jobWritingService.draftJob(brief, req.user.id));
+    } catch (error) {
+      handleJobWritingError(res, error, 'Failed to draft job posting');
+    }
+  });
+
+  app.post('/api/job-writing/check', ...canUseAssistant, async (req: any, res) => {
+    try {
+      const draft = jobDraftCheckSchema.parse(req.body);
+      res.json(await jobWritingService.checkLanguage(draft, req.user.id));
+    } catch (error) {
+      handleJobWritingError(res, error, 'Failed to check job posting');
+    }
+  });
+}
@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { storage } from './storage';
+import { llmService } from './llm-service';
+import { LlmError, LlmRateLimitError } from './llm-provider';
+import { JOB_DRAFT_FIELDS, LANGUAGE_ISSUE_CATEGORIES } from '@shared/job-writing';
+import type { JobBrief, JobDraft, JobDraftCheckInput, LanguageCheckResult, LanguageIssue } from '@shared/job-writing';
+import type { Expertise } from '@shared/schema';
+
+const MAX_SUGGESTED_EXPERTISE = 8;
+// Keeps the prompt short on platforms with a long expertise list
+const MAX_PROMPT_EXPERTISE = 300;
+
+const jobDraftResponseSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().min(10),
+  requirements: z.array(z.string().min(1)).min(1),
+  expertise: z.array(z.string()),
+});
+
+type JobDraftResponse = z.infer<typeof jobDraftResponseSchema>;
+
+const languageReviewSchema = z.object({
+  issues: z.array(z.object({
+    field: z.enum(JOB_DRAFT_FIELDS),
+    phrase: z.string().min(1),
+    category: z.enum(LANGUAGE_ISSUE_CATEGORIES),
+    explanation: z.string(),
+    suggestion: z.string().nullable(),
+  })),
+});
+
+type LanguageRule = Omit<LanguageIssue, 'field' | 'phrase' | 'start'> & { pattern: RegExp };
+
+const rule = (pattern: RegExp, category: LanguageRule['category'], explanation: string, suggestion: string | null = null): LanguageRule =>
+  ({ pattern, category, explanation, suggestion });
+
+// Phrases that are always worth flagging. The AI review adds to these; without a provider they
+// are the whole check.
+const LANGUAGE_RULES: LanguageRule[] = [
+  rule(/\b(rock ?stars?|ninjas?|gurus?|wizards?|unicorns?)\b/gi, 'inclusive', 'Slang job titles read as informal and put off many qualified applicants.', 'expert'),
+  rule(/\b(young|youthful|digital natives?|recent (?:college )?graduates?)\b/gi, 'inclusive', 'Suggests a preferred age, which excludes experienced applicants and may breach age discrimination law.'),
+  rule(/\bnative (?:english )?speakers?\b/gi, 'inclusive', 'Native-speaker requirements exclude fluent applicants; describe the level of proficiency needed.', 'fluent in English'),
+  rule(/\b(he\/she|he or she|s\/he)\b/gi, 'inclusive', 'Leaves out applicants who use other pronouns.', 'they'),
+  rule(/\b(his\/her|his or her)\b/gi, 'inclusive', 'Leaves out applicants who use other pronouns.', 'their'),
+  rule(/\bmanpower\b/gi, 'inclusive', 'Gendered wording.', 'workforce'),
+  rule(/\b(chairman|salesman|middleman)\b/gi, 'inclusive', 'Gendered job title.'),
+  rule(/\bculture fit\b/gi, 'inclusive', 'Often screens out people unlike the current team; name the values or behaviours that matter.', 'shares our values'),
+  rule(/\b(aggressive|dominant|fearless)\b/gi, 'inclusive', 'Strongly masculine-coded words discourage many women from applying.', 'ambitious'),
+  rule(/\bable-bodied\b/gi, 'inclusive', 'Excludes disabled applicants; describe the actual physical requirements of the job, if any.'),
+  rule(/\bwork hard,? play hard\b/gi, 'inclusive', 'Implies long hours and a social scene that not everyone can take part in.'),
+  rule(/\b(etc\.?|and so on)(?=\s|$|[,;)])/gi, 'clarity', 'Applicants cannot tell what else is expected; list the items.'),
+  rule(/\bother duties as assigned\b/gi, 'clarity', 'Vague; name the kinds of work that may come up.'),
+  rule(/\b(synerg(?:y|ies)|best[- ]of[- ]breed|move the needle|think outside the box)\b/gi, 'clarity', 'Buzzwords say little about the work; describe it plainly.'),
+  rule(/\b(fast-paced environment|wear many hats|hit the ground running|self-starter|go-getter)\b/gi, 'clarity', 'Clichés that do not tell applicants what the job involves.'),
+];
+
+const issueKey = (issue: LanguageIssue) => `${issue.field}:${issue.start}:${issue.phrase.length}`;
+
+// Every case-insensitive occurrence of `phrase` in `text`, as it is written there
+function occurrences(text: string, phrase: string): Array<{ phrase: string; start: number }> {
+  const found: Array<{ phrase: string; start: number }> = [];
+  if (!phrase) return found;
+  const haystack = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + needle.length)) {
+    found.push({ phrase: text.slice(start, start + needle.length), start });
+  }
+  return found;
+}
+
+function ruleIssues(draft: JobDraftCheckInput): LanguageIssue[] {
+  const issues: LanguageIssue[] = [];
+  JOB_DRAFT_FIELDS.forEach(field => {
+    LANGUAGE_RULES.forEach(({ pattern, ...details }) => {
+      Array.from(draft[field].matchAll(pattern)).forEach(match => {
+        issues.push({ field, phrase: match[0], start: match.index ?? 0, ...details });
+      });
+    });
+  });
+  return issues;
+}
+
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3);
+
+// Expertise whose name shares a word with the brief, for the local provider's draft
+function expertiseFromBrief(brief: JobBrief, expertise: Expertise[]): string[] {
+  const briefWords = new Set(words(`${brief.role} ${brief.audience}`));
+  return expertise
+    .filter(item => words(item.name).some(word => briefWords.has(word)))
+    .slice(0, MAX_SUGGESTED_EXPERTISE)
+    .map(item => item.name);
+}
+
+// The local provider's draft: a fixed outline filled in from the brief
+function templateDraft(brief: JobBrief, expertise: Expertise[]): JobDraftResponse {
+  const title = brief.role.charAt(0).toUpperCase() + brief.role.slice(1);
+  const suggested = expertiseFromBrief(brief, expertise);
+  const details = [
+    brief.duration && `Duration: ${brief.duration}`,
+    brief.budget && `Budget: ${brief.budget}`,
+    brief.remote ? 'Location: remote' : null,
+  ].filter(Boolean);
+
+  const description = [
+    `We are looking for a ${brief.role}${brief.audience ? ` to design and deliver learning for ${brief.audience}` : ''}.`,
+    'You will work with our stakeholders to understand their learning needs, design engaging programs, and measure their impact.',
+    details.length > 0 ? details.join('\n') : null,
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    title,
+    description,
+    requirements: [
+      ...suggested,
+      'Experience designing learning for adults',
+      'Clear written and verbal communication',
+    ],
+    expertise: suggested,
+  };
+}
+
+export class JobWritingService {
+  // Drafts a posting from a brief; rate limits and provider failures reach the caller
+  async draftJob(brief: JobBrief, userId: number): Promise<JobDraft> {
+    const expertise = await storage.getAllExpertise();
+    const expertiseNames = expertise.slice(0, MAX_PROMPT_EXPERTISE).map(item => item.name);
+
+    const prompt = `Write a job posting for a Learning & Development role from this brief:
+
+Role: ${brief.role}
+Learners or audience: ${brief.audience || 'Not specified'}
+Duration: ${brief.duration || 'Not specified'}
+Budget: ${brief.budget || 'Not specified'}
+Remote: ${brief.remote ? 'Yes' : 'No'}
+
+Give a specific title, a description of 2-4 short paragraphs covering the work, the learners and the outcomes expected, and 4-8 requirements as short phrases.
+Use inclusive, plain language: no age, gender or native-speaker preferences, and no slang titles like "rockstar" or "ninja".
+For expertise, pick up to ${MAX_SUGGESTED_EXPERTISE} names from this list that fit the role, copied exactly: ${expertiseNames.join('; ')}`;
+
+    const draft = await llmService.complete({
+      schema: jobDraftResponseSchema,
+      schemaName: 'job_draft',
+      system: 'You are an experienced recruiter who writes clear, inclusive job postings for Learning & Development roles.',
+      prompt,
+      template: () => templateDraft(brief, expertise),
+      temperature: 0.7,
+      userId,
+    });
+
+    return {
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      requirements: draft.requirements.map(requirement => requirement.trim()).join(', '),
+      suggestedExpertise: this.knownExpertise(draft.expertise, expertise),
+    };
+  }
+
+  // Flags exclusionary and unclear phrases in a draft. The word lists always run; the AI review
+  // adds to them when the provider is available.
+  async checkLanguage(draft: JobDraftCheckInput, userId: number): Promise<LanguageCheckResult> {
+    const issues = ruleIssues(draft);
+    let aiReviewed = true;
+
+    if (JOB_DRAFT_FIELDS.some(field => draft[field].trim().length > 0)) {
+      try {
+        issues.push(...await this.reviewLanguage(draft, userId));
+      } catch (error) {
+        if (error instanceof LlmRateLimitError || !(error instanceof LlmError)) throw error;
+        console.error('AI language review failed; returning word list results only:', error.message);
+        aiReviewed = false;
+      }
+    }
+
+    const unique = new Map<string, LanguageIssue>();
+    issues.forEach(issue => {
+      if (!unique.has(issueKey(issue))) unique.set(issueKey(issue), issue);
+    });
+    return {
+      issues: Array.from(unique.values()).sort((a, b) =>
+        JOB_DRAFT_FIELDS.indexOf(a.field) - JOB_DRAFT_FIELDS.indexOf(b.field) || a.start - b.start
+      ),
+      aiReviewed,
+    };
+  }
+
+  // Phrases the model flags that do not appear in the draft are dropped
+  private async reviewLanguage(draft: JobDraftCheckInput, userId: number): Promise<LanguageIssue[]> {
+    const prompt = `Review this job posting for language that could discourage qualified people from applying (category "inclusive"), and for vague or unclear wording (category "clarity").
+
+Title: ${draft.title}
+
+Description:
+${draft.description}
+
+Requirements:
+${draft.requirements}
+
+For each problem, quote the exact phrase from the posting, name the field it is in, explain the problem in one sentence, and suggest replacement wording or null if it should be removed or rewritten. Only report real problems; an empty list is fine.`;
+
+    const review = await llmService.complete({
+      schema: languageReviewSchema,
+      schemaName: 'language_review',
+      system: 'You are an editor who makes job postings inclusive and easy to understand.',
+      prompt,
+      // The word lists cover the local provider
+      template: () => ({ issues: [] }),
+      temperature: 0,
+      userId,
+    });
+
+    return review.issues.flatMap(issue =>
+      occurrences(draft[issue.field], issue.phrase.trim()).map(({ phrase, start }) => ({
+        field: issue.field,
+        phrase,
+        start,
+        category: issue.category,
+        explanation: issue.explanation,
+        suggestion: issue.suggestion,
+      }))
+    );
+  }
+
+  // Matches names case-insensitively against the expertise table, keeping the first of duplicates
+  private knownExpertise(names: string[], expertise: Expertise[]): JobDraft['suggestedExpertise'] {
+    const byName = new Map(expertise.map(item => [item.name.toLowerCase(), item] as const));
+    const suggested = new Map<number, { id: number; name: string }>();
+    names.forEach(name => {
+      const item = byName.get(name.trim().toLowerCase());
+      if (item && !suggested.has(item.id)) suggested.set(item.id, { id: item.id, name: item.name });
+    });
+    return Array.from(suggested.values()).slice(0, MAX_SUGGESTED_EXPERTISE);
+  }
+}
+
+export const jobWritingService = new JobWritingService();
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { OpenAiLlmProvider } from './openai-llm-provider';
+import { GeminiLlmProvider } from './gemini-llm-provider';
+import { AnthropicLlmProvider } from './anthropic-llm-provider';
+import { LocalLlmProvider } from './local-llm-provider';
+
+// Chat completions that answer in JSON, and text embeddings, from whichever vendor is configured.
+// Providers only talk to their vendor; llmService adds validation, retries, timeouts and rate
+// limits on top, so every provider behaves the same to the features using it.
+
+export type LlmProviderName = 'openai' | 'gemini' | 'anthropic' | 'local';
+
+export type JsonSchema = Record<string, unknown>;
+
+// Thrown for any failed AI request. retryable marks failures worth another attempt: timeouts,
+// rate limiting and server errors at the vendor, and responses that did not match the schema.
+// providerStatus is the HTTP status the vendor answered with, if it answered.
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public status: number = 502,
+    public retryable: boolean = false,
+    public providerStatus?: number
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export class LlmRateLimitError extends LlmError {
+  constructor(public retryAfterSeconds: number) {
+    super(`Too many AI requests. Try again in ${retryAfterSeconds} seconds.`, 429);
+    this.name = 'LlmRateLimitError';
+  }
+}
+
+export interface LlmCompletionRequest {
+  system?: string;
+  prompt: string;
+  // Name and JSON Schema of the response; names may only use letters, digits, _ and -
+  schemaName: string;
+  jsonSchema: JsonSchema;
+  // The response the local provider gives. Remote providers ignore it.
+  template: () => unknown;
+  temperature?: number;
+  maxTokens?: number;
+  signal: AbortSignal;
+}
+
+export interface LlmEmbeddingRequest {
+  texts: string[];
+  dimensions: number;
+  signal: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  // The parsed JSON response, not yet validated
+  complete(request: LlmCompletionRequest): Promise<unknown>;
+}
+
+export interface EmbeddingProvider {
+  readonly name: LlmProviderName;
+  readonly embeddingModel: string;
+  // One vector per text, in the same order
+  embed(request: LlmEmbeddingRequest): Promise<number[][]>;
+  // Only for providers whose embeddings depend on a corpus, like the local TF-IDF one. The
+  // embeddingModel then names the corpus as well.
+  fit?(documents: string[]): void;
+}
+
+export function parseJsonResponse(content: string | null | undefined, provider: LlmProviderName): unknown {
+  if (!content) {
+    throw new LlmError(`${provider} returned an empty response`, 502, true);
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new LlmError(`${provider} returned a response that is not JSON`, 502, true);
+  }
+}
+
+// JSON Schema for the zod types the features use to describe responses: objects, arrays,
+// strings, numbers, booleans, enums and literals, optionally nullable or optional
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const described = (json: JsonSchema) => (schema.description ? { ...json, description: schema.description } : json);
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const keys = Object.keys(shape);
+    return described({
+      type: 'object',
+      properties: Object.fromEntries(keys.map(key => [key, toJsonSchema(shape[key])])),
+      required: keys.filter(key => !shape[key].isOptional()),
+      additionalProperties: false,
+    });
+  }
+  if (schema instanceof z.ZodArray) return described({ type: 'array', items: toJsonSchema(schema.element) });
+  if (schema instanceof z.ZodString) return described({ type: 'string' });
+  if (schema instanceof z.ZodNumber) return described({ type: schema.isInt ? 'integer' : 'number' });
+  if (schema instanceof z.ZodBoolean) return described({ type: 'boolean' });
+  if (schema instanceof z.ZodEnum) return described({ type: 'string', enum: schema.options });
+  if (schema instanceof z.ZodLiteral) return described({ enum: [schema.value] });
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return described(toJsonSchema(schema instanceof z.ZodOptional ? schema.unwrap() : schema.removeDefault()));
+  }
+  if (schema instanceof z.ZodNullable) return described({ anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] });
+  if (schema instanceof z.ZodEffects) return described(toJsonSchema(schema.innerType()));
+  return described({});
+}
+
+const requireKey = (name: string): string => {
+  const key = process.env[name];
+  if (!key) {
+    throw new Error(`Missing required AI provider secret: ${name}`);
+  }
+  return key;
+};
+
+const providerForKey = (): LlmProviderName | undefined =>
+  process.env.OPENAI_API_KEY ? 'openai'
+    : process.env.ANTHROPIC_API_KEY ? 'anthropic'
+      : process.env.GEMINI_API_KEY ? 'gemini'
+        : undefined;
+
+// LLM_PROVIDER picks the completion provider. Without it, the first vendor with an API key
+// configured is used, and the local provider when there is none.
+export function createLlmProvider(): LlmProvider {
+  const requested = process.env.LLM_PROVIDER;
+  const name = requested || providerForKey() || 'local';
+
+  if (name === 'openai') return new OpenAiLlmProvider(requireKey('OPENAI_API_KEY'));
+  if (name === 'gemini') return new GeminiLlmProvider(requireKey('GEMINI_API_KEY'));
+  if (name === 'anthropic') return new AnthropicLlmProvider(requireKey('ANTHROPIC_API_KEY'));
+  if (name === 'local') return new LocalLlmProvider();
+
+  throw new Error(`Unknown LLM_PROVIDER: ${requested}`);
+}
+
+// LLM_EMBEDDING_PROVIDER picks the embedding provider. Without it, Gemini is used when it has a
+// key, then OpenAI, then the local provider. Anthropic has no embeddings.
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const requested = process.env.LLM_EMBEDDING_PROVIDER;
+  const name = requested || (
+    process.env.GEMINI_API_KEY ? 'gemini'
+      : process.env.OPENAI_API_KEY ? 'openai'
+        : 'local'
+  );
+
+  if (name === 'gemini') return new GeminiLlmProvider(requireKey('GEMINI_API_KEY'));
+  if (name === 'openai') return new OpenAiLlmProvider(requireKey('OPENAI_API_KEY'));
+  if (name === 'local') return new LocalLlmProvider();
+  if (name === 'anthropic') {
+    throw new Error('Anthropic does not provide embeddings; set LLM_EMBEDDING_PROVIDER to openai, gemini or local');
+  }
+
+  throw new Error(`Unknown LLM_EMBEDDING_PROVIDER: ${requested}`);
+}
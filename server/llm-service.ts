@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { EMBEDDING_DIMENSIONS } from '@shared/schema';
+import { LlmError, LlmRateLimitError, createEmbeddingProvider, createLlmProvider, toJsonSchema } from './llm-provider';
+import type { EmbeddingProvider, LlmProvider } from './llm-provider';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface LlmServiceOptions {
+  timeoutMs: number;
+  // Further attempts after the first fails with a retryable error
+  maxRetries: number;
+  // AI requests one user may make per minute, completions and embeddings together
+  rateLimitPerMinute: number;
+}
+
+export interface LlmCompleteOptions<T> {
+  schema: z.ZodType<T>;
+  schemaName: string;
+  system?: string;
+  prompt: string;
+  // The local provider's response, and what callers can fall back on when a request fails
+  template: () => T;
+  temperature?: number;
+  maxTokens?: number;
+  // Counts the request towards this user's rate limit
+  userId?: number;
+}
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Vendor SDK errors carry the HTTP status; anything without one is a network failure
+function toLlmError(error: unknown, provider: string): LlmError {
+  if (error instanceof LlmError) return error;
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === undefined) {
+    return new LlmError(`${provider} request failed: ${message}`, 503, true);
+  }
+  const retryable = status === 408 || status === 409 || status === 429 || status >= 500;
+  return new LlmError(`${provider} request failed with status ${status}: ${message}`, retryable ? 503 : 502, retryable, status);
+}
+
+// Every AI request in the app goes through here: completions are validated against their zod
+// schema, and all requests are timed out, retried with backoff and rate limited per user.
+export class LlmService {
+  private requestTimes = new Map<number, number[]>();
+  // Set after the embedding provider rejects its credentials, so matching stops asking
+  private embeddingsDisabled = false;
+
+  constructor(
+    private provider: LlmProvider,
+    private embeddingProvider: EmbeddingProvider,
+    private options: LlmServiceOptions
+  ) {}
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  // Identifies the vectors embed returns; vectors from different models cannot be compared
+  get embeddingModel(): string {
+    return `${this.embeddingProvider.name}:${this.embeddingProvider.embeddingModel}`;
+  }
+
+  get embeddingsAvailable(): boolean {
+    return !this.embeddingsDisabled;
+  }
+
+  get embeddingsNeedCorpus(): boolean {
+    return !!this.embeddingProvider.fit;
+  }
+
+  // Fits corpus-based embeddings to the documents; see EmbeddingProvider.fit
+  fitEmbeddings(documents: string[]): void {
+    this.embeddingProvider.fit?.(documents);
+  }
+
+  async complete<T>(options: LlmCompleteOptions<T>): Promise<T> {
+    this.checkRateLimit(options.userId);
+    const jsonSchema = toJsonSchema(options.schema);
+
+    return this.withRetries(this.provider.name, async signal => {
+      const response = await this.provider.complete({
+        system: options.system,
+        prompt: options.prompt,
+        schemaName: options.schemaName,
+        jsonSchema,
+        template: options.template,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        signal,
+      });
+      const parsed = options.schema.safeParse(response);
+      if (!parsed.success) {
+        throw new LlmError(`${this.provider.name} returned a response that does not match ${options.schemaName}`, 502, true);
+      }
+      return parsed.data;
+    });
+  }
+
+  async embed(texts: string[], userId?: number): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    if (this.embeddingsDisabled) {
+      throw new LlmError(`${this.embeddingProvider.name} embeddings are disabled after an authentication failure`, 503);
+    }
+    this.checkRateLimit(userId);
+    const schema = z.array(z.array(z.number()).length(EMBEDDING_DIMENSIONS)).length(texts.length);
+
+    try {
+      return await this.withRetries(this.embeddingProvider.name, async signal => {
+        const vectors = await this.embeddingProvider.embed({ texts, dimensions: EMBEDDING_DIMENSIONS, signal });
+        const parsed = schema.safeParse(vectors);
+        if (!parsed.success) {
+          throw new LlmError(`${this.embeddingProvider.name} returned embeddings that are not ${EMBEDDING_DIMENSIONS}-dimensional`, 502);
+        }
+        return parsed.data;
+      });
+    } catch (error) {
+      if (error instanceof LlmError && (error.providerStatus === 401 || error.providerStatus === 403)) {
+        console.error(`${this.embeddingProvider.name} rejected its API key; embeddings are disabled until restart`);
+        this.embeddingsDisabled = true;
+      }
+      throw error;
+    }
+  }
+
+  private checkRateLimit(userId: number | undefined): void {
+    if (userId === undefined || this.options.rateLimitPerMinute === 0) return;
+
+    const now = Date.now();
+    const recent = (this.requestTimes.get(userId) ?? []).filter(time => time > now - RATE_LIMIT_WINDOW_MS);
+    if (recent.length >= this.options.rateLimitPerMinute) {
+      this.requestTimes.set(userId, recent);
+      throw new LlmRateLimitError(Math.ceil((recent[0] + RATE_LIMIT_WINDOW_MS - now) / 1000));
+    }
+    recent.push(now);
+    this.requestTimes.set(userId, recent);
+  }
+
+  private async withRetries<T>(provider: string, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await this.withTimeout(provider, attempt);
+      } catch (error) {
+        const llmError = toLlmError(error, provider);
+        if (!llmError.retryable || retry >= this.options.maxRetries) throw llmError;
+        console.warn(`${llmError.message}; retrying (${retry + 1}/${this.options.maxRetries})`);
+        await sleep(RETRY_BASE_DELAY_MS * Math.pow(2, retry));
+      }
+    }
+  }
+
+  // Aborts the request and rejects even when the provider does not honour the abort signal
+  private async withTimeout<T>(provider: string, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmError(`${provider} request timed out after ${this.options.timeoutMs}ms`, 504, true));
+      }, this.options.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([attempt(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// LLM_TIMEOUT_MS, LLM_MAX_RETRIES and LLM_RATE_LIMIT_PER_MINUTE tune every provider; see
+// llm-provider.ts for picking the providers
+export const llmService = new LlmService(createLlmProvider(), createEmbeddingProvider(), {
+  timeoutMs: envNumber('LLM_TIMEOUT_MS', 30 * 1000),
+  maxRetries: envNumber('LLM_MAX_RETRIES', 2),
+  rateLimitPerMinute: envNumber('LLM_RATE_LIMIT_PER_MINUTE', 20),
+});
@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import type { EmbeddingProvider, LlmCompletionRequest, LlmEmbeddingRequest, LlmProvider } from './llm-provider';
+
+// Offline provider for development and tests: no network, no keys, and the same output for the
+// same input. Completions are the templated response each feature supplies; embeddings are
+// TF-IDF vectors, feature-hashed into the embedding dimensions.
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+  'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were',
+  'will', 'with', 'you', 'your',
+]);
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+// FNV-1a, for a stable bucket and sign per term
+function hash(term: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    value ^= term.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+export class LocalLlmProvider implements LlmProvider, EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = 'local-template';
+  private documentFrequencies = new Map<string, number>();
+  private documentCount = 0;
+  private corpusHash = '';
+
+  // Names the fitted corpus too, since refitting changes every embedding
+  get embeddingModel(): string {
+    return this.corpusHash ? `local-tfidf:${this.corpusHash}` : 'local-tfidf';
+  }
+
+  // Sets the corpus inverse document frequencies are computed from, so rare terms weigh more.
+  // Until then every term weighs the same. Embeddings depend only on the text and this corpus.
+  fit(documents: string[]): void {
+    const corpusHash = createHash('sha256').update([...documents].sort().join('\0')).digest('hex').slice(0, 16);
+    if (corpusHash === this.corpusHash) return;
+
+    this.documentFrequencies.clear();
+    this.documentCount = documents.length;
+    documents.forEach(document => {
+      new Set(tokenize(document)).forEach(term => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      });
+    });
+    this.corpusHash = corpusHash;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<unknown> {
+    return request.template();
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    return request.texts.map(text => this.vector(text, request.dimensions));
+  }
+
+  private vector(text: string, dimensions: number): number[] {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+    const vector = new Array<number>(dimensions).fill(0);
+    counts.forEach((count, term) => {
+      const termHash = hash(term);
+      const sign = termHash & 0x80000000 ? -1 : 1;
+      vector[termHash % dimensions] += sign * (1 + Math.log(count)) * this.inverseDocumentFrequency(term);
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    // Text without terms gets a fixed unit vector, as cosine similarity is undefined for zero
+    if (norm === 0) {
+      vector[0] = 1;
+      return vector;
+    }
+    return vector.map(value => value / norm);
+  }
+
+  private inverseDocumentFrequency(term: string): number {
+    if (this.documentCount === 0) return 1;
+    return Math.log((1 + this.documentCount) / (1 + (this.documentFrequencies.get(term) ?? 0))) + 1;
+  }
+}
@@ -0,0 +1,39 @@
+import { emailTransport } from './email-transport';
+import { renderEmail } from './email-templates';
+import type { EmailLocale, EmailTemplateName, EmailTemplateVariables } from './email-templates';
+
+const FROM = {
+  name: 'L&D Nexus',
+  address: process.env.FROM_EMAIL || process.env.EMAIL_USER || 'noreply@ldnexus.com'
+};
+
+// Absolute link into the web app for use in emails
+export const appUrl = (path: string) => `${process.env.FRONTEND_URL || 'http://localhost:5000'}${path}`;
+
+class Mailer {
+  // Renders a registered template and hands it to the configured transport. Rejects when the
+  // variables do not match the template or the transport fails.
+  async send<N extends EmailTemplateName>(
+    to: string,
+    template: N,
+    variables: EmailTemplateVariables<N>,
+    options: { locale?: EmailLocale } = {}
+  ) {
+    const { unsubscribeUrl, ...email } = renderEmail(template, variables, options.locale);
+    await emailTransport.send({
+      to,
+      from: FROM,
+      ...email,
+      // RFC 8058 one-click unsubscribe: mail clients POST to the URL without opening it
+      headers: unsubscribeUrl
+        ? { 'List-Unsubscribe': `<${unsubscribeUrl}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }
+        : undefined
+    });
+  }
+
+  async verify() {
+    await emailTransport.verify();
+  }
+}
+
+export const mailer = new Mailer();
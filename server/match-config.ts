@@ -0,0 +1,43 @@
+import { MATCH_FACTORS } from '@shared/match-score';
+import type { MatchFactor } from '@shared/match-score';
+
+// Relative weights of the match score factors. They need not add up to 1: each match divides
+// them by the sum of the weights of the factors that apply to it.
+export type MatchWeights = Record<MatchFactor, number>;
+
+const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  semantic: 0.30,
+  expertise: 0.20,
+  experience: 0.15,
+  location: 0.10,
+  rate: 0.10,
+  certifications: 0.05,
+  rating: 0.10,
+};
+
+// MATCH_WEIGHTS overrides some or all of the defaults, e.g. "expertise=0.4,semantic=0.1".
+// A weight of 0 turns a factor off.
+function loadMatchWeights(): MatchWeights {
+  const weights = { ...DEFAULT_MATCH_WEIGHTS };
+  const configured = process.env.MATCH_WEIGHTS;
+  if (!configured) return weights;
+
+  configured.split(',').filter(entry => entry.trim()).forEach(entry => {
+    const [name, value] = entry.split('=').map(part => part.trim());
+    const weight = Number(value);
+    if (!(MATCH_FACTORS as readonly string[]).includes(name)) {
+      throw new Error(`Unknown match factor in MATCH_WEIGHTS: ${name}`);
+    }
+    if (!value || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid weight for ${name} in MATCH_WEIGHTS: ${value}`);
+    }
+    weights[name as MatchFactor] = weight;
+  });
+
+  if (MATCH_FACTORS.every(factor => weights[factor] === 0)) {
+    throw new Error('MATCH_WEIGHTS turns off every match factor');
+  }
+  return weights;
+}
+
+export const matchWeights = loadMatchWeights();
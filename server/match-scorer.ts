@@ -0,0 +1,193 @@
+import { matchWeights } from './match-config';
+import type { MatchWeights } from './match-config';
+import { MATCH_FACTORS } from '@shared/match-score';
+import type { MatchFactor, MatchFactorScore } from '@shared/match-score';
+import type { JobPosting, ProfessionalProfile } from '@shared/schema';
+
+// Hybrid job-professional match score: embedding similarity combined with structured signals, each
+// scored 0-1 and weighted by the configured weights. Every factor explains its score, so a match
+// can be shown with the reasons behind it rather than a bare percentage.
+
+export interface MatchSignals {
+  // Cosine similarity of the job and profile embeddings; null without an embedding provider
+  similarity: number | null;
+  // Expertise areas the job text mentions; jobs are not tagged with expertise
+  jobExpertise: string[];
+  professionalExpertise: string[];
+  certifications: string[];
+}
+
+export interface MatchScore {
+  score: number;
+  breakdown: MatchFactorScore[];
+}
+
+interface FactorResult {
+  score: number | null;
+  detail: string;
+}
+
+// Reviews count towards the rating factor as if the professional had this many extra reviews at
+// the prior, so one five-star review does not outrank fifty four-star ones
+const RATING_PRIOR_REVIEWS = 3;
+const RATING_PRIOR = 0.6;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+const jobText = (job: JobPosting) => normalize(`${job.title} ${job.description} ${job.requirements}`);
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export function jobExpertiseNames(job: JobPosting, expertiseNames: string[]): string[] {
+  const text = jobText(job);
+  return expertiseNames.filter(name => text.includes(normalize(name)));
+}
+
+// Years from phrases like "5+ years of experience" in the requirements or description
+export function requiredYearsOfExperience(job: JobPosting): number | null {
+  const match = `${job.requirements} ${job.description}`.match(/(\d+)\s*\+?\s*years?\s*(?:of\s*)?(?:\w+\s+)?experience/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function semanticFactor(similarity: number | null): FactorResult {
+  if (similarity === null) {
+    return { score: null, detail: 'Description similarity is not available' };
+  }
+  const score = (similarity + 1) / 2;
+  if (score >= 0.8) return { score, detail: 'Profile closely matches the job description' };
+  if (score >= 0.6) return { score, detail: 'Profile is related to the job description' };
+  return { score, detail: 'Profile has little in common with the job description' };
+}
+
+function expertiseFactor(signals: MatchSignals): FactorResult {
+  if (signals.jobExpertise.length === 0) {
+    return { score: null, detail: 'The job mentions no expertise areas' };
+  }
+  const held = new Set(signals.professionalExpertise.map(normalize));
+  const matched = signals.jobExpertise.filter(name => held.has(normalize(name)));
+  if (matched.length === 0) {
+    return { score: 0, detail: `Has none of the ${plural(signals.jobExpertise.length, 'expertise area')} the job mentions` };
+  }
+  return {
+    score: matched.length / signals.jobExpertise.length,
+    detail: `Has ${matched.length} of the ${plural(signals.jobExpertise.length, 'expertise area')} the job mentions: ${matched.join(', ')}`,
+  };
+}
+
+function experienceFactor(job: JobPosting, professional: ProfessionalProfile): FactorResult {
+  const required = requiredYearsOfExperience(job);
+  if (required === null || required === 0) {
+    return { score: null, detail: 'The job names no required experience' };
+  }
+  const years = professional.yearsExperience ?? 0;
+  return {
+    score: Math.min(1, years / required),
+    detail: `${plural(years, 'year')} of experience, ${required} required`,
+  };
+}
+
+function locationFactor(job: JobPosting, professional: ProfessionalProfile): FactorResult {
+  if (job.remote) {
+    return { score: 1, detail: 'The job is remote' };
+  }
+  if (!professional.location) {
+    return { score: null, detail: 'The profile has no location' };
+  }
+
+  const jobLocation = normalize(job.location);
+  const location = normalize(professional.location);
+  if (location === jobLocation || location.includes(jobLocation) || jobLocation.includes(location)) {
+    return { score: 1, detail: `Based in ${job.location}` };
+  }
+  // "Manchester, UK" and "London, UK" share a region
+  const regions = jobLocation.split(',').map(part => part.trim()).filter(Boolean);
+  if (location.split(',').map(part => part.trim()).some(part => part && regions.includes(part))) {
+    return { score: 0.5, detail: `Based in ${professional.location}, in the same region as ${job.location}` };
+  }
+  if (location.includes('remote')) {
+    return { score: 0.3, detail: `Works remotely; the job is in ${job.location}` };
+  }
+  return { score: 0, detail: `Based in ${professional.location}; the job is in ${job.location}` };
+}
+
+function rateFactor(job: JobPosting, professional: ProfessionalProfile): FactorResult {
+  const budget = job.maxCompensation ?? job.minCompensation;
+  if (job.compensationUnit !== 'hourly' || budget === null) {
+    return { score: null, detail: 'The job names no hourly rate' };
+  }
+  const rate = professional.ratePerHour;
+  if (!rate) {
+    return { score: null, detail: 'The profile has no hourly rate' };
+  }
+  if (rate <= budget) {
+    return { score: 1, detail: `$${rate}/hr is within the $${budget}/hr budget` };
+  }
+  return { score: budget / rate, detail: `$${rate}/hr is above the $${budget}/hr budget` };
+}
+
+function certificationsFactor(job: JobPosting, certifications: string[]): FactorResult {
+  if (certifications.length === 0) {
+    return { score: 0, detail: 'No certifications listed' };
+  }
+  // A certification is relevant when a significant word of its name appears in the job
+  const text = jobText(job);
+  const relevant = certifications.filter(name =>
+    normalize(name).split(/\W+/).some(word => word.length > 3 && text.includes(word)));
+  const others = certifications.length - relevant.length;
+  return {
+    score: Math.min(1, (relevant.length * 2 + others) / 4),
+    detail: relevant.length > 0
+      ? `${plural(certifications.length, 'certification')}, ${relevant.length} relevant to the job: ${relevant.join(', ')}`
+      : `${plural(certifications.length, 'certification')}, none mentioned by the job`,
+  };
+}
+
+function ratingFactor(professional: ProfessionalProfile): FactorResult {
+  const reviews = professional.reviewCount ?? 0;
+  if (reviews === 0) {
+    return { score: null, detail: 'No reviews yet' };
+  }
+  // Ratings are the rounded 1-5 star average of the reviews
+  const stars = Math.min(5, professional.rating ?? 0);
+  const rating = stars / 5;
+  return {
+    score: (rating * reviews + RATING_PRIOR * RATING_PRIOR_REVIEWS) / (reviews + RATING_PRIOR_REVIEWS),
+    detail: `Rated ${stars.toFixed(1)} from ${plural(reviews, 'review')}`,
+  };
+}
+
+export function scoreMatch(
+  job: JobPosting,
+  professional: ProfessionalProfile,
+  signals: MatchSignals,
+  weights: MatchWeights = matchWeights
+): MatchScore {
+  const factors: Record<MatchFactor, FactorResult> = {
+    semantic: semanticFactor(signals.similarity),
+    expertise: expertiseFactor(signals),
+    experience: experienceFactor(job, professional),
+    location: locationFactor(job, professional),
+    rate: rateFactor(job, professional),
+    certifications: certificationsFactor(job, signals.certifications),
+    rating: ratingFactor(professional),
+  };
+
+  const applies = (factor: MatchFactor) => factors[factor].score !== null && weights[factor] > 0;
+  const totalWeight = MATCH_FACTORS.filter(applies).reduce((sum, factor) => sum + weights[factor], 0);
+
+  const breakdown = MATCH_FACTORS.map(factor => {
+    const { score, detail } = factors[factor];
+    const weight = applies(factor) ? weights[factor] / totalWeight : 0;
+    return { factor, score, weight, contribution: (score ?? 0) * weight, detail };
+  });
+
+  return { score: breakdown.reduce((sum, factor) => sum + factor.contribution, 0), breakdown };
+}
+
+// The details of the factors that did most for the score, strongest first
+export function matchReasons(breakdown: MatchFactorScore[], limit = 3): string[] {
+  const reasons = breakdown
+    .filter(factor => factor.score !== null && factor.score >= 0.5 && factor.weight > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, limit)
+    .map(factor => factor.detail);
+  return reasons.length > 0 ? reasons : ['Few requirements of the job are met'];
+}
@@ -0,0 +1,69 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import {
+  createReportSchema, moderationActionSchema, moderationQueueQuerySchema, REPORT_TARGET_TYPES
+} from '@shared/moderation';
+import { moderationService, ModerationError } from './moderation-service';
+import { AdminError } from './admin-service';
+import { requirePermission } from './access-policy';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+const canModerate = requirePermission('content.moderate');
+
+// Moderation errors are shown to the user, and a refused ban to the moderator; anything else is a 500
+const handleModerationError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof ModerationError || error instanceof AdminError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+const parseTarget = (req: any) => {
+  const targetType = z.enum(REPORT_TARGET_TYPES).safeParse(req.params.targetType);
+  const targetId = parseInt(req.params.targetId);
+  if (!targetType.success || isNaN(targetId)) {
+    throw new ModerationError('Invalid report target');
+  }
+  return { targetType: targetType.data, targetId };
+};
+
+export function registerModerationRoutes(app: Express) {
+  // Any signed-in user can report content they can see
+  app.post('/api/reports', isAuthenticated, async (req: any, res) => {
+    try {
+      const input = createReportSchema.parse(req.body);
+      const report = await moderationService.report(req.user, input);
+      res.status(201).json({ id: report.id, status: report.status });
+    } catch (error) {
+      handleModerationError(res, error, 'Failed to submit report');
+    }
+  });
+
+  app.get('/api/admin/moderation/queue', canModerate, async (req, res) => {
+    try {
+      res.json(await moderationService.getQueue(moderationQueueQuerySchema.parse(req.query)));
+    } catch (error) {
+      handleModerationError(res, error, 'Failed to fetch the moderation queue');
+    }
+  });
+
+  app.post('/api/admin/moderation/:targetType/:targetId/actions', canModerate, async (req: any, res) => {
+    try {
+      const { targetType, targetId } = parseTarget(req);
+      const input = moderationActionSchema.parse(req.body);
+      res.json(await moderationService.applyAction(targetType, targetId, input, req.user.id));
+    } catch (error) {
+      handleModerationError(res, error, 'Failed to apply moderation action');
+    }
+  });
+}
@@ -0,0 +1,329 @@
+import { and, asc, count, desc, eq, inArray, max, min, ne, or, sql } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { adminService } from './admin-service';
+import { jobMatchService } from './job-match-service';
+import { notificationService } from './notification-service';
+import {
+  companyProfiles, contentReports, forumComments, forumPosts, messages, moderationActions, professionalProfiles,
+  resources, reviews, users
+} from '@shared/schema';
+import type { ContentReport, User } from '@shared/schema';
+import {
+  REPORT_TARGET_LABELS, type CreateReportInput, type ModerationActionInput, type ModerationHistoryAction,
+  type ModerationQueueItem, type ModerationQueueQuery, type ReportTargetType
+} from '@shared/moderation';
+
+// Thrown when a report or moderation action is not allowed; the message is safe to show to users
+export class ModerationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+// Content is hidden once this many users have open reports on it, until a moderator decides
+const AUTO_HIDE_REPORTS = parseInt(process.env.MODERATION_AUTO_HIDE_REPORTS || '3');
+
+const MAX_QUEUE_ITEMS = 100;
+const SUMMARY_LENGTH = 200;
+
+interface ModerationTarget {
+  ownerId: number;
+  summary: string;
+  link: string | null;
+  hidden: boolean;
+  // Set for private content, which only these users can report
+  visibleTo?: number[];
+}
+
+interface TargetDefinition {
+  load: (id: number) => Promise<ModerationTarget | undefined>;
+  setHidden: (id: number, hidden: boolean) => Promise<void>;
+}
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+const excerpt = (...parts: Array<string | null | undefined>) => {
+  const text = parts.filter(Boolean).join(' — ').replace(/\s+/g, ' ').trim();
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text;
+};
+
+const fullName = (profile: { firstName: string | null; lastName: string | null }) =>
+  [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+
+// How to find the owner of each kind of content and hide it. A review belongs to the company
+// that wrote it, a message to its sender.
+const TARGETS: Record<ReportTargetType, TargetDefinition> = {
+  forumPost: {
+    load: async id => {
+      const [post] = await getDb().select().from(forumPosts).where(eq(forumPosts.id, id));
+      return post && { ownerId: post.authorId, summary: excerpt(post.title), link: `/forum/${post.id}`, hidden: post.hidden };
+    },
+    setHidden: async (id, hidden) => {
+      await getDb().update(forumPosts).set({ hidden }).where(eq(forumPosts.id, id));
+    },
+  },
+  forumComment: {
+    load: async id => {
+      const [comment] = await getDb().select().from(forumComments).where(eq(forumComments.id, id));
+      return comment && { ownerId: comment.authorId, summary: excerpt(comment.content), link: `/forum/${comment.postId}`, hidden: comment.hidden };
+    },
+    setHidden: async (id, hidden) => {
+      await getDb().update(forumComments).set({ hidden }).where(eq(forumComments.id, id));
+    },
+  },
+  review: {
+    load: async id => {
+      const [row] = await getDb()
+        .select({ review: reviews, ownerId: companyProfiles.userId })
+        .from(reviews)
+        .innerJoin(companyProfiles, eq(reviews.companyId, companyProfiles.id))
+        .where(eq(reviews.id, id));
+      return row && {
+        ownerId: row.ownerId,
+        summary: excerpt(`${row.review.rating}/5`, row.review.comment),
+        link: `/professional-profile/${row.review.professionalId}`,
+        hidden: row.review.hidden,
+      };
+    },
+    // Hidden reviews do not count towards the professional's rating
+    setHidden: async (id, hidden) => {
+      const [review] = await getDb().update(reviews).set({ hidden }).where(eq(reviews.id, id)).returning();
+      if (review) await storage.updateProfessionalRating(review.professionalId);
+    },
+  },
+  resource: {
+    load: async id => {
+      const [resource] = await getDb().select().from(resources).where(eq(resources.id, id));
+      return resource && {
+        ownerId: resource.authorId, summary: excerpt(resource.title, resource.description), link: `/resource/${id}`, hidden: resource.hidden
+      };
+    },
+    setHidden: async (id, hidden) => {
+      await getDb().update(resources).set({ hidden }).where(eq(resources.id, id));
+    },
+  },
+  message: {
+    load: async id => {
+      const [message] = await getDb().select().from(messages).where(eq(messages.id, id));
+      return message && {
+        ownerId: message.senderId, summary: excerpt(message.content), link: null, hidden: message.hidden, visibleTo: [message.receiverId]
+      };
+    },
+    setHidden: async (id, hidden) => {
+      await getDb().update(messages).set({ hidden }).where(eq(messages.id, id));
+    },
+  },
+  professionalProfile: {
+    load: async id => {
+      const [profile] = await getDb().select().from(professionalProfiles).where(eq(professionalProfiles.id, id));
+      return profile && {
+        ownerId: profile.userId,
+        summary: excerpt(fullName(profile), profile.title, profile.bio),
+        link: `/professional-profile/${id}`,
+        hidden: profile.hidden,
+      };
+    },
+    // Hidden profiles leave the match index until they are restored
+    setHidden: async (id, hidden) => {
+      const [profile] = await getDb().update(professionalProfiles).set({ hidden }).where(eq(professionalProfiles.id, id)).returning();
+      if (profile) jobMatchService.profileChanged(hidden ? profile.id : profile);
+    },
+  },
+  companyProfile: {
+    load: async id => {
+      const [profile] = await getDb().select().from(companyProfiles).where(eq(companyProfiles.id, id));
+      return profile && {
+        ownerId: profile.userId, summary: excerpt(profile.companyName, profile.description), link: null, hidden: profile.hidden
+      };
+    },
+    setHidden: async (id, hidden) => {
+      await getDb().update(companyProfiles).set({ hidden }).where(eq(companyProfiles.id, id));
+    },
+  },
+};
+
+const isTarget = (targetType: ReportTargetType, targetId: number) =>
+  and(eq(contentReports.targetType, targetType), eq(contentReports.targetId, targetId));
+
+const label = (targetType: ReportTargetType) => REPORT_TARGET_LABELS[targetType].toLowerCase();
+
+export class ModerationService {
+  async report(reporter: User, input: CreateReportInput): Promise<ContentReport> {
+    const database = getDb();
+    const target = await TARGETS[input.targetType].load(input.targetId);
+    if (!target || (target.visibleTo && !target.visibleTo.includes(reporter.id))) {
+      throw new ModerationError(`${REPORT_TARGET_LABELS[input.targetType]} not found`, 404);
+    }
+    if (target.ownerId === reporter.id) {
+      throw new ModerationError('You cannot report your own content');
+    }
+
+    const [report] = await database.insert(contentReports)
+      .values({
+        targetType: input.targetType,
+        targetId: input.targetId,
+        reporterId: reporter.id,
+        reason: input.reason,
+        details: input.details || null,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!report) {
+      throw new ModerationError('You have already reported this', 409);
+    }
+
+    if (!target.hidden) {
+      const [{ open }] = await database.select({ open: count() })
+        .from(contentReports)
+        .where(and(isTarget(input.targetType, input.targetId), eq(contentReports.status, 'open')));
+      if (open >= AUTO_HIDE_REPORTS) {
+        await TARGETS[input.targetType].setHidden(input.targetId, true);
+        await this.recordAction(input.targetType, input.targetId, 'auto_hide', null, target.ownerId,
+          `Hidden after ${open} reports`);
+      }
+    }
+    return report;
+  }
+
+  // Reported content grouped by target. Open items come most reported first; closed ones most
+  // recently resolved first.
+  async getQueue(query: ModerationQueueQuery): Promise<ModerationQueueItem[]> {
+    const database = getDb();
+    const isOpen = query.status === 'open';
+    const where = and(
+      isOpen ? eq(contentReports.status, 'open') : ne(contentReports.status, 'open'),
+      query.targetType ? eq(contentReports.targetType, query.targetType) : undefined
+    );
+
+    const targets = await database
+      .select({ targetType: contentReports.targetType, targetId: contentReports.targetId })
+      .from(contentReports)
+      .where(where)
+      .groupBy(contentReports.targetType, contentReports.targetId)
+      .orderBy(...(isOpen
+        ? [desc(count()), asc(min(contentReports.createdAt))]
+        : [sql`${max(contentReports.resolvedAt)} desc nulls last`]))
+      .limit(MAX_QUEUE_ITEMS);
+    if (targets.length === 0) return [];
+
+    const anyTarget = or(...targets.map(target => isTarget(target.targetType, target.targetId))) as SQL;
+    const [reportRows, actionRows, openCounts] = await Promise.all([
+      database.select({ report: contentReports, reporterUsername: users.username })
+        .from(contentReports)
+        .innerJoin(users, eq(contentReports.reporterId, users.id))
+        .where(and(where, anyTarget))
+        .orderBy(asc(contentReports.createdAt)),
+      database.select().from(moderationActions)
+        .where(or(...targets.map(target => and(
+          eq(moderationActions.targetType, target.targetType), eq(moderationActions.targetId, target.targetId)
+        ))))
+        .orderBy(desc(moderationActions.id)),
+      database.select({ targetType: contentReports.targetType, targetId: contentReports.targetId, open: count() })
+        .from(contentReports)
+        .where(and(eq(contentReports.status, 'open'), anyTarget))
+        .groupBy(contentReports.targetType, contentReports.targetId),
+    ]);
+
+    const loaded = await Promise.all(targets.map(target => TARGETS[target.targetType].load(target.targetId)));
+    const ownerIds = Array.from(new Set(loaded.map(target => target?.ownerId).filter((id): id is number => id !== undefined)));
+    const owners = ownerIds.length
+      ? await database.select({ id: users.id, username: users.username }).from(users).where(inArray(users.id, ownerIds))
+      : [];
+
+    return targets.map(({ targetType, targetId }, index) => {
+      const target = loaded[index];
+      const matches = (row: { targetType: string; targetId: number }) => row.targetType === targetType && row.targetId === targetId;
+      const lastAction = actionRows.find(matches);
+      return {
+        targetType,
+        targetId,
+        summary: target?.summary ?? null,
+        link: target?.link ?? null,
+        ownerId: target?.ownerId ?? null,
+        ownerUsername: owners.find(owner => owner.id === target?.ownerId)?.username ?? null,
+        hidden: target?.hidden ?? false,
+        openReports: openCounts.find(matches)?.open ?? 0,
+        reports: reportRows.filter(row => matches(row.report)).map(({ report, reporterUsername }) => ({
+          id: report.id,
+          reporterId: report.reporterId,
+          reporterUsername,
+          reason: report.reason,
+          details: report.details,
+          status: report.status,
+          createdAt: report.createdAt.toISOString(),
+        })),
+        lastAction: lastAction ? {
+          action: lastAction.action,
+          moderatorId: lastAction.moderatorId,
+          note: lastAction.note,
+          createdAt: lastAction.createdAt.toISOString(),
+        } : null,
+      };
+    });
+  }
+
+  // Hides or restores the content and resolves its open reports. Warn and ban also hide it;
+  // a ban suspends the owner's account. Everyone whose report was resolved hears the outcome.
+  async applyAction(
+    targetType: ReportTargetType,
+    targetId: number,
+    input: ModerationActionInput,
+    moderatorId: number
+  ): Promise<{ hidden: boolean; resolvedReports: number }> {
+    const database = getDb();
+    const target = await TARGETS[targetType].load(targetId);
+    if (!target) {
+      throw new ModerationError(`${REPORT_TARGET_LABELS[targetType]} not found`, 404);
+    }
+    if (target.ownerId === moderatorId) {
+      throw new ModerationError('You cannot moderate your own content');
+    }
+
+    // Suspend first, so content is not hidden for a ban that was not allowed
+    if (input.action === 'ban') {
+      await adminService.setUserStatus(target.ownerId, 'suspended', moderatorId);
+    }
+
+    const hidden = input.action !== 'restore';
+    if (hidden !== target.hidden) {
+      await TARGETS[targetType].setHidden(targetId, hidden);
+    }
+
+    const resolved = await database.update(contentReports)
+      .set({ status: hidden ? 'actioned' : 'dismissed', resolvedBy: moderatorId, resolvedAt: new Date() })
+      .where(and(isTarget(targetType, targetId), eq(contentReports.status, 'open')))
+      .returning({ reporterId: contentReports.reporterId });
+
+    await this.recordAction(targetType, targetId, input.action, moderatorId, target.ownerId, input.note || null);
+
+    if (input.action === 'warn') {
+      await notificationService.sendModerationWarning(target.ownerId, label(targetType), input.note);
+    }
+    if (resolved.length > 0) {
+      await notificationService.sendModerationOutcome(resolved.map(report => report.reporterId), label(targetType), hidden);
+    }
+
+    return { hidden, resolvedReports: resolved.length };
+  }
+
+  private async recordAction(
+    targetType: ReportTargetType,
+    targetId: number,
+    action: ModerationHistoryAction,
+    moderatorId: number | null,
+    targetUserId: number,
+    note: string | null
+  ): Promise<void> {
+    await getDb().insert(moderationActions).values({ targetType, targetId, action, moderatorId, targetUserId, note });
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -0,0 +1,18 @@
+import { notificationDigestService } from './notification-digest-service';
+import { IntervalRunner } from './interval-runner';
+
+// Periodically sends the daily and weekly notification digests that are due. Sent digests and
+// emailed notifications are recorded in the database, so a restart never sends one twice.
+export const notificationDigestScheduler = new IntervalRunner({
+  name: 'Notification digest',
+  intervalMs: 15 * 60 * 1000,
+  startupDelayMs: 60 * 1000,
+  run: async () => {
+    const result = await notificationDigestService.processDigests();
+    if (!result) {
+      console.log('Notification digest pass skipped: another instance holds the lock');
+    } else if (result.sent || result.failed) {
+      console.log(`Notification digest pass: ${result.sent} sent, ${result.failed} failed`);
+    }
+  }
+});
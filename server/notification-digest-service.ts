@@ -0,0 +1,322 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { and, asc, eq, inArray, isNull, max, sql } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { mailer, appUrl } from './mailer';
+import { notificationDigests, notificationPreferences, notifications, users } from '@shared/schema';
+import type { NotificationEmailFrequency, NotificationPreference, NotificationType, User } from '@shared/schema';
+
+export class NotificationPreferenceError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'NotificationPreferenceError';
+  }
+}
+
+// Notification types users can configure, in the order the settings page lists them. Other
+// types (team invitations, reviews) are always delivered.
+export const CONFIGURABLE_NOTIFICATION_TYPES = {
+  job_application: {
+    label: 'New job applications',
+    description: 'A professional applies to one of your job postings',
+    audience: 'company'
+  },
+  application_status_update: {
+    label: 'Application updates',
+    description: 'A company moves one of your applications to a new stage',
+    audience: 'professional'
+  },
+  new_job_match: {
+    label: 'Job alerts',
+    description: 'A new job matches one of your saved searches',
+    audience: 'professional'
+  },
+  escrow_auto_release_warning: {
+    label: 'Escrow release reminders',
+    description: 'Escrowed funds are about to be released automatically',
+    audience: 'all'
+  },
+  escrow_dispute: {
+    label: 'Escrow disputes',
+    description: 'Updates on disputes about your escrow payments',
+    audience: 'all'
+  }
+} as const;
+
+type ConfigurableNotificationType = keyof typeof CONFIGURABLE_NOTIFICATION_TYPES;
+type DigestFrequency = 'daily' | 'weekly';
+
+// What an unsubscribe link turns off: one notification type, or every type sent in a digest
+export type UnsubscribeScope = { type: string } | { digest: DigestFrequency };
+
+export interface ResolvedNotificationPreference {
+  emailFrequency: NotificationEmailFrequency;
+  inApp: boolean;
+}
+
+const DEFAULT_PREFERENCE: ResolvedNotificationPreference = { emailFrequency: 'immediate', inApp: true };
+
+// Digests go out from 08:00 UTC, weekly ones on Mondays
+const DIGEST_HOUR_UTC = 8;
+// Anything beyond this waits for the next digest
+const MAX_DIGEST_ITEMS = 50;
+// Two-key advisory lock, next to the escrow scheduler's [4242, 1]
+const DIGEST_LOCK = [4242, 2] as const;
+
+const UNSUBSCRIBE_SECRET = process.env.UNSUBSCRIBE_SECRET || process.env.SESSION_SECRET || 'L&D-nexus-unsubscribe-secret';
+
+const getDb = () => {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+};
+
+const isConfigurableType = (name: string): name is ConfigurableNotificationType =>
+  Object.prototype.hasOwnProperty.call(CONFIGURABLE_NOTIFICATION_TYPES, name);
+
+const sign = (payload: string) => createHmac('sha256', UNSUBSCRIBE_SECRET).update(payload).digest('base64url');
+
+class NotificationDigestService {
+  // Notification types are rows created on first use
+  async getOrCreateType(name: string): Promise<NotificationType> {
+    const existing = await storage.getNotificationTypeByName(name);
+    if (existing) return existing;
+
+    return storage.createNotificationType({
+      name,
+      description: `Notification for ${name.replace(/_/g, ' ')}`
+    });
+  }
+
+  async getPreference(userId: number, typeId: number): Promise<ResolvedNotificationPreference> {
+    const preference = await storage.getUserNotificationPreference(userId, typeId);
+    if (!preference) return DEFAULT_PREFERENCE;
+
+    return {
+      emailFrequency: preference.emailFrequency,
+      inApp: preference.inApp ?? true
+    };
+  }
+
+  // The settings page rows for the types that apply to the user's account type
+  async getSettings(user: User) {
+    const names = (Object.keys(CONFIGURABLE_NOTIFICATION_TYPES) as ConfigurableNotificationType[])
+      .filter(name => {
+        const { audience } = CONFIGURABLE_NOTIFICATION_TYPES[name];
+        return audience === 'all' || audience === user.userType;
+      });
+
+    return Promise.all(names.map(async name => {
+      const type = await this.getOrCreateType(name);
+      return {
+        type: name,
+        label: CONFIGURABLE_NOTIFICATION_TYPES[name].label,
+        description: CONFIGURABLE_NOTIFICATION_TYPES[name].description,
+        ...await this.getPreference(user.id, type.id)
+      };
+    }));
+  }
+
+  async updateSettingByName(
+    userId: number,
+    typeName: string,
+    update: { emailFrequency?: NotificationEmailFrequency; inApp?: boolean }
+  ): Promise<NotificationPreference> {
+    if (!isConfigurableType(typeName)) {
+      throw new NotificationPreferenceError('Unknown notification type', 404);
+    }
+    return this.updateSetting(userId, await this.getOrCreateType(typeName), update);
+  }
+
+  // `email` is the older on/off switch: turning it on restores immediate emails only when they were off
+  async updateSetting(
+    userId: number,
+    type: NotificationType,
+    update: { emailFrequency?: NotificationEmailFrequency; inApp?: boolean; email?: boolean }
+  ): Promise<NotificationPreference> {
+    const current = await this.getPreference(userId, type.id);
+
+    let emailFrequency = update.emailFrequency ?? current.emailFrequency;
+    if (update.emailFrequency === undefined && update.email !== undefined) {
+      emailFrequency = !update.email ? 'off' : current.emailFrequency === 'off' ? 'immediate' : current.emailFrequency;
+    }
+
+    return storage.createOrUpdateNotificationPreference({
+      userId,
+      typeId: type.id,
+      emailFrequency,
+      email: emailFrequency !== 'off',
+      inApp: update.inApp ?? current.inApp
+    });
+  }
+
+  // Unsubscribe tokens are signed rather than stored, so every email can carry one and they never expire
+  createUnsubscribeToken(userId: number, scope: UnsubscribeScope): string {
+    const payload = Buffer.from(
+      `${userId}:${'type' in scope ? `type:${scope.type}` : `digest:${scope.digest}`}`
+    ).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+  }
+
+  // The one-click endpoint: mail clients POST to it, people following the link land on the confirmation page
+  getUnsubscribeUrl(userId: number, scope: UnsubscribeScope): string {
+    return appUrl(`/api/notification-preferences/unsubscribe?token=${this.createUnsubscribeToken(userId, scope)}`);
+  }
+
+  private parseUnsubscribeToken(token: string): { userId: number; scope: UnsubscribeScope } {
+    const invalid = new NotificationPreferenceError('This unsubscribe link is invalid');
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) throw invalid;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) throw invalid;
+
+    const match = /^(\d+):(type|digest):(\w+)$/.exec(Buffer.from(payload, 'base64url').toString());
+    if (!match) throw invalid;
+
+    const [, userId, kind, value] = match;
+    if (kind === 'digest' && value !== 'daily' && value !== 'weekly') throw invalid;
+    return {
+      userId: parseInt(userId),
+      scope: kind === 'type' ? { type: value } : { digest: value as DigestFrequency }
+    };
+  }
+
+  // Turns email off for the token's scope. Returns the labels of the types that were turned off.
+  async unsubscribe(token: string): Promise<{ types: string[] }> {
+    const { userId, scope } = this.parseUnsubscribeToken(token);
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new NotificationPreferenceError('This unsubscribe link is invalid');
+    }
+
+    const label = (name: string) => isConfigurableType(name) ? CONFIGURABLE_NOTIFICATION_TYPES[name].label : name.replace(/_/g, ' ');
+
+    if ('type' in scope) {
+      const type = await this.getOrCreateType(scope.type);
+      await this.updateSetting(userId, type, { emailFrequency: 'off' });
+      return { types: [label(type.name)] };
+    }
+
+    const digested = (await storage.getUserNotificationPreferences(userId))
+      .filter(preference => preference.emailFrequency === scope.digest);
+    const types: string[] = [];
+    for (let i = 0; i < digested.length; i++) {
+      const type = await storage.getNotificationType(digested[i].typeId);
+      if (!type) continue;
+      await this.updateSetting(userId, type, { emailFrequency: 'off' });
+      types.push(label(type.name));
+    }
+    return { types };
+  }
+
+  // The most recent scheduled send time at or before `now`
+  getDigestDueAt(frequency: DigestFrequency, now: Date): Date {
+    const dueAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DIGEST_HOUR_UTC));
+    if (frequency === 'weekly') {
+      dueAt.setUTCDate(dueAt.getUTCDate() - ((dueAt.getUTCDay() + 6) % 7));
+    }
+    if (dueAt > now) {
+      dueAt.setUTCDate(dueAt.getUTCDate() - (frequency === 'weekly' ? 7 : 1));
+    }
+    return dueAt;
+  }
+
+  // One scheduler pass: emails every user whose digest is due their unread, not yet emailed
+  // notifications of the types set to that frequency. Returns null when another instance holds the lock.
+  async processDigests(now: Date = new Date()): Promise<{ sent: number; failed: number } | null> {
+    return getDb().transaction(async (tx) => {
+      const lock = await tx.execute(
+        sql`SELECT pg_try_advisory_xact_lock(${DIGEST_LOCK[0]}, ${DIGEST_LOCK[1]}) AS locked`
+      );
+      if (!lock.rows[0]?.locked) return null;
+
+      const daily = await this.sendDueDigests('daily', now);
+      const weekly = await this.sendDueDigests('weekly', now);
+      return { sent: daily.sent + weekly.sent, failed: daily.failed + weekly.failed };
+    });
+  }
+
+  private async sendDueDigests(frequency: DigestFrequency, now: Date) {
+    const database = getDb();
+    const dueAt = this.getDigestDueAt(frequency, now);
+
+    const pending = await database.select({ notification: notifications, user: users })
+      .from(notifications)
+      .innerJoin(notificationPreferences, and(
+        eq(notificationPreferences.userId, notifications.userId),
+        eq(notificationPreferences.typeId, notifications.typeId)
+      ))
+      .innerJoin(users, eq(notifications.userId, users.id))
+      .where(and(
+        eq(notificationPreferences.emailFrequency, frequency),
+        eq(notifications.read, false),
+        isNull(notifications.emailedAt)
+      ))
+      .orderBy(asc(notifications.userId), asc(notifications.createdAt));
+
+    if (pending.length === 0) return { sent: 0, failed: 0 };
+
+    const byUser = new Map<number, typeof pending>();
+    pending.forEach(row => {
+      byUser.set(row.user.id, [...(byUser.get(row.user.id) ?? []), row]);
+    });
+
+    const lastDigests = await database.select({
+      userId: notificationDigests.userId,
+      sentAt: max(notificationDigests.sentAt)
+    })
+      .from(notificationDigests)
+      .where(and(
+        eq(notificationDigests.frequency, frequency),
+        inArray(notificationDigests.userId, Array.from(byUser.keys()))
+      ))
+      .groupBy(notificationDigests.userId);
+    const lastSentAt = new Map(lastDigests.map(digest => [digest.userId, digest.sentAt]));
+
+    let sent = 0;
+    let failed = 0;
+    const groups = Array.from(byUser.values());
+    for (let i = 0; i < groups.length; i++) {
+      const user = groups[i][0].user;
+      const last = lastSentAt.get(user.id);
+      if (last && last >= dueAt) continue;
+
+      const batch = groups[i].slice(0, MAX_DIGEST_ITEMS).map(row => row.notification);
+      try {
+        await mailer.send(user.email, 'notification-digest', {
+          firstName: user.firstName,
+          frequency,
+          notifications: batch.map(notification => ({
+            title: notification.title,
+            message: notification.message,
+            url: notification.link ? appUrl(notification.link) : null,
+            createdAt: notification.createdAt
+          })),
+          dashboardUrl: appUrl('/dashboard'),
+          unsubscribeUrl: this.getUnsubscribeUrl(user.id, { digest: frequency })
+        });
+
+        await database.update(notifications)
+          .set({ emailedAt: now })
+          .where(inArray(notifications.id, batch.map(notification => notification.id)));
+        await database.insert(notificationDigests).values({
+          userId: user.id,
+          frequency,
+          notificationCount: batch.length,
+          sentAt: now
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send ${frequency} digest to user ${user.id}:`, error);
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  }
+}
+
+export const notificationDigestService = new NotificationDigestService();
@@ -1,31 +1,20 @@
-import { MailService } from '@sendgrid/mail';
 import { storage } from './storage';
-import type { User, CompanyProfile, ProfessionalProfile, JobPosting, JobApplication } from '@shared/schema';
+import { mailer, appUrl } from './mailer';
+import { notificationDigestService } from './notification-digest-service';
+import type {
+  User, CompanyProfile, ProfessionalProfile, JobPosting, JobApplication, EscrowTransaction, CompanyInvitation, SavedSearch
+} from '@shared/schema';
 
 interface NotificationData {
   userId: number;
-  type: 'job_application' | 'application_status_update' | 'new_job_match';
+  type: 'job_application' | 'application_status_update' | 'new_job_match' | 'escrow_auto_release_warning' | 'escrow_dispute' | 'team_invitation'
+    | 'moderation_outcome' | 'moderation_warning';
   title: string;
   message: string;
   data?: any;
 }
 
-interface EmailData {
-  to: string;
-  subject: string;
-  html: string;
-}
-
 class NotificationService {
-  private mailService: MailService | null = null;
-
-  constructor() {
-    if (process.env.SENDGRID_API_KEY) {
-      this.mailService = new MailService();
-      this.mailService.setApiKey(process.env.SENDGRID_API_KEY);
-    }
-  }
-
   async sendJobApplicationNotification(
     application: JobApplication,
     job: JobPosting,
@@ -33,8 +22,7 @@ class NotificationService {
     companyProfile: CompanyProfile,
     companyUser: User
   ) {
-    // Create in-app notification
-    await this.createInAppNotification({
+    await this.notify({
       userId: companyUser.id,
       type: 'job_application',
       title: 'New Job Application',
@@ -42,21 +30,17 @@ class NotificationService {
       data: {
         jobId: job.id,
         applicationId: application.id,
-        professionalId: professional.id
+        professionalId: professional.id,
+        link: `/job-applications/${job.id}`
       }
-    });
-
-    // Send email notification if enabled
-    const preferences = await storage.getNotificationPreferences(companyUser.id);
-    if (preferences?.emailNotifications && preferences.jobApplicationEmails) {
-      await this.sendJobApplicationEmail(
-        companyUser.email,
-        job,
-        professional,
-        companyProfile,
-        application
-      );
-    }
+    }, (unsubscribeUrl) => this.sendJobApplicationEmail(
+      companyUser.email,
+      job,
+      professional,
+      companyProfile,
+      application,
+      unsubscribeUrl
+    ));
   }
 
   async sendApplicationStatusUpdateNotification(
@@ -72,8 +56,7 @@ class NotificationService {
       'rejected': 'Your application was not selected this time'
     };
 
-    // Create in-app notification
-    await this.createInAppNotification({
+    await this.notify({
       userId: professionalUser.id,
       type: 'application_status_update',
       title: 'Application Status Update',
@@ -81,42 +64,189 @@ class NotificationService {
       data: {
         jobId: job.id,
         applicationId: application.id,
-        status: newStatus
+        status: newStatus,
+        link: '/dashboard'
       }
+    }, (unsubscribeUrl) => this.sendStatusUpdateEmail(
+      professionalUser.email,
+      job,
+      professional,
+      newStatus,
+      unsubscribeUrl
+    ));
+  }
+
+  async sendJobMatchNotification(user: User, search: SavedSearch, job: JobPosting, company: CompanyProfile) {
+    const link = `/job/${job.id}`;
+
+    await this.notify({
+      userId: user.id,
+      type: 'new_job_match',
+      title: `New job for "${search.name}"`,
+      message: `${company.companyName} posted ${job.title} (${job.location})`,
+      data: { jobId: job.id, savedSearchId: search.id, link }
+    }, (unsubscribeUrl) => mailer.send(user.email, 'job-alert', {
+      firstName: user.firstName,
+      searchName: search.name,
+      jobTitle: job.title,
+      companyName: company.companyName,
+      location: job.location,
+      jobType: job.jobType,
+      remote: job.remote ?? false,
+      compensation: this.formatCompensation(job),
+      jobUrl: appUrl(link),
+      manageUrl: appUrl('/job-alerts'),
+      unsubscribeUrl
+    }));
+  }
+
+  async sendEscrowAutoReleaseWarning(
+    transaction: EscrowTransaction,
+    user: User,
+    role: 'company' | 'professional',
+    releaseAt: Date
+  ) {
+    const amount = new Intl.NumberFormat('en-US', { style: 'currency', currency: transaction.currency })
+      .format((role === 'company' ? transaction.amount : transaction.trainerPayoutAmount) / 100);
+    const when = releaseAt.toUTCString();
+    const subject = transaction.description ? `"${transaction.description}"` : `payment #${transaction.id}`;
+    const message = role === 'company'
+      ? `${amount} held in escrow for ${subject} will be released to the professional on ${when} unless you raise a dispute.`
+      : `${amount} held in escrow for ${subject} will be released to you on ${when}.`;
+
+    await this.sendEscrowNotification(user, role, {
+      type: 'escrow_auto_release_warning',
+      escrowTransactionId: transaction.id,
+      title: 'Escrow Auto-Release Scheduled',
+      message,
+      emailSubject: 'Escrow funds are about to be released',
+      data: { releaseAt: releaseAt.toISOString() }
     });
+  }
 
-    // Send email notification if enabled
-    const preferences = await storage.getNotificationPreferences(professionalUser.id);
-    if (preferences?.emailNotifications && preferences.statusUpdateEmails) {
-      await this.sendStatusUpdateEmail(
-        professionalUser.email,
-        job,
-        professional,
-        newStatus
-      );
+  // In-app notification plus email about an escrow transaction, linked to the party's dashboard
+  async sendEscrowNotification(
+    user: User,
+    role: 'company' | 'professional',
+    notification: {
+      type?: 'escrow_auto_release_warning' | 'escrow_dispute';
+      escrowTransactionId: number;
+      title: string;
+      message: string;
+      emailSubject?: string;
+      data?: Record<string, unknown>;
     }
+  ) {
+    const link = role === 'company' ? '/company-dashboard' : '/professional-dashboard';
+
+    await this.notify({
+      userId: user.id,
+      type: notification.type || 'escrow_dispute',
+      title: notification.title,
+      message: notification.message,
+      data: {
+        ...notification.data,
+        escrowTransactionId: notification.escrowTransactionId,
+        link
+      }
+    }, (unsubscribeUrl) => this.sendEscrowEmail(
+      user,
+      notification.emailSubject || notification.title,
+      notification.title,
+      notification.message,
+      link,
+      unsubscribeUrl
+    ));
   }
 
-  private async createInAppNotification(data: NotificationData) {
+  // Invitation email to the invited address, plus an in-app notification when it already has an account.
+  // The email is what the invitee accepts through, so it is sent whatever their preferences.
+  async sendTeamInvitation(
+    invitation: CompanyInvitation,
+    company: CompanyProfile,
+    inviter: User,
+    invitee?: User
+  ) {
+    const link = `/team-invitations/${invitation.token}`;
+    const inviterName = `${inviter.firstName} ${inviter.lastName}`.trim() || inviter.username;
+    const message = `${inviterName} invited you to join ${company.companyName} as ${invitation.role === 'admin' ? 'an' : 'a'} ${invitation.role}.`;
+
+    if (invitee) {
+      await this.notify({
+        userId: invitee.id,
+        type: 'team_invitation',
+        title: 'Team Invitation',
+        message,
+        data: { companyId: company.id, link }
+      });
+    }
+
     try {
-      // Get or create notification type
-      let notificationType = await storage.getNotificationTypeByName(data.type);
-      if (!notificationType) {
-        notificationType = await storage.createNotificationType({
-          name: data.type,
-          description: `Notification for ${data.type.replace('_', ' ')}`
-        });
-      }
+      await mailer.send(invitation.email, 'team-invitation', {
+        companyName: company.companyName,
+        inviterName,
+        role: invitation.role,
+        email: invitation.email,
+        expiresAt: invitation.expiresAt,
+        invitationUrl: appUrl(link)
+      });
+    } catch (error) {
+      console.error('Failed to send team invitation email:', error);
+    }
+  }
+
+  // Tells users who reported content what the moderators decided; reporters are not named to anyone
+  async sendModerationOutcome(reporterIds: number[], content: string, removed: boolean) {
+    const message = removed
+      ? `We reviewed the ${content} you reported and removed it. Thank you for helping keep the community safe.`
+      : `We reviewed the ${content} you reported and found that it does not break our community guidelines.`;
 
-      await storage.createNotification({
-        userId: data.userId,
-        typeId: notificationType.id,
-        title: data.title,
-        message: data.message,
-        link: data.data?.link || null
+    for (const userId of Array.from(new Set(reporterIds))) {
+      await this.notify({
+        userId,
+        type: 'moderation_outcome',
+        title: 'Update on your report',
+        message
       });
+    }
+  }
+
+  async sendModerationWarning(userId: number, content: string, note?: string) {
+    await this.notify({
+      userId,
+      type: 'moderation_warning',
+      title: 'Your content was removed',
+      message: `Your ${content} was hidden for breaking our community guidelines.${note ? ` ${note}` : ''} Further violations may lead to your account being suspended.`
+    });
+  }
+
+  // Records the notification and emails it as the user's preference for its type says: right away
+  // through `sendEmail`, later in a daily or weekly digest, or not at all
+  private async notify(data: NotificationData, sendEmail?: (unsubscribeUrl: string) => Promise<void>) {
+    try {
+      const type = await notificationDigestService.getOrCreateType(data.type);
+      const preference = await notificationDigestService.getPreference(data.userId, type.id);
+      const digested = preference.emailFrequency === 'daily' || preference.emailFrequency === 'weekly';
+
+      // Digests are built from notification rows, so digested types keep them even with in-app notifications off
+      const notification = preference.inApp || digested
+        ? await storage.createNotification({
+          userId: data.userId,
+          typeId: type.id,
+          title: data.title,
+          message: data.message,
+          link: data.data?.link || null
+        })
+        : undefined;
+
+      if (preference.emailFrequency === 'immediate' && sendEmail) {
+        await sendEmail(notificationDigestService.getUnsubscribeUrl(data.userId, { type: data.type }));
+        if (notification) {
+          await storage.markNotificationsEmailed([notification.id]);
+        }
+      }
     } catch (error) {
-      console.error('Failed to create in-app notification:', error);
+      console.error(`Failed to deliver ${data.type} notification:`, error);
     }
   }
 
@@ -125,138 +255,57 @@ class NotificationService {
     job: JobPosting,
     professional: ProfessionalProfile,
     company: CompanyProfile,
-    application: JobApplication
+    application: JobApplication,
+    unsubscribeUrl: string
   ) {
-    if (!this.mailService) return;
-
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #2563eb; color: white; padding: 20px; text-align: center; }
-          .content { padding: 30px 20px; background: #f9fafb; }
-          .button { display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 6px; }
-          .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>New Job Application</h1>
-          </div>
-          <div class="content">
-            <h2>Hello ${company.companyName},</h2>
-            <p>You have received a new application for your job posting:</p>
-            
-            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3>${job.title}</h3>
-              <p><strong>Applicant:</strong> ${professional.firstName} ${professional.lastName}</p>
-              <p><strong>Title:</strong> ${professional.title}</p>
-              <p><strong>Location:</strong> ${professional.location}</p>
-              ${application.coverLetter ? `<p><strong>Cover Letter:</strong></p><p style="font-style: italic;">${application.coverLetter}</p>` : ''}
-            </div>
-            
-            <p>
-              <a href="${process.env.FRONTEND_URL || 'http://localhost:5000'}/job-applications/${job.id}" class="button">
-                View Application
-              </a>
-            </p>
-          </div>
-          <div class="footer">
-            <p>L&D Nexus - Professional Development Platform</p>
-            <p>You received this email because you have email notifications enabled for job applications.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    try {
-      await this.mailService.send({
-        to,
-        from: process.env.FROM_EMAIL || 'noreply@ldnexus.com',
-        subject: `New Application: ${job.title}`,
-        html
-      });
-    } catch (error) {
-      console.error('Failed to send job application email:', error);
-    }
+    await mailer.send(to, 'job-application', {
+      companyName: company.companyName,
+      jobTitle: job.title,
+      applicantName: `${professional.firstName ?? ''} ${professional.lastName ?? ''}`.trim(),
+      applicantTitle: professional.title,
+      applicantLocation: professional.location,
+      coverLetter: application.coverLetter,
+      applicationUrl: appUrl(`/job-applications/${job.id}`),
+      unsubscribeUrl
+    });
   }
 
   private async sendStatusUpdateEmail(
     to: string,
     job: JobPosting,
     professional: ProfessionalProfile,
-    status: string
+    status: string,
+    unsubscribeUrl: string
   ) {
-    if (!this.mailService) return;
-
-    const statusMessages = {
-      'reviewed': { subject: 'Application Under Review', message: 'Your application is being reviewed by our team.' },
-      'accepted': { subject: 'Application Accepted!', message: 'Congratulations! Your application has been accepted.' },
-      'rejected': { subject: 'Application Update', message: 'Thank you for your interest. We have decided to move forward with other candidates.' }
-    };
+    await mailer.send(to, 'application-status', {
+      firstName: professional.firstName ?? '',
+      jobTitle: job.title,
+      jobLocation: job.location,
+      status,
+      dashboardUrl: appUrl('/dashboard'),
+      unsubscribeUrl
+    });
+  }
 
-    const statusInfo = statusMessages[status as keyof typeof statusMessages] || 
-      { subject: 'Application Status Update', message: 'Your application status has been updated.' };
+  private async sendEscrowEmail(user: User, subject: string, heading: string, message: string, link: string, unsubscribeUrl: string) {
+    await mailer.send(user.email, 'escrow-notice', {
+      firstName: user.firstName,
+      subject,
+      heading,
+      message,
+      paymentsUrl: appUrl(link),
+      unsubscribeUrl
+    });
+  }
 
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: ${status === 'accepted' ? '#10b981' : status === 'rejected' ? '#ef4444' : '#2563eb'}; color: white; padding: 20px; text-align: center; }
-          .content { padding: 30px 20px; background: #f9fafb; }
-          .button { display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 6px; }
-          .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>${statusInfo.subject}</h1>
-          </div>
-          <div class="content">
-            <h2>Hello ${professional.firstName},</h2>
-            <p>${statusInfo.message}</p>
-            
-            <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
-              <h3>${job.title}</h3>
-              <p><strong>Status:</strong> ${status.charAt(0).toUpperCase() + status.slice(1)}</p>
-              <p><strong>Location:</strong> ${job.location}</p>
-            </div>
-            
-            <p>
-              <a href="${process.env.FRONTEND_URL || 'http://localhost:5000'}/dashboard" class="button">
-                View Dashboard
-              </a>
-            </p>
-          </div>
-          <div class="footer">
-            <p>L&D Nexus - Professional Development Platform</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
+  private formatCompensation(job: JobPosting): string | null {
+    const { minCompensation: min, maxCompensation: max } = job;
+    if (min == null && max == null) return null;
 
-    try {
-      await this.mailService.send({
-        to,
-        from: process.env.FROM_EMAIL || 'noreply@ldnexus.com',
-        subject: statusInfo.subject,
-        html
-      });
-    } catch (error) {
-      console.error('Failed to send status update email:', error);
-    }
+    const range = min != null && max != null && min !== max
+      ? `$${min.toLocaleString('en-US')} - $${max.toLocaleString('en-US')}`
+      : `$${(min ?? max)!.toLocaleString('en-US')}`;
+    return job.compensationUnit ? `${range} ${job.compensationUnit}` : range;
   }
 
   async getUnreadNotifications(userId: number) {
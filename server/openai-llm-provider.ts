@@ -0,0 +1,46 @@
+import OpenAI from 'openai';
+import { parseJsonResponse } from './llm-provider';
+import type { EmbeddingProvider, LlmCompletionRequest, LlmEmbeddingRequest, LlmProvider } from './llm-provider';
+
+export class OpenAiLlmProvider implements LlmProvider, EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  readonly embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    // llmService retries and times out requests the same way for every provider
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<unknown> {
+    const messages: OpenAI.ChatCompletionMessageParam[] = [];
+    if (request.system) messages.push({ role: 'system', content: request.system });
+    messages.push({ role: 'user', content: request.prompt });
+
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: request.schemaName, schema: request.jsonSchema },
+      },
+    }, { signal: request.signal });
+
+    return parseJsonResponse(response.choices[0]?.message?.content, this.name);
+  }
+
+  async embed(request: LlmEmbeddingRequest): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: request.texts,
+      dimensions: request.dimensions,
+    }, { signal: request.signal });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
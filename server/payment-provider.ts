@@ -0,0 +1,73 @@
+import type Stripe from 'stripe';
+import { StripePaymentProvider } from './stripe-payment-provider';
+import { FakePaymentProvider } from './fake-payment-provider';
+
+// Payment objects and events use Stripe's shapes, which every money flow in the app already
+// reads. Providers other than Stripe produce objects in the same shape.
+export interface ProviderRequestOptions {
+  idempotencyKey?: string;
+}
+
+export type PaymentEventHandler = (event: Stripe.Event) => Promise<void> | void;
+
+export interface PaymentProvider {
+  readonly name: 'stripe' | 'fake';
+
+  // Customers
+  createCustomer(params: Stripe.CustomerCreateParams): Promise<Stripe.Customer>;
+
+  // Payment intents and saved payment methods
+  createPaymentIntent(params: Stripe.PaymentIntentCreateParams, options?: ProviderRequestOptions): Promise<Stripe.PaymentIntent>;
+  retrievePaymentIntent(id: string): Promise<Stripe.PaymentIntent>;
+  createSetupIntent(params: Stripe.SetupIntentCreateParams): Promise<Stripe.SetupIntent>;
+  retrieveSetupIntent(id: string): Promise<Stripe.SetupIntent>;
+  listPaymentMethods(customerId: string): Promise<Stripe.PaymentMethod[]>;
+  retrievePaymentMethod(id: string): Promise<Stripe.PaymentMethod>;
+  detachPaymentMethod(id: string): Promise<Stripe.PaymentMethod>;
+
+  // Connect accounts, transfers and refunds
+  createAccount(params: Stripe.AccountCreateParams): Promise<Stripe.Account>;
+  retrieveAccount(id: string): Promise<Stripe.Account>;
+  createAccountLink(params: Stripe.AccountLinkCreateParams): Promise<Stripe.AccountLink>;
+  createTransfer(params: Stripe.TransferCreateParams, options?: ProviderRequestOptions): Promise<Stripe.Transfer>;
+  createRefund(params: Stripe.RefundCreateParams, options?: ProviderRequestOptions): Promise<Stripe.Refund>;
+
+  // Products, prices and subscriptions
+  createProduct(params: Stripe.ProductCreateParams): Promise<Stripe.Product>;
+  createPrice(params: Stripe.PriceCreateParams): Promise<Stripe.Price>;
+  createSubscription(params: Stripe.SubscriptionCreateParams): Promise<Stripe.Subscription>;
+  retrieveSubscription(id: string): Promise<Stripe.Subscription>;
+  updateSubscription(id: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+  cancelSubscription(id: string): Promise<Stripe.Subscription>;
+
+  // Webhooks. Stripe delivers events over HTTP to the webhook routes, which verify them with
+  // constructWebhookEvent; in-process providers hand them straight to the onEvent handlers.
+  constructWebhookEvent(payload: string | Buffer, signature: string, secret: string): Stripe.Event;
+  onEvent(handler: PaymentEventHandler): void;
+}
+
+// PAYMENT_PROVIDER picks the implementation. Without it, Stripe is used when a secret key is
+// configured and the fake otherwise, so local development and tests run without Stripe keys.
+function createPaymentProvider(): PaymentProvider {
+  const requested = process.env.PAYMENT_PROVIDER;
+  const name = requested || (process.env.STRIPE_SECRET_KEY ? 'stripe' : 'fake');
+
+  if (name === 'stripe') {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
+    }
+    return new StripePaymentProvider(process.env.STRIPE_SECRET_KEY);
+  }
+
+  if (name === 'fake') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('The fake payment provider cannot be used in production; set STRIPE_SECRET_KEY');
+    }
+    console.warn('Using the in-process fake payment provider; no real payments will be made');
+    return new FakePaymentProvider();
+  }
+
+  throw new Error(`Unknown PAYMENT_PROVIDER: ${requested}`);
+}
+
+export const paymentProvider = createPaymentProvider();
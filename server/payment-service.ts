@@ -1,13 +1,7 @@
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { storage } from "./storage";
-
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2024-12-18.acacia" as any,
-});
+import { paymentProvider } from "./payment-provider";
+import { escrowService } from "./escrow-service";
 
 export interface PaymentMethodOptions {
   card: boolean;
@@ -48,6 +42,9 @@ export const SUBSCRIPTION_PLANS: { [key: string]: SubscriptionPlan } = {
   }
 };
 
+// Payment intents created by EscrowService for standard and milestone contracts
+const ESCROW_PAYMENT_TYPES = ['escrow_transaction', 'escrow_milestone_contract'];
+
 export class PaymentService {
   
   /**
@@ -74,7 +71,7 @@ export class PaymentService {
     // Get or create Stripe customer
     let customerId = user.stripeCustomerId;
     if (!customerId) {
-      const customer = await stripe.customers.create({
+      const customer = await paymentProvider.createCustomer({
         email: user.email,
         name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username,
         metadata: {
@@ -88,7 +85,7 @@ export class PaymentService {
     }
 
     // Create payment intent with support for multiple payment methods
-    const paymentIntent = await stripe.paymentIntents.create({
+    const paymentIntent = await paymentProvider.createPaymentIntent({
       amount: Math.round(amount * 100), // Convert to cents
       currency: currency.toLowerCase(),
       customer: customerId,
@@ -136,7 +133,7 @@ export class PaymentService {
 
     let customerId = user.stripeCustomerId;
     if (!customerId) {
-      const customer = await stripe.customers.create({
+      const customer = await paymentProvider.createCustomer({
         email: user.email,
         name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username,
         metadata: {
@@ -148,7 +145,7 @@ export class PaymentService {
       await storage.updateStripeCustomerId(user.id, customerId);
     }
 
-    const setupIntent = await stripe.setupIntents.create({
+    const setupIntent = await paymentProvider.createSetupIntent({
       customer: customerId,
       payment_method_types: paymentMethodTypes,
       usage: 'off_session',
@@ -169,7 +166,7 @@ export class PaymentService {
    * Confirm payment and activate subscription
    */
   async confirmSubscriptionPayment(paymentIntentId: string) {
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+    const paymentIntent = await paymentProvider.retrievePaymentIntent(paymentIntentId);
     
     if (paymentIntent.status !== 'succeeded') {
       throw new Error('Payment not completed successfully');
@@ -208,12 +205,9 @@ export class PaymentService {
       return [];
     }
 
-    const paymentMethods = await stripe.paymentMethods.list({
-      customer: user.stripeCustomerId,
-      type: 'card'
-    });
+    const paymentMethods = await paymentProvider.listPaymentMethods(user.stripeCustomerId);
 
-    return paymentMethods.data.map(pm => ({
+    return paymentMethods.map(pm => ({
       id: pm.id,
       type: pm.type,
       card: pm.card ? {
@@ -229,12 +223,12 @@ export class PaymentService {
    * Delete a payment method
    */
   async deletePaymentMethod(paymentMethodId: string) {
-    await stripe.paymentMethods.detach(paymentMethodId);
+    await paymentProvider.detachPaymentMethod(paymentMethodId);
     return { success: true };
   }
 
   /**
-   * Handle webhook events from Stripe
+   * Handle webhook events from the payment provider
    */
   async handleWebhookEvent(event: Stripe.Event) {
     switch (event.type) {
@@ -242,12 +236,17 @@ export class PaymentService {
         const paymentIntent = event.data.object as Stripe.PaymentIntent;
         if (paymentIntent.metadata.type === 'subscription') {
           await this.confirmSubscriptionPayment(paymentIntent.id);
+        } else if (ESCROW_PAYMENT_TYPES.includes(paymentIntent.metadata.type)) {
+          await escrowService.syncPaymentIntent(paymentIntent.id);
         }
         break;
 
       case 'payment_intent.payment_failed':
         const failedPayment = event.data.object as Stripe.PaymentIntent;
         console.error('Payment failed:', failedPayment.id, failedPayment.last_payment_error);
+        if (ESCROW_PAYMENT_TYPES.includes(failedPayment.metadata.type)) {
+          await escrowService.syncPaymentIntent(failedPayment.id);
+        }
         break;
 
       case 'customer.subscription.updated':
@@ -276,7 +275,7 @@ export class PaymentService {
 
     let customerId = user.stripeCustomerId;
     if (!customerId) {
-      const customer = await stripe.customers.create({
+      const customer = await paymentProvider.createCustomer({
         email: user.email,
         name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.username,
       });
@@ -285,7 +284,7 @@ export class PaymentService {
       await storage.updateStripeCustomerId(user.id, customerId);
     }
 
-    const paymentIntent = await stripe.paymentIntents.create({
+    const paymentIntent = await paymentProvider.createPaymentIntent({
       amount: Math.round(amount * 100),
       currency: currency.toLowerCase(),
       customer: customerId,
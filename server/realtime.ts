@@ -0,0 +1,215 @@
+import type { Server, IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import cookieParser from 'cookie-parser';
+import type { Store, SessionData } from 'express-session';
+import { storage } from './storage';
+
+export const SESSION_COOKIE_NAME = 'ldnexus_session';
+
+// Events pushed from the server to connected clients
+export type RealtimeEvent =
+  | { type: 'new_message'; data: unknown }
+  | { type: 'message_read'; data: { id: number; readerId: number; senderId: number } }
+  | { type: 'typing'; data: { userId: number; conversationId: number | null; isTyping: boolean } }
+  | { type: 'unread_notifications'; data: unknown }
+  | { type: 'auth_success'; data: { userId: number } }
+  | { type: 'pong' }
+  | { type: 'error'; message: string };
+
+interface RealtimeOptions {
+  sessionStore: Store;
+  sessionSecret: string;
+  path?: string;
+}
+
+type AuthenticatedRequest = IncomingMessage & { realtimeUserId?: number };
+
+const MAX_CONNECTIONS_PER_USER = 5;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+class RealtimeService {
+  private wss: WebSocketServer | null = null;
+  private connections = new Map<number, Set<WebSocket>>();
+  private aliveSockets = new WeakSet<WebSocket>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  // Attach the WebSocket endpoint to the HTTP server. Connections are
+  // authenticated from the express-session cookie during the handshake.
+  attach(server: Server, options: RealtimeOptions) {
+    if (this.wss) return this.wss;
+
+    this.wss = new WebSocketServer({
+      server,
+      path: options.path || '/ws',
+      verifyClient: (info, done) => {
+        this.resolveSessionUser(info.req, options)
+          .then(userId => {
+            if (!userId) return done(false, 401, 'Unauthorized');
+
+            const existing = this.connections.get(userId);
+            if (existing && existing.size >= MAX_CONNECTIONS_PER_USER) {
+              return done(false, 429, 'Too many connections');
+            }
+
+            (info.req as AuthenticatedRequest).realtimeUserId = userId;
+            done(true);
+          })
+          .catch(error => {
+            console.error('WebSocket authentication error:', error);
+            done(false, 500, 'Internal server error');
+          });
+      }
+    });
+
+    this.wss.on('connection', (ws: WebSocket, req: AuthenticatedRequest) => {
+      const userId = req.realtimeUserId!;
+      this.register(userId, ws);
+      this.aliveSockets.add(ws);
+
+      ws.on('pong', () => this.aliveSockets.add(ws));
+      ws.on('message', (raw) => this.handleClientMessage(userId, ws, raw.toString()));
+      ws.on('close', () => this.unregister(userId, ws));
+      ws.on('error', (error) => console.error('WebSocket error:', error));
+
+      this.send(ws, { type: 'auth_success', data: { userId } });
+      storage.getUserUnreadNotifications(userId)
+        .then((notifications: unknown) => this.send(ws, { type: 'unread_notifications', data: notifications }))
+        .catch((error: unknown) => console.error('Failed to load unread notifications:', error));
+    });
+
+    // Drop sockets that stopped answering pings so clients reconnect cleanly
+    this.heartbeat = setInterval(() => {
+      this.wss?.clients.forEach(ws => {
+        if (!this.aliveSockets.has(ws)) {
+          ws.terminate();
+          return;
+        }
+        this.aliveSockets.delete(ws);
+        ws.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    this.wss.on('close', () => {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+    });
+
+    return this.wss;
+  }
+
+  isOnline(userId: number): boolean {
+    return (this.connections.get(userId)?.size || 0) > 0;
+  }
+
+  sendToUser(userId: number, event: RealtimeEvent) {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return;
+
+    sockets.forEach(ws => this.send(ws, event));
+  }
+
+  sendToUsers(userIds: number[], event: RealtimeEvent) {
+    new Set(userIds).forEach(userId => this.sendToUser(userId, event));
+  }
+
+  // Closes the user's open sockets, e.g. when they are suspended
+  disconnectUser(userId: number) {
+    this.connections.get(userId)?.forEach(ws => ws.close(4003, 'Account suspended'));
+  }
+
+  private async resolveSessionUser(req: IncomingMessage, options: RealtimeOptions): Promise<number | null> {
+    const rawCookie = parseCookieHeader(req.headers.cookie)[SESSION_COOKIE_NAME];
+    if (!rawCookie) return null;
+
+    const sessionId = cookieParser.signedCookie(rawCookie, options.sessionSecret);
+    if (!sessionId) return null;
+
+    const session = await new Promise<SessionData | null | undefined>((resolve, reject) => {
+      options.sessionStore.get(sessionId, (err, data) => (err ? reject(err) : resolve(data)));
+    });
+    if (!session) return null;
+
+    const sessionData = session as any;
+    const userId = sessionData.passport?.user ?? sessionData.userId;
+    const parsed = typeof userId === 'number' ? userId : parseInt(userId);
+    if (!Number.isFinite(parsed)) return null;
+
+    // Suspended users keep their session cookie but may no longer connect
+    const user = await storage.getUser(parsed);
+    return user && user.status === 'active' ? user.id : null;
+  }
+
+  private handleClientMessage(userId: number, ws: WebSocket, raw: string) {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      this.send(ws, { type: 'error', message: 'Invalid message format' });
+      return;
+    }
+
+    switch (data?.type) {
+      case 'typing': {
+        const receiverId = parseInt(data.receiverId);
+        if (!Number.isFinite(receiverId) || receiverId === userId) return;
+        const conversationId = parseInt(data.conversationId);
+        this.sendToUser(receiverId, {
+          type: 'typing',
+          data: {
+            userId,
+            conversationId: Number.isFinite(conversationId) ? conversationId : null,
+            isTyping: !!data.isTyping
+          }
+        });
+        break;
+      }
+      case 'ping':
+        this.send(ws, { type: 'pong' });
+        break;
+      default:
+        this.send(ws, { type: 'error', message: 'Unsupported message type' });
+    }
+  }
+
+  private register(userId: number, ws: WebSocket) {
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Set());
+    }
+    this.connections.get(userId)!.add(ws);
+  }
+
+  private unregister(userId: number, ws: WebSocket) {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return;
+
+    sockets.delete(ws);
+    if (sockets.size === 0) {
+      this.connections.delete(userId);
+    }
+  }
+
+  private send(ws: WebSocket, event: RealtimeEvent) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(event));
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
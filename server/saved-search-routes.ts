@@ -0,0 +1,82 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { insertSavedSearchSchema } from '@shared/schema';
+import { savedSearchService, SavedSearchError } from './saved-search-service';
+import { requireAccountType } from './access-policy';
+
+const isAuthenticated = (req: any, res: any, next: any) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+  next();
+};
+
+// Job alerts are for professionals looking for work
+const isProfessional = requireAccountType('professional');
+
+const updateSavedSearchSchema = insertSavedSearchSchema.partial();
+
+// Saved search errors are shown to the user, anything else is a 500
+const handleSavedSearchError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  if (error instanceof SavedSearchError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+const parseSearchId = (req: any) => {
+  const searchId = parseInt(req.params.id);
+  if (isNaN(searchId)) {
+    throw new SavedSearchError('Invalid saved search ID');
+  }
+  return searchId;
+};
+
+export function registerSavedSearchRoutes(app: Express) {
+  app.get('/api/saved-searches', isAuthenticated, isProfessional, async (req: any, res) => {
+    try {
+      res.json(await savedSearchService.getSearches(req.user.id));
+    } catch (error) {
+      handleSavedSearchError(res, error, 'Failed to fetch saved searches');
+    }
+  });
+
+  app.post('/api/saved-searches', isAuthenticated, isProfessional, async (req: any, res) => {
+    try {
+      const input = insertSavedSearchSchema.parse(req.body);
+      res.status(201).json(await savedSearchService.createSearch(req.user.id, input));
+    } catch (error) {
+      handleSavedSearchError(res, error, 'Failed to save search');
+    }
+  });
+
+  app.patch('/api/saved-searches/:id', isAuthenticated, isProfessional, async (req: any, res) => {
+    try {
+      const input = updateSavedSearchSchema.parse(req.body);
+      res.json(await savedSearchService.updateSearch(req.user.id, parseSearchId(req), input));
+    } catch (error) {
+      handleSavedSearchError(res, error, 'Failed to update saved search');
+    }
+  });
+
+  app.delete('/api/saved-searches/:id', isAuthenticated, isProfessional, async (req: any, res) => {
+    try {
+      await savedSearchService.deleteSearch(req.user.id, parseSearchId(req));
+      res.status(204).end();
+    } catch (error) {
+      handleSavedSearchError(res, error, 'Failed to delete saved search');
+    }
+  });
+
+  app.get('/api/saved-searches/:id/matches', isAuthenticated, isProfessional, async (req: any, res) => {
+    try {
+      res.json(await savedSearchService.getMatches(req.user.id, parseSearchId(req)));
+    } catch (error) {
+      handleSavedSearchError(res, error, 'Failed to fetch job alert matches');
+    }
+  });
+}
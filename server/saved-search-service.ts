@@ -0,0 +1,165 @@
+import { and, count, desc, eq, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { notificationService } from './notification-service';
+import { compactJobSearchCriteria, isEmptyJobSearch, matchesJobSearch } from '@shared/job-search';
+import { expertise, jobPostings, savedSearchMatches, savedSearches, users } from '@shared/schema';
+import type { InsertSavedSearch, JobPosting, SavedSearch } from '@shared/schema';
+
+// Thrown when a saved search action is not allowed; the message is safe to show to users
+export class SavedSearchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+const MAX_SAVED_SEARCHES = 25;
+const MAX_LISTED_MATCHES = 50;
+
+function getDb() {
+  if (!db) {
+    throw new Error('Database not initialized');
+  }
+  return db;
+}
+
+export class SavedSearchService {
+  // The user's searches, newest first, with how many jobs each has alerted about
+  async getSearches(userId: number): Promise<(SavedSearch & { matchCount: number })[]> {
+    const rows = await getDb().select({ search: savedSearches, matchCount: count(savedSearchMatches.id) })
+      .from(savedSearches)
+      .leftJoin(savedSearchMatches, eq(savedSearchMatches.savedSearchId, savedSearches.id))
+      .where(eq(savedSearches.userId, userId))
+      .groupBy(savedSearches.id)
+      .orderBy(desc(savedSearches.createdAt));
+
+    return rows.map(row => ({ ...row.search, matchCount: row.matchCount }));
+  }
+
+  async createSearch(userId: number, input: InsertSavedSearch): Promise<SavedSearch> {
+    const database = getDb();
+    const criteria = this.validateCriteria(input.criteria);
+
+    const [{ total }] = await database.select({ total: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId));
+    if (total >= MAX_SAVED_SEARCHES) {
+      throw new SavedSearchError(`You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`);
+    }
+
+    const [search] = await database.insert(savedSearches)
+      .values({ userId, name: input.name, criteria, alertsEnabled: input.alertsEnabled })
+      .returning();
+    return search;
+  }
+
+  async updateSearch(userId: number, searchId: number, input: Partial<InsertSavedSearch>): Promise<SavedSearch> {
+    await this.getOwnSearch(userId, searchId);
+
+    const [search] = await getDb().update(savedSearches)
+      .set({
+        ...input,
+        criteria: input.criteria ? this.validateCriteria(input.criteria) : undefined,
+        updatedAt: new Date()
+      })
+      .where(eq(savedSearches.id, searchId))
+      .returning();
+    return search;
+  }
+
+  async deleteSearch(userId: number, searchId: number): Promise<void> {
+    await this.getOwnSearch(userId, searchId);
+    await getDb().delete(savedSearches).where(eq(savedSearches.id, searchId));
+  }
+
+  // Jobs the search has alerted about, most recent first
+  async getMatches(userId: number, searchId: number): Promise<(JobPosting & { matchedAt: Date })[]> {
+    await this.getOwnSearch(userId, searchId);
+
+    const rows = await getDb().select({ job: jobPostings, matchedAt: savedSearchMatches.createdAt })
+      .from(savedSearchMatches)
+      .innerJoin(jobPostings, eq(savedSearchMatches.jobPostingId, jobPostings.id))
+      .where(eq(savedSearchMatches.savedSearchId, searchId))
+      .orderBy(desc(savedSearchMatches.createdAt))
+      .limit(MAX_LISTED_MATCHES);
+
+    return rows.map(row => ({ ...row.job, matchedAt: row.matchedAt }));
+  }
+
+  // Runs when a job is posted. Every search with alerts on is checked with the same matcher the
+  // jobs page uses; each matching search records the job, and each owner is notified once even
+  // when several of their searches match. Returns the number of users notified.
+  async processNewJob(job: JobPosting): Promise<number> {
+    if (job.status !== 'open' || job.archived) return 0;
+    const database = getDb();
+
+    const candidates = await database.select({ search: savedSearches, user: users })
+      .from(savedSearches)
+      .innerJoin(users, eq(savedSearches.userId, users.id))
+      .where(and(eq(savedSearches.alertsEnabled, true), eq(users.userType, 'professional')));
+    if (candidates.length === 0) return 0;
+
+    const expertiseIds = Array.from(new Set(candidates.flatMap(({ search }) => search.criteria.expertiseIds ?? [])));
+    const expertiseNames = new Map<number, string>();
+    if (expertiseIds.length > 0) {
+      const rows = await database.select().from(expertise).where(inArray(expertise.id, expertiseIds));
+      rows.forEach(row => expertiseNames.set(row.id, row.name));
+    }
+
+    const matches = candidates.filter(({ search }) => matchesJobSearch(
+      job,
+      search.criteria,
+      (search.criteria.expertiseIds ?? []).map(id => expertiseNames.get(id)).filter((name): name is string => !!name)
+    ));
+    if (matches.length === 0) return 0;
+
+    const company = await storage.getCompanyProfile(job.companyId);
+    if (!company) return 0;
+
+    const notified = new Set<number>();
+    for (let i = 0; i < matches.length; i++) {
+      const { search, user } = matches[i];
+
+      // The unique (search, job) pair keeps a job from being announced twice for the same search
+      const recorded = await database.insert(savedSearchMatches)
+        .values({ savedSearchId: search.id, jobPostingId: job.id })
+        .onConflictDoNothing()
+        .returning();
+      if (recorded.length === 0 || notified.has(user.id)) continue;
+
+      await database.update(savedSearches)
+        .set({ lastAlertedAt: new Date() })
+        .where(eq(savedSearches.id, search.id));
+      await notificationService.sendJobMatchNotification(user, search, job, company);
+      notified.add(user.id);
+    }
+
+    return notified.size;
+  }
+
+  private async getOwnSearch(userId: number, searchId: number): Promise<SavedSearch> {
+    const [search] = await getDb().select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.id, searchId), eq(savedSearches.userId, userId)));
+    if (!search) {
+      throw new SavedSearchError('Saved search not found', 404);
+    }
+    return search;
+  }
+
+  // A search without filters would match, and alert about, every job
+  private validateCriteria(criteria: InsertSavedSearch['criteria']) {
+    const compact = compactJobSearchCriteria(criteria);
+    if (isEmptyJobSearch(compact)) {
+      throw new SavedSearchError('Add at least one filter before saving a search');
+    }
+    if (compact.minCompensation !== undefined && compact.maxCompensation !== undefined
+      && compact.minCompensation > compact.maxCompensation) {
+      throw new SavedSearchError('Minimum compensation cannot be more than the maximum');
+    }
+    return compact;
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
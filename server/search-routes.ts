@@ -0,0 +1,40 @@
+import { Express } from 'express';
+import { z } from 'zod';
+import { jobSearchQuerySchema, professionalSearchQuerySchema, resourceSearchQuerySchema } from '@shared/search';
+import { storage } from './storage';
+
+// Search errors are bad query strings; anything else is a 500
+const handleSearchError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+};
+
+// Public, like the listings they replace. See shared/search.ts for the query parameters.
+export function registerSearchRoutes(app: Express) {
+  app.get('/api/search/jobs', async (req, res) => {
+    try {
+      res.json(await storage.searchJobPostings(jobSearchQuerySchema.parse(req.query)));
+    } catch (error) {
+      handleSearchError(res, error, 'Failed to search jobs');
+    }
+  });
+
+  app.get('/api/search/professionals', async (req, res) => {
+    try {
+      res.json(await storage.searchProfessionalProfiles(professionalSearchQuerySchema.parse(req.query)));
+    } catch (error) {
+      handleSearchError(res, error, 'Failed to search professionals');
+    }
+  });
+
+  app.get('/api/search/resources', async (req, res) => {
+    try {
+      res.json(await storage.searchResourceLibrary(resourceSearchQuerySchema.parse(req.query)));
+    } catch (error) {
+      handleSearchError(res, error, 'Failed to search resources');
+    }
+  });
+}
@@ -1,28 +1,34 @@
-import OpenAI from "openai";
+import { z } from "zod";
 import { ProfessionalProfile, Expertise, JobPosting } from "@shared/schema";
+import { LlmRateLimitError } from "./llm-provider";
+import { llmService } from "./llm-service";
 
-interface SkillRecommendation {
-  skill: string;
-  relevance: number; // 0-10 scale
-  description: string;
-  resources: Array<{
-    title: string;
-    type: string;
-    url?: string;
-  }>;
-  estimatedTimeToMaster: string; // e.g., "2-3 months"
-  marketDemand: string; // e.g., "High", "Medium", "Low"
-  relatedJobs: string[];
-}
+const skillRecommendationSchema = z.object({
+  skill: z.string(),
+  relevance: z.number().min(0).max(10), // 0-10 scale
+  description: z.string(),
+  resources: z.array(z.object({
+    title: z.string(),
+    type: z.string(),
+    url: z.string().optional(),
+  })),
+  estimatedTimeToMaster: z.string(), // e.g., "2-3 months"
+  marketDemand: z.string(), // e.g., "High", "Medium", "Low"
+  relatedJobs: z.array(z.string()),
+});
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
+type SkillRecommendation = z.infer<typeof skillRecommendationSchema>;
+
+const skillRecommendationsSchema = z.object({
+  recommendations: z.array(skillRecommendationSchema),
 });
 
+// Rate limiting reaches the caller; any other failure falls back to the standard recommendations
 export async function generateSkillRecommendations(
   profile: ProfessionalProfile,
   expertise: Expertise[],
-  relevantJobs?: JobPosting[]
+  relevantJobs?: JobPosting[],
+  userId?: number
 ): Promise<SkillRecommendation[]> {
   try {
     // Construct prompt with user's profile information
@@ -49,30 +55,19 @@ For each recommended skill, provide:
 4. 2-3 learning resources (courses, books, etc.)
 5. Estimated time to master
 6. Current market demand
-7. Related job roles
-
-Output in JSON format only, as an array of objects with the properties: skill, relevance, description, resources (array of objects with title, type, and optional url), estimatedTimeToMaster, marketDemand, and relatedJobs (array of strings).`;
+7. Related job roles`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo-0125",
-      messages: [{ role: "user", content: prompt }],
+    const { recommendations } = await llmService.complete({
+      schema: skillRecommendationsSchema,
+      schemaName: "skill_recommendations",
+      prompt,
+      template: () => ({ recommendations: generateFallbackRecommendations(expertise) }),
       temperature: 0.7,
-      response_format: { type: "json_object" },
+      userId,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return generateFallbackRecommendations(expertise);
-    }
-
-    try {
-      const parsedResponse = JSON.parse(content);
-      return parsedResponse.recommendations || [];
-    } catch (parseError) {
-      console.error("Error parsing OpenAI response:", parseError);
-      return generateFallbackRecommendations(expertise);
-    }
+    return recommendations;
   } catch (error) {
+    if (error instanceof LlmRateLimitError) throw error;
     console.error("Error generating skill recommendations:", error);
     return generateFallbackRecommendations(expertise);
   }
@@ -1,6 +1,6 @@
 import { db, useRealDatabase } from "./db";
-import { and, asc, desc, eq, or, isNull, not, sql } from "drizzle-orm";
-import type { SQL } from "drizzle-orm";
+import { and, asc, count, desc, eq, getTableColumns, gt, ilike, inArray, lt, ne, or, isNull, not, sql } from "drizzle-orm";
+import type { AnyColumn, SQL } from "drizzle-orm";
 import {
   users, User, InsertUser,
   authTokens, AuthToken, InsertAuthToken,
@@ -16,7 +16,13 @@ import {
   forumPosts, ForumPost, InsertForumPost,
   forumComments, ForumComment, InsertForumComment,
   messages, Message, InsertMessage,
+  conversations, Conversation, InsertConversation, ConversationSummary,
+  conversationParticipants, ConversationParticipant,
+  messageAttachments, MessageAttachment, InsertMessageAttachment, MessageWithAttachments,
   consultations, Consultation, InsertConsultation,
+  availabilitySettings, AvailabilitySettings, InsertAvailabilitySettings,
+  availabilityRules, AvailabilityRule, InsertAvailabilityRule,
+  availabilityBlackouts, AvailabilityBlackout, InsertAvailabilityBlackout,
   skillRecommendations, SkillRecommendation, InsertSkillRecommendation,
   pageContents, PageContent, InsertPageContent,
   reviews, Review, InsertReview,
@@ -24,16 +30,282 @@ import {
   notificationTypes, NotificationType, InsertNotificationType,
   notificationPreferences, NotificationPreference, InsertNotificationPreference,
   subscriptionPlans, SubscriptionPlan,
-  industries
+  jobMatches, JobMatch, InsertJobMatch,
+  industries,
+  jobPostingSearchDocument, professionalProfileSearchDocument, resourceSearchDocument
 } from "@shared/schema";
+import { EXPERIENCE_LEVELS, RATE_RANGES, rangeOverlaps } from "@shared/search";
+import type {
+  JobSearchFacet, JobSearchQuery, JobSearchResult, ProfessionalSearchFacet, ProfessionalSearchQuery, ProfessionalSearchResult,
+  ResourceSearchFacet, ResourceSearchQuery, ResourceSearchResult, SearchFacetBucket, SearchResult
+} from "@shared/search";
+import type {
+  ForumPostPageQuery, JobPostingPageQuery, NotificationPageQuery, Page, PageQuery, ProfessionalProfilePageQuery,
+  ResourcePageQuery, UserPageQuery
+} from "@shared/pagination";
 
 let storageInstance: any = null;
+
+// Thrown by createConsultation when the professional is already booked for the requested time
+export class ConsultationConflictError extends Error {
+  constructor(message = "The professional is already booked for this time") {
+    super(message);
+    this.name = "ConsultationConflictError";
+  }
+}
+
+// Faceted search. Each facet is counted over the results of every filter except its own.
+// MemStorage approximates the Postgres full-text search: each query word has to appear in the
+// document, and words found in heavier fields rank higher.
+const FACET_LIMIT = 20;
+
+function memTextScore(q: string | undefined, fields: [text: string | null | undefined, weight: number][]): number {
+  const words = (q ?? "").toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean);
+  if (words.length === 0) return 1;
+
+  let score = 0;
+  for (let i = 0; i < words.length; i++) {
+    const weight = fields.reduce((sum, [text, fieldWeight]) => text?.toLowerCase().includes(words[i]) ? sum + fieldWeight : sum, 0);
+    if (weight === 0) return 0;
+    score += weight;
+  }
+  return score;
+}
+
+function countFacetValues<T>(items: T[], valuesOf: (item: T) => { value: string; label: string }[]): SearchFacetBucket[] {
+  const buckets = new Map<string, SearchFacetBucket>();
+  items.forEach(item => valuesOf(item).forEach(({ value, label }) => {
+    const bucket = buckets.get(value) ?? { value, label, count: 0 };
+    bucket.count++;
+    buckets.set(value, bucket);
+  }));
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, FACET_LIMIT);
+}
+
+function countRateRanges<T>(items: T[], rangeOf: (item: T) => [number | null, number | null]): SearchFacetBucket[] {
+  return RATE_RANGES
+    .map(range => ({
+      value: range.value,
+      label: range.label,
+      count: items.filter(item => rangeOverlaps(...rangeOf(item), range.min, range.max)).length
+    }))
+    .filter(bucket => bucket.count > 0);
+}
+
+function memFacetedSearch<T, F extends string>(
+  items: T[],
+  query: { page: number; pageSize: number },
+  filters: Record<string, ((item: T) => boolean) | undefined>,
+  facets: Record<F, (items: T[]) => SearchFacetBucket[]>,
+  compare: (a: T, b: T) => number
+): SearchResult<T, F> {
+  const matching = (except?: string) => items.filter(item =>
+    Object.keys(filters).every(name => name === except || !filters[name] || filters[name]!(item)));
+
+  const results = matching().sort(compare);
+  const facetCounts = {} as Record<F, SearchFacetBucket[]>;
+  (Object.keys(facets) as F[]).forEach(name => {
+    facetCounts[name] = facets[name](matching(name));
+  });
+
+  return {
+    items: results.slice((query.page - 1) * query.pageSize, query.page * query.pageSize),
+    total: results.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    facets: facetCounts
+  };
+}
+
+const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+
+// SQL version of rangeOverlaps
+function sqlRangeOverlaps(min: AnyColumn, max: AnyColumn, from: number | undefined, to: number | undefined): SQL | undefined {
+  if (from === undefined && to === undefined) return undefined;
+  return and(
+    from !== undefined ? sql`coalesce(${max}, ${min}) >= ${from}` : undefined,
+    to !== undefined ? sql`coalesce(${min}, ${max}) <= ${to}` : undefined
+  );
+}
+
+const whereExcept = (filters: Record<string, SQL | undefined>, except?: string) =>
+  and(...Object.keys(filters).filter(name => name !== except).map(name => filters[name]));
+
+const toFacetBuckets = (rows: { value: string | number | boolean | null; label: string | null; count: number }[]) =>
+  rows
+    .filter(row => row.value !== null)
+    .map(row => ({ value: String(row.value), label: row.label ?? String(row.value), count: row.count }));
+
+// One count per RATE_RANGES bucket, keyed by the bucket's value
+const rateRangeCounts = (min: AnyColumn, max: AnyColumn) => Object.fromEntries(RATE_RANGES.map(range => [
+  range.value,
+  sql<number>`count(*) filter (where ${sqlRangeOverlaps(min, max, range.min, range.max)})`.mapWith(Number)
+]));
+
+const toRateRangeBuckets = (counts: Record<string, number> | undefined) => RATE_RANGES
+  .map(range => ({ value: range.value, label: range.label, count: counts?.[range.value] ?? 0 }))
+  .filter(bucket => bucket.count > 0);
+
+const emptySearchResult = <F extends string>(query: { page: number; pageSize: number }, facets: F[]): SearchResult<never, F> => ({
+  items: [],
+  total: 0,
+  page: query.page,
+  pageSize: query.pageSize,
+  facets: Object.fromEntries(facets.map(name => [name, []])) as unknown as Record<F, SearchFacetBucket[]>
+});
+
+// Thrown by the paginated lists for a cursor they did not hand out
+export class PaginationError extends Error {
+  constructor(message = "Invalid cursor") {
+    super(message);
+    this.name = "PaginationError";
+  }
+}
+
+// Keyset pagination. A cursor holds the sort value and id of the last row of a page, and the
+// next page starts after that row in (sort value, id) order, so rows added or removed in the
+// meantime do not shift later pages. Each sort has an SQL expression for DatabaseStorage, which
+// also reads the cursor's sort value back from Postgres, and the same ordering in JS for MemStorage.
+type CursorValue = string | number;
+
+interface PageSort<T> {
+  expression: SQL;
+  value: (row: T) => CursorValue;
+  direction: "asc" | "desc";
+}
+
+// Timestamps are compared at the millisecond precision of a JS Date
+const newestFirst = <T extends { createdAt: Date }>(column: AnyColumn): PageSort<T> => ({
+  expression: sql`date_trunc('milliseconds', ${column})`,
+  value: row => row.createdAt.getTime(),
+  direction: "desc"
+});
+const oldestFirst = <T extends { createdAt: Date }>(column: AnyColumn): PageSort<T> => ({ ...newestFirst<T>(column), direction: "asc" });
+const alphabetical = <T>(column: AnyColumn, valueOf: (row: T) => string | null): PageSort<T> => ({
+  expression: sql`lower(coalesce(${column}, ''))`,
+  value: row => (valueOf(row) ?? "").toLowerCase(),
+  direction: "asc"
+});
+
+const JOB_POSTING_PAGE_SORTS: Record<JobPostingPageQuery["sort"], PageSort<JobPosting>> = {
+  newest: newestFirst(jobPostings.createdAt),
+  oldest: oldestFirst(jobPostings.createdAt),
+  title: alphabetical(jobPostings.title, job => job.title)
+};
+
+// Profiles have no creation date; ids increase with it
+const PROFESSIONAL_PROFILE_PAGE_SORTS: Record<ProfessionalProfilePageQuery["sort"], PageSort<ProfessionalProfile>> = {
+  newest: { expression: sql`${professionalProfiles.id}`, value: profile => profile.id, direction: "desc" },
+  rating: { expression: sql`coalesce(${professionalProfiles.rating}, 0)`, value: profile => profile.rating ?? 0, direction: "desc" },
+  rate: { expression: sql`coalesce(${professionalProfiles.ratePerHour}, 0)`, value: profile => profile.ratePerHour ?? 0, direction: "asc" }
+};
+
+const RESOURCE_PAGE_SORTS: Record<ResourcePageQuery["sort"], PageSort<Resource>> = {
+  newest: newestFirst(resources.createdAt),
+  oldest: oldestFirst(resources.createdAt),
+  title: alphabetical(resources.title, resource => resource.title)
+};
+
+// Every tenfold more votes and replies is worth 12.5 hours of recency. The score of a post does
+// not change as time passes, only as it gets votes and replies, so cursors stay valid.
+const FORUM_HOT_SECONDS = 45000;
+
+const FORUM_POST_PAGE_SORTS: Record<ForumPostPageQuery["sort"], PageSort<ForumPost>> = {
+  hot: {
+    expression: sql`(log(greatest(${forumPosts.voteCount} + ${forumPosts.replyCount}, 1)::float8)
+      + extract(epoch from date_trunc('milliseconds', ${forumPosts.createdAt}))::float8 / ${sql.raw(String(FORUM_HOT_SECONDS))})`,
+    value: post => Math.log10(Math.max(post.voteCount + post.replyCount, 1)) + post.createdAt.getTime() / 1000 / FORUM_HOT_SECONDS,
+    direction: "desc"
+  },
+  new: newestFirst(forumPosts.createdAt),
+  top: { expression: sql`${forumPosts.voteCount}`, value: post => post.voteCount, direction: "desc" }
+};
+
+const USER_PAGE_SORTS: Record<UserPageQuery["sort"], PageSort<User>> = {
+  newest: newestFirst(users.createdAt),
+  oldest: oldestFirst(users.createdAt),
+  username: alphabetical(users.username, user => user.username)
+};
+
+const NOTIFICATION_PAGE_SORTS: Record<NotificationPageQuery["sort"], PageSort<Notification>> = {
+  newest: newestFirst(notifications.createdAt),
+  oldest: oldestFirst(notifications.createdAt)
+};
+
+const encodeCursor = (value: CursorValue, id: number) => Buffer.from(JSON.stringify([value, id])).toString("base64url");
+
+function decodeCursor(cursor: string | undefined): [CursorValue, number] | undefined {
+  if (!cursor) return undefined;
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(decoded) && decoded.length === 2 &&
+        (typeof decoded[0] === "string" || typeof decoded[0] === "number") && Number.isInteger(decoded[1])) {
+      return decoded as [CursorValue, number];
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new PaginationError();
+}
+
+const compareCursorValues = (a: CursorValue, b: CursorValue) => a < b ? -1 : a > b ? 1 : 0;
+
+// Selected with each row as the sort value for its cursor
+const sqlPageKey = <T>(sort: PageSort<T>) => sql<string>`(${sort.expression})::text`;
+
+// Rows after the cursor, for DatabaseStorage
+function sqlAfterCursor<T>(sort: PageSort<T>, id: AnyColumn, cursor: string | undefined): SQL | undefined {
+  const position = decodeCursor(cursor);
+  if (!position) return undefined;
+  return sort.direction === "desc"
+    ? sql`(${sort.expression}, ${id}) < (${position[0]}, ${position[1]})`
+    : sql`(${sort.expression}, ${id}) > (${position[0]}, ${position[1]})`;
+}
+
+const sqlPageOrder = <T>(sort: PageSort<T>, id: AnyColumn): SQL[] => sort.direction === "desc"
+  ? [sql`${sort.expression} desc`, desc(id)]
+  : [sql`${sort.expression} asc`, asc(id)];
+
+// `rows` has one row more than the limit when there is a next page
+function toPage<T extends { id: number }>(rows: T[], total: number, query: PageQuery, cursorValue: (row: T) => CursorValue): Page<T> {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > query.limit && last ? encodeCursor(cursorValue(last), last.id) : null,
+    total
+  };
+}
+
+function toDbPage<T extends { id: number }>(rows: (T & { pageKey: string })[], total: number, query: PageQuery): Page<T> {
+  const page = toPage(rows, total, query, row => row.pageKey);
+  return { ...page, items: page.items.map(({ pageKey, ...row }) => row as unknown as T) };
+}
+
+function memPage<T extends { id: number }>(rows: T[], query: PageQuery, sort: PageSort<T>): Page<T> {
+  const sign = sort.direction === "desc" ? -1 : 1;
+  const compare = (a: [CursorValue, number], b: [CursorValue, number]) =>
+    sign * (compareCursorValues(a[0], b[0]) || a[1] - b[1]);
+  const position = decodeCursor(query.cursor);
+
+  const sorted = rows
+    .map(row => ({ row, key: [sort.value(row), row.id] as [CursorValue, number] }))
+    .sort((a, b) => compare(a.key, b.key));
+  const after = position ? sorted.filter(({ key }) => compare(key, position) > 0) : sorted;
+  return toPage(after.slice(0, query.limit + 1).map(({ row }) => row), rows.length, query, sort.value);
+}
+
+const emptyPage = <T>(): Page<T> => ({ items: [], nextCursor: null, total: 0 });
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
+  getUsersPage(query: UserPageQuery): Promise<Page<User>>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
@@ -46,7 +318,8 @@ export interface IStorage {
   // Authentication token operations for "Remember Me"
   createAuthToken(userId: number, type: string, expiresAt: Date, userAgent?: string, ipAddress?: string): Promise<AuthToken>;
   getAuthToken(token: string): Promise<AuthToken | undefined>;
-  validateAuthToken(token: string): Promise<User | undefined>;
+  validateAuthToken(token: string, type?: string): Promise<User | undefined>;
+  getUserAuthTokens(userId: number, type: string): Promise<AuthToken[]>;
   revokeAuthToken(token: string): Promise<boolean>;
   revokeAllUserTokens(userId: number): Promise<boolean>;
   cleanupExpiredTokens(): Promise<number>;
@@ -60,15 +333,16 @@ export interface IStorage {
   // Subscription plans operations
   getSubscriptionPlans(): Promise<SubscriptionPlan[]>;
 
-  // AI Matching operations
-  getMatchingJobsForProfessional(professionalId: number, limit?: number): Promise<Array<{ job: JobPosting, score: number }>>;
-  getMatchingProfessionalsForJob(jobId: number, limit?: number): Promise<Array<{ professional: ProfessionalProfile, score: number }>>;
-  saveJobMatch(jobId: number, professionalId: number, score: number): Promise<boolean>;
+  // AI Matching operations. Scores are computed by jobMatchService; these only persist them.
+  getJobMatches(filter: { jobId?: number; professionalId?: number }): Promise<JobMatch[]>;
+  // Replaces the saved score of each job and professional pair
+  saveJobMatches(matches: InsertJobMatch[]): Promise<boolean>;
 
   // Professional Profile operations
   getProfessionalProfile(id: number): Promise<ProfessionalProfile | undefined>;
   getProfessionalProfileByUserId(userId: number): Promise<ProfessionalProfile | undefined>;
   getAllProfessionalProfiles(): Promise<ProfessionalProfile[]>;
+  getProfessionalProfilesPage(query: ProfessionalProfilePageQuery): Promise<Page<ProfessionalProfile>>;
   getFeaturedProfessionalProfiles(limit: number): Promise<ProfessionalProfile[]>;
   createProfessionalProfile(profile: InsertProfessionalProfile): Promise<ProfessionalProfile>;
   updateProfessionalProfile(id: number, profile: Partial<InsertProfessionalProfile>): Promise<ProfessionalProfile | undefined>;
@@ -79,12 +353,14 @@ export interface IStorage {
   getExpertiseById(id: number): Promise<Expertise | undefined>;
   createExpertise(expertise: InsertExpertise): Promise<Expertise>;
   getProfessionalExpertise(professionalId: number): Promise<Expertise[]>;
+  getProfessionalExpertiseNames(professionalIds: number[]): Promise<Array<{ professionalId: number; name: string }>>;
   addProfessionalExpertise(professionalExpertise: InsertProfessionalExpertise): Promise<ProfessionalExpertise>;
   deleteProfessionalExpertise(id: number): Promise<boolean>;
 
   // Certification operations
   getCertification(id: number): Promise<Certification | undefined>;
   getProfessionalCertifications(professionalId: number): Promise<Certification[]>;
+  getCertificationsForProfessionals(professionalIds: number[]): Promise<Certification[]>;
   createCertification(certification: InsertCertification): Promise<Certification>;
   deleteCertification(id: number): Promise<boolean>;
 
@@ -98,6 +374,7 @@ export interface IStorage {
   // Job Posting operations
   getJobPosting(id: number): Promise<JobPosting | undefined>;
   getAllJobPostings(): Promise<JobPosting[]>;
+  getJobPostingsPage(query: JobPostingPageQuery): Promise<Page<JobPosting>>;
   getLatestJobPostings(limit: number): Promise<JobPosting[]>;
   getCompanyJobPostings(companyId: number): Promise<JobPosting[]>;
   createJobPosting(job: InsertJobPosting): Promise<JobPosting>;
@@ -122,31 +399,66 @@ export interface IStorage {
   getResourcesByCategory(categoryId: number): Promise<Resource[]>;
   getResourcesByAuthor(authorId: number): Promise<Resource[]>;
   searchResources(query?: string, type?: string, categoryId?: number): Promise<Resource[]>;
+  getResourcesPage(query: ResourcePageQuery): Promise<Page<Resource>>;
   getFeaturedResources(limit: number): Promise<Resource[]>;
   createResource(resource: InsertResource): Promise<Resource>;
   updateResource(id: number, resource: Partial<Resource>): Promise<Resource | undefined>;
   setResourceFeatured(id: number, featured: boolean): Promise<Resource | undefined>;
   deleteResource(id: number): Promise<boolean>;
 
+  // Full-text search with facets, ranked by relevance unless another sort is requested
+  searchJobPostings(query: JobSearchQuery): Promise<JobSearchResult>;
+  searchProfessionalProfiles(query: ProfessionalSearchQuery): Promise<ProfessionalSearchResult>;
+  searchResourceLibrary(query: ResourceSearchQuery): Promise<ResourceSearchResult>;
+
   // Forum operations
   getForumPost(id: number): Promise<ForumPost | undefined>;
   getAllForumPosts(): Promise<ForumPost[]>;
+  getForumPostsPage(query: ForumPostPageQuery): Promise<Page<ForumPost>>;
   createForumPost(post: InsertForumPost): Promise<ForumPost>;
+  // Deletes the post with its comments
+  deleteForumPost(id: number): Promise<boolean>;
   getPostComments(postId: number): Promise<ForumComment[]>;
   createForumComment(comment: InsertForumComment): Promise<ForumComment>;
 
   // Message operations
   getUserMessages(userId: number): Promise<Message[]>;
+  // Direct messages sent before conversations existed
+  getUnthreadedMessages(): Promise<Message[]>;
   getConversation(user1Id: number, user2Id: number): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   markMessageAsRead(id: number): Promise<boolean>;
 
+  // Conversation operations
+  getConversationById(id: number): Promise<Conversation | undefined>;
+  getUserConversations(userId: number): Promise<ConversationSummary[]>;
+  findConversation(participantIds: number[], context?: { jobPostingId?: number | null; consultationId?: number | null }): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation, participantIds: number[]): Promise<Conversation>;
+  getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]>;
+  getConversationMessages(conversationId: number): Promise<MessageWithAttachments[]>;
+  markConversationAsRead(conversationId: number, userId: number): Promise<Message[]>;
+  assignMessagesToConversation(conversationId: number, user1Id: number, user2Id: number): Promise<number>;
+  createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment>;
+  getMessageAttachment(id: number): Promise<MessageAttachment | undefined>;
+  getMessage(id: number): Promise<Message | undefined>;
+
   // Consultation operations
   getConsultation(id: number): Promise<Consultation | undefined>;
   getProfessionalConsultations(professionalId: number): Promise<Consultation[]>;
   getCompanyConsultations(companyId: number): Promise<Consultation[]>;
   createConsultation(consultation: InsertConsultation): Promise<Consultation>;
   updateConsultationStatus(id: number, status: string): Promise<Consultation | undefined>;
+  getOverlappingConsultations(professionalId: number, startTime: Date, endTime: Date): Promise<Consultation[]>;
+
+  // Availability operations
+  getAvailabilitySettings(professionalId: number): Promise<AvailabilitySettings | undefined>;
+  upsertAvailabilitySettings(settings: InsertAvailabilitySettings): Promise<AvailabilitySettings>;
+  getAvailabilityRules(professionalId: number): Promise<AvailabilityRule[]>;
+  replaceAvailabilityRules(professionalId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]>;
+  getAvailabilityBlackouts(professionalId: number): Promise<AvailabilityBlackout[]>;
+  getAvailabilityBlackout(id: number): Promise<AvailabilityBlackout | undefined>;
+  createAvailabilityBlackout(blackout: InsertAvailabilityBlackout): Promise<AvailabilityBlackout>;
+  deleteAvailabilityBlackout(id: number): Promise<boolean>;
 
   // Skill Recommendation operations
   getSkillRecommendation(id: number): Promise<SkillRecommendation | undefined>;
@@ -180,10 +492,12 @@ export interface IStorage {
 
   getNotification(id: number): Promise<Notification | undefined>;
   getUserNotifications(userId: number): Promise<Notification[]>;
+  getUserNotificationsPage(userId: number, query: NotificationPageQuery): Promise<Page<Notification>>;
   getUserUnreadNotifications(userId: number): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationAsRead(id: number): Promise<boolean>;
   markAllUserNotificationsAsRead(userId: number): Promise<boolean>;
+  markNotificationsEmailed(ids: number[]): Promise<void>;
   deleteNotification(id: number): Promise<boolean>;
 
   // Notification Preferences operations
@@ -223,10 +537,16 @@ export class MemStorage implements IStorage {
   private forumPosts: Map<number, ForumPost>;
   private forumComments: Map<number, ForumComment>;
   private messages: Map<number, Message>;
+  private conversations: Map<number, Conversation>;
+  private conversationParticipants: Map<number, ConversationParticipant>;
+  private messageAttachments: Map<number, MessageAttachment>;
   private consultations: Map<number, Consultation>;
+  private availabilitySettings: Map<number, AvailabilitySettings>; // keyed by professionalId
+  private availabilityRules: Map<number, AvailabilityRule>;
+  private availabilityBlackouts: Map<number, AvailabilityBlackout>;
   private skillRecommendations: Map<number, SkillRecommendation>;
   private pageContents: Map<number, PageContent>;
-  private jobMatches: Map<string, number>; // Format: "jobId-professionalId" -> score
+  private jobMatches: Map<string, JobMatch>; // Format: "jobId-professionalId" -> match
   private reviews: Map<number, Review>;
   private notificationTypes: Map<number, NotificationType>;
   private notifications: Map<number, Notification>;
@@ -251,7 +571,13 @@ export class MemStorage implements IStorage {
   private forumPostId: number;
   private forumCommentId: number;
   private messageId: number;
+  private conversationId: number;
+  private conversationParticipantId: number;
+  private messageAttachmentId: number;
   private consultationId: number;
+  private availabilitySettingsId: number;
+  private availabilityRuleId: number;
+  private availabilityBlackoutId: number;
   private skillRecommendationId: number;
   private pageContentId: number;
   private reviewId: number;
@@ -274,7 +600,13 @@ export class MemStorage implements IStorage {
     this.forumPosts = new Map();
     this.forumComments = new Map();
     this.messages = new Map();
+    this.conversations = new Map();
+    this.conversationParticipants = new Map();
+    this.messageAttachments = new Map();
     this.consultations = new Map();
+    this.availabilitySettings = new Map();
+    this.availabilityRules = new Map();
+    this.availabilityBlackouts = new Map();
     this.skillRecommendations = new Map();
     this.pageContents = new Map();
     this.jobMatches = new Map();
@@ -301,7 +633,13 @@ export class MemStorage implements IStorage {
     this.forumPostId = 1;
     this.forumCommentId = 1;
     this.messageId = 1;
+    this.conversationId = 1;
+    this.conversationParticipantId = 1;
+    this.messageAttachmentId = 1;
     this.consultationId = 1;
+    this.availabilitySettingsId = 1;
+    this.availabilityRuleId = 1;
+    this.availabilityBlackoutId = 1;
     this.skillRecommendationId = 1;
     this.pageContentId = 1;
     this.reviewId = 1;
@@ -579,6 +917,7 @@ export class MemStorage implements IStorage {
         galleryImages: [],
         featured: profile.featured,
         verified: profile.verified,
+        hidden: false,
         rating: profile.rating,
         reviewCount: profile.reviewCount,
         yearsExperience: profile.yearsExperience,
@@ -635,7 +974,8 @@ export class MemStorage implements IStorage {
         logoUrl: profile.logoUrl || null,
         logoImagePath: null,
         featured: profile.featured,
-        verified: profile.verified
+        verified: profile.verified,
+        hidden: false
       };
       this.companyProfiles.set(id, newProfile);
     });
@@ -719,7 +1059,8 @@ export class MemStorage implements IStorage {
         createdAt: new Date(),
         categoryId: resource.categoryId,
         contentUrl: resource.contentUrl,
-        filePath: null
+        filePath: null,
+        hidden: false
       };
       this.resources.set(id, newResource);
     });
@@ -792,112 +1133,31 @@ export class MemStorage implements IStorage {
   }
 
   // AI Matching operations
-  async getMatchingJobsForProfessional(professionalId: number, limit: number = 5): Promise<Array<{ job: JobPosting, score: number }>> {
-    const professional = await this.getProfessionalProfile(professionalId);
-    if (!professional) {
-      return [];
-    }
-
-    // Get all jobs and calculate match scores
-    const jobs = await this.getAllJobPostings();
-    const matches = jobs
-      .filter(job => job.status === "open") // Only consider open jobs
-      .map(job => {
-        // Get stored match score if available
-        const key = `${job.id}-${professionalId}`;
-        let score = this.jobMatches.get(key);
-
-        // If no stored score, calculate a basic match score
-        if (score === undefined) {
-          const profTitle = professional.title?.toLowerCase() || '';
-          const profBio = professional.bio?.toLowerCase() || '';
-          const profIndustry = professional.industryFocus?.toLowerCase() || '';
-
-          const jobTitle = job.title.toLowerCase();
-          const jobDescription = job.description.toLowerCase();
-          const jobRequirements = job.requirements.toLowerCase();
-
-          // Calculate text-based match score
-          const titleMatch = profTitle && jobTitle.includes(profTitle) ? 0.3 : 0;
-          const bioMatch = profBio && (jobDescription.includes(profBio) || jobRequirements.includes(profBio)) ? 0.2 : 0;
-          const industryMatch = profIndustry && jobDescription.includes(profIndustry) ? 0.2 : 0;
-
-          // Assign a moderate score for location match
-          const locationMatch = professional.location &&
-            professional.location === job.location ? 0.3 : 0;
-
-          score = titleMatch + bioMatch + industryMatch + locationMatch;
-
-          // Save the calculated score
-          this.jobMatches.set(key, score);
-        }
-
-        return { job, score };
-      });
-
-    // Sort by score (descending) and apply limit
-    return matches
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+  async getJobMatches(filter: { jobId?: number; professionalId?: number }): Promise<JobMatch[]> {
+    return Array.from(this.jobMatches.values()).filter(match =>
+      (filter.jobId === undefined || match.jobId === filter.jobId) &&
+      (filter.professionalId === undefined || match.professionalId === filter.professionalId)
+    );
   }
 
-  async getMatchingProfessionalsForJob(jobId: number, limit: number = 5): Promise<Array<{ professional: ProfessionalProfile, score: number }>> {
-    const job = await this.getJobPosting(jobId);
-    if (!job) {
-      return [];
-    }
-
-    // Get all professionals and calculate match scores
-    const professionals = await this.getAllProfessionalProfiles();
-    const matches = professionals.map(professional => {
-      // Get stored match score if available
-      const key = `${jobId}-${professional.id}`;
-      let score = this.jobMatches.get(key);
-
-      // If no stored score, calculate a basic match score
-      if (score === undefined) {
-        const profTitle = professional.title?.toLowerCase() || '';
-        const profBio = professional.bio?.toLowerCase() || '';
-        const profIndustry = professional.industryFocus?.toLowerCase() || '';
-
-        const jobTitle = job.title.toLowerCase();
-        const jobDescription = job.description.toLowerCase();
-        const jobRequirements = job.requirements.toLowerCase();
-
-        // Calculate text-based match score
-        const titleMatch = profTitle && jobTitle.includes(profTitle) ? 0.3 : 0;
-        const bioMatch = profBio && (jobDescription.includes(profBio) || jobRequirements.includes(profBio)) ? 0.2 : 0;
-        const industryMatch = profIndustry && jobDescription.includes(profIndustry) ? 0.2 : 0;
-
-        // Assign a moderate score for location match
-        const locationMatch = professional.location &&
-          professional.location === job.location ? 0.3 : 0;
-
-        score = titleMatch + bioMatch + industryMatch + locationMatch;
-
-        // Save the calculated score
-        this.jobMatches.set(key, score);
-      }
-
-      return { professional, score };
+  async saveJobMatches(matches: InsertJobMatch[]): Promise<boolean> {
+    matches.forEach(match => {
+      const key = `${match.jobId}-${match.professionalId}`;
+      const id = this.jobMatches.get(key)?.id ?? this.jobMatches.size + 1;
+      this.jobMatches.set(key, {
+        id, jobId: match.jobId, professionalId: match.professionalId, score: match.score,
+        breakdown: match.breakdown ?? [],
+        sourceHash: match.sourceHash ?? null,
+        computedAt: new Date()
+      });
     });
-
-    // Sort by score (descending) and apply limit
-    return matches
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
-  }
-
-  async saveJobMatch(jobId: number, professionalId: number, score: number): Promise<boolean> {
-    const key = `${jobId}-${professionalId}`;
-    this.jobMatches.set(key, score);
     return true;
   }
 
   // Additional Resource operations
   async getResourcesByCategory(categoryId: number): Promise<Resource[]> {
     return Array.from(this.resources.values())
-      .filter(resource => resource.categoryId === categoryId)
+      .filter(resource => resource.categoryId === categoryId && !resource.hidden)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
@@ -926,7 +1186,7 @@ export class MemStorage implements IStorage {
 
         const matchesCategory = !categoryId || isNaN(categoryId) || resource.categoryId === categoryId;
 
-        const matches = matchesQuery && matchesType && matchesCategory;
+        const matches = !resource.hidden && matchesQuery && matchesType && matchesCategory;
         console.log("Matches Query", matchesQuery, "Matches Type", matchesType, "Matches Category", matchesCategory);
         if (!matches) {
           console.log(`Resource "${resource.title}" filtered out:`, {
@@ -943,6 +1203,116 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getResourcesPage(query: ResourcePageQuery): Promise<Page<Resource>> {
+    const text = query.query?.toLowerCase();
+    const matching = Array.from(this.resources.values()).filter(resource => !resource.hidden &&
+      (!text || resource.title.toLowerCase().includes(text) || resource.description.toLowerCase().includes(text)) &&
+      (!query.type || query.type === "all" || resource.resourceType.trim().toLowerCase() === query.type) &&
+      (!query.categoryId || resource.categoryId === query.categoryId));
+    return memPage(matching, query, RESOURCE_PAGE_SORTS[query.sort]);
+  }
+
+  async searchJobPostings(query: JobSearchQuery): Promise<JobSearchResult> {
+    const jobs = Array.from(this.jobPostings.values()).filter(job => job.status === "open" && !job.archived);
+    const scores = new Map(jobs.map(job => [job.id, memTextScore(query.q, [
+      [job.title, 4], [job.requirements, 2], [job.description, 1], [job.location, 1]
+    ])]));
+    const text = (job: JobPosting) => [job.title, job.requirements, job.description, job.location].join(" ").toLowerCase();
+    // Jobs are not tagged with expertise; a job has an expertise when its text mentions it
+    const mentions = (job: JobPosting, name: string) => text(job).includes(name.toLowerCase());
+    const expertiseNames = (query.expertise ?? [])
+      .map(id => this.expertises.get(id)?.name)
+      .filter((name): name is string => !!name);
+    const location = query.location?.toLowerCase();
+
+    return memFacetedSearch<JobPosting, JobSearchFacet>(jobs, query, {
+      q: job => scores.get(job.id)! > 0,
+      location: location ? job => job.location.toLowerCase().includes(location) : undefined,
+      jobType: query.jobType ? job => job.jobType === query.jobType : undefined,
+      remote: query.remote !== undefined ? job => !!job.remote === query.remote : undefined,
+      expertise: query.expertise?.length ? job => expertiseNames.some(name => mentions(job, name)) : undefined,
+      rateRange: job => rangeOverlaps(job.minCompensation, job.maxCompensation, query.minCompensation, query.maxCompensation)
+    }, {
+      location: items => countFacetValues(items, job => [{ value: job.location, label: job.location }]),
+      jobType: items => countFacetValues(items, job => [{ value: job.jobType, label: job.jobType }]),
+      remote: items => countFacetValues(items, job => [{ value: String(!!job.remote), label: job.remote ? "Remote" : "On-site" }]),
+      expertise: items => countFacetValues(items, job => Array.from(this.expertises.values())
+        .filter(item => mentions(job, item.name))
+        .map(item => ({ value: String(item.id), label: item.name }))),
+      rateRange: items => countRateRanges(items, job => [job.minCompensation, job.maxCompensation])
+    }, (a, b) =>
+      (query.sort === "relevance" ? scores.get(b.id)! - scores.get(a.id)! : 0) ||
+      Number(!!b.featured) - Number(!!a.featured) ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async searchProfessionalProfiles(query: ProfessionalSearchQuery): Promise<ProfessionalSearchResult> {
+    const profiles = Array.from(this.professionalProfiles.values()).filter(profile => !profile.hidden);
+    const scores = new Map(profiles.map(profile => [profile.id, memTextScore(query.q, [
+      [profile.firstName, 4], [profile.lastName, 4], [profile.title, 4],
+      [profile.services, 2], [profile.interests, 2], [profile.industryFocus, 2],
+      [profile.bio, 1], [profile.location, 1]
+    ])]));
+    const expertiseIdsOf = (profile: ProfessionalProfile) => Array.from(this.professionalExpertises.values())
+      .filter(entry => entry.professionalId === profile.id)
+      .map(entry => entry.expertiseId);
+    const location = query.location?.toLowerCase();
+    const experience = query.experience ? EXPERIENCE_LEVELS[query.experience] : undefined;
+
+    return memFacetedSearch<ProfessionalProfile, ProfessionalSearchFacet>(profiles, query, {
+      q: profile => scores.get(profile.id)! > 0,
+      location: location ? profile => !!profile.location?.toLowerCase().includes(location) : undefined,
+      industry: query.industry?.length ? profile => profile.industryId !== null && query.industry!.includes(profile.industryId) : undefined,
+      expertise: query.expertise?.length ? profile => expertiseIdsOf(profile).some(id => query.expertise!.includes(id)) : undefined,
+      rateRange: profile => rangeOverlaps(profile.ratePerHour, profile.ratePerHour, query.minRate, query.maxRate),
+      experience: experience ? profile => {
+        const years = profile.yearsExperience ?? 0;
+        return years >= experience.min && (experience.max === undefined || years <= experience.max);
+      } : undefined
+    }, {
+      location: items => countFacetValues(items, profile => profile.location ? [{ value: profile.location, label: profile.location }] : []),
+      // In-memory mode has no industries table, only the ids on profiles
+      industry: items => countFacetValues(items, profile => profile.industryId !== null
+        ? [{ value: String(profile.industryId), label: `Industry ${profile.industryId}` }]
+        : []),
+      expertise: items => countFacetValues(items, profile => expertiseIdsOf(profile)
+        .map(id => ({ value: String(id), label: this.expertises.get(id)?.name ?? `Expertise ${id}` }))),
+      rateRange: items => countRateRanges(items, profile => [profile.ratePerHour, profile.ratePerHour])
+    }, (a, b) =>
+      (query.sort === "relevance" ? scores.get(b.id)! - scores.get(a.id)! : 0) ||
+      (query.sort === "rate" ? (b.ratePerHour ?? -1) - (a.ratePerHour ?? -1) : 0) ||
+      (query.sort !== "rating" ? Number(!!b.featured) - Number(!!a.featured) : 0) ||
+      (b.rating ?? -1) - (a.rating ?? -1) ||
+      a.id - b.id
+    );
+  }
+
+  async searchResourceLibrary(query: ResourceSearchQuery): Promise<ResourceSearchResult> {
+    const items = Array.from(this.resources.values()).filter(resource => !resource.hidden);
+    const scores = new Map(items.map(resource => [resource.id, memTextScore(query.q, [
+      [resource.title, 4], [resource.description, 2]
+    ])]));
+
+    return memFacetedSearch<Resource, ResourceSearchFacet>(items, query, {
+      q: resource => scores.get(resource.id)! > 0,
+      resourceType: query.resourceType ? resource => resource.resourceType.trim().toLowerCase() === query.resourceType : undefined,
+      category: query.category?.length ? resource => resource.categoryId !== null && query.category!.includes(resource.categoryId) : undefined
+    }, {
+      resourceType: matches => countFacetValues(matches, resource => {
+        const type = resource.resourceType.trim().toLowerCase();
+        return [{ value: type, label: type }];
+      }),
+      category: matches => countFacetValues(matches, resource => resource.categoryId !== null
+        ? [{ value: String(resource.categoryId), label: this.resourceCategories.get(resource.categoryId)?.name ?? `Category ${resource.categoryId}` }]
+        : [])
+    }, (a, b) =>
+      (query.sort === "relevance" ? scores.get(b.id)! - scores.get(a.id)! : 0) ||
+      Number(!!b.featured) - Number(!!a.featured) ||
+      b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
   async setResourceFeatured(id: number, featured: boolean): Promise<Resource | undefined> {
     const resource = this.resources.get(id);
     if (!resource) return undefined;
@@ -984,6 +1354,11 @@ export class MemStorage implements IStorage {
     return users;
   }
 
+  async getUsersPage(query: UserPageQuery): Promise<Page<User>> {
+    const users = Array.from(this.users.values()).filter(user => !query.userType || user.userType === query.userType);
+    return memPage(users, query, USER_PAGE_SORTS[query.sort]);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
     const user: User = {
@@ -998,6 +1373,7 @@ export class MemStorage implements IStorage {
       emailVerificationToken: insertUser.emailVerificationToken || null,
       status: insertUser.status || "pending",
       isAdmin: insertUser.isAdmin || false,
+      roles: insertUser.roles || [],
       createdAt: new Date(),
       stripeCustomerId: null,
       stripeSubscriptionId: null,
@@ -1101,9 +1477,14 @@ export class MemStorage implements IStorage {
     return profiles;
   }
 
+  async getProfessionalProfilesPage(query: ProfessionalProfilePageQuery): Promise<Page<ProfessionalProfile>> {
+    const visible = Array.from(this.professionalProfiles.values()).filter(profile => !profile.hidden);
+    return memPage(visible, query, PROFESSIONAL_PROFILE_PAGE_SORTS[query.sort]);
+  }
+
   async getFeaturedProfessionalProfiles(limit: number): Promise<ProfessionalProfile[]> {
     return Array.from(this.professionalProfiles.values())
-      .filter(profile => profile.featured)
+      .filter(profile => profile.featured && !profile.hidden)
       .slice(0, limit);
   }
 
@@ -1128,6 +1509,7 @@ export class MemStorage implements IStorage {
       galleryImages: [],
       featured: profile.featured || false,
       verified: profile.verified || false,
+      hidden: false,
       rating: profile.rating || 0,
       reviewCount: profile.reviewCount || 0,
       yearsExperience: profile.yearsExperience || 0,
@@ -1201,6 +1583,13 @@ export class MemStorage implements IStorage {
       .filter(Boolean);
   }
 
+  async getProfessionalExpertiseNames(professionalIds: number[]): Promise<Array<{ professionalId: number; name: string }>> {
+    const ids = new Set(professionalIds);
+    return Array.from(this.professionalExpertises.values())
+      .filter(pe => ids.has(pe.professionalId) && this.expertises.has(pe.expertiseId))
+      .map(pe => ({ professionalId: pe.professionalId, name: this.expertises.get(pe.expertiseId)!.name }));
+  }
+
   async addProfessionalExpertise(insertProfExpertise: InsertProfessionalExpertise): Promise<ProfessionalExpertise> {
     // Check if it already exists
     const exists = Array.from(this.professionalExpertises.values()).some(
@@ -1238,6 +1627,12 @@ export class MemStorage implements IStorage {
       .filter(cert => cert.professionalId === professionalId);
   }
 
+  async getCertificationsForProfessionals(professionalIds: number[]): Promise<Certification[]> {
+    const ids = new Set(professionalIds);
+    return Array.from(this.certifications.values())
+      .filter(cert => ids.has(cert.professionalId));
+  }
+
   async createCertification(insertCertification: InsertCertification): Promise<Certification> {
     const id = this.certificationId++;
     const certification: Certification = { ...insertCertification, id };
@@ -1278,7 +1673,8 @@ export class MemStorage implements IStorage {
       logoUrl: profile.logoUrl || null,
       logoImagePath: profile.logoImagePath || null,
       featured: profile.featured || false,
-      verified: profile.verified || false
+      verified: profile.verified || false,
+      hidden: false
     };
     this.companyProfiles.set(id, newProfile);
     return newProfile;
@@ -1319,6 +1715,11 @@ export class MemStorage implements IStorage {
     return jobPostings;
   }
 
+  async getJobPostingsPage(query: JobPostingPageQuery): Promise<Page<JobPosting>> {
+    const jobs = Array.from(this.jobPostings.values()).filter(job => job.status === "open");
+    return memPage(jobs, query, JOB_POSTING_PAGE_SORTS[query.sort]);
+  }
+
   async getLatestJobPostings(limit: number): Promise<JobPosting[]> {
     return Array.from(this.jobPostings.values())
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
@@ -1374,7 +1775,10 @@ export class MemStorage implements IStorage {
     return this.jobApplications.get(id);
   }
 
-
+  async getJobApplicationsByJob(jobId: number): Promise<JobApplication[]> {
+    return Array.from(this.jobApplications.values())
+      .filter(app => app.jobId === jobId);
+  }
 
   async getJobApplicationsByProfessional(professionalId: number): Promise<JobApplication[]> {
     return Array.from(this.jobApplications.values())
@@ -1410,7 +1814,8 @@ export class MemStorage implements IStorage {
       ...application,
       id,
       createdAt: new Date(),
-      status: application.status || "pending"
+      status: application.status || "pending",
+      stageId: null
     };
     this.jobApplications.set(id, newApplication);
     return newApplication;
@@ -1504,7 +1909,7 @@ export class MemStorage implements IStorage {
 
   async getFeaturedResources(limit: number): Promise<Resource[]> {
     return Array.from(this.resources.values())
-      .filter(resource => resource.featured)
+      .filter(resource => resource.featured && !resource.hidden)
       .slice(0, limit);
   }
 
@@ -1518,7 +1923,8 @@ export class MemStorage implements IStorage {
       imageUrl: resource.imageUrl || null,
       categoryId: resource.categoryId || null,
       contentUrl: resource.contentUrl || null,
-      filePath: resource.filePath || null
+      filePath: resource.filePath || null,
+      hidden: false
     };
     this.resources.set(id, newResource);
     return newResource;
@@ -1547,20 +1953,49 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getForumPostsPage(query: ForumPostPageQuery): Promise<Page<ForumPost>> {
+    const text = query.query?.toLowerCase();
+    const matching = Array.from(this.forumPosts.values()).filter(post => !post.hidden &&
+      (!text || post.title.toLowerCase().includes(text) || post.body.toLowerCase().includes(text)) &&
+      (!query.categoryId || post.categoryId === query.categoryId) &&
+      (!query.tag || post.tags.includes(query.tag)) &&
+      (query.pinned === undefined || post.pinned === query.pinned));
+    return memPage(matching, query, FORUM_POST_PAGE_SORTS[query.sort]);
+  }
+
   async createForumPost(post: InsertForumPost): Promise<ForumPost> {
     const id = this.forumPostId++;
+    const createdAt = new Date();
     const newPost: ForumPost = {
       ...post,
       id,
-      createdAt: new Date()
+      categoryId: post.categoryId ?? null,
+      tags: post.tags ?? [],
+      pinned: false,
+      locked: false,
+      voteCount: 0,
+      replyCount: 0,
+      viewCount: 0,
+      acceptedReplyId: null,
+      hidden: false,
+      createdAt,
+      updatedAt: null,
+      lastActivityAt: createdAt
     };
     this.forumPosts.set(id, newPost);
     return newPost;
   }
 
+  async deleteForumPost(id: number): Promise<boolean> {
+    Array.from(this.forumComments.values())
+      .filter(comment => comment.postId === id)
+      .forEach(comment => this.forumComments.delete(comment.id));
+    return this.forumPosts.delete(id);
+  }
+
   async getPostComments(postId: number): Promise<ForumComment[]> {
     return Array.from(this.forumComments.values())
-      .filter(comment => comment.postId === postId)
+      .filter(comment => comment.postId === postId && !comment.hidden)
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
@@ -1569,7 +2004,12 @@ export class MemStorage implements IStorage {
     const newComment: ForumComment = {
       ...comment,
       id,
-      createdAt: new Date()
+      parentId: comment.parentId ?? null,
+      voteCount: 0,
+      deleted: false,
+      hidden: false,
+      createdAt: new Date(),
+      updatedAt: null
     };
     this.forumComments.set(id, newComment);
     return newComment;
@@ -1582,6 +2022,10 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
+  async getUnthreadedMessages(): Promise<Message[]> {
+    return Array.from(this.messages.values()).filter(msg => !msg.conversationId);
+  }
+
   async getConversation(user1Id: number, user2Id: number): Promise<Message[]> {
     return Array.from(this.messages.values())
       .filter(msg =>
@@ -1596,10 +2040,17 @@ export class MemStorage implements IStorage {
     const newMessage: Message = {
       ...message,
       id,
+      conversationId: message.conversationId ?? null,
       read: false,
+      hidden: false,
       createdAt: new Date()
     };
     this.messages.set(id, newMessage);
+
+    const conversation = newMessage.conversationId ? this.conversations.get(newMessage.conversationId) : undefined;
+    if (conversation) {
+      conversation.lastMessageAt = newMessage.createdAt;
+    }
     return newMessage;
   }
 
@@ -1612,6 +2063,145 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Conversation operations
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async getUserConversations(userId: number): Promise<ConversationSummary[]> {
+    const conversationIds = Array.from(this.conversationParticipants.values())
+      .filter(participant => participant.userId === userId)
+      .map(participant => participant.conversationId);
+
+    return conversationIds
+      .map(id => this.conversations.get(id))
+      .filter((conversation): conversation is Conversation => !!conversation)
+      .map(conversation => {
+        // Messages moderators hid are only previewed to their sender
+        const threadMessages = Array.from(this.messages.values())
+          .filter(msg => msg.conversationId === conversation.id && (!msg.hidden || msg.senderId === userId))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+        return {
+          ...conversation,
+          participantIds: Array.from(this.conversationParticipants.values())
+            .filter(participant => participant.conversationId === conversation.id)
+            .map(participant => participant.userId),
+          lastMessage: threadMessages[0] || null,
+          unreadCount: threadMessages.filter(msg => msg.receiverId === userId && !msg.read).length
+        };
+      })
+      .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime());
+  }
+
+  async findConversation(
+    participantIds: number[],
+    context: { jobPostingId?: number | null; consultationId?: number | null } = {}
+  ): Promise<Conversation | undefined> {
+    const wanted = Array.from(new Set(participantIds)).sort().join(",");
+
+    return Array.from(this.conversations.values()).find(conversation => {
+      if ((conversation.jobPostingId ?? null) !== (context.jobPostingId ?? null)) return false;
+      if ((conversation.consultationId ?? null) !== (context.consultationId ?? null)) return false;
+
+      const members = Array.from(this.conversationParticipants.values())
+        .filter(participant => participant.conversationId === conversation.id)
+        .map(participant => participant.userId)
+        .sort()
+        .join(",");
+      return members === wanted;
+    });
+  }
+
+  async createConversation(conversation: InsertConversation, participantIds: number[]): Promise<Conversation> {
+    const id = this.conversationId++;
+    const now = new Date();
+    const newConversation: Conversation = {
+      id,
+      subject: conversation.subject ?? null,
+      jobPostingId: conversation.jobPostingId ?? null,
+      consultationId: conversation.consultationId ?? null,
+      createdBy: conversation.createdBy,
+      lastMessageAt: now,
+      createdAt: now
+    };
+    this.conversations.set(id, newConversation);
+
+    Array.from(new Set(participantIds)).forEach(userId => {
+      const participantId = this.conversationParticipantId++;
+      this.conversationParticipants.set(participantId, {
+        id: participantId,
+        conversationId: id,
+        userId,
+        joinedAt: now
+      });
+    });
+
+    return newConversation;
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    return Array.from(this.conversationParticipants.values())
+      .filter(participant => participant.conversationId === conversationId);
+  }
+
+  async getConversationMessages(conversationId: number): Promise<MessageWithAttachments[]> {
+    const attachments = Array.from(this.messageAttachments.values());
+    return Array.from(this.messages.values())
+      .filter(msg => msg.conversationId === conversationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(msg => ({
+        ...msg,
+        attachments: attachments.filter(attachment => attachment.messageId === msg.id)
+      }));
+  }
+
+  async markConversationAsRead(conversationId: number, userId: number): Promise<Message[]> {
+    const updated: Message[] = [];
+    this.messages.forEach(msg => {
+      if (msg.conversationId === conversationId && msg.receiverId === userId && !msg.read) {
+        msg.read = true;
+        updated.push(msg);
+      }
+    });
+    return updated;
+  }
+
+  async assignMessagesToConversation(conversationId: number, user1Id: number, user2Id: number): Promise<number> {
+    let assigned = 0;
+    this.messages.forEach(msg => {
+      const betweenUsers =
+        (msg.senderId === user1Id && msg.receiverId === user2Id) ||
+        (msg.senderId === user2Id && msg.receiverId === user1Id);
+      if (betweenUsers && !msg.conversationId) {
+        msg.conversationId = conversationId;
+        assigned++;
+      }
+    });
+    return assigned;
+  }
+
+  async createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    const id = this.messageAttachmentId++;
+    const newAttachment: MessageAttachment = {
+      ...attachment,
+      id,
+      mimeType: attachment.mimeType ?? null,
+      fileSize: attachment.fileSize ?? null,
+      createdAt: new Date()
+    };
+    this.messageAttachments.set(id, newAttachment);
+    return newAttachment;
+  }
+
+  async getMessageAttachment(id: number): Promise<MessageAttachment | undefined> {
+    return this.messageAttachments.get(id);
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+
   // Consultation operations
   async getConsultation(id: number): Promise<Consultation | undefined> {
     return this.consultations.get(id);
@@ -1630,6 +2220,15 @@ export class MemStorage implements IStorage {
   }
 
   async createConsultation(consultation: InsertConsultation): Promise<Consultation> {
+    const overlapping = await this.getOverlappingConsultations(
+      consultation.professionalId,
+      consultation.startTime,
+      consultation.endTime
+    );
+    if (overlapping.length > 0) {
+      throw new ConsultationConflictError();
+    }
+
     const id = this.consultationId++;
     const newConsultation: Consultation = {
       ...consultation,
@@ -1651,6 +2250,79 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getOverlappingConsultations(professionalId: number, startTime: Date, endTime: Date): Promise<Consultation[]> {
+    return Array.from(this.consultations.values())
+      .filter(consult =>
+        consult.professionalId === professionalId &&
+        consult.status !== "cancelled" &&
+        consult.startTime < endTime &&
+        consult.endTime > startTime
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  // Availability operations
+  async getAvailabilitySettings(professionalId: number): Promise<AvailabilitySettings | undefined> {
+    return this.availabilitySettings.get(professionalId);
+  }
+
+  async upsertAvailabilitySettings(settings: InsertAvailabilitySettings): Promise<AvailabilitySettings> {
+    const existing = this.availabilitySettings.get(settings.professionalId);
+    const saved: AvailabilitySettings = {
+      id: existing?.id ?? this.availabilitySettingsId++,
+      professionalId: settings.professionalId,
+      timezone: settings.timezone || "UTC",
+      minNoticeHours: settings.minNoticeHours ?? 24,
+      updatedAt: new Date()
+    };
+    this.availabilitySettings.set(settings.professionalId, saved);
+    return saved;
+  }
+
+  async getAvailabilityRules(professionalId: number): Promise<AvailabilityRule[]> {
+    return Array.from(this.availabilityRules.values())
+      .filter(rule => rule.professionalId === professionalId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  }
+
+  async replaceAvailabilityRules(professionalId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]> {
+    Array.from(this.availabilityRules.values())
+      .filter(rule => rule.professionalId === professionalId)
+      .forEach(rule => this.availabilityRules.delete(rule.id));
+
+    for (const rule of rules) {
+      const id = this.availabilityRuleId++;
+      this.availabilityRules.set(id, { ...rule, professionalId, id, createdAt: new Date() });
+    }
+    return this.getAvailabilityRules(professionalId);
+  }
+
+  async getAvailabilityBlackouts(professionalId: number): Promise<AvailabilityBlackout[]> {
+    return Array.from(this.availabilityBlackouts.values())
+      .filter(blackout => blackout.professionalId === professionalId)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async getAvailabilityBlackout(id: number): Promise<AvailabilityBlackout | undefined> {
+    return this.availabilityBlackouts.get(id);
+  }
+
+  async createAvailabilityBlackout(blackout: InsertAvailabilityBlackout): Promise<AvailabilityBlackout> {
+    const id = this.availabilityBlackoutId++;
+    const newBlackout: AvailabilityBlackout = {
+      ...blackout,
+      id,
+      reason: blackout.reason || null,
+      createdAt: new Date()
+    };
+    this.availabilityBlackouts.set(id, newBlackout);
+    return newBlackout;
+  }
+
+  async deleteAvailabilityBlackout(id: number): Promise<boolean> {
+    return this.availabilityBlackouts.delete(id);
+  }
+
   // Added user update method
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
     const existing = this.users.get(id);
@@ -1816,13 +2488,13 @@ export class MemStorage implements IStorage {
 
   async getProfessionalReviews(professionalId: number): Promise<Review[]> {
     return Array.from(this.reviews.values())
-      .filter(review => review.professionalId === professionalId)
+      .filter(review => review.professionalId === professionalId && !review.hidden)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   async getCompanyReviews(companyId: number): Promise<Review[]> {
     return Array.from(this.reviews.values())
-      .filter(review => review.companyId === companyId)
+      .filter(review => review.companyId === companyId && !review.hidden)
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
@@ -1836,6 +2508,7 @@ export class MemStorage implements IStorage {
     const newReview: Review = {
       ...review,
       id,
+      hidden: false,
       createdAt: new Date()
     };
     this.reviews.set(id, newReview);
@@ -1941,6 +2614,12 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
+  async getUserNotificationsPage(userId: number, query: NotificationPageQuery): Promise<Page<Notification>> {
+    const userNotifications = Array.from(this.notifications.values()).filter(notification =>
+      notification.userId === userId && (query.unread === undefined || notification.read !== query.unread));
+    return memPage(userNotifications, query, NOTIFICATION_PAGE_SORTS[query.sort]);
+  }
+
   async getUserUnreadNotifications(userId: number): Promise<Notification[]> {
     return Array.from(this.notifications.values())
       .filter(notification => notification.userId === userId && !notification.read)
@@ -1953,6 +2632,7 @@ export class MemStorage implements IStorage {
       ...notification,
       id,
       read: false,
+      emailedAt: null,
       createdAt: new Date()
     };
     this.notifications.set(id, newNotification);
@@ -1979,6 +2659,16 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    const emailedAt = new Date();
+    ids.forEach(id => {
+      const notification = this.notifications.get(id);
+      if (notification) {
+        this.notifications.set(id, { ...notification, emailedAt });
+      }
+    });
+  }
+
   async deleteNotification(id: number): Promise<boolean> {
     return this.notifications.delete(id);
   }
@@ -2008,6 +2698,7 @@ export class MemStorage implements IStorage {
       const id = this.notificationPreferenceId++;
       const newPreference: NotificationPreference = {
         ...preference,
+        emailFrequency: preference.emailFrequency ?? 'immediate',
         id
       };
       this.notificationPreferences.set(id, newPreference);
@@ -2165,12 +2856,15 @@ export class MemStorage implements IStorage {
     return this.authTokens.get(token);
   }
 
-  async validateAuthToken(token: string): Promise<User | undefined> {
+  async validateAuthToken(token: string, type?: string): Promise<User | undefined> {
     const authToken = this.authTokens.get(token);
 
     if (!authToken || authToken.isRevoked || authToken.expiresAt < new Date()) {
       return undefined;
     }
+    if (type && authToken.type !== type) {
+      return undefined;
+    }
 
     // Update last used timestamp
     authToken.lastUsedAt = new Date();
@@ -2179,6 +2873,18 @@ export class MemStorage implements IStorage {
     return this.users.get(authToken.userId);
   }
 
+  async getUserAuthTokens(userId: number, type: string): Promise<AuthToken[]> {
+    const now = new Date();
+    return Array.from(this.authTokens.values())
+      .filter(authToken =>
+        authToken.userId === userId &&
+        authToken.type === type &&
+        !authToken.isRevoked &&
+        authToken.expiresAt > now
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   async revokeAuthToken(token: string): Promise<boolean> {
     const authToken = this.authTokens.get(token);
     if (authToken) {
@@ -2326,7 +3032,7 @@ export class DatabaseStorage implements IStorage {
   async getProfessionalReviews(professionalId: number): Promise<Review[]> {
     const results = await db?.select()
       .from(reviews)
-      .where(eq(reviews.professionalId, professionalId))
+      .where(and(eq(reviews.professionalId, professionalId), eq(reviews.hidden, false)))
       .orderBy(desc(reviews.createdAt)) || [];
     return results;
   }
@@ -2334,7 +3040,7 @@ export class DatabaseStorage implements IStorage {
   async getCompanyReviews(companyId: number): Promise<Review[]> {
     const results = await db?.select()
       .from(reviews)
-      .where(eq(reviews.companyId, companyId))
+      .where(and(eq(reviews.companyId, companyId), eq(reviews.hidden, false)))
       .orderBy(desc(reviews.createdAt)) || [];
     return results;
   }
@@ -2455,6 +3161,27 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  async getUserNotificationsPage(userId: number, query: NotificationPageQuery): Promise<Page<Notification>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getUserNotificationsPage");
+      return emptyPage();
+    }
+    const sort = NOTIFICATION_PAGE_SORTS[query.sort];
+    const where = and(
+      eq(notifications.userId, userId),
+      query.unread !== undefined ? sql`coalesce(${notifications.read}, false) = ${!query.unread}` : undefined
+    );
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(notifications), pageKey: sqlPageKey(sort) })
+        .from(notifications)
+        .where(and(where, sqlAfterCursor(sort, notifications.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, notifications.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(notifications).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
   async getUserUnreadNotifications(userId: number): Promise<Notification[]> {
     if (!db) return [];
     try {
@@ -2497,6 +3224,13 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
 
+  async markNotificationsEmailed(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db?.update(notifications)
+      .set({ emailedAt: new Date() })
+      .where(inArray(notifications.id, ids));
+  }
+
   async deleteNotification(id: number): Promise<boolean> {
     const [deleted] = await db?.delete(notifications)
       .where(eq(notifications.id, id))
@@ -2507,8 +3241,7 @@ export class DatabaseStorage implements IStorage {
   async getUserNotificationPreference(userId: number, typeId: number): Promise<NotificationPreference | undefined> {
     const [preference] = await db?.select()
       .from(notificationPreferences)
-      .where(eq(notificationPreferences.userId, userId))
-      .where(eq(notificationPreferences.typeId, typeId)) || [];
+      .where(and(eq(notificationPreferences.userId, userId), eq(notificationPreferences.typeId, typeId))) || [];
     return preference;
   }
 
@@ -2531,7 +3264,8 @@ export class DatabaseStorage implements IStorage {
       const [updated] = await db?.update(notificationPreferences)
         .set({
           email: preference.email,
-          inApp: preference.inApp
+          inApp: preference.inApp,
+          emailFrequency: preference.emailFrequency
         })
         .where(eq(notificationPreferences.id, existingPreference.id))
         .returning() || [];
@@ -2807,6 +3541,24 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users);
   }
 
+  async getUsersPage(query: UserPageQuery): Promise<Page<User>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getUsersPage");
+      return emptyPage();
+    }
+    const sort = USER_PAGE_SORTS[query.sort];
+    const where = query.userType ? eq(users.userType, query.userType) : undefined;
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(users), pageKey: sqlPageKey(sort) })
+        .from(users)
+        .where(and(where, sqlAfterCursor(sort, users.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, users.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(users).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
   async createUser(user: InsertUser): Promise<User> {
     const userData = {
       ...user,
@@ -2946,6 +3698,24 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(professionalProfiles);
   }
 
+  async getProfessionalProfilesPage(query: ProfessionalProfilePageQuery): Promise<Page<ProfessionalProfile>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getProfessionalProfilesPage");
+      return emptyPage();
+    }
+    const sort = PROFESSIONAL_PROFILE_PAGE_SORTS[query.sort];
+    const where = eq(professionalProfiles.hidden, false);
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(professionalProfiles), pageKey: sqlPageKey(sort) })
+        .from(professionalProfiles)
+        .where(and(where, sqlAfterCursor(sort, professionalProfiles.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, professionalProfiles.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(professionalProfiles).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
   async getFeaturedProfessionalProfiles(limit: number): Promise<ProfessionalProfile[]> {
     if (!db) {
       console.warn("Database not available, using empty result for getFeaturedProfessionalProfiles");
@@ -2954,7 +3724,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(professionalProfiles)
-      .where(eq(professionalProfiles.featured, true))
+      .where(and(eq(professionalProfiles.featured, true), eq(professionalProfiles.hidden, false)))
       .limit(limit);
   }
 
@@ -3037,6 +3807,19 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async getProfessionalExpertiseNames(professionalIds: number[]): Promise<Array<{ professionalId: number; name: string }>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getProfessionalExpertiseNames");
+      return [];
+    }
+    if (professionalIds.length === 0) return [];
+    return db
+      .select({ professionalId: professionalExpertise.professionalId, name: expertise.name })
+      .from(professionalExpertise)
+      .innerJoin(expertise, eq(expertise.id, professionalExpertise.expertiseId))
+      .where(inArray(professionalExpertise.professionalId, professionalIds));
+  }
+
   async addProfessionalExpertise(
     professionalExpertiseData: InsertProfessionalExpertise
   ): Promise<ProfessionalExpertise> {
@@ -3063,6 +3846,18 @@ export class DatabaseStorage implements IStorage {
       .where(eq(certifications.professionalId, professionalId));
   }
 
+  async getCertificationsForProfessionals(professionalIds: number[]): Promise<Certification[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getCertificationsForProfessionals");
+      return [];
+    }
+    if (professionalIds.length === 0) return [];
+    return db
+      .select()
+      .from(certifications)
+      .where(inArray(certifications.professionalId, professionalIds));
+  }
+
   async createCertification(certification: InsertCertification): Promise<Certification> {
     const [createdCertification] = await db
       .insert(certifications)
@@ -3145,6 +3940,24 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(jobPostings.createdAt));
   }
 
+  async getJobPostingsPage(query: JobPostingPageQuery): Promise<Page<JobPosting>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getJobPostingsPage");
+      return emptyPage();
+    }
+    const sort = JOB_POSTING_PAGE_SORTS[query.sort];
+    const where = eq(jobPostings.status, "open");
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(jobPostings), pageKey: sqlPageKey(sort) })
+        .from(jobPostings)
+        .where(and(where, sqlAfterCursor(sort, jobPostings.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, jobPostings.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(jobPostings).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
   async getLatestJobPostings(limit: number): Promise<JobPosting[]> {
     if (!db) {
       console.warn("Database not available, using empty result for getLatestJobPostings");
@@ -3261,7 +4074,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(resources)
-      .where(eq(resources.featured, true))
+      .where(and(eq(resources.featured, true), eq(resources.hidden, false)))
       .orderBy(desc(resources.createdAt))
       .limit(limit);
   }
@@ -3270,7 +4083,7 @@ export class DatabaseStorage implements IStorage {
     return db
       .select()
       .from(resources)
-      .where(eq(resources.categoryId, categoryId))
+      .where(and(eq(resources.categoryId, categoryId), eq(resources.hidden, false)))
       .orderBy(desc(resources.createdAt));
   }
 
@@ -3290,7 +4103,7 @@ export class DatabaseStorage implements IStorage {
 
     try {
       // Start with base query conditions
-      const conditions: SQL<unknown>[] = [];
+      const conditions: SQL<unknown>[] = [eq(resources.hidden, false)];
 
       // Add search conditions if query provided
       if (query && query.trim()) {
@@ -3340,6 +4153,255 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getResourcesPage(query: ResourcePageQuery): Promise<Page<Resource>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getResourcesPage");
+      return emptyPage();
+    }
+    const sort = RESOURCE_PAGE_SORTS[query.sort];
+    const where = and(
+      eq(resources.hidden, false),
+      query.query ? or(ilike(resources.title, likePattern(query.query)), ilike(resources.description, likePattern(query.query))) : undefined,
+      query.type && query.type !== "all" ? sql`lower(trim(${resources.resourceType})) = ${query.type}` : undefined,
+      query.categoryId ? eq(resources.categoryId, query.categoryId) : undefined
+    );
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(resources), pageKey: sqlPageKey(sort) })
+        .from(resources)
+        .where(and(where, sqlAfterCursor(sort, resources.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, resources.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(resources).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
+  async searchJobPostings(query: JobSearchQuery): Promise<JobSearchResult> {
+    if (!db) {
+      console.warn("Database not available, using empty result for searchJobPostings");
+      return emptySearchResult(query, ["location", "jobType", "remote", "expertise", "rateRange"]);
+    }
+    const database = db;
+
+    const document = jobPostingSearchDocument(jobPostings);
+    const tsQuery = query.q ? sql`websearch_to_tsquery('english', ${query.q})` : undefined;
+    // Jobs are not tagged with expertise; a job has an expertise when its text contains the name
+    const mentions = (name: AnyColumn | string) => sql`${document} @@ phraseto_tsquery('english', ${name})`;
+    const expertiseNames = query.expertise?.length
+      ? (await database.select({ name: expertise.name }).from(expertise).where(inArray(expertise.id, query.expertise))).map(row => row.name)
+      : [];
+
+    const filters: Record<string, SQL | undefined> = {
+      open: and(eq(jobPostings.status, "open"), sql`coalesce(${jobPostings.archived}, false) = false`),
+      q: tsQuery && sql`${document} @@ ${tsQuery}`,
+      location: query.location ? ilike(jobPostings.location, likePattern(query.location)) : undefined,
+      jobType: query.jobType ? eq(jobPostings.jobType, query.jobType) : undefined,
+      remote: query.remote !== undefined ? sql`coalesce(${jobPostings.remote}, false) = ${query.remote}` : undefined,
+      expertise: query.expertise?.length ? (expertiseNames.length ? or(...expertiseNames.map(mentions)) : sql`false`) : undefined,
+      rateRange: sqlRangeOverlaps(jobPostings.minCompensation, jobPostings.maxCompensation, query.minCompensation, query.maxCompensation)
+    };
+    const where = whereExcept(filters);
+    const remote = sql`coalesce(${jobPostings.remote}, false)`;
+
+    const [items, [{ total }], location, jobType, remoteFacet, expertiseFacet, [rateRange]] = await Promise.all([
+      database.select().from(jobPostings)
+        .where(where)
+        .orderBy(
+          ...(query.sort === "relevance" && tsQuery ? [sql`ts_rank(${document}, ${tsQuery}) desc`] : []),
+          sql`coalesce(${jobPostings.featured}, false) desc`,
+          desc(jobPostings.createdAt)
+        )
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      database.select({ total: count() }).from(jobPostings).where(where),
+      database.select({ value: jobPostings.location, label: jobPostings.location, count: count() })
+        .from(jobPostings)
+        .where(whereExcept(filters, "location"))
+        .groupBy(jobPostings.location)
+        .orderBy(desc(count()), asc(jobPostings.location))
+        .limit(FACET_LIMIT),
+      database.select({ value: jobPostings.jobType, label: jobPostings.jobType, count: count() })
+        .from(jobPostings)
+        .where(whereExcept(filters, "jobType"))
+        .groupBy(jobPostings.jobType)
+        .orderBy(desc(count())),
+      database.select({
+        value: sql<boolean>`${remote}`,
+        label: sql<string>`case when ${remote} then 'Remote' else 'On-site' end`,
+        count: count()
+      })
+        .from(jobPostings)
+        .where(whereExcept(filters, "remote"))
+        .groupBy(remote)
+        .orderBy(desc(count())),
+      database.select({ value: expertise.id, label: expertise.name, count: count(jobPostings.id) })
+        .from(expertise)
+        .innerJoin(jobPostings, mentions(expertise.name))
+        .where(whereExcept(filters, "expertise"))
+        .groupBy(expertise.id, expertise.name)
+        .orderBy(desc(count(jobPostings.id)), asc(expertise.name))
+        .limit(FACET_LIMIT),
+      database.select(rateRangeCounts(jobPostings.minCompensation, jobPostings.maxCompensation))
+        .from(jobPostings)
+        .where(whereExcept(filters, "rateRange"))
+    ]);
+
+    return {
+      items,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      facets: {
+        location: toFacetBuckets(location),
+        jobType: toFacetBuckets(jobType),
+        remote: toFacetBuckets(remoteFacet),
+        expertise: toFacetBuckets(expertiseFacet),
+        rateRange: toRateRangeBuckets(rateRange)
+      }
+    };
+  }
+
+  async searchProfessionalProfiles(query: ProfessionalSearchQuery): Promise<ProfessionalSearchResult> {
+    if (!db) {
+      console.warn("Database not available, using empty result for searchProfessionalProfiles");
+      return emptySearchResult(query, ["location", "industry", "expertise", "rateRange"]);
+    }
+    const database = db;
+
+    const document = professionalProfileSearchDocument(professionalProfiles);
+    const tsQuery = query.q ? sql`websearch_to_tsquery('english', ${query.q})` : undefined;
+    const experience = query.experience ? EXPERIENCE_LEVELS[query.experience] : undefined;
+    const years = sql`coalesce(${professionalProfiles.yearsExperience}, 0)`;
+
+    const filters: Record<string, SQL | undefined> = {
+      visible: eq(professionalProfiles.hidden, false),
+      q: tsQuery && sql`${document} @@ ${tsQuery}`,
+      location: query.location ? ilike(professionalProfiles.location, likePattern(query.location)) : undefined,
+      industry: query.industry?.length ? inArray(professionalProfiles.industryId, query.industry) : undefined,
+      expertise: query.expertise?.length
+        ? sql`exists (select 1 from ${professionalExpertise} where ${professionalExpertise.professionalId} = ${professionalProfiles.id} and ${inArray(professionalExpertise.expertiseId, query.expertise)})`
+        : undefined,
+      rateRange: sqlRangeOverlaps(professionalProfiles.ratePerHour, professionalProfiles.ratePerHour, query.minRate, query.maxRate),
+      experience: experience
+        ? and(sql`${years} >= ${experience.min}`, experience.max !== undefined ? sql`${years} <= ${experience.max}` : undefined)
+        : undefined
+    };
+    const where = whereExcept(filters);
+
+    const order = {
+      relevance: tsQuery ? [sql`ts_rank(${document}, ${tsQuery}) desc`] : [],
+      rating: [],
+      rate: [sql`${professionalProfiles.ratePerHour} desc nulls last`]
+    }[query.sort];
+
+    const [items, [{ total }], location, industry, expertiseFacet, [rateRange]] = await Promise.all([
+      database.select().from(professionalProfiles)
+        .where(where)
+        .orderBy(
+          ...order,
+          ...(query.sort === "rating" ? [] : [sql`coalesce(${professionalProfiles.featured}, false) desc`]),
+          sql`${professionalProfiles.rating} desc nulls last`,
+          asc(professionalProfiles.id)
+        )
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      database.select({ total: count() }).from(professionalProfiles).where(where),
+      database.select({ value: professionalProfiles.location, label: professionalProfiles.location, count: count() })
+        .from(professionalProfiles)
+        .where(and(whereExcept(filters, "location"), not(isNull(professionalProfiles.location))))
+        .groupBy(professionalProfiles.location)
+        .orderBy(desc(count()), asc(professionalProfiles.location))
+        .limit(FACET_LIMIT),
+      database.select({ value: professionalProfiles.industryId, label: industries.name, count: count() })
+        .from(professionalProfiles)
+        .innerJoin(industries, eq(professionalProfiles.industryId, industries.id))
+        .where(whereExcept(filters, "industry"))
+        .groupBy(professionalProfiles.industryId, industries.name)
+        .orderBy(desc(count()), asc(industries.name))
+        .limit(FACET_LIMIT),
+      database.select({ value: expertise.id, label: expertise.name, count: count() })
+        .from(professionalProfiles)
+        .innerJoin(professionalExpertise, eq(professionalExpertise.professionalId, professionalProfiles.id))
+        .innerJoin(expertise, eq(professionalExpertise.expertiseId, expertise.id))
+        .where(whereExcept(filters, "expertise"))
+        .groupBy(expertise.id, expertise.name)
+        .orderBy(desc(count()), asc(expertise.name))
+        .limit(FACET_LIMIT),
+      database.select(rateRangeCounts(professionalProfiles.ratePerHour, professionalProfiles.ratePerHour))
+        .from(professionalProfiles)
+        .where(whereExcept(filters, "rateRange"))
+    ]);
+
+    return {
+      items,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      facets: {
+        location: toFacetBuckets(location),
+        industry: toFacetBuckets(industry),
+        expertise: toFacetBuckets(expertiseFacet),
+        rateRange: toRateRangeBuckets(rateRange)
+      }
+    };
+  }
+
+  async searchResourceLibrary(query: ResourceSearchQuery): Promise<ResourceSearchResult> {
+    if (!db) {
+      console.warn("Database not available, using empty result for searchResourceLibrary");
+      return emptySearchResult(query, ["resourceType", "category"]);
+    }
+    const database = db;
+
+    const document = resourceSearchDocument(resources);
+    const tsQuery = query.q ? sql`websearch_to_tsquery('english', ${query.q})` : undefined;
+    const resourceType = sql`lower(trim(${resources.resourceType}))`;
+
+    const filters: Record<string, SQL | undefined> = {
+      visible: eq(resources.hidden, false),
+      q: tsQuery && sql`${document} @@ ${tsQuery}`,
+      resourceType: query.resourceType ? sql`${resourceType} = ${query.resourceType}` : undefined,
+      category: query.category?.length ? inArray(resources.categoryId, query.category) : undefined
+    };
+    const where = whereExcept(filters);
+
+    const [items, [{ total }], type, category] = await Promise.all([
+      database.select().from(resources)
+        .where(where)
+        .orderBy(
+          ...(query.sort === "relevance" && tsQuery ? [sql`ts_rank(${document}, ${tsQuery}) desc`] : []),
+          sql`coalesce(${resources.featured}, false) desc`,
+          desc(resources.createdAt)
+        )
+        .limit(query.pageSize)
+        .offset((query.page - 1) * query.pageSize),
+      database.select({ total: count() }).from(resources).where(where),
+      database.select({ value: sql<string>`${resourceType}`, label: sql<string>`${resourceType}`, count: count() })
+        .from(resources)
+        .where(whereExcept(filters, "resourceType"))
+        .groupBy(resourceType)
+        .orderBy(desc(count())),
+      database.select({ value: resources.categoryId, label: resourceCategories.name, count: count() })
+        .from(resources)
+        .innerJoin(resourceCategories, eq(resources.categoryId, resourceCategories.id))
+        .where(whereExcept(filters, "category"))
+        .groupBy(resources.categoryId, resourceCategories.name)
+        .orderBy(desc(count()), asc(resourceCategories.name))
+        .limit(FACET_LIMIT)
+    ]);
+
+    return {
+      items,
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+      facets: {
+        resourceType: toFacetBuckets(type),
+        category: toFacetBuckets(category)
+      }
+    };
+  }
+
   async getResourceCategory(id: number): Promise<ResourceCategory | undefined> {
     const [category] = await db
       .select()
@@ -3418,16 +4480,55 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(forumPosts.createdAt));
   }
 
+  async getForumPostsPage(query: ForumPostPageQuery): Promise<Page<ForumPost>> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getForumPostsPage");
+      return emptyPage();
+    }
+    const sort = FORUM_POST_PAGE_SORTS[query.sort];
+    const where = and(
+      eq(forumPosts.hidden, false),
+      query.query ? or(ilike(forumPosts.title, likePattern(query.query)), ilike(forumPosts.body, likePattern(query.query))) : undefined,
+      query.categoryId ? eq(forumPosts.categoryId, query.categoryId) : undefined,
+      query.tag ? sql`${query.tag} = any(${forumPosts.tags})` : undefined,
+      query.pinned !== undefined ? eq(forumPosts.pinned, query.pinned) : undefined
+    );
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({ ...getTableColumns(forumPosts), pageKey: sqlPageKey(sort) })
+        .from(forumPosts)
+        .where(and(where, sqlAfterCursor(sort, forumPosts.id, query.cursor)))
+        .orderBy(...sqlPageOrder(sort, forumPosts.id))
+        .limit(query.limit + 1),
+      db.select({ total: count() }).from(forumPosts).where(where)
+    ]);
+    return toDbPage(rows, total, query);
+  }
+
   async createForumPost(post: InsertForumPost): Promise<ForumPost> {
     const [createdPost] = await db.insert(forumPosts).values(post).returning();
     return createdPost;
   }
 
+  async deleteForumPost(id: number): Promise<boolean> {
+    if (!db) {
+      console.warn("Database not available, using empty result for deleteForumPost");
+      return false;
+    }
+    return db.transaction(async (tx) => {
+      await tx.delete(forumComments).where(eq(forumComments.postId, id));
+      const result = await tx
+        .delete(forumPosts)
+        .where(eq(forumPosts.id, id))
+        .returning({ id: forumPosts.id });
+      return result.length > 0;
+    });
+  }
+
   async getPostComments(postId: number): Promise<ForumComment[]> {
     return db
       .select()
       .from(forumComments)
-      .where(eq(forumComments.postId, postId))
+      .where(and(eq(forumComments.postId, postId), eq(forumComments.hidden, false)))
       .orderBy(asc(forumComments.createdAt));
   }
 
@@ -3453,6 +4554,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(messages.createdAt));
   }
 
+  async getUnthreadedMessages(): Promise<Message[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getUnthreadedMessages");
+      return [];
+    }
+
+    return db.select().from(messages).where(isNull(messages.conversationId));
+  }
+
   async getConversation(user1Id: number, user2Id: number): Promise<Message[]> {
     return db
       .select()
@@ -3477,6 +4587,13 @@ export class DatabaseStorage implements IStorage {
       .insert(messages)
       .values(message)
       .returning();
+
+    if (createdMessage.conversationId && db) {
+      await db
+        .update(conversations)
+        .set({ lastMessageAt: createdMessage.createdAt })
+        .where(eq(conversations.id, createdMessage.conversationId));
+    }
     return createdMessage;
   }
 
@@ -3489,6 +4606,173 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Conversation operations
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    if (!db) return undefined;
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getUserConversations(userId: number): Promise<ConversationSummary[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getUserConversations");
+      return [];
+    }
+
+    const memberships = await db
+      .select({ conversationId: conversationParticipants.conversationId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.userId, userId));
+    const conversationIds = memberships.map(m => m.conversationId);
+    if (conversationIds.length === 0) return [];
+
+    const [threads, participants, threadMessages] = await Promise.all([
+      db.select().from(conversations)
+        .where(inArray(conversations.id, conversationIds))
+        .orderBy(desc(conversations.lastMessageAt)),
+      db.select().from(conversationParticipants)
+        .where(inArray(conversationParticipants.conversationId, conversationIds)),
+      db.select().from(messages)
+        .where(inArray(messages.conversationId, conversationIds))
+        .orderBy(desc(messages.createdAt))
+    ]);
+
+    return threads.map(conversation => {
+      // Messages moderators hid are only previewed to their sender
+      const forThread = threadMessages.filter(msg =>
+        msg.conversationId === conversation.id && (!msg.hidden || msg.senderId === userId));
+      return {
+        ...conversation,
+        participantIds: participants
+          .filter(participant => participant.conversationId === conversation.id)
+          .map(participant => participant.userId),
+        lastMessage: forThread[0] || null,
+        unreadCount: forThread.filter(msg => msg.receiverId === userId && !msg.read).length
+      };
+    });
+  }
+
+  async findConversation(
+    participantIds: number[],
+    context: { jobPostingId?: number | null; consultationId?: number | null } = {}
+  ): Promise<Conversation | undefined> {
+    if (!db || participantIds.length === 0) return undefined;
+
+    const wanted = Array.from(new Set(participantIds)).sort().join(",");
+    const candidates = await db
+      .select({ conversation: conversations })
+      .from(conversations)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, conversations.id))
+      .where(and(
+        eq(conversationParticipants.userId, participantIds[0]),
+        context.jobPostingId ? eq(conversations.jobPostingId, context.jobPostingId) : isNull(conversations.jobPostingId),
+        context.consultationId ? eq(conversations.consultationId, context.consultationId) : isNull(conversations.consultationId)
+      ));
+
+    for (const { conversation } of candidates) {
+      const members = await this.getConversationParticipants(conversation.id);
+      if (members.map(m => m.userId).sort().join(",") === wanted) {
+        return conversation;
+      }
+    }
+    return undefined;
+  }
+
+  async createConversation(conversation: InsertConversation, participantIds: number[]): Promise<Conversation> {
+    if (!db) throw new Error("Database not available");
+
+    const [created] = await db.insert(conversations).values(conversation).returning();
+    await db.insert(conversationParticipants).values(
+      Array.from(new Set(participantIds)).map(userId => ({ conversationId: created.id, userId }))
+    );
+    return created;
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    if (!db) return [];
+    return db
+      .select()
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId));
+  }
+
+  async getConversationMessages(conversationId: number): Promise<MessageWithAttachments[]> {
+    if (!db) return [];
+
+    const threadMessages = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(asc(messages.createdAt));
+    if (threadMessages.length === 0) return [];
+
+    const attachments = await db
+      .select()
+      .from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, threadMessages.map(msg => msg.id)));
+
+    return threadMessages.map(msg => ({
+      ...msg,
+      attachments: attachments.filter(attachment => attachment.messageId === msg.id)
+    }));
+  }
+
+  async markConversationAsRead(conversationId: number, userId: number): Promise<Message[]> {
+    if (!db) return [];
+    return db
+      .update(messages)
+      .set({ read: true })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.receiverId, userId),
+        eq(messages.read, false)
+      ))
+      .returning();
+  }
+
+  async assignMessagesToConversation(conversationId: number, user1Id: number, user2Id: number): Promise<number> {
+    if (!db) return 0;
+    const updated = await db
+      .update(messages)
+      .set({ conversationId })
+      .where(and(
+        isNull(messages.conversationId),
+        or(
+          and(eq(messages.senderId, user1Id), eq(messages.receiverId, user2Id)),
+          and(eq(messages.senderId, user2Id), eq(messages.receiverId, user1Id))
+        )
+      ))
+      .returning({ id: messages.id });
+    return updated.length;
+  }
+
+  async createMessageAttachment(attachment: InsertMessageAttachment): Promise<MessageAttachment> {
+    if (!db) throw new Error("Database not available");
+    const [created] = await db.insert(messageAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async getMessageAttachment(id: number): Promise<MessageAttachment | undefined> {
+    if (!db) return undefined;
+    const [attachment] = await db
+      .select()
+      .from(messageAttachments)
+      .where(eq(messageAttachments.id, id));
+    return attachment;
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    if (!db) return undefined;
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message;
+  }
+
   // Consultation operations
   async getConsultation(id: number): Promise<Consultation | undefined> {
     const [consultation] = await db
@@ -3515,11 +4799,31 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createConsultation(consultation: InsertConsultation): Promise<Consultation> {
-    const [createdConsultation] = await db
-      .insert(consultations)
-      .values(consultation)
-      .returning();
-    return createdConsultation;
+    if (!db) throw new Error("Database not available");
+
+    // Serialize bookings per professional so two concurrent requests cannot both pass the overlap check
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${consultation.professionalId})`);
+
+      const overlapping = await tx
+        .select({ id: consultations.id })
+        .from(consultations)
+        .where(and(
+          eq(consultations.professionalId, consultation.professionalId),
+          ne(consultations.status, "cancelled"),
+          lt(consultations.startTime, consultation.endTime),
+          gt(consultations.endTime, consultation.startTime)
+        ));
+      if (overlapping.length > 0) {
+        throw new ConsultationConflictError();
+      }
+
+      const [createdConsultation] = await tx
+        .insert(consultations)
+        .values(consultation)
+        .returning();
+      return createdConsultation;
+    });
   }
 
   async updateConsultationStatus(
@@ -3534,6 +4838,108 @@ export class DatabaseStorage implements IStorage {
     return updatedConsultation;
   }
 
+  async getOverlappingConsultations(professionalId: number, startTime: Date, endTime: Date): Promise<Consultation[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getOverlappingConsultations");
+      return [];
+    }
+    return db
+      .select()
+      .from(consultations)
+      .where(and(
+        eq(consultations.professionalId, professionalId),
+        ne(consultations.status, "cancelled"),
+        lt(consultations.startTime, endTime),
+        gt(consultations.endTime, startTime)
+      ))
+      .orderBy(asc(consultations.startTime));
+  }
+
+  // Availability operations
+  async getAvailabilitySettings(professionalId: number): Promise<AvailabilitySettings | undefined> {
+    if (!db) return undefined;
+    const [settings] = await db
+      .select()
+      .from(availabilitySettings)
+      .where(eq(availabilitySettings.professionalId, professionalId));
+    return settings;
+  }
+
+  async upsertAvailabilitySettings(settings: InsertAvailabilitySettings): Promise<AvailabilitySettings> {
+    if (!db) throw new Error("Database not available");
+    const [saved] = await db
+      .insert(availabilitySettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: availabilitySettings.professionalId,
+        set: { timezone: settings.timezone, minNoticeHours: settings.minNoticeHours, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getAvailabilityRules(professionalId: number): Promise<AvailabilityRule[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getAvailabilityRules");
+      return [];
+    }
+    return db
+      .select()
+      .from(availabilityRules)
+      .where(eq(availabilityRules.professionalId, professionalId))
+      .orderBy(asc(availabilityRules.dayOfWeek), asc(availabilityRules.startTime));
+  }
+
+  async replaceAvailabilityRules(professionalId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]> {
+    if (!db) throw new Error("Database not available");
+    await db.transaction(async (tx) => {
+      await tx.delete(availabilityRules).where(eq(availabilityRules.professionalId, professionalId));
+      if (rules.length > 0) {
+        await tx.insert(availabilityRules).values(rules.map(rule => ({ ...rule, professionalId })));
+      }
+    });
+    return this.getAvailabilityRules(professionalId);
+  }
+
+  async getAvailabilityBlackouts(professionalId: number): Promise<AvailabilityBlackout[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getAvailabilityBlackouts");
+      return [];
+    }
+    return db
+      .select()
+      .from(availabilityBlackouts)
+      .where(eq(availabilityBlackouts.professionalId, professionalId))
+      .orderBy(asc(availabilityBlackouts.startDate));
+  }
+
+  async getAvailabilityBlackout(id: number): Promise<AvailabilityBlackout | undefined> {
+    if (!db) return undefined;
+    const [blackout] = await db
+      .select()
+      .from(availabilityBlackouts)
+      .where(eq(availabilityBlackouts.id, id));
+    return blackout;
+  }
+
+  async createAvailabilityBlackout(blackout: InsertAvailabilityBlackout): Promise<AvailabilityBlackout> {
+    if (!db) throw new Error("Database not available");
+    const [created] = await db
+      .insert(availabilityBlackouts)
+      .values(blackout)
+      .returning();
+    return created;
+  }
+
+  async deleteAvailabilityBlackout(id: number): Promise<boolean> {
+    if (!db) return false;
+    const deleted = await db
+      .delete(availabilityBlackouts)
+      .where(eq(availabilityBlackouts.id, id))
+      .returning({ id: availabilityBlackouts.id });
+    return deleted.length > 0;
+  }
+
   // Skill Recommendation operations
   async getSkillRecommendation(id: number): Promise<SkillRecommendation | undefined> {
     const [recommendation] = await db
@@ -3714,109 +5120,40 @@ export class DatabaseStorage implements IStorage {
   }
 
   // AI Matching operations
-  async getMatchingJobsForProfessional(professionalId: number, limit: number = 5): Promise<Array<{ job: JobPosting, score: number }>> {
-    try {
-      // Get the professional profile
-      const [professional] = await db.select().from(professionalProfiles)
-        .where(eq(professionalProfiles.id, professionalId));
-
-      if (!professional) {
-        return [];
-      }
-
-      // Get all open job postings
-      const jobs = await db.select().from(jobPostings)
-        .where(eq(jobPostings.status, "open"));
-
-      // Import AI services locally to avoid circular dependencies
-      const { calculateProfileJobMatchScore } = await import('./ai-services');
-
-      // Generate match scores using AI services
-      const matchPromises = jobs.map(async (job) => {
-        try {
-          // Calculate match score using AI embeddings with fallback
-          const score = await calculateProfileJobMatchScore(professional, job);
-          return { job, score };
-        } catch (error) {
-          console.error(`Error matching job ${job.id} with professional ${professionalId}:`, error);
-          // Return a very low score if there was an error
-          return { job, score: 0.01 };
-        }
-      });
-
-      // Resolve all match promises
-      const matches = await Promise.all(matchPromises);
-
-      // Sort by score (descending) and apply limit
-      return matches
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
-    } catch (error) {
-      console.error("Error getting matching jobs:", error);
+  async getJobMatches(filter: { jobId?: number; professionalId?: number }): Promise<JobMatch[]> {
+    if (!db) {
+      console.warn("Database not available, using empty result for getJobMatches");
       return [];
     }
-  }
-
-  async getMatchingProfessionalsForJob(jobId: number, limit: number = 5): Promise<Array<{ professional: ProfessionalProfile, score: number }>> {
-    try {
-      // Get the job posting
-      const [job] = await db.select().from(jobPostings)
-        .where(eq(jobPostings.id, jobId));
 
-      if (!job) {
-        return [];
-      }
-
-      // Get all professional profiles
-      const profiles = await db.select().from(professionalProfiles);
-      console.log(`Found ${profiles.length} professionals to evaluate for job: ${job.title}`);
-
-      if (profiles.length === 0) {
-        return [];
-      }
-
-      // Calculate match scores for each professional
-      const matches: Array<{ professional: ProfessionalProfile, score: number }> = [];
-
-      for (const profile of profiles) {
-        try {
-          const score = await calculateProfileJobMatchScore(profile, job);
-          console.log(`Match score for professional "${profile.title || profile.firstName}": ${(score * 100).toFixed(1)}%`);
-
-          matches.push({
-            professional: profile,
-            score
-          });
-        } catch (error) {
-          console.error(`Error calculating match score for professional ${profile.id}:`, error);
-          // Add with minimum score if calculation fails
-          matches.push({
-            professional: profile,
-            score: 0.2
-          });
-        }
-      }
-
-      // Sort by score (highest first) and return top matches
-      const topMatches = matches
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
+    const conditions: SQL[] = [];
+    if (filter.jobId !== undefined) conditions.push(eq(jobMatches.jobId, filter.jobId));
+    if (filter.professionalId !== undefined) conditions.push(eq(jobMatches.professionalId, filter.professionalId));
+    return db.select().from(jobMatches).where(and(...conditions));
+  }
 
-      console.log(`Returning top ${topMatches.length} matches for job ${jobId}`);
-      return topMatches;
-    } catch (error) {
-      console.error("Error getting matching professionals:", error);
-      return [];
+  async saveJobMatches(matches: InsertJobMatch[]): Promise<boolean> {
+    if (!db) {
+      console.warn("Database not available, cannot save job matches");
+      return false;
     }
-  }
+    if (matches.length === 0) return true;
 
-  async saveJobMatch(jobId: number, professionalId: number, score: number): Promise<boolean> {
     try {
-      // In a real implementation, we would add a job_matches table
-      // For now, this is a placeholder function since we're calculating scores on the fly
+      await db.insert(jobMatches)
+        .values(matches)
+        .onConflictDoUpdate({
+          target: [jobMatches.jobId, jobMatches.professionalId],
+          set: {
+            score: sql`excluded.score`,
+            breakdown: sql`excluded.breakdown`,
+            sourceHash: sql`excluded.source_hash`,
+            computedAt: new Date()
+          }
+        });
       return true;
     } catch (error) {
-      console.error("Error saving job match:", error);
+      console.error("Error saving job matches:", error);
       return false;
     }
   }
@@ -3857,7 +5194,7 @@ export class DatabaseStorage implements IStorage {
     return authToken;
   }
 
-  async validateAuthToken(token: string): Promise<User | undefined> {
+  async validateAuthToken(token: string, type?: string): Promise<User | undefined> {
     if (!db) {
       throw new Error('Database not initialized');
     }
@@ -3875,7 +5212,8 @@ export class DatabaseStorage implements IStorage {
           and(
             eq(authTokens.token, token),
             eq(authTokens.isRevoked, false),
-            sql`${authTokens.expiresAt} > NOW()`
+            sql`${authTokens.expiresAt} > NOW()`,
+            type ? eq(authTokens.type, type) : undefined
           )
         );
 
@@ -3898,6 +5236,25 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getUserAuthTokens(userId: number, type: string): Promise<AuthToken[]> {
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    return db
+      .select()
+      .from(authTokens)
+      .where(
+        and(
+          eq(authTokens.userId, userId),
+          eq(authTokens.type, type),
+          eq(authTokens.isRevoked, false),
+          sql`${authTokens.expiresAt} > NOW()`
+        )
+      )
+      .orderBy(desc(authTokens.createdAt));
+  }
+
   async revokeAuthToken(token: string): Promise<boolean> {
     if (!db) {
       throw new Error('Database not initialized');
@@ -0,0 +1,97 @@
+import Stripe from 'stripe';
+import type { PaymentEventHandler, PaymentProvider, ProviderRequestOptions } from './payment-provider';
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey, {
+      apiVersion: "2025-02-24.acacia",
+    });
+  }
+
+  createCustomer(params: Stripe.CustomerCreateParams) {
+    return this.stripe.customers.create(params);
+  }
+
+  createPaymentIntent(params: Stripe.PaymentIntentCreateParams, options?: ProviderRequestOptions) {
+    return this.stripe.paymentIntents.create(params, options);
+  }
+
+  retrievePaymentIntent(id: string) {
+    return this.stripe.paymentIntents.retrieve(id);
+  }
+
+  createSetupIntent(params: Stripe.SetupIntentCreateParams) {
+    return this.stripe.setupIntents.create(params);
+  }
+
+  retrieveSetupIntent(id: string) {
+    return this.stripe.setupIntents.retrieve(id);
+  }
+
+  async listPaymentMethods(customerId: string) {
+    const paymentMethods = await this.stripe.paymentMethods.list({ customer: customerId, type: 'card' });
+    return paymentMethods.data;
+  }
+
+  retrievePaymentMethod(id: string) {
+    return this.stripe.paymentMethods.retrieve(id);
+  }
+
+  detachPaymentMethod(id: string) {
+    return this.stripe.paymentMethods.detach(id);
+  }
+
+  createAccount(params: Stripe.AccountCreateParams) {
+    return this.stripe.accounts.create(params);
+  }
+
+  retrieveAccount(id: string) {
+    return this.stripe.accounts.retrieve(id);
+  }
+
+  createAccountLink(params: Stripe.AccountLinkCreateParams) {
+    return this.stripe.accountLinks.create(params);
+  }
+
+  createTransfer(params: Stripe.TransferCreateParams, options?: ProviderRequestOptions) {
+    return this.stripe.transfers.create(params, options);
+  }
+
+  createRefund(params: Stripe.RefundCreateParams, options?: ProviderRequestOptions) {
+    return this.stripe.refunds.create(params, options);
+  }
+
+  createProduct(params: Stripe.ProductCreateParams) {
+    return this.stripe.products.create(params);
+  }
+
+  createPrice(params: Stripe.PriceCreateParams) {
+    return this.stripe.prices.create(params);
+  }
+
+  createSubscription(params: Stripe.SubscriptionCreateParams) {
+    return this.stripe.subscriptions.create(params);
+  }
+
+  retrieveSubscription(id: string) {
+    return this.stripe.subscriptions.retrieve(id);
+  }
+
+  updateSubscription(id: string, params: Stripe.SubscriptionUpdateParams) {
+    return this.stripe.subscriptions.update(id, params);
+  }
+
+  cancelSubscription(id: string) {
+    return this.stripe.subscriptions.cancel(id);
+  }
+
+  constructWebhookEvent(payload: string | Buffer, signature: string, secret: string) {
+    return this.stripe.webhooks.constructEvent(payload, signature, secret);
+  }
+
+  // Stripe sends events to the webhook routes instead
+  onEvent(_handler: PaymentEventHandler) {}
+}
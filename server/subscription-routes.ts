@@ -1,14 +1,14 @@
 import type { Express } from "express";
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { subscriptionService } from "./subscription-service";
+import { paymentService } from "./payment-service";
+import { paymentProvider } from "./payment-provider";
+import { getUsageSummary } from "./feature-gate";
+import { requirePermission } from "./access-policy";
 import { db } from "./db";
 import { subscriptionPlans, userSubscriptions, users } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: "2025-02-24.acacia",
-});
-
 export function registerSubscriptionRoutes(app: Express) {
   const bypassCSRF = (req: any, res: any, next: any) => {
     console.log(`CSRF protection bypassed for ${req.method} ${req.path}`);
@@ -22,13 +22,6 @@ export function registerSubscriptionRoutes(app: Express) {
     next();
   };
 
-  const isAdmin = (req: any, res: any, next: any) => {
-    if (!req.user || !req.user.isAdmin) {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-    next();
-  };
-
   // Get all subscription plans
   app.get("/api/subscription-plans", async (req, res) => {
     try {
@@ -67,6 +60,17 @@ export function registerSubscriptionRoutes(app: Express) {
     }
   });
 
+  // Usage of the current plan's limits in the current usage period
+  app.get("/api/my-subscription/usage", isAuthenticated, async (req, res) => {
+    try {
+      const summary = await getUsageSummary(req.user!.id);
+      res.json(summary);
+    } catch (error: any) {
+      console.error("Error fetching subscription usage:", error);
+      res.status(500).json({ message: "Failed to fetch usage" });
+    }
+  });
+
   // Create subscription setup intent
   app.post("/api/create-subscription", bypassCSRF, isAuthenticated, async (req, res) => {
     try {
@@ -161,8 +165,7 @@ export function registerSubscriptionRoutes(app: Express) {
       }
 
       // Reactivate in Stripe
-
-      await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      await paymentProvider.updateSubscription(subscription.stripeSubscriptionId, {
         cancel_at_period_end: false
       });
 
@@ -250,7 +253,7 @@ export function registerSubscriptionRoutes(app: Express) {
       }
 
       // Create Stripe subscription
-      const subscription = await stripe.subscriptions.create({
+      const subscription = await paymentProvider.createSubscription({
         customer: customerId,
         items: [{ price: stripePriceId }],
         payment_behavior: 'default_incomplete',
@@ -300,7 +303,7 @@ export function registerSubscriptionRoutes(app: Express) {
         `${user.firstName} ${user.lastName}`
       );
 
-      const setupIntent = await stripe.setupIntents.create({
+      const setupIntent = await paymentProvider.createSetupIntent({
         customer: customerId,
         usage: 'off_session',
         payment_method_types: ['card'],
@@ -316,10 +319,6 @@ export function registerSubscriptionRoutes(app: Express) {
   // Get user's payment methods
   app.get("/api/payment-methods", isAuthenticated, async (req, res) => {
     try {
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-        apiVersion: "2024-12-18.acacia",
-      });
-
       const database = await db;
       if (!database) {
         throw new Error('Database not initialized');
@@ -334,12 +333,9 @@ export function registerSubscriptionRoutes(app: Express) {
         return res.json([]);
       }
 
-      const paymentMethods = await stripe.paymentMethods.list({
-        customer: user.stripeCustomerId,
-        type: 'card',
-      });
+      const paymentMethods = await paymentProvider.listPaymentMethods(user.stripeCustomerId);
 
-      res.json(paymentMethods.data);
+      res.json(paymentMethods);
     } catch (error: any) {
       console.error("Error fetching payment methods:", error);
       res.status(500).json({ message: "Failed to fetch payment methods" });
@@ -350,12 +346,8 @@ export function registerSubscriptionRoutes(app: Express) {
   app.delete("/api/payment-methods/:paymentMethodId", isAuthenticated, async (req, res) => {
     try {
       const { paymentMethodId } = req.params;
-      
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-        apiVersion: "2024-12-18.acacia",
-      });
 
-      await stripe.paymentMethods.detach(paymentMethodId);
+      await paymentProvider.detachPaymentMethod(paymentMethodId);
       res.json({ message: "Payment method removed successfully" });
     } catch (error: any) {
       console.error("Error removing payment method:", error);
@@ -375,11 +367,7 @@ export function registerSubscriptionRoutes(app: Express) {
     let event: Stripe.Event;
 
     try {
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-        apiVersion: "2024-12-18.acacia",
-      });
-
-      event = stripe.webhooks.constructEvent(req.body, sig, process.env.STRIPE_WEBHOOK_SECRET);
+      event = paymentProvider.constructWebhookEvent(req.body, sig, process.env.STRIPE_WEBHOOK_SECRET);
     } catch (err: any) {
       console.error("Webhook signature verification failed:", err.message);
       return res.status(400).send(`Webhook Error: ${err.message}`);
@@ -387,6 +375,7 @@ export function registerSubscriptionRoutes(app: Express) {
 
     try {
       await subscriptionService.handleWebhook(event);
+      await paymentService.handleWebhookEvent(event);
       res.json({ received: true });
     } catch (error: any) {
       console.error("Error handling webhook:", error);
@@ -395,7 +384,7 @@ export function registerSubscriptionRoutes(app: Express) {
   });
 
   // Admin: Get all subscriptions
-  app.get("/api/admin/subscriptions", isAdmin, async (req, res) => {
+  app.get("/api/admin/subscriptions", requirePermission("subscriptions.view"), async (req, res) => {
     try {
       const database = await db;
       if (!database) {
@@ -427,7 +416,7 @@ export function registerSubscriptionRoutes(app: Express) {
   });
 
   // Admin: Get subscription analytics
-  app.get("/api/admin/subscription-analytics", isAdmin, async (req, res) => {
+  app.get("/api/admin/subscription-analytics", requirePermission("subscriptions.view"), async (req, res) => {
     try {
       const database = await db;
       if (!database) {
@@ -1,5 +1,6 @@
-import Stripe from "stripe";
+import type Stripe from "stripe";
 import { db } from "./db";
+import { paymentProvider } from "./payment-provider";
 import { 
   subscriptionPlans, 
   userSubscriptions, 
@@ -13,14 +14,6 @@ import {
 import { eq, and } from "drizzle-orm";
 
 console.log("this is db",process.env.DATABASE_URL);
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: "2025-02-24.acacia",
-});
-
 export class SubscriptionService {
   private async getDb() {
     if (!db) {
@@ -273,7 +266,7 @@ export class SubscriptionService {
     for (const plan of plans) {
       try {
         // Create Stripe product
-        const product = await stripe.products.create({
+        const product = await paymentProvider.createProduct({
           name: `L&D Nexus ${plan.name}`,
           description: plan.description || `${plan.name} subscription plan`,
           metadata: {
@@ -283,7 +276,7 @@ export class SubscriptionService {
         });
 
         // Create monthly price USD
-        const monthlyPriceUSD = await stripe.prices.create({
+        const monthlyPriceUSD = await paymentProvider.createPrice({
           product: product.id,
           unit_amount: plan.priceMonthlyUSD,
           currency: 'usd',
@@ -296,7 +289,7 @@ export class SubscriptionService {
         });
 
         // Create yearly price USD
-        const yearlyPriceUSD = await stripe.prices.create({
+        const yearlyPriceUSD = await paymentProvider.createPrice({
           product: product.id,
           unit_amount: plan.priceYearlyUSD,
           currency: 'usd',
@@ -309,7 +302,7 @@ export class SubscriptionService {
         });
 
         // Create monthly price AED
-        const monthlyPriceAED = await stripe.prices.create({
+        const monthlyPriceAED = await paymentProvider.createPrice({
           product: product.id,
           unit_amount: plan.priceMonthlyAED,
           currency: 'aed',
@@ -322,7 +315,7 @@ export class SubscriptionService {
         });
 
         // Create yearly price AED
-        const yearlyPriceAED = await stripe.prices.create({
+        const yearlyPriceAED = await paymentProvider.createPrice({
           product: product.id,
           unit_amount: plan.priceYearlyAED,
           currency: 'aed',
@@ -376,7 +369,7 @@ export class SubscriptionService {
     }
 
     // Create new Stripe customer
-    const customer = await stripe.customers.create({
+    const customer = await paymentProvider.createCustomer({
       email,
       name,
       metadata: {
@@ -442,7 +435,7 @@ export class SubscriptionService {
     }
 
     // Create subscription with incomplete status
-    const subscription = await stripe.subscriptions.create({
+    const subscription = await paymentProvider.createSubscription({
       customer: customerId,
       items: [{ price: priceId }],
       payment_behavior: 'default_incomplete',
@@ -545,7 +538,7 @@ export class SubscriptionService {
       subscriptionParams.default_payment_method = data.paymentMethodId;
     }
 
-    const subscription = await stripe.subscriptions.create(subscriptionParams);
+    const subscription = await paymentProvider.createSubscription(subscriptionParams);
 
     // Store subscription in database
     const subscriptionData: InsertUserSubscription = {
@@ -630,9 +623,9 @@ export class SubscriptionService {
     }
 
     // Update Stripe subscription
-    const stripeSubscription = await stripe.subscriptions.retrieve(currentSubscription.stripeSubscriptionId);
+    const stripeSubscription = await paymentProvider.retrieveSubscription(currentSubscription.stripeSubscriptionId);
     
-    await stripe.subscriptions.update(currentSubscription.stripeSubscriptionId, {
+    await paymentProvider.updateSubscription(currentSubscription.stripeSubscriptionId, {
       items: [{
         id: stripeSubscription.items.data[0].id,
         price: newPriceId,
@@ -667,11 +660,11 @@ export class SubscriptionService {
 
     // Update Stripe subscription
     if (cancelAtPeriodEnd) {
-      await stripe.subscriptions.update(currentSubscription.stripeSubscriptionId, {
+      await paymentProvider.updateSubscription(currentSubscription.stripeSubscriptionId, {
         cancel_at_period_end: true
       });
     } else {
-      await stripe.subscriptions.cancel(currentSubscription.stripeSubscriptionId);
+      await paymentProvider.cancelSubscription(currentSubscription.stripeSubscriptionId);
     }
 
     // Update database
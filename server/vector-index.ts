@@ -0,0 +1,108 @@
+// In-memory approximate nearest-neighbour search by cosine similarity, used for embeddings when
+// they are not in Postgres (where the pgvector HNSW index does this job).
+//
+// Random-hyperplane LSH: every table hashes a vector to the sides of `bits` random hyperplanes it
+// lies on, so vectors at a small angle tend to land in the same bucket. A query compares itself
+// exactly with the vectors sharing a bucket with it in any table, and falls back to scanning
+// every vector when the buckets hold fewer than it asked for.
+
+export interface VectorMatch {
+  id: number;
+  similarity: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  return magnitudeA === 0 || magnitudeB === 0 ? 0 : dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+}
+
+// Seeded, so the hyperplanes and therefore the buckets are the same on every run
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export class VectorIndex {
+  private vectors = new Map<number, number[]>();
+  private planes: number[][][];
+  private buckets: Map<string, Set<number>>[];
+
+  constructor(private dimensions: number, tables = 8, private bits = 12, seed = 42) {
+    const random = seededRandom(seed);
+    this.planes = Array.from({ length: tables }, () =>
+      Array.from({ length: bits }, () => Array.from({ length: dimensions }, () => random() * 2 - 1)));
+    this.buckets = Array.from({ length: tables }, () => new Map<string, Set<number>>());
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  get(id: number): number[] | undefined {
+    return this.vectors.get(id);
+  }
+
+  set(id: number, vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a vector of ${this.dimensions} dimensions, got ${vector.length}`);
+    }
+    this.delete(id);
+    this.vectors.set(id, vector);
+    this.planes.forEach((planes, table) => {
+      const key = this.signature(planes, vector);
+      const bucket = this.buckets[table].get(key) ?? new Set<number>();
+      bucket.add(id);
+      this.buckets[table].set(key, bucket);
+    });
+  }
+
+  delete(id: number): void {
+    const vector = this.vectors.get(id);
+    if (!vector) return;
+    this.vectors.delete(id);
+    this.planes.forEach((planes, table) => {
+      const key = this.signature(planes, vector);
+      const bucket = this.buckets[table].get(key);
+      bucket?.delete(id);
+      if (bucket?.size === 0) this.buckets[table].delete(key);
+    });
+  }
+
+  // The `limit` most similar vectors, most similar first; only ids in `among` when it is given
+  nearest(vector: number[], limit: number, among?: Set<number>): VectorMatch[] {
+    const allowed = (id: number) => !among || among.has(id);
+    const candidates = new Set<number>();
+    this.planes.forEach((planes, table) => {
+      this.buckets[table].get(this.signature(planes, vector))?.forEach(id => {
+        if (allowed(id)) candidates.add(id);
+      });
+    });
+    const ids = candidates.size >= limit ? Array.from(candidates) : Array.from(this.vectors.keys()).filter(allowed);
+
+    return ids
+      .map(id => ({ id, similarity: cosineSimilarity(vector, this.vectors.get(id)!) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  private signature(planes: number[][], vector: number[]): string {
+    let key = "";
+    for (let bit = 0; bit < this.bits; bit++) {
+      let side = 0;
+      for (let i = 0; i < vector.length; i++) side += planes[bit][i] * vector[i];
+      key += side >= 0 ? "1" : "0";
+    }
+    return key;
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+// The admin console's overview metrics and bulk actions
+
+export const ADMIN_BULK_ACTIONS = {
+  users: ["suspend", "reactivate", "delete"],
+  professionalProfiles: ["verify", "unverify", "feature", "unfeature", "delete"],
+  companyProfiles: ["verify", "unverify", "feature", "unfeature", "delete"],
+  jobPostings: ["feature", "unfeature", "close", "delete"],
+  resources: ["feature", "unfeature", "delete"],
+  forumPosts: ["pin", "unpin", "lock", "unlock", "delete"],
+} as const;
+
+export type AdminEntity = keyof typeof ADMIN_BULK_ACTIONS;
+
+export type AdminBulkAction<E extends AdminEntity = AdminEntity> = typeof ADMIN_BULK_ACTIONS[E][number];
+
+export const ADMIN_ENTITIES = Object.keys(ADMIN_BULK_ACTIONS) as [AdminEntity, ...AdminEntity[]];
+
+export const MAX_BULK_ACTION_IDS = 100;
+
+export const adminBulkActionSchema = z.object({
+  entity: z.enum(ADMIN_ENTITIES),
+  action: z.string(),
+  ids: z.array(z.number().int().positive()).min(1).max(MAX_BULK_ACTION_IDS),
+}).refine(
+  ({ entity, action }) => (ADMIN_BULK_ACTIONS[entity] as readonly string[]).includes(action),
+  { message: "This action is not available for these records", path: ["action"] }
+);
+
+export type AdminBulkActionInput = z.infer<typeof adminBulkActionSchema>;
+
+// Each record is acted on separately, so some can fail while the rest succeed
+export interface AdminBulkActionResult {
+  succeeded: number[];
+  failed: Array<{ id: number; message: string }>;
+}
+
+export interface AdminMetrics {
+  users: {
+    total: number;
+    professionals: number;
+    companies: number;
+    admins: number;
+    suspended: number;
+    newLast30Days: number;
+  };
+  professionalProfiles: { total: number; verified: number; featured: number };
+  companyProfiles: { total: number; verified: number; featured: number };
+  jobPostings: { total: number; open: number; featured: number };
+  jobApplications: number;
+  resources: { total: number; featured: number };
+  forumPosts: number;
+  subscriptions: {
+    active: number;
+    trialing: number;
+    pastDue: number;
+    // In cents and fils; yearly subscriptions count as a twelfth of their price
+    monthlyRecurringRevenue: { USD: number; AED: number };
+  };
+  // Sign-ups per UTC day over the last 30 days, oldest first, including days without any
+  signups: Array<{ date: string; count: number }>;
+}
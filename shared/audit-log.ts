@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from "./pagination";
+
+// The admin audit log: one entry per privileged request, written by the audit middleware
+
+// The kinds of record an admin request can act on; entries for other requests have no target
+export const AUDIT_TARGET_TYPES = [
+  "users",
+  "professionalProfiles",
+  "companyProfiles",
+  "jobPostings",
+  "resources",
+  "resourceCategories",
+  "expertise",
+  "forumPosts",
+  "escrowDisputes",
+  "escrowTransactions",
+  "subscriptions",
+  "auditLogs",
+] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+// Fields of the target that the request changed. Created records have every field with a null
+// `before`, deleted ones every field with a null `after`.
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Shown in place of secrets such as password hashes and tokens
+export const REDACTED_VALUE = "[redacted]";
+
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "json"] as const;
+
+export const auditLogFilterSchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  // Matches part of the action, e.g. "DELETE" or "/users"
+  action: z.string().trim().max(200).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  targetId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Newest entries first
+export const auditLogPageQuerySchema = auditLogFilterSchema.extend({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+});
+
+export const auditLogExportQuerySchema = auditLogFilterSchema.extend({
+  format: z.enum(AUDIT_EXPORT_FORMATS).default("csv"),
+});
+
+export type AuditLogFilter = z.infer<typeof auditLogFilterSchema>;
+export type AuditLogPageQuery = z.infer<typeof auditLogPageQuerySchema>;
+export type AuditLogExportQuery = z.infer<typeof auditLogExportQuerySchema>;
@@ -0,0 +1,102 @@
+import { z } from "zod";
+import type { ForumPost } from "./schema";
+
+// The community forum: threads in categories, with tags, markdown bodies, nested replies and
+// upvotes. Bodies are stored as the markdown the author wrote and rendered without HTML.
+
+// Created at startup when missing; the slug is what links and filters use
+export const DEFAULT_FORUM_CATEGORIES = [
+  { slug: "discussion", name: "Discussions", description: "Share ideas and talk shop with other L&D professionals", position: 0 },
+  { slug: "question", name: "Questions", description: "Ask the community and accept the answer that helped", position: 1 },
+  { slug: "resource", name: "Resources", description: "Recommend tools, templates, courses and reading", position: 2 },
+] as const;
+
+export const MAX_FORUM_TAGS = 5;
+
+// Replies nest visually up to this depth; deeper replies are shown at it
+export const MAX_REPLY_DEPTH = 5;
+
+// Lowercase words joined by hyphens, e.g. "instructional-design"
+const forumTagSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Tags can only use letters, numbers and hyphens")
+  .min(2, "Tags must be at least 2 characters")
+  .max(30, "Tags must not exceed 30 characters");
+
+// Line endings are normalized so edits diff cleanly; control characters other than tabs and newlines are dropped
+const markdownSchema = (min: number, max: number, name: string) => z.string()
+  .transform(value => value.replace(/\r\n?/g, "\n").replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, "").trim())
+  .pipe(z.string()
+    .min(min, `${name} must be at least ${min} ${min === 1 ? "character" : "characters"}`)
+    .max(max, `${name} must not exceed ${max} characters`));
+
+export const forumPostInputSchema = z.object({
+  title: z.string().trim()
+    .min(5, "Title must be at least 5 characters")
+    .max(150, "Title must not exceed 150 characters"),
+  body: markdownSchema(10, 20000, "Post"),
+  categoryId: z.number().int().positive(),
+  tags: z.array(forumTagSchema)
+    .max(MAX_FORUM_TAGS, `Add at most ${MAX_FORUM_TAGS} tags`)
+    .default([])
+    .transform(tags => Array.from(new Set(tags))),
+});
+
+export const updateForumPostSchema = forumPostInputSchema.partial();
+
+export const forumReplyInputSchema = z.object({
+  body: markdownSchema(1, 10000, "Reply"),
+  // The reply being answered; top-level replies answer the post
+  parentId: z.number().int().positive().optional(),
+});
+
+export const updateForumReplySchema = forumReplyInputSchema.pick({ body: true });
+
+// null takes the accepted answer back
+export const acceptedAnswerSchema = z.object({
+  replyId: z.number().int().positive().nullable(),
+});
+
+export type ForumPostInput = z.infer<typeof forumPostInputSchema>;
+export type UpdateForumPostInput = z.infer<typeof updateForumPostSchema>;
+export type ForumReplyInput = z.infer<typeof forumReplyInputSchema>;
+
+// A post with whether the signed-in user has upvoted it
+export type ForumPostForViewer = ForumPost & { viewerHasVoted: boolean };
+
+export interface ForumCategoryWithCount {
+  id: number;
+  slug: string;
+  name: string;
+  description: string | null;
+  postCount: number;
+}
+
+export interface ForumTagCount {
+  tag: string;
+  count: number;
+}
+
+// A reply with the replies to it. Deleted and hidden replies stay in the tree, without their
+// body, while they have replies of their own.
+export interface ForumReplyNode {
+  id: number;
+  postId: number;
+  parentId: number | null;
+  authorId: number;
+  body: string;
+  voteCount: number;
+  viewerHasVoted: boolean;
+  deleted: boolean;
+  hidden: boolean;
+  accepted: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+  replies: ForumReplyNode[];
+}
+
+export interface ForumVoteResult {
+  voted: boolean;
+  voteCount: number;
+}
@@ -0,0 +1,54 @@
+import type { JobPosting, JobSearchCriteria } from "./schema";
+
+type SearchableJob = Pick<
+  JobPosting,
+  "title" | "description" | "requirements" | "location" | "jobType" | "remote" | "minCompensation" | "maxCompensation" | "status" | "archived"
+>;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Whether a job satisfies a saved search or the jobs page filters. Used by the jobs page and by
+// job alerts, so a search returns the same jobs it alerts about.
+// - keywords: every word appears in the title, description, requirements or location
+// - expertise: the job text mentions at least one of the expertise names; jobs are not tagged
+//   with expertise, so the caller passes the names for criteria.expertiseIds
+// - compensation: the job's range overlaps the searched one; jobs without compensation only
+//   match searches without a range. Units are not converted.
+export function matchesJobSearch(job: SearchableJob, criteria: JobSearchCriteria, expertiseNames: string[] = []): boolean {
+  if (job.status !== "open" || job.archived) return false;
+
+  const text = normalize([job.title, job.description, job.requirements, job.location].join(" "));
+
+  const keywords = normalize(criteria.keywords ?? "").split(/\s+/).filter(Boolean);
+  if (!keywords.every(keyword => text.includes(keyword))) return false;
+
+  if (criteria.location && !normalize(job.location).includes(normalize(criteria.location))) return false;
+  if (criteria.remote && !job.remote) return false;
+  if (criteria.jobType && job.jobType !== criteria.jobType) return false;
+
+  const jobMin = job.minCompensation ?? job.maxCompensation;
+  const jobMax = job.maxCompensation ?? job.minCompensation;
+  if (criteria.minCompensation !== undefined && (jobMax == null || jobMax < criteria.minCompensation)) return false;
+  if (criteria.maxCompensation !== undefined && (jobMin == null || jobMin > criteria.maxCompensation)) return false;
+
+  if (expertiseNames.length > 0 && !expertiseNames.some(name => text.includes(normalize(name)))) return false;
+
+  return true;
+}
+
+// Drops empty values so equal searches compare and serialize the same way
+export function compactJobSearchCriteria(criteria: JobSearchCriteria): JobSearchCriteria {
+  const compact: JobSearchCriteria = {};
+  if (criteria.keywords?.trim()) compact.keywords = criteria.keywords.trim();
+  if (criteria.location?.trim()) compact.location = criteria.location.trim();
+  if (criteria.remote) compact.remote = true;
+  if (criteria.jobType) compact.jobType = criteria.jobType;
+  if (criteria.minCompensation !== undefined) compact.minCompensation = criteria.minCompensation;
+  if (criteria.maxCompensation !== undefined) compact.maxCompensation = criteria.maxCompensation;
+  if (criteria.expertiseIds?.length) compact.expertiseIds = criteria.expertiseIds;
+  return compact;
+}
+
+export function isEmptyJobSearch(criteria: JobSearchCriteria): boolean {
+  return Object.keys(compactJobSearchCriteria(criteria)).length === 0;
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// The AI writing assistant on the job post form: drafting a posting from a short brief, and
+// checking a draft for exclusionary or unclear wording.
+
+export const jobBriefSchema = z.object({
+  role: z.string().trim().min(2, "Describe the role").max(200),
+  audience: z.string().trim().max(200).default(""),
+  duration: z.string().trim().max(100).default(""),
+  budget: z.string().trim().max(100).default(""),
+  remote: z.boolean().default(false),
+});
+
+export type JobBrief = z.infer<typeof jobBriefSchema>;
+
+export interface JobDraft {
+  title: string;
+  description: string;
+  // Comma-separated, as the job post form expects
+  requirements: string;
+  // Only tags from the expertise table; the model's other suggestions are dropped
+  suggestedExpertise: Array<{ id: number; name: string }>;
+}
+
+export const JOB_DRAFT_FIELDS = ["title", "description", "requirements"] as const;
+
+export type JobDraftField = typeof JOB_DRAFT_FIELDS[number];
+
+export const jobDraftCheckSchema = z.object({
+  title: z.string().max(200).default(""),
+  description: z.string().max(20000).default(""),
+  requirements: z.string().max(5000).default(""),
+});
+
+export type JobDraftCheckInput = z.infer<typeof jobDraftCheckSchema>;
+
+export const LANGUAGE_ISSUE_CATEGORIES = ["inclusive", "clarity"] as const;
+
+export type LanguageIssueCategory = typeof LANGUAGE_ISSUE_CATEGORIES[number];
+
+export interface LanguageIssue {
+  field: JobDraftField;
+  // The phrase as written in the field, starting at `start`
+  phrase: string;
+  start: number;
+  category: LanguageIssueCategory;
+  explanation: string;
+  // Replacement wording, or null when the phrase is best removed or rewritten by hand
+  suggestion: string | null;
+}
+
+export interface LanguageCheckResult {
+  issues: LanguageIssue[];
+  // False when only the built-in word lists ran because the AI provider could not be reached
+  aiReviewed: boolean;
+}
@@ -0,0 +1,29 @@
+// Breakdown of a job-professional match score, returned with every match so the UI can show why
+// a professional ranks where they do.
+
+export const MATCH_FACTORS = ["semantic", "expertise", "experience", "location", "rate", "certifications", "rating"] as const;
+
+export type MatchFactor = typeof MATCH_FACTORS[number];
+
+export const MATCH_FACTOR_LABELS: Record<MatchFactor, string> = {
+  semantic: "Profile and job description",
+  expertise: "Expertise",
+  experience: "Experience",
+  location: "Location",
+  rate: "Rate",
+  certifications: "Certifications",
+  rating: "Client rating",
+};
+
+export interface MatchFactorScore {
+  factor: MatchFactor;
+  // 0-1, or null when the factor does not apply, e.g. the job names no compensation. Factors that
+  // do not apply are left out of the total and the other weights grow to fill in.
+  score: number | null;
+  // Share of the total this factor was given, after leaving out the ones that do not apply
+  weight: number;
+  // score * weight; the contributions add up to the match score
+  contribution: number;
+  // Human-readable explanation, e.g. "Has 3 of the 4 expertise areas the job mentions"
+  detail: string;
+}
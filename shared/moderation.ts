@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+// User reports of content and what moderators do about them. Reports on the same content are
+// handled together: the queue shows one item per reported target.
+
+export const REPORT_TARGET_TYPES = [
+  "forumPost",
+  "forumComment",
+  "review",
+  "resource",
+  "message",
+  "professionalProfile",
+  "companyProfile",
+] as const;
+
+export type ReportTargetType = typeof REPORT_TARGET_TYPES[number];
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  forumPost: "Forum post",
+  forumComment: "Forum comment",
+  review: "Review",
+  resource: "Resource",
+  message: "Message",
+  professionalProfile: "Professional profile",
+  companyProfile: "Company profile",
+};
+
+export const REPORT_REASONS = [
+  "spam",
+  "harassment",
+  "hate_speech",
+  "fake_or_misleading",
+  "inappropriate",
+  "copyright",
+  "other",
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam or advertising",
+  harassment: "Harassment or bullying",
+  hate_speech: "Hate speech",
+  fake_or_misleading: "Fake or misleading",
+  inappropriate: "Inappropriate or offensive",
+  copyright: "Copyright or stolen work",
+  other: "Something else",
+};
+
+// open until a moderator acts; dismissed when the content is restored or left up
+export const REPORT_STATUSES = ["open", "actioned", "dismissed"] as const;
+
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+// warn and ban also hide the content; auto_hide is recorded when reports reach the threshold
+export const MODERATION_ACTIONS = ["hide", "restore", "warn", "ban"] as const;
+
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+
+export type ModerationHistoryAction = ModerationAction | "auto_hide";
+
+export const MODERATION_ACTION_LABELS: Record<ModerationHistoryAction, string> = {
+  hide: "Hidden",
+  restore: "Restored",
+  warn: "Hidden and author warned",
+  ban: "Hidden and author suspended",
+  auto_hide: "Hidden automatically",
+};
+
+export const createReportSchema = z.object({
+  targetType: z.enum(REPORT_TARGET_TYPES),
+  targetId: z.number().int().positive(),
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(1000).optional(),
+}).refine(report => report.reason !== "other" || !!report.details, {
+  message: "Tell us what is wrong with this content",
+  path: ["details"],
+});
+
+export const moderationActionSchema = z.object({
+  action: z.enum(MODERATION_ACTIONS),
+  // Sent to the author with a warning, and kept in the moderation history
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const moderationQueueQuerySchema = z.object({
+  // open: targets with reports waiting for a moderator; closed: recently resolved ones
+  status: z.enum(["open", "closed"]).default("open"),
+  targetType: z.enum(REPORT_TARGET_TYPES).optional(),
+});
+
+export type CreateReportInput = z.infer<typeof createReportSchema>;
+export type ModerationActionInput = z.infer<typeof moderationActionSchema>;
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+
+export interface ModerationQueueReport {
+  id: number;
+  reporterId: number;
+  reporterUsername: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  createdAt: string;
+}
+
+// One reported target with its reports, oldest report first
+export interface ModerationQueueItem {
+  targetType: ReportTargetType;
+  targetId: number;
+  // A short excerpt of the content, or null when it has since been deleted
+  summary: string | null;
+  link: string | null;
+  ownerId: number | null;
+  ownerUsername: string | null;
+  hidden: boolean;
+  openReports: number;
+  reports: ModerationQueueReport[];
+  lastAction: { action: ModerationHistoryAction; moderatorId: number | null; note: string | null; createdAt: string } | null;
+}
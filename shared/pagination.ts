@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// Query strings and responses of the cursor-paginated list endpoints. Cursors are opaque: to
+// get the next page, send back the previous page's nextCursor with the same sort and filters.
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface Page<T> {
+  items: T[];
+  // null on the last page
+  nextCursor: string | null;
+  // Rows on all pages together
+  total: number;
+}
+
+export const JOB_POSTING_SORTS = ["newest", "oldest", "title"] as const;
+export const PROFESSIONAL_PROFILE_SORTS = ["newest", "rating", "rate"] as const;
+export const RESOURCE_SORTS = ["newest", "oldest", "title"] as const;
+// hot ranks by votes and replies, discounted by age; top by votes alone
+export const FORUM_POST_SORTS = ["hot", "new", "top"] as const;
+export const USER_SORTS = ["newest", "oldest", "username"] as const;
+export const NOTIFICATION_SORTS = ["newest", "oldest"] as const;
+
+// The first sort is the default
+const pageQuerySchema = <S extends readonly [string, ...string[]]>(sorts: S) => z.object({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+  sort: z.enum(sorts).default(sorts[0]),
+});
+
+export const jobPostingPageQuerySchema = pageQuerySchema(JOB_POSTING_SORTS);
+export const professionalProfilePageQuerySchema = pageQuerySchema(PROFESSIONAL_PROFILE_SORTS);
+export const resourcePageQuerySchema = pageQuerySchema(RESOURCE_SORTS).extend({
+  query: z.string().trim().max(200).optional(),
+  type: z.string().trim().toLowerCase().max(50).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+});
+export const forumPostPageQuerySchema = pageQuerySchema(FORUM_POST_SORTS).extend({
+  query: z.string().trim().max(200).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  tag: z.string().trim().toLowerCase().max(30).optional(),
+  // Pinned threads are listed apart from the rest, above them
+  pinned: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+export const userPageQuerySchema = pageQuerySchema(USER_SORTS).extend({
+  userType: z.enum(["professional", "company", "admin"]).optional(),
+});
+export const notificationPageQuerySchema = pageQuerySchema(NOTIFICATION_SORTS).extend({
+  unread: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+export type PageQuery<S extends string = string> = { cursor?: string; limit: number; sort: S };
+export type JobPostingPageQuery = z.infer<typeof jobPostingPageQuerySchema>;
+export type ProfessionalProfilePageQuery = z.infer<typeof professionalProfilePageQuerySchema>;
+export type ResourcePageQuery = z.infer<typeof resourcePageQuerySchema>;
+export type ForumPostPageQuery = z.infer<typeof forumPostPageQuerySchema>;
+export type UserPageQuery = z.infer<typeof userPageQuerySchema>;
+export type NotificationPageQuery = z.infer<typeof notificationPageQuerySchema>;
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import type { AdminEntity } from "./admin";
+
+// Staff roles and what each may do. The server checks permissions with requirePermission and
+// the policy in server/access-policy.ts; the client uses the same table to hide what a role
+// cannot use.
+
+export const ROLES = ["super_admin", "content_moderator", "finance_operator", "support_agent"] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super admin",
+  content_moderator: "Content moderator",
+  finance_operator: "Finance and escrow operator",
+  support_agent: "Support agent",
+};
+
+export const PERMISSIONS = [
+  "admin.access", // the admin console, its metrics and email templates
+  "users.view", // any user's account, profile and consultations
+  "users.manage", // edit and suspend accounts, and edit their profiles
+  "users.delete", // delete accounts and profiles
+  "roles.assign",
+  "profiles.verify", // verify and feature profiles
+  "content.moderate", // job postings, resources, forum posts, reviews, expertise, page contents and user reports
+  "escrow.view", // any escrow transaction and dispute, and the admin escrow queues
+  "escrow.release", // release escrowed funds and approve milestones for a company
+  "escrow.refund", // resolve disputes and refund payments, which returns funds to the company
+  "subscriptions.view",
+  "audit.view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  content_moderator: ["admin.access", "users.view", "profiles.verify", "content.moderate"],
+  finance_operator: ["admin.access", "users.view", "escrow.view", "escrow.release", "escrow.refund", "subscriptions.view"],
+  support_agent: ["admin.access", "users.view", "users.manage", "escrow.view", "subscriptions.view"],
+};
+
+// The parts of a user the policy reads
+export interface RoleHolder {
+  isAdmin: boolean;
+  roles?: Role[] | null;
+}
+
+// Admins made before roles existed have no roles and keep full access
+export function getRoles(user: RoleHolder | null | undefined): Role[] {
+  if (!user) return [];
+  if (user.roles && user.roles.length > 0) return user.roles;
+  return user.isAdmin ? ["super_admin"] : [];
+}
+
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return getRoles(user).some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+// The permission each admin bulk action needs
+export function bulkActionPermission(entity: AdminEntity, action: string): Permission {
+  if (action === "delete" && (entity === "users" || entity === "professionalProfiles" || entity === "companyProfiles")) {
+    return "users.delete";
+  }
+  switch (entity) {
+    case "users":
+      return "users.manage";
+    case "professionalProfiles":
+    case "companyProfiles":
+      return "profiles.verify";
+    default:
+      return "content.moderate";
+  }
+}
+
+// An empty list takes away admin access
+export const userRolesSchema = z.object({
+  roles: z.array(z.enum(ROLES)).max(ROLES.length),
+});
@@ -1,6 +1,33 @@
-import { pgTable, text, serial, integer, timestamp, boolean, unique, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, unique, jsonb, index, real, vector } from "drizzle-orm/pg-core";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import type { AnyColumn, SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { MatchFactorScore } from "./match-score";
+import type { AuditChanges, AuditTargetType } from "./audit-log";
+import type { ModerationHistoryAction, ReportReason, ReportStatus, ReportTargetType } from "./moderation";
+import { ROLES, type Role } from "./permissions";
+
+// Full-text search documents, weighted A (most important) to D. The GIN indexes below are built
+// on these expressions and the search queries use the same ones, so Postgres can use the indexes.
+const weighted = (column: AnyColumn, weight: "A" | "B" | "C" | "D") =>
+  sql`setweight(to_tsvector('english', coalesce(${column}, '')), ${sql.raw(`'${weight}'`)})`;
+
+export function jobPostingSearchDocument(table: { title: AnyColumn; requirements: AnyColumn; description: AnyColumn; location: AnyColumn }): SQL {
+  return sql`(${weighted(table.title, "A")} || ${weighted(table.requirements, "B")} || ${weighted(table.description, "C")} || ${weighted(table.location, "D")})`;
+}
+
+export function professionalProfileSearchDocument(table: {
+  firstName: AnyColumn; lastName: AnyColumn; title: AnyColumn; services: AnyColumn; interests: AnyColumn;
+  industryFocus: AnyColumn; bio: AnyColumn; location: AnyColumn;
+}): SQL {
+  return sql`(${weighted(table.firstName, "A")} || ${weighted(table.lastName, "A")} || ${weighted(table.title, "A")} || ${weighted(table.services, "B")} || ${weighted(table.interests, "B")} || ${weighted(table.industryFocus, "B")} || ${weighted(table.bio, "C")} || ${weighted(table.location, "D")})`;
+}
+
+export function resourceSearchDocument(table: { title: AnyColumn; description: AnyColumn }): SQL {
+  return sql`(${weighted(table.title, "A")} || ${weighted(table.description, "B")})`;
+}
 
 
 // User table (for both L&D pros and companies)
@@ -13,6 +40,8 @@ export const users = pgTable("users", {
   lastName: text("last_name").notNull(),
   userType: text("user_type").notNull(), // "professional", "company", or "admin"
   isAdmin: boolean("is_admin").default(false).notNull(),
+  // Staff roles; see shared/permissions.ts. isAdmin is set while the user has any.
+  roles: text("roles").array().$type<Role[]>().notNull().default(sql`'{}'::text[]`),
   isEmailVerified: boolean("is_email_verified").default(false).notNull(),
   emailVerificationToken: text("email_verification_token"),
   status: text("status").notNull().default("pending"),
@@ -45,7 +74,9 @@ export const authTokens = pgTable("auth_tokens", {
   isRevoked: boolean("is_revoked").default(false).notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  roles: z.array(z.enum(ROLES)).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -87,10 +118,16 @@ export const professionalProfiles = pgTable("professional_profiles", {
   workExperience: jsonb("work_experience"), // Work experience as JSON array
   testimonials: jsonb("testimonials"), // Client testimonials as JSON array
   verified: boolean("verified").default(false), // Whether profile has been verified by admin
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
+}, (table) => {
+  return {
+    searchIdx: index("professional_profiles_search_idx").using("gin", professionalProfileSearchDocument(table)),
+  };
 });
 
 export const insertProfessionalProfileSchema = createInsertSchema(professionalProfiles).omit({
   id: true,
+  hidden: true,
 });
 
 // Professional Expertise
@@ -145,10 +182,12 @@ export const companyProfiles = pgTable("company_profiles", {
   location: text("location").notNull(),
   featured: boolean("featured").default(false),
   verified: boolean("verified").default(false),
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
 });
 
 export const insertCompanyProfileSchema = createInsertSchema(companyProfiles).omit({
   id: true,
+  hidden: true,
 });
 
 // Job Postings
@@ -171,6 +210,10 @@ export const jobPostings = pgTable("job_postings", {
   expiresAt: timestamp("expires_at"),
   archived: boolean("archived").default(false),
   status: text("status").notNull().default("open"), // "open", "closed", "filled"
+}, (table) => {
+  return {
+    searchIdx: index("job_postings_search_idx").using("gin", jobPostingSearchDocument(table)),
+  };
 });
 
 export const insertJobPostingSchema = createInsertSchema(jobPostings).omit({
@@ -193,6 +236,7 @@ export const jobApplications = pgTable("job_applications", {
   professionalId: integer("professional_id").notNull().references(() => professionalProfiles.id),
   coverLetter: text("cover_letter").notNull(),
   status: text("status").notNull().default("pending"), // "pending", "reviewed", "accepted", "rejected"
+  stageId: integer("stage_id").references(() => pipelineStages.id), // null = the company's first pipeline stage
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
   return {
@@ -202,6 +246,7 @@ export const jobApplications = pgTable("job_applications", {
 
 export const insertJobApplicationSchema = createInsertSchema(jobApplications).omit({
   id: true,
+  stageId: true,
   createdAt: true,
 });
 
@@ -229,11 +274,17 @@ export const resources = pgTable("resources", {
   categoryId: integer("category_id").references(() => resourceCategories.id),
   imageUrl: text("image_url"),
   featured: boolean("featured").default(false),
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    searchIdx: index("resources_search_idx").using("gin", resourceSearchDocument(table)),
+  };
 });
 export const insertResourceSchema = createInsertSchema(resources).omit({
   id: true,
   createdAt: true,
+  hidden: true,
 }).extend({
   title: z.string().min(3, "Title must be at least 3 characters").max(100),
   description: z.string().min(10, "Description must be at least 10 characters"),
@@ -247,41 +298,151 @@ export const insertResourceSchema = createInsertSchema(resources).omit({
   imageUrl: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
 });
 
+// Forum Categories
+export const forumCategories = pgTable("forum_categories", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  position: integer("position").default(0).notNull(), // Order in the forum's category list
+});
+
+export type ForumCategory = typeof forumCategories.$inferSelect;
+
 // Forum Posts
 export const forumPosts = pgTable("forum_posts", {
   id: serial("id").primaryKey(),
   authorId: integer("author_id").notNull().references(() => users.id),
+  categoryId: integer("category_id").references(() => forumCategories.id, { onDelete: "set null" }),
   title: text("title").notNull(),
-  contentUrl: text("contentUrl").notNull(),
+  body: text("contentUrl").notNull(), // Markdown; the column keeps the name it had before posts had bodies
+  tags: text("tags").array().$type<string[]>().notNull().default(sql`'{}'::text[]`),
+  pinned: boolean("pinned").default(false).notNull(),
+  locked: boolean("locked").default(false).notNull(), // Locked threads take no new replies
+  // Counts kept up to date as replies, votes and views come in, for sorting
+  voteCount: integer("vote_count").default(0).notNull(),
+  replyCount: integer("reply_count").default(0).notNull(),
+  viewCount: integer("view_count").default(0).notNull(),
+  acceptedReplyId: integer("accepted_reply_id"), // The reply the author marked as the answer
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"), // Set when the author edits the post
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    categoryIdx: index("forum_posts_category_idx").on(table.categoryId),
+    tagsIdx: index("forum_posts_tags_idx").using("gin", table.tags),
+  };
 });
 
-export const insertForumPostSchema = createInsertSchema(forumPosts).omit({
+export const insertForumPostSchema = createInsertSchema(forumPosts, {
+  tags: z.array(z.string()).optional(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  lastActivityAt: true,
+  pinned: true,
+  locked: true,
+  voteCount: true,
+  replyCount: true,
+  viewCount: true,
+  acceptedReplyId: true,
+  hidden: true,
 });
 
-// Forum Comments
+// Forum Comments: the replies to a post, nested under the reply they answer
 export const forumComments = pgTable("forum_comments", {
   id: serial("id").primaryKey(),
   postId: integer("post_id").notNull().references(() => forumPosts.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => forumComments.id, { onDelete: "cascade" }),
   authorId: integer("author_id").notNull().references(() => users.id),
-  content: text("content").notNull(),
+  content: text("content").notNull(), // Markdown
+  voteCount: integer("vote_count").default(0).notNull(),
+  // Deleted replies keep their place in the thread, without their content
+  deleted: boolean("deleted").default(false).notNull(),
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+}, (table) => {
+  return {
+    postIdx: index("forum_comments_post_idx").on(table.postId),
+  };
 });
 
 export const insertForumCommentSchema = createInsertSchema(forumComments).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  voteCount: true,
+  deleted: true,
+  hidden: true,
+});
+
+// Upvotes on posts and replies; each vote is on exactly one of them
+export const forumVotes = pgTable("forum_votes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  postId: integer("post_id").references(() => forumPosts.id, { onDelete: "cascade" }),
+  commentId: integer("comment_id").references(() => forumComments.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    postVote: unique().on(table.userId, table.postId),
+    commentVote: unique().on(table.userId, table.commentId),
+  };
+});
+
+// Who has viewed a thread, so each signed-in reader counts once
+export const forumPostViews = pgTable("forum_post_views", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull().references(() => forumPosts.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.postId, table.userId),
+  };
+});
+
+// Conversations (message threads, optionally tied to a job posting or consultation)
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  subject: text("subject"),
+  jobPostingId: integer("job_posting_id").references(() => jobPostings.id),
+  consultationId: integer("consultation_id").references(() => consultations.id),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  lastMessageAt: true,
+});
+
+// Conversation Participants
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  joinedAt: timestamp("joined_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.conversationId, table.userId),
+  }
 });
 
 // Messages
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id),
   senderId: integer("sender_id").notNull().references(() => users.id),
   receiverId: integer("receiver_id").notNull().references(() => users.id),
   content: text("content").notNull(),
   read: boolean("read").default(false),
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -289,6 +450,23 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   createdAt: true,
   read: true,
+  hidden: true,
+});
+
+// Message Attachments (files uploaded with a message)
+export const messageAttachments = pgTable("message_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  fileName: text("file_name").notNull(), // Original file name shown to users
+  filePath: text("file_path").notNull(), // Path on disk, never exposed directly
+  mimeType: text("mime_type"),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMessageAttachmentSchema = createInsertSchema(messageAttachments).omit({
+  id: true,
+  createdAt: true,
 });
 
 // Consultations
@@ -309,6 +487,49 @@ export const insertConsultationSchema = createInsertSchema(consultations).omit({
   createdAt: true,
 });
 
+// Consultation availability: a timezone per professional, weekly rules expressed
+// as local wall-clock times in that timezone, and whole-day blackout dates
+export const availabilitySettings = pgTable("availability_settings", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionalProfiles.id).unique(),
+  timezone: text("timezone").notNull().default("UTC"), // IANA name, e.g. "Asia/Dubai"
+  minNoticeHours: integer("min_notice_hours").notNull().default(24),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAvailabilitySettingsSchema = createInsertSchema(availabilitySettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const availabilityRules = pgTable("availability_rules", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionalProfiles.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: text("start_time").notNull(), // "HH:mm" local time
+  endTime: text("end_time").notNull(), // "HH:mm" local time, after startTime
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAvailabilityRuleSchema = createInsertSchema(availabilityRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const availabilityBlackouts = pgTable("availability_blackouts", {
+  id: serial("id").primaryKey(),
+  professionalId: integer("professional_id").notNull().references(() => professionalProfiles.id),
+  startDate: text("start_date").notNull(), // "YYYY-MM-DD" local date, inclusive
+  endDate: text("end_date").notNull(), // "YYYY-MM-DD" local date, inclusive
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAvailabilityBlackoutSchema = createInsertSchema(availabilityBlackouts).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -349,9 +570,43 @@ export type InsertForumComment = z.infer<typeof insertForumCommentSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+export type InsertMessageAttachment = z.infer<typeof insertMessageAttachmentSchema>;
+
+export type MessageWithAttachments = Message & { attachments: MessageAttachment[] };
+
+// Conversation list entry with last-message preview and unread count for one user. inboxUserId is
+// the participant the list was built for: the user, or their company's owner for a teammate.
+export type ConversationSummary = Conversation & {
+  participantIds: number[];
+  lastMessage: Message | null;
+  unreadCount: number;
+  inboxUserId?: number;
+};
+
 export type Consultation = typeof consultations.$inferSelect;
 export type InsertConsultation = z.infer<typeof insertConsultationSchema>;
 
+export type AvailabilitySettings = typeof availabilitySettings.$inferSelect;
+export type InsertAvailabilitySettings = z.infer<typeof insertAvailabilitySettingsSchema>;
+
+export type AvailabilityRule = typeof availabilityRules.$inferSelect;
+export type InsertAvailabilityRule = z.infer<typeof insertAvailabilityRuleSchema>;
+
+export type AvailabilityBlackout = typeof availabilityBlackouts.$inferSelect;
+export type InsertAvailabilityBlackout = z.infer<typeof insertAvailabilityBlackoutSchema>;
+
+// A bookable consultation slot, as UTC instants
+export type AvailabilitySlot = {
+  startTime: string;
+  endTime: string;
+};
+
 // Skill Recommendations
 export const skillRecommendations = pgTable("skill_recommendations", {
   id: serial("id").primaryKey(),
@@ -399,12 +654,14 @@ export const reviews = pgTable("reviews", {
   rating: integer("rating").notNull(), // 1-5 star rating
   comment: text("comment"),
   isPublic: boolean("is_public").default(true),
+  hidden: boolean("hidden").default(false).notNull(), // Hidden by moderation; only the owner and moderators see it
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertReviewSchema = createInsertSchema(reviews).omit({
   id: true,
   createdAt: true,
+  hidden: true,
 });
 
 export type Review = typeof reviews.$inferSelect;
@@ -432,6 +689,8 @@ export const notifications = pgTable("notifications", {
   message: text("message").notNull(),
   link: text("link"),
   read: boolean("read").default(false),
+  // Set once the notification went out by email, on its own or in a digest
+  emailedAt: timestamp("emailed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -439,18 +698,25 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
   read: true,
+  emailedAt: true,
 });
 
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+// How a notification type reaches the user's inbox: its own email, a daily or weekly digest, or not at all
+export const NOTIFICATION_EMAIL_FREQUENCIES = ["immediate", "daily", "weekly", "off"] as const;
+export type NotificationEmailFrequency = typeof NOTIFICATION_EMAIL_FREQUENCIES[number];
+
 // User Notification Preferences
 export const notificationPreferences = pgTable("notification_preferences", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   typeId: integer("type_id").notNull().references(() => notificationTypes.id),
+  // Kept in sync with emailFrequency: false exactly when the frequency is "off"
   email: boolean("email").default(true),
   inApp: boolean("in_app").default(true),
+  emailFrequency: text("email_frequency", { enum: NOTIFICATION_EMAIL_FREQUENCIES }).notNull().default("immediate"),
 }, (table) => {
   return {
     unq: unique().on(table.userId, table.typeId),
@@ -464,6 +730,22 @@ export const insertNotificationPreferenceSchema = createInsertSchema(notificatio
 export type NotificationPreference = typeof notificationPreferences.$inferSelect;
 export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
 
+export const updateNotificationSettingSchema = z.object({
+  emailFrequency: z.enum(NOTIFICATION_EMAIL_FREQUENCIES).optional(),
+  inApp: z.boolean().optional(),
+});
+
+// One row per digest email sent, which also tells the scheduler when a user's next digest is due
+export const notificationDigests = pgTable("notification_digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  frequency: text("frequency", { enum: ["daily", "weekly"] }).notNull(),
+  notificationCount: integer("notification_count").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+});
+
+export type NotificationDigest = typeof notificationDigests.$inferSelect;
+
 // Escrow Payment System Tables
 export const escrowTransactions = pgTable("escrow_transactions", {
   id: serial("id").primaryKey(),
@@ -517,6 +799,112 @@ export const insertEscrowTransactionSchema = createInsertSchema(escrowTransactio
 export type EscrowTransaction = typeof escrowTransactions.$inferSelect;
 export type InsertEscrowTransaction = z.infer<typeof insertEscrowTransactionSchema>;
 
+// Escrow milestones: an escrow contract paid in ordered phases, each released separately
+export const escrowMilestones = pgTable("escrow_milestones", {
+  id: serial("id").primaryKey(),
+  escrowTransactionId: integer("escrow_transaction_id").notNull().references(() => escrowTransactions.id),
+  position: integer("position").notNull(), // 1-based order within the contract
+  title: text("title").notNull(),
+  deliverable: text("deliverable").notNull(), // What must be delivered for approval
+  amount: integer("amount").notNull(), // Amount in cents
+  platformCommissionAmount: integer("platform_commission_amount").notNull(),
+  trainerPayoutAmount: integer("trainer_payout_amount").notNull(),
+  dueDate: timestamp("due_date"),
+
+  status: text("status", {
+    enum: ["pending", "submitted", "approved", "released", "refunded", "cancelled"]
+  }).notNull().default("pending"),
+
+  // Submission and approval
+  submissionNote: text("submission_note"),
+  submittedAt: timestamp("submitted_at"),
+  feedback: text("feedback"), // Reason given when changes are requested
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+
+  // Partial release
+  stripeTransferId: text("stripe_transfer_id"),
+  releasedAt: timestamp("released_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.escrowTransactionId, table.position),
+  };
+});
+
+export const insertEscrowMilestoneSchema = createInsertSchema(escrowMilestones).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type EscrowMilestone = typeof escrowMilestones.$inferSelect;
+export type InsertEscrowMilestone = z.infer<typeof insertEscrowMilestoneSchema>;
+
+// Escrow disputes: one row per dispute raised on a transaction. The transaction's
+// dispute* columns mirror the latest dispute so existing escrow checks keep working.
+export const escrowDisputes = pgTable("escrow_disputes", {
+  id: serial("id").primaryKey(),
+  escrowTransactionId: integer("escrow_transaction_id").notNull().references(() => escrowTransactions.id),
+  openedBy: integer("opened_by").notNull().references(() => users.id),
+  respondentId: integer("respondent_id").notNull().references(() => users.id),
+
+  status: text("status", {
+    enum: ["opened", "awaiting_response", "under_review", "resolved_release", "resolved_refund", "resolved_split"]
+  }).notNull().default("opened"),
+
+  reason: text("reason").notNull(),
+  details: text("details").notNull(),
+
+  // Respondent's side
+  response: text("response"),
+  respondedAt: timestamp("responded_at"),
+  responseDeadline: timestamp("response_deadline").notNull(),
+  evidenceDeadline: timestamp("evidence_deadline").notNull(), // Last moment either party can add evidence
+
+  // Arbitration
+  resolutionNote: text("resolution_note"),
+  refundAmount: integer("refund_amount"), // Cents returned to the company
+  releaseAmount: integer("release_amount"), // Cents paid to the trainer before commission
+  stripeRefundId: text("stripe_refund_id"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEscrowDisputeSchema = createInsertSchema(escrowDisputes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type EscrowDispute = typeof escrowDisputes.$inferSelect;
+export type InsertEscrowDispute = z.infer<typeof insertEscrowDisputeSchema>;
+
+export const escrowDisputeEvidence = pgTable("escrow_dispute_evidence", {
+  id: serial("id").primaryKey(),
+  disputeId: integer("dispute_id").notNull().references(() => escrowDisputes.id),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  description: text("description"),
+  fileName: text("file_name").notNull(), // Original file name shown to users
+  filePath: text("file_path").notNull(), // Path on disk, never exposed directly
+  mimeType: text("mime_type"),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEscrowDisputeEvidenceSchema = createInsertSchema(escrowDisputeEvidence).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EscrowDisputeEvidence = typeof escrowDisputeEvidence.$inferSelect;
+export type InsertEscrowDisputeEvidence = z.infer<typeof insertEscrowDisputeEvidenceSchema>;
+
 // Payment Methods table for storing customer payment methods
 export const paymentMethods = pgTable("payment_methods", {
   id: serial("id").primaryKey(),
@@ -560,6 +948,87 @@ export const insertTransactionHistorySchema = createInsertSchema(transactionHist
 export type TransactionHistory = typeof transactionHistory.$inferSelect;
 export type InsertTransactionHistory = z.infer<typeof insertTransactionHistorySchema>;
 
+// Append-only record of admin requests; nothing updates or deletes these rows. The actor is not a
+// foreign key, and their username is copied in, so entries outlive the admin's account.
+export const adminAuditLogs = pgTable("admin_audit_logs", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").notNull(),
+  actorUsername: text("actor_username").notNull(),
+  action: text("action").notNull(), // Method and route, e.g. "DELETE /api/admin/users/:id/cascade"
+  targetType: text("target_type").$type<AuditTargetType>(),
+  targetId: integer("target_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  requestBody: jsonb("request_body"),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    createdAtIdx: index("admin_audit_logs_created_at_idx").on(table.createdAt),
+    actorIdx: index("admin_audit_logs_actor_idx").on(table.actorId),
+    targetIdx: index("admin_audit_logs_target_idx").on(table.targetType, table.targetId),
+  };
+});
+
+export const insertAdminAuditLogSchema = createInsertSchema(adminAuditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
+export type InsertAdminAuditLog = z.infer<typeof insertAdminAuditLogSchema>;
+
+// User reports of content. A user reports a target once; reports stay open until a moderator
+// acts on the target, which resolves all of its open reports together.
+export const contentReports = pgTable("content_reports", {
+  id: serial("id").primaryKey(),
+  targetType: text("target_type").$type<ReportTargetType>().notNull(),
+  targetId: integer("target_id").notNull(),
+  reporterId: integer("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reason: text("reason").$type<ReportReason>().notNull(),
+  details: text("details"),
+  status: text("status").$type<ReportStatus>().default("open").notNull(),
+  resolvedBy: integer("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.targetType, table.targetId, table.reporterId),
+    targetIdx: index("content_reports_target_idx").on(table.targetType, table.targetId),
+    statusIdx: index("content_reports_status_idx").on(table.status),
+  };
+});
+
+export const insertContentReportSchema = createInsertSchema(contentReports).omit({
+  id: true,
+  status: true,
+  resolvedBy: true,
+  resolvedAt: true,
+  createdAt: true,
+});
+
+export type ContentReport = typeof contentReports.$inferSelect;
+export type InsertContentReport = z.infer<typeof insertContentReportSchema>;
+
+// What moderators did to reported content, newest last. moderatorId is null for automatic hides.
+export const moderationActions = pgTable("moderation_actions", {
+  id: serial("id").primaryKey(),
+  targetType: text("target_type").$type<ReportTargetType>().notNull(),
+  targetId: integer("target_id").notNull(),
+  action: text("action").$type<ModerationHistoryAction>().notNull(),
+  moderatorId: integer("moderator_id").references(() => users.id, { onDelete: "set null" }),
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    targetIdx: index("moderation_actions_target_idx").on(table.targetType, table.targetId),
+  };
+});
+
+export type ModerationActionRecord = typeof moderationActions.$inferSelect;
+
 // Subscription Plans table
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: serial("id").primaryKey(),
@@ -671,6 +1140,236 @@ export const insertSubscriptionInvoiceSchema = createInsertSchema(subscriptionIn
 export type SubscriptionInvoice = typeof subscriptionInvoices.$inferSelect;
 export type InsertSubscriptionInvoice = z.infer<typeof insertSubscriptionInvoiceSchema>;
 
+// Plan usage per user, metric and usage period. Periods are monthly windows anchored at the
+// subscription's currentPeriodStart (or at the calendar month for users on the free plan).
+export const usageCounters = pgTable("usage_counters", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  metric: text("metric", {
+    enum: ["jobApplications", "jobPostings", "resourceDownloads", "contacts"]
+  }).notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  count: integer("count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.userId, table.metric, table.periodStart),
+  };
+});
+
+export type UsageCounter = typeof usageCounters.$inferSelect;
+export type UsageMetric = UsageCounter["metric"];
+
+// Company teams. The user owning the company profile is the implicit owner; teammates get a
+// membership row and can belong to a single company.
+export const companyTeamMembers = pgTable("company_team_members", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companyProfiles.id),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  role: text("role", { enum: ["admin", "recruiter", "viewer"] }).notNull(),
+  invitedBy: integer("invited_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.companyId, table.userId),
+  };
+});
+
+export const companyInvitations = pgTable("company_invitations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companyProfiles.id),
+  email: text("email").notNull(),
+  role: text("role", { enum: ["admin", "recruiter", "viewer"] }).notNull(),
+  token: text("token").notNull().unique(),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  status: text("status", { enum: ["pending", "accepted", "revoked"] }).notNull().default("pending"),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: integer("accepted_by").references(() => users.id),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCompanyInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(["admin", "recruiter", "viewer"]),
+});
+
+export type CompanyTeamMember = typeof companyTeamMembers.$inferSelect;
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
+export type InsertCompanyInvitation = z.infer<typeof insertCompanyInvitationSchema>;
+export type CompanyTeamRole = "owner" | CompanyTeamMember["role"];
+
+// Applicant tracking. Each company orders its own pipeline stages; a stage's status is the
+// jobApplications.status candidates see while their application sits in it.
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companyProfiles.id),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  status: text("status", { enum: ["pending", "reviewed", "accepted", "rejected"] }).notNull().default("reviewed"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.companyId, table.name),
+  };
+});
+
+export const insertPipelineStageSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  status: z.enum(["pending", "reviewed", "accepted", "rejected"]).default("reviewed"),
+});
+
+// Stage names are copied into each entry so the history still reads right after a stage is
+// renamed or deleted
+export const applicationStageHistory = pgTable("application_stage_history", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => jobApplications.id),
+  fromStageId: integer("from_stage_id").references(() => pipelineStages.id, { onDelete: "set null" }),
+  fromStageName: text("from_stage_name"),
+  toStageId: integer("to_stage_id").references(() => pipelineStages.id, { onDelete: "set null" }),
+  toStageName: text("to_stage_name").notNull(),
+  movedBy: integer("moved_by").notNull().references(() => users.id),
+  movedAt: timestamp("moved_at").defaultNow().notNull(),
+});
+
+// Reviewer notes and scorecards are private to the hiring company's team
+export const applicationNotes = pgTable("application_notes", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => jobApplications.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApplicationNoteSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+});
+
+// One scorecard per reviewer and application: an overall 1-5 rating, optional 1-5 ratings per
+// criterion and a comment
+export const applicationScorecards = pgTable("application_scorecards", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => jobApplications.id),
+  reviewerId: integer("reviewer_id").notNull().references(() => users.id),
+  overallRating: integer("overall_rating").notNull(),
+  criteria: jsonb("criteria").$type<Record<string, number>>().notNull().default({}),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.applicationId, table.reviewerId),
+  };
+});
+
+const scorecardRating = z.number().int().min(1).max(5);
+
+export const insertApplicationScorecardSchema = z.object({
+  overallRating: scorecardRating,
+  criteria: z.record(z.string().trim().min(1).max(50), scorecardRating).default({}),
+  comment: z.string().trim().max(2000).optional(),
+});
+
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type ApplicationStageHistory = typeof applicationStageHistory.$inferSelect;
+export type ApplicationNote = typeof applicationNotes.$inferSelect;
+export type ApplicationScorecard = typeof applicationScorecards.$inferSelect;
+export type InsertApplicationScorecard = z.infer<typeof insertApplicationScorecardSchema>;
+
+// Saved job searches. Criteria mirror the jobs page filters; while alerts are on, new job postings
+// that match notify the owner (see shared/job-search.ts for what "match" means).
+export const JOB_TYPES = ["full-time", "part-time", "contract", "freelance"] as const;
+
+export const jobSearchCriteriaSchema = z.object({
+  keywords: z.string().trim().max(200).optional(),
+  location: z.string().trim().max(100).optional(),
+  remote: z.boolean().optional(),
+  jobType: z.enum(JOB_TYPES).optional(),
+  minCompensation: z.number().int().nonnegative().optional(),
+  maxCompensation: z.number().int().nonnegative().optional(),
+  expertiseIds: z.array(z.number().int().positive()).max(20).optional(),
+});
+
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").$type<JobSearchCriteria>().notNull(),
+  alertsEnabled: boolean("alerts_enabled").notNull().default(true),
+  lastAlertedAt: timestamp("last_alerted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  criteria: jobSearchCriteriaSchema,
+  alertsEnabled: z.boolean().default(true),
+});
+
+// Jobs a saved search has alerted about, so each job is announced once per search
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  id: serial("id").primaryKey(),
+  savedSearchId: integer("saved_search_id").notNull().references(() => savedSearches.id, { onDelete: "cascade" }),
+  jobPostingId: integer("job_posting_id").notNull().references(() => jobPostings.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.savedSearchId, table.jobPostingId),
+  };
+});
+
+export type JobSearchCriteria = z.infer<typeof jobSearchCriteriaSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+
+// AI matching. One embedding per profile and per job, recomputed only when the hash of the text
+// it was made from changes. Needs the pgvector extension (CREATE EXTENSION vector) for the
+// column type and the nearest-neighbour index.
+export const EMBEDDING_DIMENSIONS = 768;
+export const EMBEDDING_ENTITY_TYPES = ["professional_profile", "job_posting"] as const;
+
+export const embeddings = pgTable("embeddings", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").$type<EmbeddingEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  contentHash: text("content_hash").notNull(),
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.entityType, table.entityId),
+    embeddingIdx: index("embeddings_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  };
+});
+
+// Scores saved by saveJobMatches, with the per-factor breakdown behind each. sourceHash combines
+// the content hashes of the job and the profile the score was computed from.
+export const jobMatches = pgTable("job_matches", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobPostings.id, { onDelete: "cascade" }),
+  professionalId: integer("professional_id").notNull().references(() => professionalProfiles.id, { onDelete: "cascade" }),
+  score: real("score").notNull(),
+  breakdown: jsonb("breakdown").$type<MatchFactorScore[]>().notNull().default([]),
+  sourceHash: text("source_hash"),
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.jobId, table.professionalId),
+    professionalIdx: index("job_matches_professional_idx").on(table.professionalId),
+  };
+});
+
+export type EmbeddingEntityType = typeof EMBEDDING_ENTITY_TYPES[number];
+export type Embedding = typeof embeddings.$inferSelect;
+export type JobMatch = typeof jobMatches.$inferSelect;
+export type InsertJobMatch = Omit<typeof jobMatches.$inferInsert, "id" | "computedAt">;
+
 // Auth token types
 export type AuthToken = typeof authTokens.$inferSelect;
 export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
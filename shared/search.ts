@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { JOB_TYPES } from "./schema";
+import type { JobPosting, ProfessionalProfile, Resource } from "./schema";
+
+// Query strings for GET /api/search/{jobs,professionals,resources}. Every list of ids is
+// comma-separated; filters left out do not restrict the results.
+
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+// Shared buckets for the rate facets: hourly rates for professionals, compensation for jobs
+export const RATE_RANGES = [
+  { value: "0-49", label: "Under $50", min: 0, max: 49 },
+  { value: "50-99", label: "$50 - $99", min: 50, max: 99 },
+  { value: "100-199", label: "$100 - $199", min: 100, max: 199 },
+  { value: "200-499", label: "$200 - $499", min: 200, max: 499 },
+  { value: "500-", label: "$500 and up", min: 500, max: undefined },
+] as const;
+
+export const EXPERIENCE_LEVELS = {
+  junior: { label: "Junior (0-2 years)", min: 0, max: 2 },
+  "mid-level": { label: "Mid Level (3-5 years)", min: 3, max: 5 },
+  senior: { label: "Senior (6-8 years)", min: 6, max: 8 },
+  expert: { label: "Expert (9+ years)", min: 9, max: undefined },
+} as const;
+
+const queryBoolean = z.enum(["true", "false"]).transform(value => value === "true");
+
+const queryIds = z.preprocess(
+  value => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+  z.array(z.coerce.number().int().positive()).max(20)
+);
+
+const queryAmount = z.coerce.number().int().nonnegative();
+
+const searchBase = {
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(20),
+};
+
+export const jobSearchQuerySchema = z.object({
+  ...searchBase,
+  location: z.string().trim().max(100).optional(),
+  jobType: z.enum(JOB_TYPES).optional(),
+  remote: queryBoolean.optional(),
+  expertise: queryIds.optional(),
+  minCompensation: queryAmount.optional(),
+  maxCompensation: queryAmount.optional(),
+  sort: z.enum(["relevance", "newest"]).default("relevance"),
+});
+
+export const professionalSearchQuerySchema = z.object({
+  ...searchBase,
+  location: z.string().trim().max(100).optional(),
+  industry: queryIds.optional(),
+  expertise: queryIds.optional(),
+  minRate: queryAmount.optional(),
+  maxRate: queryAmount.optional(),
+  experience: z.enum(Object.keys(EXPERIENCE_LEVELS) as [keyof typeof EXPERIENCE_LEVELS]).optional(),
+  sort: z.enum(["relevance", "rating", "rate"]).default("relevance"),
+});
+
+export const resourceSearchQuerySchema = z.object({
+  ...searchBase,
+  resourceType: z.string().trim().toLowerCase().max(50).optional(),
+  category: queryIds.optional(),
+  sort: z.enum(["relevance", "newest"]).default("relevance"),
+});
+
+export type JobSearchQuery = z.infer<typeof jobSearchQuerySchema>;
+export type ProfessionalSearchQuery = z.infer<typeof professionalSearchQuerySchema>;
+export type ResourceSearchQuery = z.infer<typeof resourceSearchQuerySchema>;
+
+export interface SearchFacetBucket {
+  value: string;
+  label: string;
+  count: number;
+}
+
+// Each facet counts the results of the other filters, so picking one value in a facet still
+// shows how many results the facet's other values would give
+export interface SearchResult<T, F extends string> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: Record<F, SearchFacetBucket[]>;
+}
+
+export type JobSearchFacet = "location" | "jobType" | "remote" | "expertise" | "rateRange";
+export type ProfessionalSearchFacet = "location" | "industry" | "expertise" | "rateRange";
+export type ResourceSearchFacet = "resourceType" | "category";
+
+export type JobSearchResult = SearchResult<JobPosting, JobSearchFacet>;
+export type ProfessionalSearchResult = SearchResult<ProfessionalProfile, ProfessionalSearchFacet>;
+export type ResourceSearchResult = SearchResult<Resource, ResourceSearchFacet>;
+
+// Whether [min, max] overlaps the searched range; a missing bound is open
+export function rangeOverlaps(
+  min: number | null | undefined,
+  max: number | null | undefined,
+  from: number | undefined,
+  to: number | undefined
+): boolean {
+  const low = min ?? max;
+  const high = max ?? min;
+  if (low == null || high == null) return from === undefined && to === undefined;
+  return (from === undefined || high >= from) && (to === undefined || low <= to);
+}
+
+// Turns a search query back into a query string, leaving out defaults
+export function toSearchParams(query: Record<string, string | number | boolean | number[] | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([name, value]) => {
+    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) return;
+    params.set(name, Array.isArray(value) ? value.join(",") : String(value));
+  });
+  return params;
+}